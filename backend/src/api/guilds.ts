@@ -96,7 +96,7 @@ export function initGuildsAPI(app: express.Express) {
       parsedConfig = {};
     }
 
-    const error = await validateGuildConfig(parsedConfig);
+    const error = await validateGuildConfig(parsedConfig, req.params.guildId);
     if (error) {
       return res.status(422).json({ errors: [error] });
     }
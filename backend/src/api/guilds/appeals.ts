@@ -0,0 +1,80 @@
+import { ApiPermissions } from "@shared/apiPermissions";
+import express, { Request, Response } from "express";
+import { z } from "zod";
+import { CaseAppealStatus } from "../../data/CaseAppealStatus";
+import { GuildCaseAppeals } from "../../data/GuildCaseAppeals";
+import { GuildCases } from "../../data/GuildCases";
+import { CaseAppeal } from "../../data/entities/CaseAppeal";
+import { requireGuildPermission } from "../permissions";
+import { clientError, notFound } from "../responses";
+
+const appealStatusSchema = z.union([z.literal("pending"), z.literal("accepted"), z.literal("denied")]);
+const appealStatusNameToStatus: Record<z.infer<typeof appealStatusSchema>, CaseAppealStatus> = {
+  pending: CaseAppealStatus.Pending,
+  accepted: CaseAppealStatus.Accepted,
+  denied: CaseAppealStatus.Denied,
+};
+
+const appealsPerPage = 50;
+
+function serializeAppeal(appeal: CaseAppeal) {
+  return {
+    id: appeal.id,
+    case_number: appeal.case.case_number,
+    user_id: appeal.user_id,
+    body: appeal.body,
+    status: CaseAppealStatus[appeal.status].toLowerCase(),
+    reviewer_id: appeal.reviewer_id,
+    reviewer_name: appeal.reviewer_name,
+    created_at: appeal.created_at,
+    reviewed_at: appeal.reviewed_at,
+  };
+}
+
+export function initGuildsAppealsAPI(guildRouter: express.Router) {
+  const appealsRouter = express.Router();
+
+  appealsRouter.get(
+    "/:guildId/appeals",
+    requireGuildPermission(ApiPermissions.ViewCases),
+    async (req: Request, res: Response) => {
+      const status = appealStatusSchema.safeParse(req.query.status ?? "pending");
+      if (!status.success) {
+        return clientError(res, "Invalid appeal status");
+      }
+
+      const page = Math.max(1, parseInt(String(req.query.page ?? 1), 10) || 1);
+      const guildAppeals = GuildCaseAppeals.getGuildInstance(req.params.guildId);
+      const appeals = await guildAppeals
+        .with("case")
+        .getByStatus(appealStatusNameToStatus[status.data], appealsPerPage, (page - 1) * appealsPerPage);
+
+      res.json({ appeals: appeals.map(serializeAppeal) });
+    },
+  );
+
+  appealsRouter.get(
+    "/:guildId/cases/:caseNumber/appeal",
+    requireGuildPermission(ApiPermissions.ViewCases),
+    async (req: Request, res: Response) => {
+      const caseNumber = parseInt(req.params.caseNumber, 10);
+      if (Number.isNaN(caseNumber)) {
+        return clientError(res, "Invalid case number");
+      }
+
+      const theCase = await GuildCases.getGuildInstance(req.params.guildId).findByCaseNumber(caseNumber);
+      if (!theCase) {
+        return notFound(res);
+      }
+
+      const appeal = await GuildCaseAppeals.getGuildInstance(req.params.guildId).with("case").findByCaseId(theCase.id);
+      if (!appeal) {
+        return notFound(res);
+      }
+
+      res.json({ appeal: serializeAppeal(appeal) });
+    },
+  );
+
+  guildRouter.use("/", appealsRouter);
+}
@@ -0,0 +1,45 @@
+import { ApiPermissions } from "@shared/apiPermissions";
+import express, { Request, Response } from "express";
+import { GuildArchives } from "../../data/GuildArchives";
+import { requireGuildPermission } from "../permissions";
+import { notFound } from "../responses";
+
+const archivesPerPage = 50;
+
+export function initGuildsArchivesAPI(guildRouter: express.Router) {
+  const archivesRouter = express.Router();
+
+  archivesRouter.get(
+    "/:guildId/archives",
+    requireGuildPermission(ApiPermissions.ViewArchives),
+    async (req: Request, res: Response) => {
+      const page = Math.max(1, parseInt(String(req.query.page ?? 1), 10) || 1);
+      const archives = await GuildArchives.getGuildInstance(req.params.guildId).getList(
+        archivesPerPage,
+        (page - 1) * archivesPerPage,
+      );
+
+      res.json({ archives });
+    },
+  );
+
+  archivesRouter.get(
+    "/:guildId/archives/:archiveId",
+    requireGuildPermission(ApiPermissions.ViewArchives),
+    async (req: Request, res: Response) => {
+      const archive = await GuildArchives.getGuildInstance(req.params.guildId).findInGuild(req.params.archiveId);
+      if (!archive) {
+        return notFound(res);
+      }
+
+      res.json({
+        id: archive.id,
+        body: archive.body,
+        created_at: archive.created_at,
+        expires_at: archive.expires_at,
+      });
+    },
+  );
+
+  guildRouter.use("/", archivesRouter);
+}
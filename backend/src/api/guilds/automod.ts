@@ -0,0 +1,174 @@
+import { ApiPermissions } from "@shared/apiPermissions";
+import express, { Request, Response } from "express";
+import { configUtils } from "knub";
+import moment from "moment-timezone";
+import { z } from "zod";
+import { RegExpRunner } from "../../RegExpRunner";
+import { ConfigLists } from "../../data/ConfigLists";
+import { Configs } from "../../data/Configs";
+import { GuildAutomodHits } from "../../data/GuildAutomodHits";
+import { AutomodPlugin } from "../../plugins/Automod/AutomodPlugin";
+import { HIT_RETENTION_TIME } from "../../plugins/Automod/constants";
+import { testRuleOnText } from "../../plugins/Automod/functions/testRuleOnText";
+import { TConfigSchema as TAutomodConfig } from "../../plugins/Automod/types";
+import { getRegExpRunner } from "../../regExpRunners";
+import { DAYS, DBDateFormat, SECONDS, convertDelayStringToMS } from "../../utils";
+import { expandConfigLists } from "../../utils/configLists";
+import { loadYamlSafely } from "../../utils/loadYamlSafely";
+import { requireGuildPermission } from "../permissions";
+import { rateLimit } from "../rateLimits";
+import { clientError } from "../responses";
+
+const maxTestTextLength = 4000;
+
+const statsQuerySchema = z.object({
+  rule: z.string().max(255).optional(),
+  period: z
+    .string()
+    .refine((value) => {
+      const ms = convertDelayStringToMS(value);
+      return ms != null && ms > 0 && ms <= HIT_RETENTION_TIME;
+    }, "Invalid period")
+    .optional(),
+  interval: z.enum(["hour", "day"]).optional(),
+});
+
+// Group DM invites don't have a guild, so they fail validation and are treated as invalid like in the bot
+const inviteResponseSchema = z.object({
+  guild: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
+});
+
+let regexRunner: RegExpRunner | null = null;
+function getTestRegexRunner(): RegExpRunner {
+  if (!regexRunner) {
+    regexRunner = getRegExpRunner("api-automod-test");
+  }
+  return regexRunner;
+}
+
+/**
+ * The API doesn't have a bot client, so invites are resolved through Discord's public invite endpoint
+ */
+async function resolveInviteGuild(code: string): Promise<{ id: string; name: string } | null> {
+  const response = await fetch(`https://discord.com/api/v10/invites/${encodeURIComponent(code)}`, {
+    signal: AbortSignal.timeout(5 * SECONDS),
+  }).catch(() => null);
+  if (!response?.ok) {
+    return null;
+  }
+
+  const data = inviteResponseSchema.safeParse(await response.json().catch(() => null));
+  return data.success ? { id: data.data.guild.id, name: data.data.guild.name } : null;
+}
+
+export function initGuildsAutomodAPI(guildRouter: express.Router) {
+  const configs = new Configs();
+  const configLists = new ConfigLists();
+  const automodRouter = express.Router();
+
+  automodRouter.post(
+    "/:guildId/automod/test",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    rateLimit((req) => `automod-test-${req.user!.userId}`, 1 * SECONDS, "Too many requests, slow down"),
+    async (req: Request, res: Response) => {
+      const ruleName = req.body.rule;
+      if (typeof ruleName !== "string" || ruleName === "") {
+        return clientError(res, "No rule supplied");
+      }
+
+      const text = req.body.text;
+      if (typeof text !== "string" || text === "") {
+        return clientError(res, "No text supplied");
+      }
+      if (text.length > maxTestTextLength) {
+        return clientError(res, `Text can be at most ${maxTestTextLength} characters long`);
+      }
+
+      const config = await configs.getActiveByKey(`guild-${req.params.guildId}`);
+
+      let automodConfig: TAutomodConfig;
+      try {
+        const guildConfig = config
+          ? expandConfigLists(loadYamlSafely(config.config), await configLists.getItemsByGuildId(req.params.guildId))
+          : null;
+        const automodOptions = guildConfig?.plugins?.automod;
+        automodConfig = await AutomodPlugin.configParser!(
+          configUtils.mergeConfig(AutomodPlugin.defaultOptions?.config ?? {}, automodOptions?.config ?? {}),
+        );
+      } catch (e) {
+        return res.status(422).json({ errors: [`Invalid automod config: ${e.message}`] });
+      }
+
+      const rule = automodConfig.rules[ruleName];
+      if (!rule) {
+        return clientError(res, "Unknown rule");
+      }
+
+      const results = await testRuleOnText(rule, text, {
+        regexRunner: getTestRegexRunner(),
+        resolveInviteGuild,
+        // Phisherman lookups depend on the server's API key, which is only validated by the bot
+        getPhishermanDomainInfo: async () => null,
+      });
+
+      res.json({
+        rule: ruleName,
+        results: results.map((result) => ({
+          trigger: result.trigger,
+          testable: result.testable,
+          matched: result.matched,
+          matched_text: result.matchedText,
+          details: result.details,
+        })),
+      });
+    },
+  );
+
+  automodRouter.get(
+    "/:guildId/automod/stats",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    rateLimit((req) => `automod-stats-${req.user!.userId}`, 1 * SECONDS, "Too many requests, slow down"),
+    async (req: Request, res: Response) => {
+      const query = statsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        const issue = query.error.issues[0];
+        return clientError(res, `${issue.path.join(".")}: ${issue.message}`);
+      }
+
+      const period = query.data.period ? convertDelayStringToMS(query.data.period)! : 7 * DAYS;
+      const interval = query.data.interval ?? "day";
+      const since = moment.utc().subtract(period, "ms").format(DBDateFormat);
+
+      const counts = await GuildAutomodHits.getGuildInstance(req.params.guildId).getCountsOverTime(
+        since,
+        interval,
+        query.data.rule,
+      );
+
+      const rules = new Map<
+        string,
+        { rule: string; total: number; counts: Array<{ period: string; count: number }> }
+      >();
+      for (const row of counts) {
+        if (!rules.has(row.rule_name)) {
+          rules.set(row.rule_name, { rule: row.rule_name, total: 0, counts: [] });
+        }
+
+        const rule = rules.get(row.rule_name)!;
+        rule.total += row.count;
+        rule.counts.push({ period: row.period, count: row.count });
+      }
+
+      res.json({
+        since,
+        interval,
+        rules: Array.from(rules.values()).sort((a, b) => b.total - a.total),
+      });
+    },
+  );
+
+  guildRouter.use("/", automodRouter);
+}
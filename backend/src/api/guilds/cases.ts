@@ -0,0 +1,125 @@
+import { ApiPermissions } from "@shared/apiPermissions";
+import express, { Request, Response } from "express";
+import moment from "moment-timezone";
+import { z } from "zod";
+import { CaseNameToType, CaseTypeToName, CaseTypes } from "../../data/CaseTypes";
+import { CaseSearchFilters, GuildCases } from "../../data/GuildCases";
+import { DBDateFormat, SECONDS, isSnowflake } from "../../utils";
+import { serializeCase } from "../../utils/serializeCase";
+import { requireGuildPermission } from "../permissions";
+import { rateLimit } from "../rateLimits";
+import { clientError, notFound } from "../responses";
+
+const casesPerPage = 50;
+const userSummaryRecentCaseCount = 5;
+
+const snowflakeSchema = z.string().refine((value) => isSnowflake(value), "Invalid ID");
+const dateSchema = z.string().refine((value) => moment.utc(value, moment.ISO_8601, true).isValid(), "Invalid date");
+const caseTypeListSchema = z
+  .string()
+  .transform((value) => value.split(",").map((name) => name.trim().toLowerCase()))
+  .refine((names) => names.every((name) => CaseNameToType[name] != null), "Invalid case type")
+  .transform((names) => names.map((name) => CaseNameToType[name] as CaseTypes));
+
+const caseListQuerySchema = z.object({
+  user: snowflakeSchema.optional(),
+  mod: snowflakeSchema.optional(),
+  type: caseTypeListSchema.optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  hidden: z.enum(["true", "false"]).optional(),
+  page: z.string().regex(/^\d+$/).optional(),
+});
+
+function casesRateLimit(endpoint: string) {
+  return rateLimit((req) => `cases-${endpoint}-${req.user!.userId}`, 1 * SECONDS, "Too many requests, slow down");
+}
+
+export function initGuildsCasesAPI(guildRouter: express.Router) {
+  const casesRouter = express.Router();
+
+  casesRouter.get(
+    "/:guildId/cases",
+    requireGuildPermission(ApiPermissions.ViewCases),
+    casesRateLimit("list"),
+    async (req: Request, res: Response) => {
+      const query = caseListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        const issue = query.error.issues[0];
+        return clientError(res, `${issue.path.join(".")}: ${issue.message}`);
+      }
+
+      const filters: CaseSearchFilters = {
+        userId: query.data.user,
+        modId: query.data.mod,
+        types: query.data.type,
+        createdAfter: query.data.from ? moment.utc(query.data.from).format(DBDateFormat) : undefined,
+        createdBefore: query.data.to ? moment.utc(query.data.to).format(DBDateFormat) : undefined,
+        hidden: query.data.hidden != null ? query.data.hidden === "true" : undefined,
+      };
+      const page = Math.max(1, parseInt(query.data.page ?? "1", 10));
+
+      const guildCases = GuildCases.getGuildInstance(req.params.guildId);
+      const [cases, total] = await Promise.all([
+        guildCases.search(filters, casesPerPage, (page - 1) * casesPerPage),
+        guildCases.countSearchResults(filters),
+      ]);
+
+      res.json({
+        cases: cases.map(serializeCase),
+        total,
+        page,
+        per_page: casesPerPage,
+      });
+    },
+  );
+
+  casesRouter.get(
+    "/:guildId/cases/:caseNumber",
+    requireGuildPermission(ApiPermissions.ViewCases),
+    casesRateLimit("single"),
+    async (req: Request, res: Response) => {
+      const caseNumber = parseInt(req.params.caseNumber, 10);
+      if (Number.isNaN(caseNumber)) {
+        return clientError(res, "Invalid case number");
+      }
+
+      const theCase = await GuildCases.getGuildInstance(req.params.guildId).with("notes").findByCaseNumber(caseNumber);
+      if (!theCase) {
+        return notFound(res);
+      }
+
+      res.json({ case: serializeCase(theCase) });
+    },
+  );
+
+  casesRouter.get(
+    "/:guildId/users/:userId/cases",
+    requireGuildPermission(ApiPermissions.ViewCases),
+    casesRateLimit("user-summary"),
+    async (req: Request, res: Response) => {
+      if (!isSnowflake(req.params.userId)) {
+        return clientError(res, "Invalid user id");
+      }
+
+      const cases = await GuildCases.getGuildInstance(req.params.guildId).with("notes").getByUserId(req.params.userId);
+      cases.sort((a, b) => b.case_number - a.case_number);
+
+      const countsByType: Record<string, number> = {};
+      for (const theCase of cases) {
+        const typeName = CaseTypeToName[theCase.type];
+        countsByType[typeName] = (countsByType[typeName] ?? 0) + 1;
+      }
+
+      res.json({
+        user_id: req.params.userId,
+        total: cases.length,
+        hidden: cases.filter((theCase) => theCase.is_hidden).length,
+        counts_by_type: countsByType,
+        recent_cases: cases.slice(0, userSummaryRecentCaseCount).map(serializeCase),
+      });
+    },
+  );
+
+  guildRouter.use("/", casesRouter);
+}
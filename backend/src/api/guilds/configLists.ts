@@ -0,0 +1,113 @@
+import { ApiPermissions } from "@shared/apiPermissions";
+import express, { Request, Response } from "express";
+import { ApiAuditLog } from "../../data/ApiAuditLog";
+import { ConfigLists } from "../../data/ConfigLists";
+import { Configs } from "../../data/Configs";
+import { AuditLogEventTypes } from "../../data/apiAuditLogTypes";
+import { SECONDS } from "../../utils";
+import {
+  ConfigListError,
+  configListNameRegex,
+  normalizeConfigListItem,
+  parseStoredConfigListItems,
+} from "../../utils/configLists";
+import { loadYamlSafely } from "../../utils/loadYamlSafely";
+import { requireGuildPermission } from "../permissions";
+import { rateLimit } from "../rateLimits";
+import { clientError, notFound } from "../responses";
+
+// Leaves room below the 16 MiB limit of the column
+const maxListLength = 10_000_000;
+
+export function initGuildsConfigListsAPI(guildRouter: express.Router) {
+  const configs = new Configs();
+  const configLists = new ConfigLists();
+  const auditLog = new ApiAuditLog();
+  const configListsRouter = express.Router();
+
+  configListsRouter.get(
+    "/:guildId/config/lists",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    async (req: Request, res: Response) => {
+      const lists = await configLists.getByGuildId(req.params.guildId);
+      res.json({
+        lists: lists.map((list) => ({
+          name: list.name,
+          item_count: parseStoredConfigListItems(list.items).length,
+          edited_by: list.edited_by,
+          edited_at: list.edited_at,
+        })),
+      });
+    },
+  );
+
+  configListsRouter.get(
+    "/:guildId/config/lists/:name",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    async (req: Request, res: Response) => {
+      if (!configListNameRegex.test(req.params.name)) {
+        return clientError(res, "Invalid list name");
+      }
+
+      const list = await configLists.find(req.params.guildId, req.params.name);
+      if (!list) {
+        return notFound(res);
+      }
+
+      res.json({
+        name: list.name,
+        items: list.items,
+        edited_by: list.edited_by,
+        edited_at: list.edited_at,
+      });
+    },
+  );
+
+  configListsRouter.post(
+    "/:guildId/config/lists/:name",
+    requireGuildPermission(ApiPermissions.EditConfig),
+    rateLimit((req) => `config-lists-save-${req.user!.userId}`, 1 * SECONDS, "Too many requests, slow down"),
+    async (req: Request, res: Response) => {
+      const name = req.params.name;
+      if (!configListNameRegex.test(name)) {
+        return clientError(res, "Invalid list name");
+      }
+
+      const items = req.body.items;
+      if (typeof items !== "string") {
+        return clientError(res, "No items supplied");
+      }
+      if (items.length > maxListLength) {
+        return clientError(res, `Lists can be at most ${maxListLength} characters long`);
+      }
+
+      // The items are validated against the list's type, so the list has to be defined in the config first
+      const config = await configs.getActiveByKey(`guild-${req.params.guildId}`);
+      const listType = config ? loadYamlSafely(config.config)?.lists?.[name]?.type : null;
+      if (!listType) {
+        return clientError(res, "The list must be defined in the lists section of the config before saving items");
+      }
+
+      try {
+        for (const item of parseStoredConfigListItems(items)) {
+          normalizeConfigListItem(listType, item);
+        }
+      } catch (e) {
+        if (e instanceof ConfigListError) {
+          return res.status(422).json({ errors: [e.message] });
+        }
+
+        throw e;
+      }
+
+      await configLists.save(req.params.guildId, name, items, req.user!.userId);
+      await auditLog.addEntry(req.params.guildId, req.user!.userId, AuditLogEventTypes.EDIT_CONFIG_LIST, {
+        name,
+      });
+
+      res.json({ result: "ok", item_count: parseStoredConfigListItems(items).length });
+    },
+  );
+
+  guildRouter.use("/", configListsRouter);
+}
@@ -0,0 +1,8 @@
+import { Queue } from "../../Queue";
+
+/**
+ * Full and per-plugin config saves share this queue so a save can't sneak in between another save's
+ * revision check and the new revision being stored.
+ * Queued functions must be quick (no config validation), since the queue moves on after its 10 second timeout.
+ */
+export const configSaveQueue = new Queue();
@@ -49,7 +49,7 @@ export function initGuildsImportExportAPI(guildRouter: express.Router) {
 
   importExportRouter.get(
     "/:guildId/pre-import",
-    requireGuildPermission(ApiPermissions.ManageAccess),
+    requireGuildPermission(ApiPermissions.ImportExportCases),
     async (req: Request) => {
       const guildCases = GuildCases.getGuildInstance(req.params.guildId);
       const minNum = await guildCases.getMinCaseNumber();
@@ -64,7 +64,7 @@ export function initGuildsImportExportAPI(guildRouter: express.Router) {
 
   importExportRouter.post(
     "/:guildId/import",
-    requireGuildPermission(ApiPermissions.ManageAccess),
+    requireGuildPermission(ApiPermissions.ImportExportCases),
     rateLimit(
       (req) => `import-${req.params.guildId}`,
       5 * MINUTES,
@@ -137,7 +137,7 @@ export function initGuildsImportExportAPI(guildRouter: express.Router) {
   const exportBatchSize = 500;
   importExportRouter.post(
     "/:guildId/export",
-    requireGuildPermission(ApiPermissions.ManageAccess),
+    requireGuildPermission(ApiPermissions.ImportExportCases),
     rateLimit(
       (req) => `export-${req.params.guildId}`,
       5 * MINUTES,
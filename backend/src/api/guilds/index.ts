@@ -1,7 +1,15 @@
 import express from "express";
 import { apiTokenAuthHandlers } from "../auth";
+import { initGuildsAppealsAPI } from "./appeals";
+import { initGuildsArchivesAPI } from "./archives";
+import { initGuildsAutomodAPI } from "./automod";
+import { initGuildsCasesAPI } from "./cases";
+import { initGuildsConfigListsAPI } from "./configLists";
 import { initGuildsImportExportAPI } from "./importExport";
 import { initGuildsMiscAPI } from "./misc";
+import { initGuildsPluginConfigsAPI } from "./pluginConfigs";
+import { initGuildsTagsAPI } from "./tags";
+import { initGuildsWebhookDeliveriesAPI } from "./webhookDeliveries";
 
 export function initGuildsAPI(app: express.Express) {
   const guildRouter = express.Router();
@@ -9,6 +17,14 @@ export function initGuildsAPI(app: express.Express) {
 
   initGuildsMiscAPI(guildRouter);
   initGuildsImportExportAPI(guildRouter);
+  initGuildsAppealsAPI(guildRouter);
+  initGuildsArchivesAPI(guildRouter);
+  initGuildsCasesAPI(guildRouter);
+  initGuildsPluginConfigsAPI(guildRouter);
+  initGuildsConfigListsAPI(guildRouter);
+  initGuildsAutomodAPI(guildRouter);
+  initGuildsTagsAPI(guildRouter);
+  initGuildsWebhookDeliveriesAPI(guildRouter);
 
   app.use("/guilds", guildRouter);
 }
@@ -3,21 +3,46 @@ import express, { Request, Response } from "express";
 import { YAMLException } from "js-yaml";
 import moment from "moment-timezone";
 import { Queue } from "../../Queue";
-import { validateGuildConfig } from "../../configValidator";
+import { ConfigValidationIssue, getGuildConfigValidationReport, validateGuildConfig } from "../../configValidator";
 import { AllowedGuilds } from "../../data/AllowedGuilds";
 import { ApiAuditLog } from "../../data/ApiAuditLog";
 import { ApiPermissionAssignments, ApiPermissionTypes } from "../../data/ApiPermissionAssignments";
+import { ApiUserInfo } from "../../data/ApiUserInfo";
 import { Configs } from "../../data/Configs";
 import { AuditLogEventTypes } from "../../data/apiAuditLogTypes";
 import { isSnowflake } from "../../utils";
+import { createUnifiedDiff } from "../../utils/createUnifiedDiff";
+import { findYamlPathPosition } from "../../utils/findYamlPathPosition";
 import { loadYamlSafely } from "../../utils/loadYamlSafely";
 import { ObjectAliasError } from "../../utils/validateNoObjectAliases";
 import { hasGuildPermission, requireGuildPermission } from "../permissions";
-import { clientError, ok, serverError, unauthorized } from "../responses";
+import { clientError, notFound, ok, serverError, unauthorized } from "../responses";
+import { configSaveQueue } from "./configSaveQueue";
 
 const apiPermissionAssignments = new ApiPermissionAssignments();
+const apiUserInfo = new ApiUserInfo();
 const auditLog = new ApiAuditLog();
 
+const configRevisionsPerPage = 25;
+
+/**
+ * @return - Error message, or null if the config is valid
+ */
+async function validateConfigText(config: string, guildId: string): Promise<string | null> {
+  let parsedConfig;
+  try {
+    parsedConfig = loadYamlSafely(config);
+  } catch (e) {
+    if (e instanceof YAMLException || e instanceof ObjectAliasError) {
+      return e.message;
+    }
+
+    throw e;
+  }
+
+  return validateGuildConfig(parsedConfig ?? {}, guildId);
+}
+
 export function initGuildsMiscAPI(router: express.Router) {
   const allowedGuilds = new AllowedGuilds();
   const configs = new Configs();
@@ -57,7 +82,7 @@ export function initGuildsMiscAPI(router: express.Router) {
     requireGuildPermission(ApiPermissions.ReadConfig),
     async (req: Request, res: Response) => {
       const config = await configs.getActiveByKey(`guild-${req.params.guildId}`);
-      res.json({ config: config ? config.config : "" });
+      res.json({ config: config ? config.config : "", revision_id: config ? config.id : null });
     },
   );
 
@@ -67,9 +92,10 @@ export function initGuildsMiscAPI(router: express.Router) {
 
     config = config.trim() + "\n"; // Normalize start/end whitespace in the config
 
-    const currentConfig = await configs.getActiveByKey(`guild-${req.params.guildId}`);
-    if (currentConfig && config === currentConfig.config) {
-      return ok(res);
+    // The revision the edit was based on. When supplied, saves on top of a newer revision are rejected.
+    const baseRevisionId = req.body.revision_id != null ? parseInt(req.body.revision_id, 10) : null;
+    if (Number.isNaN(baseRevisionId)) {
+      return clientError(res, "Invalid revision id");
     }
 
     // Validate config
@@ -94,16 +120,204 @@ export function initGuildsMiscAPI(router: express.Router) {
       parsedConfig = {};
     }
 
-    const error = await validateGuildConfig(parsedConfig);
+    const error = await validateGuildConfig(parsedConfig, req.params.guildId);
     if (error) {
       return res.status(422).json({ errors: [error] });
     }
 
-    await configs.saveNewRevision(`guild-${req.params.guildId}`, config, req.user!.userId);
+    await configSaveQueue.add(async () => {
+      const key = `guild-${req.params.guildId}`;
+      const currentConfig = await configs.getActiveByKey(key);
+      if (currentConfig && config === currentConfig.config) {
+        return res.json({ result: "ok", revision_id: currentConfig.id });
+      }
+
+      if (baseRevisionId != null && currentConfig && currentConfig.id !== baseRevisionId) {
+        return res.status(409).json({
+          errors: [
+            "The config has been changed by someone else since you loaded it. Reload it and reapply your changes.",
+          ],
+          revision_id: currentConfig.id,
+        });
+      }
 
-    ok(res);
+      const revisionId = await configs.saveNewRevision(key, config, req.user!.userId);
+      res.json({ result: "ok", revision_id: revisionId });
+    });
   });
 
+  miscRouter.post(
+    "/:guildId/config/validate",
+    requireGuildPermission(ApiPermissions.EditConfig),
+    async (req: Request, res: Response) => {
+      const config = req.body.config;
+      if (config == null) return clientError(res, "No config supplied");
+
+      let parsedConfig;
+      try {
+        parsedConfig = loadYamlSafely(config);
+      } catch (e) {
+        if (e instanceof YAMLException) {
+          // js-yaml includes the 0-based position of syntax errors, but it's missing from the type definitions
+          const mark: { line: number; column: number } | undefined = (e as any).mark;
+          return res.json({
+            valid: false,
+            errors: [
+              {
+                plugin: null,
+                path: [],
+                line: mark ? mark.line + 1 : null,
+                column: mark ? mark.column + 1 : null,
+                message: e.message,
+              },
+            ],
+            warnings: [],
+          });
+        }
+
+        if (e instanceof ObjectAliasError) {
+          return res.json({
+            valid: false,
+            errors: [{ plugin: null, path: [], line: null, column: null, message: e.message }],
+            warnings: [],
+          });
+        }
+
+        // tslint:disable-next-line:no-console
+        console.error("Error when loading YAML: " + e.message);
+        return serverError(res, "Server error");
+      }
+
+      const report = await getGuildConfigValidationReport(parsedConfig ?? {}, req.params.guildId);
+      const withPosition = (issue: ConfigValidationIssue) => {
+        const position = findYamlPathPosition(config, issue.path);
+        return { ...issue, line: position?.line ?? null, column: position?.column ?? null };
+      };
+
+      res.json({
+        valid: report.errors.length === 0,
+        errors: report.errors.map(withPosition),
+        warnings: report.warnings.map(withPosition),
+      });
+    },
+  );
+
+  miscRouter.get(
+    "/:guildId/config/revisions",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    async (req: Request, res: Response) => {
+      const page = Math.max(1, parseInt(String(req.query.page ?? 1), 10) || 1);
+      const revisions = await configs.getRevisions(
+        `guild-${req.params.guildId}`,
+        configRevisionsPerPage,
+        (page - 1) * configRevisionsPerPage,
+      );
+
+      const editorIds = new Set(revisions.map((r) => r.edited_by));
+      const editors = new Map();
+      for (const editorId of editorIds) {
+        const userInfo = await apiUserInfo.get(editorId);
+        editors.set(editorId, userInfo?.data ?? null);
+      }
+
+      res.json({
+        revisions: revisions.map((revision) => ({
+          id: revision.id,
+          is_active: revision.is_active,
+          edited_by: revision.edited_by,
+          edited_at: revision.edited_at,
+          editor: editors.get(revision.edited_by),
+        })),
+      });
+    },
+  );
+
+  miscRouter.get(
+    "/:guildId/config/revisions/:revisionId",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    async (req: Request, res: Response) => {
+      const revisionId = parseInt(req.params.revisionId, 10);
+      if (Number.isNaN(revisionId)) {
+        return clientError(res, "Invalid revision id");
+      }
+
+      const revision = await configs.getRevision(`guild-${req.params.guildId}`, revisionId);
+      if (!revision) {
+        return notFound(res);
+      }
+
+      res.json({
+        id: revision.id,
+        is_active: revision.is_active,
+        edited_by: revision.edited_by,
+        edited_at: revision.edited_at,
+        config: revision.config,
+      });
+    },
+  );
+
+  miscRouter.get(
+    "/:guildId/config/diff",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    async (req: Request, res: Response) => {
+      const fromId = parseInt(String(req.query.from), 10);
+      const toId = req.query.to != null ? parseInt(String(req.query.to), 10) : null;
+      if (Number.isNaN(fromId) || Number.isNaN(toId)) {
+        return clientError(res, "Invalid revision id");
+      }
+
+      const key = `guild-${req.params.guildId}`;
+      const fromRevision = await configs.getRevision(key, fromId);
+      // If no "to" revision is specified, compare against the active config
+      const toRevision = toId != null ? await configs.getRevision(key, toId) : await configs.getActiveByKey(key);
+      if (!fromRevision || !toRevision) {
+        return notFound(res);
+      }
+
+      const diff = createUnifiedDiff(
+        fromRevision.config,
+        toRevision.config,
+        `revision ${fromRevision.id}`,
+        `revision ${toRevision.id}`,
+      );
+      res.json({ from: fromRevision.id, to: toRevision.id, diff });
+    },
+  );
+
+  miscRouter.post(
+    "/:guildId/config/revisions/:revisionId/rollback",
+    requireGuildPermission(ApiPermissions.EditConfig),
+    async (req: Request, res: Response) => {
+      const revisionId = parseInt(req.params.revisionId, 10);
+      if (Number.isNaN(revisionId)) {
+        return clientError(res, "Invalid revision id");
+      }
+
+      const key = `guild-${req.params.guildId}`;
+      const revision = await configs.getRevision(key, revisionId);
+      if (!revision) {
+        return notFound(res);
+      }
+
+      if (revision.is_active) {
+        return ok(res);
+      }
+
+      // The config schema may have changed since the revision was saved
+      const error = await validateConfigText(revision.config, req.params.guildId);
+      if (error) {
+        return res.status(422).json({ errors: [error] });
+      }
+
+      await configSaveQueue.add(() => configs.saveNewRevision(key, revision.config, req.user!.userId));
+      await auditLog.addEntry(req.params.guildId, req.user!.userId, AuditLogEventTypes.ROLLBACK_CONFIG, {
+        revision_id: revision.id,
+      });
+
+      ok(res);
+    },
+  );
+
   miscRouter.get(
     "/:guildId/permissions",
     requireGuildPermission(ApiPermissions.ManageAccess),
@@ -0,0 +1,168 @@
+import { ApiPermissions, pluginConfigPermissions } from "@shared/apiPermissions";
+import express, { Request, Response } from "express";
+import { YAMLException } from "js-yaml";
+import { isEqual, omit } from "lodash";
+import { getGuildConfigValidationReport } from "../../configValidator";
+import { Configs } from "../../data/Configs";
+import { guildPlugins } from "../../plugins/availablePlugins";
+import { loadYamlSafely } from "../../utils/loadYamlSafely";
+import {
+  PluginConfigSectionError,
+  getPluginConfigSection,
+  replacePluginConfigSection,
+} from "../../utils/pluginConfigSections";
+import { ObjectAliasError } from "../../utils/validateNoObjectAliases";
+import { hasGuildPermission, requireGuildPermission, requirePluginConfigPermission } from "../permissions";
+import { clientError, serverError } from "../responses";
+import { configSaveQueue } from "./configSaveQueue";
+
+const pluginNameRegex = /^[a-z0-9_]+$/;
+
+const configurablePluginNames = guildPlugins
+  .filter((plugin) => plugin.showInDocs !== false)
+  .map((plugin) => plugin.name);
+
+export function initGuildsPluginConfigsAPI(guildRouter: express.Router) {
+  const configs = new Configs();
+  const pluginConfigsRouter = express.Router();
+
+  pluginConfigsRouter.get(
+    "/:guildId/config/plugins",
+    requireGuildPermission(ApiPermissions.ViewGuild),
+    async (req: Request, res: Response) => {
+      const { userId } = req.user!;
+      const fullConfigAccess = await hasGuildPermission(userId, req.params.guildId, ApiPermissions.ReadConfig);
+
+      const plugins: string[] = [];
+      for (const pluginName of configurablePluginNames) {
+        const scopedPermission = pluginConfigPermissions[pluginName];
+        if (
+          fullConfigAccess ||
+          (scopedPermission != null && (await hasGuildPermission(userId, req.params.guildId, scopedPermission)))
+        ) {
+          plugins.push(pluginName);
+        }
+      }
+
+      res.json({ full_config_access: fullConfigAccess, plugins });
+    },
+  );
+
+  pluginConfigsRouter.get(
+    "/:guildId/config/plugins/:pluginName",
+    requirePluginConfigPermission(ApiPermissions.ReadConfig),
+    async (req: Request, res: Response) => {
+      if (!pluginNameRegex.test(req.params.pluginName)) {
+        return clientError(res, "Invalid plugin name");
+      }
+
+      const config = await configs.getActiveByKey(`guild-${req.params.guildId}`);
+      const section = config ? getPluginConfigSection(config.config, req.params.pluginName) : null;
+      res.json({ config: section ?? "", revision_id: config ? config.id : null });
+    },
+  );
+
+  pluginConfigsRouter.post(
+    "/:guildId/config/plugins/:pluginName",
+    requirePluginConfigPermission(ApiPermissions.EditConfig),
+    async (req: Request, res: Response) => {
+      const pluginName = req.params.pluginName;
+      if (!pluginNameRegex.test(pluginName)) {
+        return clientError(res, "Invalid plugin name");
+      }
+
+      const sectionText = req.body.config;
+      if (sectionText == null) return clientError(res, "No config supplied");
+
+      // The revision the edit was based on. When supplied, the save is rejected if this plugin's options have been
+      // changed since then. Changes to other plugins in the meantime are fine.
+      const baseRevisionId = req.body.revision_id != null ? parseInt(req.body.revision_id, 10) : null;
+      if (Number.isNaN(baseRevisionId)) {
+        return clientError(res, "Invalid revision id");
+      }
+
+      let parsedSection;
+      try {
+        parsedSection = loadYamlSafely(sectionText);
+      } catch (e) {
+        if (e instanceof YAMLException || e instanceof ObjectAliasError) {
+          return res.status(400).json({ errors: [e.message] });
+        }
+
+        // tslint:disable-next-line:no-console
+        console.error("Error when loading YAML: " + e.message);
+        return serverError(res, "Server error");
+      }
+
+      const key = `guild-${req.params.guildId}`;
+      const currentConfig = await configs.getActiveByKey(key);
+      const currentConfigText = currentConfig?.config ?? "";
+
+      if (baseRevisionId != null && currentConfig && currentConfig.id !== baseRevisionId) {
+        const baseRevision = await configs.getRevision(key, baseRevisionId);
+        const baseSection = baseRevision ? getPluginConfigSection(baseRevision.config, pluginName) : null;
+        if (!baseRevision || baseSection !== getPluginConfigSection(currentConfigText, pluginName)) {
+          return res.status(409).json({
+            errors: [
+              "This plugin's config has been changed by someone else since you loaded it. Reload it and reapply your changes.",
+            ],
+            revision_id: currentConfig.id,
+          });
+        }
+      }
+
+      let newConfigText: string;
+      try {
+        newConfigText = replacePluginConfigSection(currentConfigText, pluginName, sectionText);
+      } catch (e) {
+        if (e instanceof PluginConfigSectionError) {
+          return res.status(422).json({ errors: [e.message] });
+        }
+
+        throw e;
+      }
+
+      if (newConfigText === currentConfigText) {
+        return res.json({ result: "ok", revision_id: currentConfig?.id ?? null });
+      }
+
+      // Sanity check: the rest of the config must be unchanged and the plugin must end up with the submitted options
+      const parsedCurrentConfig = loadYamlSafely(currentConfigText) ?? {};
+      const parsedNewConfig = loadYamlSafely(newConfigText) ?? {};
+      const withoutPlugin = (parsedConfig) => ({
+        ...parsedConfig,
+        plugins: omit(parsedConfig.plugins ?? {}, pluginName),
+      });
+      if (
+        !isEqual(parsedNewConfig.plugins?.[pluginName], parsedSection ?? {}) ||
+        !isEqual(withoutPlugin(parsedNewConfig), withoutPlugin(parsedCurrentConfig))
+      ) {
+        return res.status(422).json({ errors: ["Could not safely update the plugin's section of the config"] });
+      }
+
+      // Only errors in the edited plugin block the save so unrelated issues don't lock out e.g. tag editors
+      const report = await getGuildConfigValidationReport(parsedNewConfig, req.params.guildId);
+      const pluginErrors = report.errors.filter((error) => error.plugin === pluginName);
+      if (pluginErrors.length) {
+        return res.status(422).json({ errors: pluginErrors.map((error) => error.message) });
+      }
+
+      // Validation can be slow, so it's done outside the queue. The new config was built on top of currentConfig,
+      // so it can only be saved if no other save has happened since.
+      await configSaveQueue.add(async () => {
+        const latestConfig = await configs.getActiveByKey(key);
+        if ((latestConfig?.id ?? null) !== (currentConfig?.id ?? null)) {
+          return res.status(409).json({
+            errors: ["The config was changed by someone else while your changes were being saved. Try saving again."],
+            revision_id: latestConfig?.id ?? null,
+          });
+        }
+
+        const revisionId = await configs.saveNewRevision(key, newConfigText, req.user!.userId);
+        res.json({ result: "ok", revision_id: revisionId });
+      });
+    },
+  );
+
+  guildRouter.use("/", pluginConfigsRouter);
+}
@@ -0,0 +1,108 @@
+import { ApiPermissions } from "@shared/apiPermissions";
+import express, { Request, Response } from "express";
+import { ApiAuditLog } from "../../data/ApiAuditLog";
+import { GuildTags } from "../../data/GuildTags";
+import { AuditLogEventTypes } from "../../data/apiAuditLogTypes";
+import { createUnifiedDiff } from "../../utils/createUnifiedDiff";
+import { requireGuildPermission } from "../permissions";
+import { clientError, notFound } from "../responses";
+
+export function initGuildsTagsAPI(guildRouter: express.Router) {
+  const auditLog = new ApiAuditLog();
+  const tagsRouter = express.Router();
+
+  tagsRouter.get(
+    "/:guildId/tags/:tag/revisions",
+    requireGuildPermission(ApiPermissions.EditTagsConfig),
+    async (req: Request, res: Response) => {
+      const revisions = await GuildTags.getGuildInstance(req.params.guildId).getRevisions(req.params.tag);
+      res.json({
+        revisions: revisions.map((revision) => ({
+          revision: revision.revision,
+          user_id: revision.user_id,
+          created_at: revision.created_at,
+        })),
+      });
+    },
+  );
+
+  tagsRouter.get(
+    "/:guildId/tags/:tag/revisions/:revision",
+    requireGuildPermission(ApiPermissions.EditTagsConfig),
+    async (req: Request, res: Response) => {
+      const revisionNumber = parseInt(req.params.revision, 10);
+      if (Number.isNaN(revisionNumber)) {
+        return clientError(res, "Invalid revision");
+      }
+
+      const revision = await GuildTags.getGuildInstance(req.params.guildId).findRevision(
+        req.params.tag,
+        revisionNumber,
+      );
+      if (!revision) {
+        return notFound(res);
+      }
+
+      res.json({
+        revision: revision.revision,
+        user_id: revision.user_id,
+        created_at: revision.created_at,
+        body: revision.body,
+      });
+    },
+  );
+
+  tagsRouter.get(
+    "/:guildId/tags/:tag/diff",
+    requireGuildPermission(ApiPermissions.EditTagsConfig),
+    async (req: Request, res: Response) => {
+      const from = parseInt(String(req.query.from), 10);
+      const to = parseInt(String(req.query.to), 10);
+      if (Number.isNaN(from) || Number.isNaN(to)) {
+        return clientError(res, "Invalid revision");
+      }
+
+      const tags = GuildTags.getGuildInstance(req.params.guildId);
+      const fromRevision = await tags.findRevision(req.params.tag, from);
+      const toRevision = await tags.findRevision(req.params.tag, to);
+      if (!fromRevision || !toRevision) {
+        return notFound(res);
+      }
+
+      const diff = createUnifiedDiff(
+        fromRevision.body,
+        toRevision.body,
+        `revision ${fromRevision.revision}`,
+        `revision ${toRevision.revision}`,
+      );
+      res.json({ from: fromRevision.revision, to: toRevision.revision, diff });
+    },
+  );
+
+  tagsRouter.post(
+    "/:guildId/tags/:tag/revisions/:revision/restore",
+    requireGuildPermission(ApiPermissions.EditTagsConfig),
+    async (req: Request, res: Response) => {
+      const revisionNumber = parseInt(req.params.revision, 10);
+      if (Number.isNaN(revisionNumber)) {
+        return clientError(res, "Invalid revision");
+      }
+
+      const tags = GuildTags.getGuildInstance(req.params.guildId);
+      const revision = await tags.findRevision(req.params.tag, revisionNumber);
+      if (!revision) {
+        return notFound(res);
+      }
+
+      const newRevision = await tags.createOrUpdate(req.params.tag, revision.body, req.user!.userId);
+      await auditLog.addEntry(req.params.guildId, req.user!.userId, AuditLogEventTypes.RESTORE_TAG, {
+        tag: req.params.tag,
+        revision: revision.revision,
+      });
+
+      res.json({ result: "ok", revision: newRevision });
+    },
+  );
+
+  guildRouter.use("/", tagsRouter);
+}
@@ -0,0 +1,79 @@
+import { ApiPermissions } from "@shared/apiPermissions";
+import express, { Request, Response } from "express";
+import { GuildWebhookDeliveries } from "../../data/GuildWebhookDeliveries";
+import { WebhookDeliveryStatus } from "../../data/WebhookDeliveryStatus";
+import { WebhookDelivery } from "../../data/entities/WebhookDelivery";
+import { requireGuildPermission } from "../permissions";
+import { clientError, notFound } from "../responses";
+
+const deliveriesPerPage = 50;
+
+const deliveryStatusNames: Record<WebhookDeliveryStatus, string> = {
+  [WebhookDeliveryStatus.Pending]: "pending",
+  [WebhookDeliveryStatus.Delivered]: "delivered",
+  [WebhookDeliveryStatus.Failed]: "failed",
+};
+
+function serializeDelivery(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    webhook_name: delivery.webhook_name,
+    event: delivery.event,
+    status: deliveryStatusNames[delivery.status],
+    attempts: delivery.attempts,
+    last_status_code: delivery.last_status_code,
+    last_error: delivery.last_error,
+    created_at: delivery.created_at,
+    next_attempt_at: delivery.next_attempt_at,
+    delivered_at: delivery.delivered_at,
+  };
+}
+
+export function initGuildsWebhookDeliveriesAPI(guildRouter: express.Router) {
+  const webhookDeliveriesRouter = express.Router();
+
+  webhookDeliveriesRouter.get(
+    "/:guildId/webhook-deliveries",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    async (req: Request, res: Response) => {
+      const page = Math.max(1, parseInt(String(req.query.page ?? 1), 10) || 1);
+      const webhookName = req.query.webhook != null ? String(req.query.webhook) : undefined;
+
+      const deliveries = GuildWebhookDeliveries.getGuildInstance(req.params.guildId);
+      const [list, total] = await Promise.all([
+        deliveries.getList(deliveriesPerPage, (page - 1) * deliveriesPerPage, webhookName),
+        deliveries.getCount(webhookName),
+      ]);
+
+      res.json({
+        deliveries: list.map(serializeDelivery),
+        total,
+        page,
+        per_page: deliveriesPerPage,
+      });
+    },
+  );
+
+  webhookDeliveriesRouter.get(
+    "/:guildId/webhook-deliveries/:deliveryId",
+    requireGuildPermission(ApiPermissions.ReadConfig),
+    async (req: Request, res: Response) => {
+      const deliveryId = parseInt(req.params.deliveryId, 10);
+      if (Number.isNaN(deliveryId)) {
+        return clientError(res, "Invalid delivery id");
+      }
+
+      const delivery = await GuildWebhookDeliveries.getGuildInstance(req.params.guildId).find(deliveryId);
+      if (!delivery) {
+        return notFound(res);
+      }
+
+      res.json({
+        ...serializeDelivery(delivery),
+        payload: delivery.payload,
+      });
+    },
+  );
+
+  guildRouter.use("/", webhookDeliveriesRouter);
+}
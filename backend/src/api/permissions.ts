@@ -1,4 +1,4 @@
-import { ApiPermissions, hasPermission, permissionArrToSet } from "@shared/apiPermissions";
+import { ApiPermissions, hasPermission, permissionArrToSet, pluginConfigPermissions } from "@shared/apiPermissions";
 import { Request, Response } from "express";
 import { ApiPermissionAssignments } from "../data/ApiPermissionAssignments";
 import { isStaff } from "../staff";
@@ -31,3 +31,23 @@ export function requireGuildPermission(permission: ApiPermissions) {
     next();
   };
 }
+
+/**
+ * Requires `guildId` and `pluginName` in req.params.
+ * Also grants access to users who only have the plugin's scoped config permission, see pluginConfigPermissions.
+ */
+export function requirePluginConfigPermission(permission: ApiPermissions.ReadConfig | ApiPermissions.EditConfig) {
+  return async (req: Request, res: Response, next) => {
+    const { userId } = req.user!;
+    const { guildId, pluginName } = req.params;
+    const scopedPermission = pluginConfigPermissions[pluginName];
+    const hasAccess =
+      (await hasGuildPermission(userId, guildId, permission)) ||
+      (scopedPermission != null && (await hasGuildPermission(userId, guildId, scopedPermission)));
+    if (!hasAccess) {
+      return unauthorized(res);
+    }
+
+    next();
+  };
+}
@@ -1,8 +1,10 @@
-import { ConfigValidationError, PluginConfigManager } from "knub";
+import { ConfigValidationError, PluginConfigManager, configUtils } from "knub";
 import moment from "moment-timezone";
+import { ConfigLists } from "./data/ConfigLists";
 import { ZeppelinPlugin } from "./plugins/ZeppelinPlugin";
 import { guildPlugins } from "./plugins/availablePlugins";
 import { PartialZeppelinGuildConfigSchema, ZeppelinGuildConfig } from "./types";
+import { ConfigListError, expandConfigLists } from "./utils/configLists";
 import { StrictValidationError, decodeAndValidateStrict } from "./validatorUtils";
 
 const pluginNameToPlugin = new Map<string, ZeppelinPlugin>();
@@ -10,11 +12,31 @@ for (const plugin of guildPlugins) {
   pluginNameToPlugin.set(plugin.name, plugin);
 }
 
-export async function validateGuildConfig(config: any): Promise<string | null> {
+const configLists = new ConfigLists();
+
+/**
+ * Replaces list references in plugin options with the list items, so the options are validated the way plugins see them
+ * @param guildId The guild whose stored lists to use. Stored lists are treated as empty if omitted.
+ */
+async function expandGuildConfigLists(config: any, guildId?: string): Promise<ZeppelinGuildConfig> {
+  const storedItems = guildId ? await configLists.getItemsByGuildId(guildId) : {};
+  return expandConfigLists(config, storedItems);
+}
+
+export async function validateGuildConfig(config: any, guildId?: string): Promise<string | null> {
   const validationResult = decodeAndValidateStrict(PartialZeppelinGuildConfigSchema, config);
   if (validationResult instanceof StrictValidationError) return validationResult.getErrors();
 
-  const guildConfig = config as ZeppelinGuildConfig;
+  let guildConfig: ZeppelinGuildConfig;
+  try {
+    guildConfig = await expandGuildConfigLists(config, guildId);
+  } catch (err) {
+    if (err instanceof ConfigListError) {
+      return err.message;
+    }
+
+    throw err;
+  }
 
   if (guildConfig.timezone) {
     const validTimezones = moment.tz.names();
@@ -52,3 +74,243 @@ export async function validateGuildConfig(config: any): Promise<string | null> {
 
   return null;
 }
+
+export interface ConfigValidationIssue {
+  // Null for issues outside plugin configs
+  plugin: string | null;
+  path: Array<string | number>;
+  message: string;
+}
+
+export interface ConfigValidationReport {
+  errors: ConfigValidationIssue[];
+  warnings: ConfigValidationIssue[];
+}
+
+interface DeprecatedOption {
+  path: string[];
+  message: string;
+}
+
+const deprecatedGuildOptions: DeprecatedOption[] = [
+  { path: ["timezone"], message: "Use the timezone option of the time_and_date plugin instead" },
+  { path: ["date_formats"], message: "Use the date_formats option of the time_and_date plugin instead" },
+];
+
+const deprecatedPluginOptions: Record<string, DeprecatedOption[]> = {
+  persist: [{ path: ["persist_voice_mutes"], message: "This option no longer has any effect" }],
+  logs: [
+    { path: ["format", "timestamp"], message: "Use timestamp_format instead" },
+    { path: ["ping_user"], message: "Use allow_user_mentions instead" },
+  ],
+};
+
+function hasPath(obj: unknown, path: string[]): boolean {
+  let current = obj;
+  for (const key of path) {
+    if (current == null || typeof current !== "object" || !Object.prototype.hasOwnProperty.call(current, key)) {
+      return false;
+    }
+    current = current[key];
+  }
+  return true;
+}
+
+/**
+ * Extracts the path from validation error messages, e.g. "Invalid value supplied to <channels/123/include>"
+ */
+function getValidationErrorPath(message: string): string[] {
+  const match = message.match(/<([^>]*)>/);
+  if (!match || match[1] === "") return [];
+  return match[1].split(/[/.]/);
+}
+
+/**
+ * Returns the known top level config keys of an io-ts schema, or null if they can't be determined
+ */
+function getSchemaKeys(schema: any): Set<string> | null {
+  if (schema?.props) {
+    return new Set(Object.keys(schema.props));
+  }
+
+  if (Array.isArray(schema?.types)) {
+    const keys = new Set<string>();
+    for (const type of schema.types) {
+      const typeKeys = getSchemaKeys(type);
+      if (!typeKeys) return null;
+      typeKeys.forEach((key) => keys.add(key));
+    }
+    return keys;
+  }
+
+  return null;
+}
+
+/**
+ * Figures out whether the plugin's base config or one of its overrides failed to parse so errors can be pinned to it
+ */
+async function findInvalidPluginConfigPath(
+  plugin: ZeppelinPlugin,
+  pluginOptions: any,
+): Promise<Array<string | number>> {
+  const parser = plugin.configParser;
+  const baseConfig = configUtils.mergeConfig(plugin.defaultOptions?.config ?? {}, pluginOptions.config ?? {});
+  try {
+    await parser(baseConfig);
+  } catch {
+    return ["config"];
+  }
+
+  const overrides = Array.isArray(pluginOptions.overrides) ? pluginOptions.overrides : [];
+  for (const [i, override] of overrides.entries()) {
+    if (override == null || typeof override !== "object" || !("config" in override)) {
+      return ["overrides", i];
+    }
+
+    try {
+      await parser(configUtils.mergeConfig(baseConfig, override.config ?? {}));
+    } catch {
+      return ["overrides", i, "config"];
+    }
+  }
+
+  return [];
+}
+
+function getPluginConfigWarnings(
+  pluginName: string,
+  plugin: ZeppelinPlugin,
+  pluginOptions: any,
+): ConfigValidationIssue[] {
+  const warnings: ConfigValidationIssue[] = [];
+  const knownKeys = getSchemaKeys(plugin.info?.configSchema);
+  const configs: Array<[Array<string | number>, unknown]> = [[["config"], pluginOptions.config]];
+  if (Array.isArray(pluginOptions.overrides)) {
+    pluginOptions.overrides.forEach((override, i) => configs.push([["overrides", i, "config"], override?.config]));
+  }
+
+  for (const [configPath, config] of configs) {
+    if (config == null || typeof config !== "object") continue;
+
+    if (knownKeys) {
+      for (const key of Object.keys(config)) {
+        if (!knownKeys.has(key)) {
+          warnings.push({
+            plugin: pluginName,
+            path: ["plugins", pluginName, ...configPath, key],
+            message: `Unknown option <${key}>, it will be ignored`,
+          });
+        }
+      }
+    }
+
+    for (const deprecatedOption of deprecatedPluginOptions[pluginName] ?? []) {
+      if (hasPath(config, deprecatedOption.path)) {
+        warnings.push({
+          plugin: pluginName,
+          path: ["plugins", pluginName, ...configPath, ...deprecatedOption.path],
+          message: `<${deprecatedOption.path.join(".")}> is deprecated. ${deprecatedOption.message}`,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Like validateGuildConfig(), but collects every error instead of stopping at the first one,
+ * includes the path of each error, and also reports non-fatal warnings such as unknown or deprecated options
+ */
+export async function getGuildConfigValidationReport(config: any, guildId?: string): Promise<ConfigValidationReport> {
+  const report: ConfigValidationReport = { errors: [], warnings: [] };
+
+  const validationResult = decodeAndValidateStrict(PartialZeppelinGuildConfigSchema, config);
+  if (validationResult instanceof StrictValidationError) {
+    for (const message of validationResult.getErrors()) {
+      report.errors.push({ plugin: null, path: getValidationErrorPath(message), message });
+    }
+    return report;
+  }
+
+  let guildConfig: ZeppelinGuildConfig;
+  try {
+    guildConfig = await expandGuildConfigLists(config, guildId);
+  } catch (err) {
+    if (!(err instanceof ConfigListError)) {
+      throw err;
+    }
+
+    const plugin = err.path[0] === "plugins" ? String(err.path[1]) : null;
+    report.errors.push({ plugin, path: err.path, message: err.message });
+
+    // Plugins can't be validated without their lists, so don't let their configs pass as valid either
+    for (const pluginName of Object.keys(config.plugins ?? {})) {
+      if (pluginName === plugin) continue;
+      report.errors.push({
+        plugin: pluginName,
+        path: ["plugins", pluginName],
+        message: `Plugin ${pluginName} can't be validated until the list error is fixed: ${err.message}`,
+      });
+    }
+    return report;
+  }
+
+  if (guildConfig.timezone && !moment.tz.names().includes(guildConfig.timezone)) {
+    report.errors.push({ plugin: null, path: ["timezone"], message: `Invalid timezone: ${guildConfig.timezone}` });
+  }
+
+  for (const deprecatedOption of deprecatedGuildOptions) {
+    if (hasPath(guildConfig, deprecatedOption.path)) {
+      report.warnings.push({
+        plugin: null,
+        path: deprecatedOption.path,
+        message: `<${deprecatedOption.path.join(".")}> is deprecated. ${deprecatedOption.message}`,
+      });
+    }
+  }
+
+  for (const [pluginName, pluginOptions] of Object.entries(guildConfig.plugins ?? {})) {
+    const pluginPath = ["plugins", pluginName];
+
+    if (!pluginNameToPlugin.has(pluginName)) {
+      report.errors.push({ plugin: pluginName, path: pluginPath, message: `Unknown plugin: ${pluginName}` });
+      continue;
+    }
+
+    if (typeof pluginOptions !== "object" || pluginOptions == null) {
+      report.errors.push({
+        plugin: pluginName,
+        path: pluginPath,
+        message: `Invalid options specified for plugin ${pluginName}`,
+      });
+      continue;
+    }
+
+    const plugin = pluginNameToPlugin.get(pluginName)!;
+    report.warnings.push(...getPluginConfigWarnings(pluginName, plugin, pluginOptions));
+
+    const configManager = new PluginConfigManager(plugin.defaultOptions || { config: {} }, pluginOptions, {
+      levels: {},
+      parser: plugin.configParser,
+    });
+    try {
+      await configManager.init();
+    } catch (err) {
+      if (!(err instanceof ConfigValidationError || err instanceof StrictValidationError)) {
+        throw err;
+      }
+
+      const invalidConfigPath = [...pluginPath, ...(await findInvalidPluginConfigPath(plugin, pluginOptions))];
+      for (const message of err.message.split("\n")) {
+        report.errors.push({
+          plugin: pluginName,
+          path: [...invalidConfigPath, ...getValidationErrorPath(message)],
+          message,
+        });
+      }
+    }
+  }
+
+  return report;
+}
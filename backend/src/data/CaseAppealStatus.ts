@@ -0,0 +1,5 @@
+export enum CaseAppealStatus {
+  Pending = 1,
+  Accepted,
+  Denied,
+}
@@ -0,0 +1,71 @@
+import { MoreThan, Repository } from "typeorm";
+import { parseStoredConfigListItems } from "../utils/configLists";
+import { BaseRepository } from "./BaseRepository";
+import { dataSource } from "./dataSource";
+import { ConfigList } from "./entities/ConfigList";
+
+/**
+ * Large lists referenced from guild configs, stored separately so the config itself stays readable.
+ * Each save inserts a new row so changes can be picked up by comparing IDs, the same way as configs.
+ */
+export class ConfigLists extends BaseRepository {
+  private lists: Repository<ConfigList>;
+
+  constructor() {
+    super();
+    this.lists = dataSource.getRepository(ConfigList);
+  }
+
+  getByGuildId(guildId: string): Promise<ConfigList[]> {
+    return this.lists.find({
+      where: { guild_id: guildId },
+      order: { name: "ASC" },
+    });
+  }
+
+  /**
+   * @return - Parsed items of each of the guild's lists, by list name
+   */
+  async getItemsByGuildId(guildId: string): Promise<Record<string, string[]>> {
+    const lists = await this.getByGuildId(guildId);
+    return Object.fromEntries(lists.map((list) => [list.name, parseStoredConfigListItems(list.items)]));
+  }
+
+  find(guildId: string, name: string): Promise<ConfigList | null> {
+    return this.lists.findOne({
+      where: {
+        guild_id: guildId,
+        name,
+      },
+    });
+  }
+
+  async getHighestId(): Promise<number> {
+    const rows = await dataSource.query("SELECT MAX(id) AS highest_id FROM config_lists");
+    return (rows.length && rows[0].highest_id) || 0;
+  }
+
+  getLargerThanId(id: number): Promise<ConfigList[]> {
+    return this.lists.find({
+      where: { id: MoreThan(id) },
+      select: ["id", "guild_id", "name"],
+    });
+  }
+
+  /**
+   * @return - ID of the saved list
+   */
+  async save(guildId: string, name: string, items: string, editedBy: string): Promise<number> {
+    return dataSource.transaction(async (entityManager) => {
+      const repo = entityManager.getRepository(ConfigList);
+      await repo.delete({ guild_id: guildId, name });
+      const result = await repo.insert({
+        guild_id: guildId,
+        name,
+        items,
+        edited_by: editedBy,
+      });
+      return result.identifiers[0].id;
+    });
+  }
+}
@@ -49,30 +49,46 @@ export class Configs extends BaseRepository {
     return (await this.getActiveByKey(key)) != null;
   }
 
-  getRevisions(key, num = 10) {
+  getRevisions(key, num = 10, skip = 0) {
     return this.configs.find({
       relations: this.getRelations(),
       where: { key },
       select: ["id", "key", "is_active", "edited_by", "edited_at"],
       order: {
         edited_at: "DESC",
+        id: "DESC",
       },
       take: num,
+      skip,
     });
   }
 
-  async saveNewRevision(key, config, editedBy) {
+  getRevision(key, id: number) {
+    return this.configs.findOne({
+      relations: this.getRelations(),
+      where: {
+        key,
+        id,
+      },
+    });
+  }
+
+  /**
+   * @return - ID of the new revision
+   */
+  async saveNewRevision(key, config, editedBy): Promise<number> {
     return dataSource.transaction(async (entityManager) => {
       const repo = entityManager.getRepository(Config);
       // Mark all old revisions inactive
       await repo.update({ key }, { is_active: false });
       // Add new, active revision
-      await repo.insert({
+      const result = await repo.insert({
         key,
         config,
         is_active: true,
         edited_by: editedBy,
       });
+      return result.identifiers[0].id;
     });
   }
 }
@@ -51,6 +51,27 @@ export class GuildArchives extends BaseGuildRepository<ArchiveEntry> {
     return this.processEntityFromDB(result);
   }
 
+  async findInGuild(id: string): Promise<ArchiveEntry | null> {
+    const result = await this.archives.findOne({
+      where: { id, guild_id: this.guildId },
+      relations: this.getRelations(),
+    });
+    return this.processEntityFromDB(result);
+  }
+
+  /**
+   * Lists the guild's archives without their bodies, newest first
+   */
+  getList(count: number, skip = 0): Promise<Array<Pick<ArchiveEntry, "id" | "created_at" | "expires_at">>> {
+    return this.archives.find({
+      select: ["id", "created_at", "expires_at"],
+      where: { guild_id: this.guildId },
+      order: { created_at: "DESC" },
+      take: count,
+      skip,
+    });
+  }
+
   async makePermanent(id: string): Promise<void> {
     await this.archives.update(
       { id },
@@ -0,0 +1,115 @@
+import { Repository } from "typeorm";
+import { BaseGuildRepository } from "./BaseGuildRepository";
+import { dataSource } from "./dataSource";
+import { AutomodHit } from "./entities/AutomodHit";
+
+export type AutomodHitInterval = "hour" | "day";
+
+const intervalDateFormats: Record<AutomodHitInterval, string> = {
+  hour: "%Y-%m-%d %H:00:00",
+  day: "%Y-%m-%d",
+};
+
+export interface AutomodHitCountOverTime {
+  rule_name: string;
+  period: string;
+  count: number;
+}
+
+export class GuildAutomodHits extends BaseGuildRepository<AutomodHit> {
+  private hits: Repository<AutomodHit>;
+
+  constructor(guildId) {
+    super(guildId);
+    this.hits = dataSource.getRepository(AutomodHit);
+  }
+
+  async add(
+    data: Pick<AutomodHit, "rule_name" | "trigger_type" | "user_id" | "channel_id" | "actions" | "dry_run">,
+  ): Promise<void> {
+    await this.hits.insert({
+      ...data,
+      guild_id: this.guildId,
+    });
+  }
+
+  /**
+   * @param since - In DB date format
+   * @param dryRun - Whether to count matches of rules in dry run mode instead of regular hits
+   * @return - The number of hits since the given date, by rule name
+   */
+  async getCountsByRule(since: string, dryRun = false): Promise<Map<string, number>> {
+    const rows = await this.hits
+      .createQueryBuilder()
+      .select(["rule_name", "COUNT(*) AS total"])
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .andWhere("dry_run = :dryRun", { dryRun })
+      .andWhere("created_at >= :since", { since })
+      .groupBy("rule_name")
+      .getRawMany();
+
+    return new Map(rows.map((row) => [row.rule_name, Number(row.total)]));
+  }
+
+  /**
+   * @param since - In DB date format
+   * @return - The most common values of the given column among the rule's hits since the given date
+   * Dry run matches aren't included.
+   */
+  async getTopValuesForRule(
+    ruleName: string,
+    column: "trigger_type" | "user_id" | "channel_id",
+    since: string,
+    limit: number,
+  ): Promise<Array<{ value: string; count: number }>> {
+    const rows = await this.hits
+      .createQueryBuilder()
+      .select([`${column} AS value`, "COUNT(*) AS total"])
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .andWhere("rule_name = :ruleName", { ruleName })
+      .andWhere("dry_run = 0")
+      .andWhere("created_at >= :since", { since })
+      .andWhere(`${column} IS NOT NULL`)
+      .groupBy(column)
+      .orderBy("total", "DESC")
+      .limit(limit)
+      .getRawMany();
+
+    return rows.map((row) => ({ value: String(row.value), count: Number(row.total) }));
+  }
+
+  /**
+   * @param since - In DB date format
+   * @return - The number of hits of each rule per hour or day since the given date. Periods without hits are omitted.
+   * Dry run matches aren't included.
+   */
+  async getCountsOverTime(
+    since: string,
+    interval: AutomodHitInterval,
+    ruleName?: string,
+  ): Promise<AutomodHitCountOverTime[]> {
+    const query = this.hits
+      .createQueryBuilder()
+      .select(["rule_name", "DATE_FORMAT(created_at, :dateFormat) AS period", "COUNT(*) AS total"])
+      .setParameter("dateFormat", intervalDateFormats[interval])
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .andWhere("dry_run = 0")
+      .andWhere("created_at >= :since", { since });
+
+    if (ruleName) {
+      query.andWhere("rule_name = :ruleName", { ruleName });
+    }
+
+    const rows = await query.groupBy("rule_name").addGroupBy("period").orderBy("period", "ASC").getRawMany();
+    return rows.map((row) => ({ rule_name: row.rule_name, period: row.period, count: Number(row.total) }));
+  }
+
+  async deleteOlderThan(cutoff: string): Promise<void> {
+    await this.hits
+      .createQueryBuilder()
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .andWhere("created_at < :cutoff", { cutoff })
+      .delete()
+      .execute();
+  }
+}
@@ -0,0 +1,80 @@
+import moment from "moment-timezone";
+import { Repository } from "typeorm";
+import { DBDateFormat } from "../utils";
+import { BaseGuildRepository } from "./BaseGuildRepository";
+import { CaseAppealStatus } from "./CaseAppealStatus";
+import { dataSource } from "./dataSource";
+import { CaseAppeal } from "./entities/CaseAppeal";
+
+export class GuildCaseAppeals extends BaseGuildRepository<CaseAppeal> {
+  private appeals: Repository<CaseAppeal>;
+
+  constructor(guildId) {
+    super(guildId);
+    this.appeals = dataSource.getRepository(CaseAppeal);
+  }
+
+  async find(id: number): Promise<CaseAppeal | null> {
+    return this.appeals.findOne({
+      relations: this.getRelations(),
+      where: {
+        guild_id: this.guildId,
+        id,
+      },
+    });
+  }
+
+  async findByCaseId(caseId: number): Promise<CaseAppeal | null> {
+    return this.appeals.findOne({
+      relations: this.getRelations(),
+      where: {
+        guild_id: this.guildId,
+        case_id: caseId,
+      },
+    });
+  }
+
+  async getByStatus(status: CaseAppealStatus, count: number, skip = 0): Promise<CaseAppeal[]> {
+    return this.appeals.find({
+      relations: this.getRelations(),
+      where: {
+        guild_id: this.guildId,
+        status,
+      },
+      skip,
+      take: count,
+      order: {
+        id: "DESC",
+      },
+    });
+  }
+
+  async create(caseId: number, userId: string, body: string): Promise<CaseAppeal> {
+    const result = await this.appeals.insert({
+      guild_id: this.guildId,
+      case_id: caseId,
+      user_id: userId,
+      body,
+      status: CaseAppealStatus.Pending,
+      created_at: moment.utc().format(DBDateFormat),
+    });
+
+    return (await this.find(result.identifiers[0].id))!;
+  }
+
+  async setReviewMessageId(id: number, reviewMessageId: string): Promise<void> {
+    await this.appeals.update({ id }, { review_message_id: reviewMessageId });
+  }
+
+  async setReviewed(id: number, status: CaseAppealStatus, reviewerId: string, reviewerName: string): Promise<void> {
+    await this.appeals.update(
+      { id },
+      {
+        status,
+        reviewer_id: reviewerId,
+        reviewer_name: reviewerName,
+        reviewed_at: moment.utc().format(DBDateFormat),
+      },
+    );
+  }
+}
@@ -1,12 +1,36 @@
-import { In, InsertResult, Repository } from "typeorm";
+import { In, InsertResult, Repository, SelectQueryBuilder } from "typeorm";
 import { Queue } from "../Queue";
 import { chunkArray } from "../utils";
 import { BaseGuildRepository } from "./BaseGuildRepository";
 import { CaseTypes } from "./CaseTypes";
 import { dataSource } from "./dataSource";
 import { Case } from "./entities/Case";
+import { CaseAppeal } from "./entities/CaseAppeal";
 import { CaseNote } from "./entities/CaseNote";
 
+export interface CaseSearchFilters {
+  types?: CaseTypes[];
+  userId?: string;
+  modId?: string;
+  ppId?: string;
+  /**
+   * In DB date format
+   */
+  createdAfter?: string;
+  /**
+   * In DB date format
+   */
+  createdBefore?: string;
+  /**
+   * Text to search for in the case's notes, including the reason
+   */
+  noteText?: string;
+  /**
+   * If unset, both hidden and visible cases are included
+   */
+  hidden?: boolean;
+}
+
 export class GuildCases extends BaseGuildRepository {
   private cases: Repository<Case>;
   private caseNotes: Repository<CaseNote>;
@@ -109,6 +133,62 @@ export class GuildCases extends BaseGuildRepository {
     });
   }
 
+  protected createSearchQuery(filters: CaseSearchFilters): SelectQueryBuilder<Case> {
+    const query = this.cases.createQueryBuilder("cases").where("cases.guild_id = :guildId", { guildId: this.guildId });
+
+    if (filters.types?.length) {
+      query.andWhere("cases.type IN (:...types)", { types: filters.types });
+    }
+
+    if (filters.userId) {
+      query.andWhere("cases.user_id = :userId", { userId: filters.userId });
+    }
+
+    if (filters.modId) {
+      query.andWhere("cases.mod_id = :modId", { modId: filters.modId });
+    }
+
+    if (filters.ppId) {
+      query.andWhere("cases.pp_id = :ppId", { ppId: filters.ppId });
+    }
+
+    if (filters.createdAfter) {
+      query.andWhere("cases.created_at >= :createdAfter", { createdAfter: filters.createdAfter });
+    }
+
+    if (filters.createdBefore) {
+      query.andWhere("cases.created_at <= :createdBefore", { createdBefore: filters.createdBefore });
+    }
+
+    if (filters.noteText) {
+      const escapedNoteText = filters.noteText.replace(/[\\%_]/g, "\\$&");
+      query.andWhere(
+        "EXISTS (SELECT 1 FROM case_notes WHERE case_notes.case_id = cases.id AND case_notes.body LIKE :noteText)",
+        { noteText: `%${escapedNoteText}%` },
+      );
+    }
+
+    if (filters.hidden != null) {
+      query.andWhere("cases.is_hidden = :hidden", { hidden: filters.hidden ? 1 : 0 });
+    }
+
+    return query;
+  }
+
+  async search(filters: CaseSearchFilters, count: number, skip = 0): Promise<Case[]> {
+    return this.createSearchQuery(filters)
+      .leftJoinAndSelect("cases.notes", "notes")
+      .orderBy("cases.case_number", "DESC")
+      .addOrderBy("notes.id", "ASC")
+      .skip(skip)
+      .take(count)
+      .getMany();
+  }
+
+  async countSearchResults(filters: CaseSearchFilters): Promise<number> {
+    return this.createSearchQuery(filters).getCount();
+  }
+
   async getMinCaseNumber(): Promise<number> {
     const result = await this.cases
       .createQueryBuilder()
@@ -184,8 +264,12 @@ export class GuildCases extends BaseGuildRepository {
     return dataSource.transaction(async (entityManager) => {
       const cases = entityManager.getRepository(Case);
       const caseNotes = entityManager.getRepository(CaseNote);
+      const caseAppeals = entityManager.getRepository(CaseAppeal);
 
       await Promise.all([
+        caseAppeals.delete({
+          case_id: id,
+        }),
         caseNotes.delete({
           case_id: id,
         }),
@@ -1,3 +1,5 @@
+import { MessageComponentInteraction, ModalSubmitInteraction } from "discord.js";
+import { Lockdown } from "./entities/Lockdown";
 import { Mute } from "./entities/Mute";
 import { Reminder } from "./entities/Reminder";
 import { ScheduledPost } from "./entities/ScheduledPost";
@@ -11,6 +13,8 @@ interface GuildEventArgs extends Record<string, unknown[]> {
   reminder: [Reminder];
   expiredTempban: [Tempban];
   expiredVCAlert: [VCAlert];
+  expiredLockdown: [Lockdown];
+  dmInteraction: [MessageComponentInteraction | ModalSubmitInteraction];
 }
 
 type GuildEvent = keyof GuildEventArgs;
@@ -0,0 +1,51 @@
+import moment from "moment-timezone";
+import { Repository } from "typeorm";
+import { DBDateFormat } from "../utils";
+import { BaseGuildRepository } from "./BaseGuildRepository";
+import { dataSource } from "./dataSource";
+import { Lockdown } from "./entities/Lockdown";
+
+export class GuildLockdowns extends BaseGuildRepository<Lockdown> {
+  private lockdowns: Repository<Lockdown>;
+
+  constructor(guildId) {
+    super(guildId);
+    this.lockdowns = dataSource.getRepository(Lockdown);
+  }
+
+  async get(): Promise<Lockdown | null> {
+    return this.lockdowns.findOne({
+      where: {
+        guild_id: this.guildId,
+      },
+    });
+  }
+
+  async add(
+    data: Pick<Lockdown, "channels" | "invites_paused" | "source" | "mod_id" | "reason">,
+    expiryTime: number | null,
+  ): Promise<Lockdown> {
+    await this.lockdowns.insert({
+      ...data,
+      guild_id: this.guildId,
+      expires_at: expiryTime ? moment.utc().add(expiryTime, "ms").format(DBDateFormat) : null,
+    });
+
+    return (await this.get())!;
+  }
+
+  async update(data: Partial<Pick<Lockdown, "channels" | "invites_paused" | "expires_at">>): Promise<void> {
+    await this.lockdowns.update(
+      {
+        guild_id: this.guildId,
+      },
+      data,
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.lockdowns.delete({
+      guild_id: this.guildId,
+    });
+  }
+}
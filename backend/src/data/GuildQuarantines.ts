@@ -0,0 +1,51 @@
+import { Repository } from "typeorm";
+import { BaseGuildRepository } from "./BaseGuildRepository";
+import { dataSource } from "./dataSource";
+import { Quarantine } from "./entities/Quarantine";
+
+export class GuildQuarantines extends BaseGuildRepository<Quarantine> {
+  private quarantines: Repository<Quarantine>;
+
+  constructor(guildId) {
+    super(guildId);
+    this.quarantines = dataSource.getRepository(Quarantine);
+  }
+
+  async find(userId: string): Promise<Quarantine | null> {
+    return this.quarantines.findOne({
+      where: {
+        guild_id: this.guildId,
+        user_id: userId,
+      },
+    });
+  }
+
+  async add(userId: string, data: Pick<Quarantine, "role_id" | "roles" | "rule_name" | "reason">): Promise<Quarantine> {
+    await this.quarantines.insert({
+      ...data,
+      guild_id: this.guildId,
+      user_id: userId,
+    });
+
+    return (await this.find(userId))!;
+  }
+
+  async setThreadId(userId: string, threadId: string): Promise<void> {
+    await this.quarantines.update(
+      {
+        guild_id: this.guildId,
+        user_id: userId,
+      },
+      {
+        thread_id: threadId,
+      },
+    );
+  }
+
+  async clear(userId: string): Promise<void> {
+    await this.quarantines.delete({
+      guild_id: this.guildId,
+      user_id: userId,
+    });
+  }
+}
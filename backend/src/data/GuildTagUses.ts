@@ -0,0 +1,74 @@
+import { Repository } from "typeorm";
+import { BaseGuildRepository } from "./BaseGuildRepository";
+import { dataSource } from "./dataSource";
+import { TagUse } from "./entities/TagUse";
+
+export class GuildTagUses extends BaseGuildRepository<TagUse> {
+  private uses: Repository<TagUse>;
+
+  constructor(guildId) {
+    super(guildId);
+    this.uses = dataSource.getRepository(TagUse);
+  }
+
+  async add(data: Pick<TagUse, "tag" | "user_id" | "channel_id">): Promise<void> {
+    await this.uses.insert({
+      ...data,
+      guild_id: this.guildId,
+    });
+  }
+
+  /**
+   * @return - The most used tags and how many times they've been used
+   */
+  async getMostUsed(limit: number): Promise<Array<{ tag: string; count: number }>> {
+    const rows = await this.uses
+      .createQueryBuilder()
+      .select(["tag", "COUNT(*) AS total"])
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .groupBy("tag")
+      .orderBy("total", "DESC")
+      .limit(limit)
+      .getRawMany();
+
+    return rows.map((row) => ({ tag: row.tag, count: Number(row.total) }));
+  }
+
+  /**
+   * @return - How many times the tag has been used, and when it was last used (in DB date format)
+   */
+  async getUsageForTag(tag: string): Promise<{ count: number; last_used_at: string | null }> {
+    const row = await this.uses
+      .createQueryBuilder()
+      .select(["COUNT(*) AS total", "MAX(used_at) AS last_used_at"])
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .andWhere("tag = :tag", { tag })
+      .getRawOne();
+
+    return {
+      count: Number(row?.total ?? 0),
+      last_used_at: row?.last_used_at ?? null,
+    };
+  }
+
+  /**
+   * @return - The most common values of the given column among the tag's uses
+   */
+  async getTopValuesForTag(
+    tag: string,
+    column: "user_id" | "channel_id",
+    limit: number,
+  ): Promise<Array<{ value: string; count: number }>> {
+    const rows = await this.uses
+      .createQueryBuilder()
+      .select([`${column} AS value`, "COUNT(*) AS total"])
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .andWhere("tag = :tag", { tag })
+      .groupBy(column)
+      .orderBy("total", "DESC")
+      .limit(limit)
+      .getRawMany();
+
+    return rows.map((row) => ({ value: String(row.value), count: Number(row.total) }));
+  }
+}
@@ -2,16 +2,22 @@ import { Repository } from "typeorm";
 import { BaseGuildRepository } from "./BaseGuildRepository";
 import { dataSource } from "./dataSource";
 import { Tag } from "./entities/Tag";
+import { TagAlias } from "./entities/TagAlias";
 import { TagResponse } from "./entities/TagResponse";
+import { TagRevision } from "./entities/TagRevision";
 
 export class GuildTags extends BaseGuildRepository {
   private tags: Repository<Tag>;
+  private tagAliases: Repository<TagAlias>;
   private tagResponses: Repository<TagResponse>;
+  private tagRevisions: Repository<TagRevision>;
 
   constructor(guildId) {
     super(guildId);
     this.tags = dataSource.getRepository(Tag);
+    this.tagAliases = dataSource.getRepository(TagAlias);
     this.tagResponses = dataSource.getRepository(TagResponse);
+    this.tagRevisions = dataSource.getRepository(TagRevision);
   }
 
   async all(): Promise<Tag[]> {
@@ -31,28 +37,88 @@ export class GuildTags extends BaseGuildRepository {
     });
   }
 
-  async createOrUpdate(tag, body, userId) {
-    const existingTag = await this.find(tag);
-    if (existingTag) {
-      await this.tags
-        .createQueryBuilder()
-        .update()
-        .set({
-          body,
+  /**
+   * Saves the tag's new body and stores it as the tag's next revision
+   * @return - The number of the new revision
+   */
+  async createOrUpdate(tag, body, userId): Promise<number> {
+    return dataSource.transaction(async (entityManager) => {
+      const tags = entityManager.getRepository(Tag);
+      const revisions = entityManager.getRepository(TagRevision);
+
+      const existingTag = await tags.findOne({
+        where: {
+          guild_id: this.guildId,
+          tag,
+        },
+      });
+      if (existingTag) {
+        await tags
+          .createQueryBuilder()
+          .update()
+          .set({
+            body,
+            user_id: userId,
+            created_at: () => "NOW()",
+          })
+          .where("guild_id = :guildId", { guildId: this.guildId })
+          .andWhere("tag = :tag", { tag })
+          .execute();
+      } else {
+        await tags.insert({
+          guild_id: this.guildId,
           user_id: userId,
-          created_at: () => "NOW()",
-        })
-        .where("guild_id = :guildId", { guildId: this.guildId })
-        .andWhere("tag = :tag", { tag })
-        .execute();
-    } else {
-      await this.tags.insert({
+          tag,
+          body,
+        });
+      }
+
+      // Revisions are kept when a tag is deleted, so a recreated tag continues its old numbering
+      const latestRevision = await revisions.findOne({
+        where: {
+          guild_id: this.guildId,
+          tag,
+        },
+        order: {
+          revision: "DESC",
+        },
+      });
+      const revision = (latestRevision?.revision ?? 0) + 1;
+      await revisions.insert({
         guild_id: this.guildId,
-        user_id: userId,
         tag,
+        revision,
         body,
+        user_id: userId,
       });
+
+      return revision;
+    });
+  }
+
+  /**
+   * Finds a tag by its name, or by one of its aliases
+   */
+  async findByNameOrAlias(name): Promise<Tag | null> {
+    const tag = await this.find(name);
+    if (tag) {
+      return tag;
     }
+
+    const alias = await this.findAlias(name);
+    return alias ? this.find(alias.tag) : null;
+  }
+
+  async setParameters(tag, parameters: string | null) {
+    await this.tags.update(
+      {
+        guild_id: this.guildId,
+        tag,
+      },
+      {
+        parameters,
+      },
+    );
   }
 
   async delete(tag) {
@@ -60,6 +126,76 @@ export class GuildTags extends BaseGuildRepository {
       guild_id: this.guildId,
       tag,
     });
+    await this.tagAliases.delete({
+      guild_id: this.guildId,
+      tag,
+    });
+  }
+
+  async findAlias(alias): Promise<TagAlias | null> {
+    return this.tagAliases.findOne({
+      where: {
+        guild_id: this.guildId,
+        alias,
+      },
+    });
+  }
+
+  /**
+   * @param tag - If specified, only the aliases of this tag are returned
+   */
+  async getAliases(tag?: string): Promise<TagAlias[]> {
+    return this.tagAliases.find({
+      where: {
+        guild_id: this.guildId,
+        ...(tag != null ? { tag } : {}),
+      },
+      order: {
+        alias: "ASC",
+      },
+    });
+  }
+
+  async addAlias(alias, tag, userId) {
+    await this.tagAliases.insert({
+      guild_id: this.guildId,
+      alias,
+      tag,
+      user_id: userId,
+    });
+  }
+
+  async deleteAlias(alias) {
+    await this.tagAliases.delete({
+      guild_id: this.guildId,
+      alias,
+    });
+  }
+
+  /**
+   * @return - The tag's revisions, newest first
+   */
+  async getRevisions(tag, limit?: number): Promise<TagRevision[]> {
+    return this.tagRevisions.find({
+      where: {
+        guild_id: this.guildId,
+        tag,
+      },
+      order: {
+        revision: "DESC",
+      },
+      take: limit,
+    });
+  }
+
+  async findRevision(tag, revision: number): Promise<TagRevision | null> {
+    return this.tagRevisions.findOne({
+      where: {
+        guild_id: this.guildId,
+        tag,
+        revision,
+      },
+    });
   }
 
   async findResponseByCommandMessageId(messageId: string): Promise<TagResponse | null> {
@@ -0,0 +1,127 @@
+import moment from "moment-timezone";
+import { Repository } from "typeorm";
+import { DBDateFormat } from "../utils";
+import { BaseGuildRepository } from "./BaseGuildRepository";
+import { WebhookDeliveryStatus } from "./WebhookDeliveryStatus";
+import { dataSource } from "./dataSource";
+import { WebhookDelivery } from "./entities/WebhookDelivery";
+
+export class GuildWebhookDeliveries extends BaseGuildRepository<WebhookDelivery> {
+  private deliveries: Repository<WebhookDelivery>;
+
+  constructor(guildId) {
+    super(guildId);
+    this.deliveries = dataSource.getRepository(WebhookDelivery);
+  }
+
+  async find(id: number): Promise<WebhookDelivery | null> {
+    return this.deliveries.findOne({
+      where: {
+        guild_id: this.guildId,
+        id,
+      },
+    });
+  }
+
+  async getList(count: number, skip = 0, webhookName?: string): Promise<WebhookDelivery[]> {
+    return this.deliveries.find({
+      where: {
+        guild_id: this.guildId,
+        ...(webhookName != null ? { webhook_name: webhookName } : {}),
+      },
+      skip,
+      take: count,
+      order: {
+        id: "DESC",
+      },
+    });
+  }
+
+  async getCount(webhookName?: string): Promise<number> {
+    return this.deliveries.count({
+      where: {
+        guild_id: this.guildId,
+        ...(webhookName != null ? { webhook_name: webhookName } : {}),
+      },
+    });
+  }
+
+  /**
+   * Returns pending deliveries whose next attempt is due, oldest first
+   */
+  async getDue(count: number): Promise<WebhookDelivery[]> {
+    return this.deliveries
+      .createQueryBuilder()
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .andWhere("status = :status", { status: WebhookDeliveryStatus.Pending })
+      .andWhere("next_attempt_at <= :now", { now: moment.utc().format(DBDateFormat) })
+      .orderBy("id", "ASC")
+      .take(count)
+      .getMany();
+  }
+
+  async create(webhookName: string, event: string, payload: string): Promise<WebhookDelivery> {
+    const now = moment.utc().format(DBDateFormat);
+    const result = await this.deliveries.insert({
+      guild_id: this.guildId,
+      webhook_name: webhookName,
+      event,
+      payload,
+      status: WebhookDeliveryStatus.Pending,
+      attempts: 0,
+      created_at: now,
+      next_attempt_at: now,
+    });
+
+    return (await this.find(result.identifiers[0].id))!;
+  }
+
+  async markDelivered(id: number, attempts: number, statusCode: number): Promise<void> {
+    await this.deliveries.update(
+      { id },
+      {
+        status: WebhookDeliveryStatus.Delivered,
+        attempts,
+        last_status_code: statusCode,
+        last_error: null,
+        next_attempt_at: null,
+        delivered_at: moment.utc().format(DBDateFormat),
+      },
+    );
+  }
+
+  /**
+   * @param nextAttemptAt - When to retry the delivery, in DB date format. If null, the delivery is marked as failed.
+   */
+  async markAttemptFailed(
+    id: number,
+    attempts: number,
+    statusCode: number | null,
+    error: string,
+    nextAttemptAt: string | null,
+  ): Promise<void> {
+    await this.deliveries.update(
+      { id },
+      {
+        status: nextAttemptAt ? WebhookDeliveryStatus.Pending : WebhookDeliveryStatus.Failed,
+        attempts,
+        last_status_code: statusCode,
+        last_error: error.slice(0, 255),
+        next_attempt_at: nextAttemptAt,
+      },
+    );
+  }
+
+  /**
+   * @param date - In DB date format
+   */
+  async deleteCreatedBefore(date: string): Promise<void> {
+    await this.deliveries
+      .createQueryBuilder()
+      .where("guild_id = :guildId", { guildId: this.guildId })
+      .andWhere("created_at < :date", { date })
+      .andWhere("status != :status", { status: WebhookDeliveryStatus.Pending })
+      .delete()
+      .execute();
+  }
+}
@@ -0,0 +1,24 @@
+import moment from "moment-timezone";
+import { Repository } from "typeorm";
+import { DBDateFormat } from "../utils";
+import { BaseRepository } from "./BaseRepository";
+import { dataSource } from "./dataSource";
+import { Lockdown } from "./entities/Lockdown";
+
+export class Lockdowns extends BaseRepository {
+  private lockdowns: Repository<Lockdown>;
+
+  constructor() {
+    super();
+    this.lockdowns = dataSource.getRepository(Lockdown);
+  }
+
+  async getSoonExpiringLockdowns(threshold: number): Promise<Lockdown[]> {
+    const thresholdDateStr = moment.utc().add(threshold, "ms").format(DBDateFormat);
+    return this.lockdowns
+      .createQueryBuilder()
+      .where("expires_at IS NOT NULL")
+      .andWhere("expires_at <= :date", { date: thresholdDateStr })
+      .getMany();
+  }
+}
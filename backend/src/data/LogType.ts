@@ -99,4 +99,7 @@ export enum LogType {
   CASE_DELETE,
 
   DM_FAILED,
+
+  LOCKDOWN_START,
+  LOCKDOWN_END,
 }
@@ -0,0 +1,5 @@
+export enum WebhookDeliveryStatus {
+  Pending = 1,
+  Delivered,
+  Failed,
+}
@@ -5,6 +5,9 @@ export const AuditLogEventTypes = {
   EDIT_API_PERMISSION: "EDIT_API_PERMISSION" as const,
   REMOVE_API_PERMISSION: "REMOVE_API_PERMISSION" as const,
   EDIT_CONFIG: "EDIT_CONFIG" as const,
+  ROLLBACK_CONFIG: "ROLLBACK_CONFIG" as const,
+  EDIT_CONFIG_LIST: "EDIT_CONFIG_LIST" as const,
+  RESTORE_TAG: "RESTORE_TAG" as const,
 };
 
 export type AuditLogEventType = keyof typeof AuditLogEventTypes;
@@ -40,6 +43,19 @@ export interface AuditLogEventData extends Record<AuditLogEventType, unknown> {
   };
 
   EDIT_CONFIG: Record<string, never>;
+
+  ROLLBACK_CONFIG: {
+    revision_id: number;
+  };
+
+  EDIT_CONFIG_LIST: {
+    name: string;
+  };
+
+  RESTORE_TAG: {
+    tag: string;
+    revision: number;
+  };
 }
 
 export type AnyAuditLogEventData = AuditLogEventData[AuditLogEventType];
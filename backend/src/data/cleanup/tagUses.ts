@@ -0,0 +1,38 @@
+import moment from "moment-timezone";
+import { In } from "typeorm";
+import { DAYS, DBDateFormat } from "../../utils";
+import { dataSource } from "../dataSource";
+import { TagUse } from "../entities/TagUse";
+
+export const TAG_USE_RETENTION_PERIOD = 90 * DAYS;
+const CLEAN_PER_LOOP = 500;
+
+export async function cleanupTagUses(): Promise<number> {
+  let cleaned = 0;
+
+  const tagUsesRepository = dataSource.getRepository(TagUse);
+  const dateThreshold = moment.utc().subtract(TAG_USE_RETENTION_PERIOD, "ms").format(DBDateFormat);
+
+  let rows;
+  do {
+    rows = await dataSource.query(
+      `
+      SELECT id
+      FROM tag_uses
+      WHERE used_at < ?
+      LIMIT ${CLEAN_PER_LOOP}
+    `,
+      [dateThreshold],
+    );
+
+    if (rows.length > 0) {
+      await tagUsesRepository.delete({
+        id: In(rows.map((r) => r.id)),
+      });
+    }
+
+    cleaned += rows.length;
+  } while (rows.length === CLEAN_PER_LOOP);
+
+  return cleaned;
+}
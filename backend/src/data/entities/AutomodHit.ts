@@ -0,0 +1,29 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+export interface AutomodHitActionResult {
+  action: string;
+  success: boolean;
+}
+
+@Entity("automod_hits")
+export class AutomodHit {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column() guild_id: string;
+
+  @Column() rule_name: string;
+
+  @Column() trigger_type: string;
+
+  @Column({ type: String, nullable: true }) user_id: string | null;
+
+  @Column({ type: String, nullable: true }) channel_id: string | null;
+
+  @Column("simple-json") actions: AutomodHitActionResult[];
+
+  // Matches of rules in dry run mode, which don't run any actions
+  @Column() dry_run: boolean;
+
+  @Column() created_at: string;
+}
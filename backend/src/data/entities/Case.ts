@@ -1,4 +1,5 @@
 import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from "typeorm";
+import { CaseAppeal } from "./CaseAppeal";
 import { CaseNote } from "./CaseNote";
 
 @Entity("cases")
@@ -37,4 +38,7 @@ export class Case {
 
   @OneToMany(() => CaseNote, (note) => note.case)
   notes: CaseNote[];
+
+  @OneToMany(() => CaseAppeal, (appeal) => appeal.case)
+  appeals: CaseAppeal[];
 }
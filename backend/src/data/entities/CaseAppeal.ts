@@ -0,0 +1,36 @@
+import { Column, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { CaseAppealStatus } from "../CaseAppealStatus";
+import { Case } from "./Case";
+
+@Entity("case_appeals")
+export class CaseAppeal {
+  @PrimaryGeneratedColumn() id: number;
+
+  @Column() guild_id: string;
+
+  @Column() case_id: number;
+
+  @Column() user_id: string;
+
+  @Column() body: string;
+
+  @Column() status: CaseAppealStatus;
+
+  @Column({ type: String, nullable: true }) reviewer_id: string | null;
+
+  @Column({ type: String, nullable: true }) reviewer_name: string | null;
+
+  /**
+   * ID of the channel and message where this appeal was posted for review.
+   * Format: "channelid-messageid"
+   */
+  @Column({ type: String, nullable: true }) review_message_id: string | null;
+
+  @Column() created_at: string;
+
+  @Column({ type: String, nullable: true }) reviewed_at: string | null;
+
+  @ManyToOne(() => Case, (theCase) => theCase.appeals)
+  @JoinColumn({ name: "case_id" })
+  case: Case;
+}
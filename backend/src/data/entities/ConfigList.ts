@@ -0,0 +1,25 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+@Entity("config_lists")
+export class ConfigList {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  guild_id: string;
+
+  @Column()
+  name: string;
+
+  /**
+   * One item per line
+   */
+  @Column()
+  items: string;
+
+  @Column()
+  edited_by: string;
+
+  @Column()
+  edited_at: string;
+}
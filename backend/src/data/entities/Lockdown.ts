@@ -0,0 +1,39 @@
+import { Column, Entity, PrimaryColumn } from "typeorm";
+
+export interface LockdownChannelSnapshot {
+  channel_id: string;
+  /**
+   * The channel's @everyone overwrite before the lockdown, as permission bitfields, or null if it didn't have one
+   */
+  overwrite: {
+    allow: string;
+    deny: string;
+  } | null;
+}
+
+@Entity("lockdowns")
+export class Lockdown {
+  @Column()
+  @PrimaryColumn()
+  guild_id: string;
+
+  @Column("simple-json") channels: LockdownChannelSnapshot[];
+
+  /**
+   * Whether invites were paused by the lockdown and should be resumed when it ends
+   */
+  @Column() invites_paused: boolean;
+
+  /**
+   * manual, automod or antiraid
+   */
+  @Column() source: string;
+
+  @Column({ type: String, nullable: true }) mod_id: string | null;
+
+  @Column({ type: String, nullable: true }) reason: string | null;
+
+  @Column({ type: String, nullable: true }) expires_at: string | null;
+
+  @Column() created_at: string;
+}
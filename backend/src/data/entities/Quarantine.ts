@@ -0,0 +1,33 @@
+import { Column, Entity, PrimaryColumn } from "typeorm";
+
+@Entity("quarantines")
+export class Quarantine {
+  @Column()
+  @PrimaryColumn()
+  guild_id: string;
+
+  @Column()
+  @PrimaryColumn()
+  user_id: string;
+
+  /**
+   * The quarantine role that was applied
+   */
+  @Column() role_id: string;
+
+  /**
+   * Roles that were removed from the member and are restored when they're released
+   */
+  @Column("simple-array") roles: string[];
+
+  @Column() rule_name: string;
+
+  @Column({ type: String, nullable: true }) reason: string | null;
+
+  /**
+   * The private staff thread opened for the quarantine
+   */
+  @Column({ type: String, nullable: true }) thread_id: string | null;
+
+  @Column() created_at: string;
+}
@@ -14,5 +14,10 @@ export class Tag {
 
   @Column() body: string;
 
+  /**
+   * Declared in the same format as command signatures, e.g. `<target:user> [amount:number=5]`
+   */
+  @Column({ type: String, nullable: true }) parameters: string | null;
+
   @Column() created_at: string;
 }
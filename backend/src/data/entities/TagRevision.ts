@@ -0,0 +1,28 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+@Entity("tag_revisions")
+export class TagRevision {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  guild_id: string;
+
+  @Column()
+  tag: string;
+
+  /**
+   * Numbered from 1 separately for each tag
+   */
+  @Column()
+  revision: number;
+
+  @Column()
+  body: string;
+
+  @Column()
+  user_id: string;
+
+  @Column()
+  created_at: string;
+}
@@ -0,0 +1,25 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+@Entity("tag_uses")
+export class TagUse {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  guild_id: string;
+
+  /**
+   * Tags from config categories are stored as "category.tag"
+   */
+  @Column()
+  tag: string;
+
+  @Column()
+  user_id: string;
+
+  @Column()
+  channel_id: string;
+
+  @Column()
+  used_at: string;
+}
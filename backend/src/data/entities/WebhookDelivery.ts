@@ -0,0 +1,35 @@
+import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+import { WebhookDeliveryStatus } from "../WebhookDeliveryStatus";
+
+@Entity("webhook_deliveries")
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn() id: number;
+
+  @Column() guild_id: string;
+
+  /**
+   * Name of the webhook in the webhooks plugin's config
+   */
+  @Column() webhook_name: string;
+
+  @Column() event: string;
+
+  /**
+   * The exact JSON body that is sent, so retries have the same signature input
+   */
+  @Column() payload: string;
+
+  @Column() status: WebhookDeliveryStatus;
+
+  @Column() attempts: number;
+
+  @Column({ type: Number, nullable: true }) last_status_code: number | null;
+
+  @Column({ type: String, nullable: true }) last_error: string | null;
+
+  @Column() created_at: string;
+
+  @Column({ type: String, nullable: true }) next_attempt_at: string | null;
+
+  @Column({ type: String, nullable: true }) delivered_at: string | null;
+}
@@ -0,0 +1,74 @@
+// tslint:disable:no-console
+
+import moment from "moment-timezone";
+import { lazyMemoize, MINUTES } from "../../utils";
+import { Lockdown } from "../entities/Lockdown";
+import { emitGuildEvent, hasGuildEventListener } from "../GuildEvents";
+import { Lockdowns } from "../Lockdowns";
+import Timeout = NodeJS.Timeout;
+
+const LOOP_INTERVAL = 15 * MINUTES;
+const MAX_TRIES_PER_SERVER = 3;
+const getLockdownsRepository = lazyMemoize(() => new Lockdowns());
+const timeouts = new Map<string, Timeout>();
+
+function broadcastExpiredLockdown(lockdown: Lockdown, tries = 0) {
+  console.log(`[EXPIRING LOCKDOWNS LOOP] Broadcasting expired lockdown: ${lockdown.guild_id}`);
+  if (!hasGuildEventListener(lockdown.guild_id, "expiredLockdown")) {
+    // If there are no listeners registered for the server yet, try again in a bit
+    if (tries < MAX_TRIES_PER_SERVER) {
+      timeouts.set(
+        lockdown.guild_id,
+        setTimeout(() => broadcastExpiredLockdown(lockdown, tries + 1), 1 * MINUTES),
+      );
+    }
+    return;
+  }
+  emitGuildEvent(lockdown.guild_id, "expiredLockdown", [lockdown]);
+}
+
+export async function runExpiringLockdownsLoop() {
+  console.log("[EXPIRING LOCKDOWNS LOOP] Clearing old timeouts");
+  for (const timeout of timeouts.values()) {
+    clearTimeout(timeout);
+  }
+
+  console.log("[EXPIRING LOCKDOWNS LOOP] Setting timeouts for expiring lockdowns");
+  const expiringLockdowns = await getLockdownsRepository().getSoonExpiringLockdowns(LOOP_INTERVAL);
+  for (const lockdown of expiringLockdowns) {
+    const remaining = Math.max(0, moment.utc(lockdown.expires_at!).diff(moment.utc()));
+    timeouts.set(
+      lockdown.guild_id,
+      setTimeout(() => broadcastExpiredLockdown(lockdown), remaining),
+    );
+  }
+
+  console.log("[EXPIRING LOCKDOWNS LOOP] Scheduling next loop");
+  setTimeout(() => runExpiringLockdownsLoop(), LOOP_INTERVAL);
+}
+
+export function registerExpiringLockdown(lockdown: Lockdown) {
+  clearExpiringLockdown(lockdown);
+
+  if (lockdown.expires_at === null) {
+    return;
+  }
+
+  console.log("[EXPIRING LOCKDOWNS LOOP] Registering new expiring lockdown");
+  const remaining = Math.max(0, moment.utc(lockdown.expires_at).diff(moment.utc()));
+  if (remaining > LOOP_INTERVAL) {
+    return;
+  }
+
+  timeouts.set(
+    lockdown.guild_id,
+    setTimeout(() => broadcastExpiredLockdown(lockdown), remaining),
+  );
+}
+
+export function clearExpiringLockdown(lockdown: Lockdown) {
+  console.log("[EXPIRING LOCKDOWNS LOOP] Clearing expiring lockdown");
+  if (timeouts.has(lockdown.guild_id)) {
+    clearTimeout(timeouts.get(lockdown.guild_id)!);
+  }
+}
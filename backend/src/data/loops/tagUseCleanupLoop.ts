@@ -0,0 +1,18 @@
+// tslint:disable:no-console
+
+import { HOURS } from "../../utils";
+import { cleanupTagUses } from "../cleanup/tagUses";
+
+const LOOP_INTERVAL = 1 * HOURS;
+
+export async function runTagUseCleanupLoop() {
+  try {
+    console.log("[TAG USE CLEANUP LOOP] Deleting old tag uses from the database");
+    const deleted = await cleanupTagUses();
+    console.log(`[TAG USE CLEANUP LOOP] Deleted ${deleted} old tag uses from the database`);
+  } catch (err) {
+    console.error(`[TAG USE CLEANUP LOOP] Error while deleting old tag uses: ${err}`);
+  } finally {
+    setTimeout(() => runTagUseCleanupLoop(), LOOP_INTERVAL);
+  }
+}
@@ -39,6 +39,12 @@ const envType = z.object({
 
   PHISHERMAN_API_KEY: z.string().optional(),
 
+  // Allows webhooks to be sent to localhost and private network addresses, e.g. for testing webhooks locally
+  WEBHOOKS_ALLOW_PRIVATE_NETWORKS: z
+    .string()
+    .optional()
+    .transform((str) => str === "true"),
+
   DOCKER_DEV_MYSQL_PASSWORD: z.string().optional(), // Included here for the DB_PASSWORD default in development
   DOCKER_PROD_MYSQL_PASSWORD: z.string().optional(), // Included here for the DB_PASSWORD default in production
 
@@ -21,6 +21,7 @@ import { DiscordJSError } from "./DiscordJSError";
 import { RecoverablePluginError } from "./RecoverablePluginError";
 import { SimpleError } from "./SimpleError";
 import { AllowedGuilds } from "./data/AllowedGuilds";
+import { ConfigLists } from "./data/ConfigLists";
 import { Configs } from "./data/Configs";
 import { GuildLogs } from "./data/GuildLogs";
 import { LogType } from "./data/LogType";
@@ -29,12 +30,14 @@ import { dataSource } from "./data/dataSource";
 import { connect } from "./data/db";
 import { runExpiredArchiveDeletionLoop } from "./data/loops/expiredArchiveDeletionLoop";
 import { runExpiredMemberCacheDeletionLoop } from "./data/loops/expiredMemberCacheDeletionLoop";
+import { runExpiringLockdownsLoop } from "./data/loops/expiringLockdownsLoop";
 import { runExpiringMutesLoop } from "./data/loops/expiringMutesLoop";
 import { runExpiringTempbansLoop } from "./data/loops/expiringTempbansLoop";
 import { runExpiringVCAlertsLoop } from "./data/loops/expiringVCAlertsLoop";
 import { runMemberCacheDeletionLoop } from "./data/loops/memberCacheDeletionLoop";
 import { runPhishermanCacheCleanupLoop, runPhishermanReportingLoop } from "./data/loops/phishermanLoops";
 import { runSavedMessageCleanupLoop } from "./data/loops/savedMessageCleanupLoop";
+import { runTagUseCleanupLoop } from "./data/loops/tagUseCleanupLoop";
 import { runUpcomingRemindersLoop } from "./data/loops/upcomingRemindersLoop";
 import { runUpcomingScheduledPostsLoop } from "./data/loops/upcomingScheduledPostsLoop";
 import { consumeQueryStats } from "./data/queryLogger";
@@ -46,6 +49,7 @@ import { logRateLimit } from "./rateLimitStats";
 import { startUptimeCounter } from "./uptime";
 import { MINUTES, SECONDS, errorMessage, isDiscordAPIError, isDiscordHTTPError, sleep, successMessage } from "./utils";
 import { DecayingCounter } from "./utils/DecayingCounter";
+import { ConfigListError, expandConfigLists } from "./utils/configLists";
 import { enableProfiling } from "./utils/easyProfiler";
 import { loadYamlSafely } from "./utils/loadYamlSafely";
 
@@ -272,6 +276,9 @@ connect().then(async (connection) => {
 
   const allowedGuilds = new AllowedGuilds();
   const guildConfigs = new Configs();
+  const configLists = new ConfigLists();
+  // Guild configs as they were last loaded with their lists expanded, by guild ID
+  const lastExpandedConfigs = new Map<string, any>();
 
   const bot = new Knub(client, {
     guildPlugins,
@@ -318,8 +325,20 @@ connect().then(async (connection) => {
             // Remove deprecated properties some may still have in their config
             delete loaded.success_emoji;
             delete loaded.error_emoji;
-            return loaded;
+            if (id === "global") {
+              return loaded;
+            }
+
+            const expanded = expandConfigLists(loaded, await configLists.getItemsByGuildId(id));
+            lastExpandedConfigs.set(id, expanded);
+            return expanded;
           } catch (err) {
+            // An invalid list shouldn't unload every plugin, so keep using the config from before the list broke
+            if (err instanceof ConfigListError && lastExpandedConfigs.has(id)) {
+              logger.error(`Error while expanding lists in config "${key}", keeping previous config: ${err.message}`);
+              return lastExpandedConfigs.get(id);
+            }
+
             logger.error(`Error while loading config "${key}": ${err.message}`);
             return {};
           }
@@ -387,6 +406,8 @@ connect().then(async (connection) => {
     await sleep(10 * SECONDS);
     runExpiringVCAlertsLoop();
     await sleep(10 * SECONDS);
+    runExpiringLockdownsLoop();
+    await sleep(10 * SECONDS);
     runExpiredArchiveDeletionLoop();
     await sleep(10 * SECONDS);
     runSavedMessageCleanupLoop();
@@ -394,6 +415,8 @@ connect().then(async (connection) => {
     runExpiredMemberCacheDeletionLoop();
     await sleep(10 * SECONDS);
     runMemberCacheDeletionLoop();
+    await sleep(10 * SECONDS);
+    runTagUseCleanupLoop();
 
     if (hasPhishermanMasterAPIKey()) {
       await sleep(10 * SECONDS);
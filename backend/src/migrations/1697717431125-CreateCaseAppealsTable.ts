@@ -0,0 +1,96 @@
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateCaseAppealsTable1697717431125 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "case_appeals",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            unsigned: true,
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "guild_id",
+            type: "bigint",
+          },
+          {
+            name: "case_id",
+            type: "int",
+            unsigned: true,
+          },
+          {
+            name: "user_id",
+            type: "bigint",
+          },
+          {
+            name: "body",
+            type: "text",
+          },
+          {
+            name: "status",
+            type: "tinyint",
+            unsigned: true,
+          },
+          {
+            name: "reviewer_id",
+            type: "bigint",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "reviewer_name",
+            type: "varchar",
+            length: "128",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "review_message_id",
+            type: "varchar",
+            length: "64",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "created_at",
+            type: "datetime",
+            default: "(NOW())",
+          },
+          {
+            name: "reviewed_at",
+            type: "datetime",
+            isNullable: true,
+            default: null,
+          },
+        ],
+        indices: [
+          {
+            columnNames: ["guild_id", "status"],
+          },
+          {
+            columnNames: ["case_id"],
+            isUnique: true,
+          },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["case_id"],
+            referencedTableName: "cases",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+            onUpdate: "CASCADE",
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("case_appeals");
+  }
+}
@@ -0,0 +1,96 @@
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateWebhookDeliveriesTable1699024851632 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "webhook_deliveries",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            unsigned: true,
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "guild_id",
+            type: "bigint",
+          },
+          {
+            name: "webhook_name",
+            type: "varchar",
+            length: "64",
+          },
+          {
+            name: "event",
+            type: "varchar",
+            length: "64",
+          },
+          {
+            name: "payload",
+            type: "mediumtext",
+          },
+          {
+            name: "status",
+            type: "tinyint",
+            unsigned: true,
+          },
+          {
+            name: "attempts",
+            type: "int",
+            unsigned: true,
+            default: 0,
+          },
+          {
+            name: "last_status_code",
+            type: "smallint",
+            unsigned: true,
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "last_error",
+            type: "varchar",
+            length: "255",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "created_at",
+            type: "datetime",
+            default: "(NOW())",
+          },
+          {
+            name: "next_attempt_at",
+            type: "datetime",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "delivered_at",
+            type: "datetime",
+            isNullable: true,
+            default: null,
+          },
+        ],
+        indices: [
+          {
+            columnNames: ["guild_id", "status", "next_attempt_at"],
+          },
+          {
+            columnNames: ["guild_id", "id"],
+          },
+          {
+            columnNames: ["created_at"],
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("webhook_deliveries");
+  }
+}
@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateQuarantinesTable1699883265712 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "quarantines",
+        columns: [
+          {
+            name: "guild_id",
+            type: "bigint",
+            isPrimary: true,
+          },
+          {
+            name: "user_id",
+            type: "bigint",
+            isPrimary: true,
+          },
+          {
+            name: "role_id",
+            type: "bigint",
+          },
+          {
+            name: "roles",
+            type: "text",
+          },
+          {
+            name: "rule_name",
+            type: "varchar",
+            length: "255",
+          },
+          {
+            name: "reason",
+            type: "text",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "thread_id",
+            type: "bigint",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "created_at",
+            type: "datetime",
+            default: "(NOW())",
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("quarantines");
+  }
+}
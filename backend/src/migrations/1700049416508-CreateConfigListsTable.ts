@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateConfigListsTable1700049416508 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "config_lists",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            unsigned: true,
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "guild_id",
+            type: "bigint",
+          },
+          {
+            name: "name",
+            type: "varchar",
+            length: "64",
+          },
+          {
+            name: "items",
+            type: "mediumtext",
+          },
+          {
+            name: "edited_by",
+            type: "bigint",
+          },
+          {
+            name: "edited_at",
+            type: "datetime",
+            default: "(NOW())",
+          },
+        ],
+        indices: [
+          {
+            columnNames: ["guild_id", "name"],
+            isUnique: true,
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("config_lists");
+  }
+}
@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateAutomodHitsTable1700137912443 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "automod_hits",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            unsigned: true,
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "guild_id",
+            type: "bigint",
+          },
+          {
+            name: "rule_name",
+            type: "varchar",
+            length: "255",
+          },
+          {
+            name: "trigger_type",
+            type: "varchar",
+            length: "64",
+          },
+          {
+            name: "user_id",
+            type: "bigint",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "channel_id",
+            type: "bigint",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "actions",
+            type: "text",
+          },
+          {
+            name: "created_at",
+            type: "datetime",
+            default: "(NOW())",
+          },
+        ],
+        indices: [
+          {
+            columnNames: ["guild_id", "created_at"],
+          },
+          {
+            columnNames: ["guild_id", "rule_name", "created_at"],
+          },
+          {
+            columnNames: ["created_at"],
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("automod_hits");
+  }
+}
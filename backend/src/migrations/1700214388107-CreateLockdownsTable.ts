@@ -0,0 +1,64 @@
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateLockdownsTable1700214388107 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "lockdowns",
+        columns: [
+          {
+            name: "guild_id",
+            type: "bigint",
+            isPrimary: true,
+          },
+          {
+            name: "channels",
+            type: "mediumtext",
+          },
+          {
+            name: "invites_paused",
+            type: "tinyint",
+            unsigned: true,
+          },
+          {
+            name: "source",
+            type: "varchar",
+            length: "16",
+          },
+          {
+            name: "mod_id",
+            type: "bigint",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "reason",
+            type: "text",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "expires_at",
+            type: "datetime",
+            isNullable: true,
+            default: null,
+          },
+          {
+            name: "created_at",
+            type: "datetime",
+            default: "(NOW())",
+          },
+        ],
+        indices: [
+          {
+            columnNames: ["expires_at"],
+          },
+        ],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("lockdowns");
+  }
+}
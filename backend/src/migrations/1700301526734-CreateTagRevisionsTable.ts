@@ -0,0 +1,64 @@
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateTagRevisionsTable1700301526734 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "tag_revisions",
+        columns: [
+          {
+            name: "id",
+            type: "int",
+            unsigned: true,
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          {
+            name: "guild_id",
+            type: "bigint",
+          },
+          {
+            name: "tag",
+            type: "varchar",
+            length: "64",
+          },
+          {
+            name: "revision",
+            type: "int",
+            unsigned: true,
+          },
+          {
+            name: "body",
+            type: "text",
+          },
+          {
+            name: "user_id",
+            type: "bigint",
+          },
+          {
+            name: "created_at",
+            type: "datetime",
+            default: "(NOW())",
+          },
+        ],
+        indices: [
+          {
+            columnNames: ["guild_id", "tag", "revision"],
+            isUnique: true,
+          },
+        ],
+      }),
+    );
+
+    // Existing tags start their history from their current body
+    await queryRunner.query(`
+      INSERT INTO tag_revisions (guild_id, tag, revision, body, user_id, created_at)
+      SELECT guild_id, tag, 1, body, user_id, COALESCE(created_at, NOW()) FROM tags
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("tag_revisions");
+  }
+}
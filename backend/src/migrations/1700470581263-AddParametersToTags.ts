@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+export class AddParametersToTags1700470581263 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      "tags",
+      new TableColumn({
+        name: "parameters",
+        type: "text",
+        isNullable: true,
+        default: null,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("tags", "parameters");
+  }
+}
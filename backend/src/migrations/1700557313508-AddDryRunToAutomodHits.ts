@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+export class AddDryRunToAutomodHits1700557313508 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      "automod_hits",
+      new TableColumn({
+        name: "dry_run",
+        type: "tinyint",
+        unsigned: true,
+        default: 0,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("automod_hits", "dry_run");
+  }
+}
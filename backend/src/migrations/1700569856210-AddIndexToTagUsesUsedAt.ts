@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner, TableIndex } from "typeorm";
+
+export class AddIndexToTagUsesUsedAt1700569856210 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createIndex(
+      "tag_uses",
+      new TableIndex({
+        columnNames: ["used_at"],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex("tag_uses", "IDX_f6ecf332533dfe24c56c791512");
+  }
+}
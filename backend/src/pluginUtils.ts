@@ -2,14 +2,7 @@
  * @file Utility functions that are plugin-instance-specific (i.e. use PluginData)
  */
 
-import {
-  GuildMember,
-  Message,
-  MessageCreateOptions,
-  MessageMentionOptions,
-  PermissionsBitField,
-  TextBasedChannel,
-} from "discord.js";
+import { GuildMember, Message, MessageCreateOptions, MessageMentionOptions, PermissionsBitField } from "discord.js";
 import * as t from "io-ts";
 import {
   AnyPluginData,
@@ -24,6 +17,7 @@ import { logger } from "./logger";
 import { isStaff } from "./staff";
 import { TZeppelinKnub } from "./types";
 import { errorMessage, successMessage, tNullable } from "./utils";
+import { CommandResponseTarget, isInteractionResponseTarget, sendContextResponse } from "./utils/commandResponseTarget";
 import { Tail } from "./utils/typeUtils";
 import { StrictValidationError, parseIoTsSchema } from "./validatorUtils";
 
@@ -101,7 +95,7 @@ export function makeIoTsConfigParser<Schema extends t.Type<any>>(schema: Schema)
 
 export async function sendSuccessMessage(
   pluginData: AnyPluginData<any>,
-  channel: TextBasedChannel,
+  channel: CommandResponseTarget,
   body: string,
   allowedMentions?: MessageMentionOptions,
 ): Promise<Message | undefined> {
@@ -111,18 +105,16 @@ export async function sendSuccessMessage(
     ? { content: formattedBody, allowedMentions }
     : { content: formattedBody };
 
-  return channel
-    .send({ ...content }) // Force line break
+  return sendContextResponse(channel, { ...content }) // Force line break
     .catch((err) => {
-      const channelInfo = "guild" in channel ? `${channel.id} (${channel.guild.id})` : channel.id;
-      logger.warn(`Failed to send success message to ${channelInfo}): ${err.code} ${err.message}`);
+      logger.warn(`Failed to send success message to ${describeResponseTarget(channel)}): ${err.code} ${err.message}`);
       return undefined;
     });
 }
 
 export async function sendErrorMessage(
   pluginData: AnyPluginData<any>,
-  channel: TextBasedChannel,
+  channel: CommandResponseTarget,
   body: string,
   allowedMentions?: MessageMentionOptions,
 ): Promise<Message | undefined> {
@@ -132,15 +124,21 @@ export async function sendErrorMessage(
     ? { content: formattedBody, allowedMentions }
     : { content: formattedBody };
 
-  return channel
-    .send({ ...content }) // Force line break
+  return sendContextResponse(channel, { ...content }) // Force line break
     .catch((err) => {
-      const channelInfo = "guild" in channel ? `${channel.id} (${channel.guild.id})` : channel.id;
-      logger.warn(`Failed to send error message to ${channelInfo}): ${err.code} ${err.message}`);
+      logger.warn(`Failed to send error message to ${describeResponseTarget(channel)}): ${err.code} ${err.message}`);
       return undefined;
     });
 }
 
+function describeResponseTarget(target: CommandResponseTarget): string {
+  if (isInteractionResponseTarget(target)) {
+    return `interaction ${target.id} (${target.guildId})`;
+  }
+
+  return "guild" in target ? `${target.id} (${target.guild.id})` : target.id;
+}
+
 export function getBaseUrl(pluginData: AnyPluginData<any>) {
   const knub = pluginData.getKnubInstance() as TZeppelinKnub;
   // @ts-expect-error
@@ -1,11 +1,17 @@
+import { EventEmitter } from "events";
 import { configUtils, CooldownManager } from "knub";
 import { GuildAntiraidLevels } from "../../data/GuildAntiraidLevels";
 import { GuildArchives } from "../../data/GuildArchives";
+import { GuildAutomodHits } from "../../data/GuildAutomodHits";
+import { onGuildEvent } from "../../data/GuildEvents";
+import { GuildLockdowns } from "../../data/GuildLockdowns";
 import { GuildLogs } from "../../data/GuildLogs";
+import { GuildQuarantines } from "../../data/GuildQuarantines";
 import { GuildSavedMessages } from "../../data/GuildSavedMessages";
+import { logger } from "../../logger";
 import { Queue } from "../../Queue";
 import { discardRegExpRunner, getRegExpRunner } from "../../regExpRunners";
-import { MINUTES, SECONDS } from "../../utils";
+import { HOURS, MINUTES, SECONDS } from "../../utils";
 import { registerEventListenersFromMap } from "../../utils/registerEventListenersFromMap";
 import { unregisterEventListenersFromMap } from "../../utils/unregisterEventListenersFromMap";
 import { parseIoTsSchema, StrictValidationError } from "../../validatorUtils";
@@ -19,21 +25,32 @@ import { RoleManagerPlugin } from "../RoleManager/RoleManagerPlugin";
 import { zeppelinGuildPlugin } from "../ZeppelinPluginBlueprint";
 import { availableActions } from "./actions/availableActions";
 import { AntiraidClearCmd } from "./commands/AntiraidClearCmd";
+import { DryRunStatsCmd } from "./commands/DryRunStatsCmd";
+import { LockdownCmd } from "./commands/LockdownCmd";
 import { SetAntiraidCmd } from "./commands/SetAntiraidCmd";
+import { StatsCmd } from "./commands/StatsCmd";
+import { TestRuleCmd } from "./commands/TestRuleCmd";
+import { UnlockCmd } from "./commands/UnlockCmd";
 import { ViewAntiraidCmd } from "./commands/ViewAntiraidCmd";
+import { QuarantineInteractionEvt } from "./events/QuarantineInteractionEvt";
+import { ReapplyQuarantineEvt } from "./events/ReapplyQuarantineEvt";
 import { runAutomodOnCounterTrigger } from "./events/runAutomodOnCounterTrigger";
 import { RunAutomodOnJoinEvt, RunAutomodOnLeaveEvt } from "./events/RunAutomodOnJoinLeaveEvt";
 import { RunAutomodOnMemberUpdate } from "./events/RunAutomodOnMemberUpdate";
 import { runAutomodOnMessage } from "./events/runAutomodOnMessage";
 import { runAutomodOnModAction } from "./events/runAutomodOnModAction";
+import { RunAutomodOnReactionEvt } from "./events/RunAutomodOnReactionEvt";
 import {
   RunAutomodOnThreadCreate,
   RunAutomodOnThreadDelete,
   RunAutomodOnThreadUpdate,
 } from "./events/runAutomodOnThreadEvents";
+import { RunAutomodOnVoiceStateUpdate } from "./events/RunAutomodOnVoiceStateUpdate";
+import { clearOldAutomodHits } from "./functions/clearOldAutomodHits";
 import { clearOldRecentNicknameChanges } from "./functions/clearOldNicknameChanges";
 import { clearOldRecentActions } from "./functions/clearOldRecentActions";
 import { clearOldRecentSpam } from "./functions/clearOldRecentSpam";
+import { endLockdown } from "./functions/endLockdown";
 import { pluginInfo } from "./info";
 import { availableTriggers } from "./triggers/availableTriggers";
 import { AutomodPluginType, ConfigSchema } from "./types";
@@ -44,18 +61,34 @@ const defaultOptions = {
     antiraid_levels: ["low", "medium", "high"],
     can_set_antiraid: false,
     can_view_antiraid: false,
+    dry_run_channel: null,
+    can_view_dry_run_stats: false,
+    can_view_stats: false,
+    can_test_rules: false,
+    can_manage_quarantine: false,
+    lockdown: {
+      channels: [],
+      pause_invites: false,
+      antiraid_levels: [],
+    },
+    can_lockdown: false,
   },
   overrides: [
     {
       level: ">=50",
       config: {
         can_view_antiraid: true,
+        can_view_dry_run_stats: true,
+        can_view_stats: true,
+        can_test_rules: true,
+        can_manage_quarantine: true,
       },
     },
     {
       level: ">=100",
       config: {
         can_set_antiraid: true,
+        can_lockdown: true,
       },
     },
   ],
@@ -94,6 +127,10 @@ const configParser = (input: unknown) => {
         rule["affects_self"] = false;
       }
 
+      if (rule["dry_run"] == null) {
+        rule["dry_run"] = false;
+      }
+
       // Loop through the rule's triggers
       if (rule["triggers"]) {
         for (const triggerObj of rule["triggers"]) {
@@ -216,11 +253,30 @@ export const AutomodPlugin = zeppelinGuildPlugin<AutomodPluginType>()({
     RunAutomodOnLeaveEvt,
     RunAutomodOnThreadCreate,
     RunAutomodOnThreadDelete,
-    RunAutomodOnThreadUpdate
+    RunAutomodOnThreadUpdate,
+    RunAutomodOnReactionEvt,
+    RunAutomodOnVoiceStateUpdate,
+    QuarantineInteractionEvt,
+    ReapplyQuarantineEvt,
     // Messages use message events from SavedMessages, see onLoad below
   ],
 
-  messageCommands: [AntiraidClearCmd, SetAntiraidCmd, ViewAntiraidCmd],
+  messageCommands: [
+    AntiraidClearCmd,
+    SetAntiraidCmd,
+    ViewAntiraidCmd,
+    DryRunStatsCmd,
+    StatsCmd,
+    TestRuleCmd,
+    LockdownCmd,
+    UnlockCmd,
+  ],
+
+  public: {
+    getEventEmitter(pluginData) {
+      return () => pluginData.state.events;
+    },
+  },
 
   async beforeLoad(pluginData) {
     const { state, guild } = pluginData;
@@ -243,8 +299,13 @@ export const AutomodPlugin = zeppelinGuildPlugin<AutomodPluginType>()({
     state.savedMessages = GuildSavedMessages.getGuildInstance(guild.id);
     state.antiraidLevels = GuildAntiraidLevels.getGuildInstance(guild.id);
     state.archives = GuildArchives.getGuildInstance(guild.id);
+    state.hits = GuildAutomodHits.getGuildInstance(guild.id);
+    state.quarantines = GuildQuarantines.getGuildInstance(guild.id);
+    state.lockdowns = GuildLockdowns.getGuildInstance(guild.id);
 
     state.cachedAntiraidLevel = await state.antiraidLevels.get();
+
+    state.events = new EventEmitter();
   },
 
   async afterLoad(pluginData) {
@@ -256,11 +317,24 @@ export const AutomodPlugin = zeppelinGuildPlugin<AutomodPluginType>()({
       () => clearOldRecentNicknameChanges(pluginData),
       30 * SECONDS,
     );
+    state.clearOldHitsInterval = setInterval(
+      () =>
+        clearOldAutomodHits(pluginData).catch((err) => {
+          logger.error(`Error while clearing old automod hits in guild ${pluginData.guild.id}: ${err}`);
+        }),
+      1 * HOURS,
+    );
+
+    state.unregisterGuildEventListener = onGuildEvent(pluginData.guild.id, "expiredLockdown", () => {
+      endLockdown(pluginData, "after expiring").catch((err) => {
+        logger.error(`Error while ending expired lockdown in guild ${pluginData.guild.id}: ${err}`);
+      });
+    });
 
     state.onMessageCreateFn = (message) => runAutomodOnMessage(pluginData, message, false);
     state.savedMessages.events.on("create", state.onMessageCreateFn);
 
-    state.onMessageUpdateFn = (message) => runAutomodOnMessage(pluginData, message, true);
+    state.onMessageUpdateFn = (message, oldMessage) => runAutomodOnMessage(pluginData, message, true, oldMessage);
     state.savedMessages.events.on("update", state.onMessageUpdateFn);
     const countersPlugin = pluginData.getPlugin(CountersPlugin);
 
@@ -335,11 +409,19 @@ export const AutomodPlugin = zeppelinGuildPlugin<AutomodPluginType>()({
       clearInterval(state.clearRecentNicknameChangesInterval);
     }
 
+    if (state.clearOldHitsInterval) {
+      clearInterval(state.clearOldHitsInterval);
+    }
+
     if (state.onMessageCreateFn) {
       state.savedMessages.events.off("create", state.onMessageCreateFn);
     }
     if (state.onMessageUpdateFn) {
       state.savedMessages.events.off("update", state.onMessageUpdateFn);
     }
+
+    state.events.removeAllListeners();
+
+    state.unregisterGuildEventListener?.();
   },
 });
@@ -9,14 +9,18 @@ import { ChangeNicknameAction } from "./changeNickname";
 import { ChangePermsAction } from "./changePerms";
 import { CleanAction } from "./clean";
 import { KickAction } from "./kick";
+import { LockdownAction } from "./lockdown";
 import { LogAction } from "./log";
 import { MuteAction } from "./mute";
+import { QuarantineAction } from "./quarantine";
 import { RemoveRolesAction } from "./removeRoles";
 import { ReplyAction } from "./reply";
 import { SetAntiraidLevelAction } from "./setAntiraidLevel";
 import { SetCounterAction } from "./setCounter";
 import { SetSlowmodeAction } from "./setSlowmode";
 import { StartThreadAction } from "./startThread";
+import { VoiceDisconnectAction } from "./voiceDisconnect";
+import { VoiceMoveAction } from "./voiceMove";
 import { WarnAction } from "./warn";
 
 export const availableActions: Record<string, AutomodActionBlueprint<any>> = {
@@ -38,6 +42,10 @@ export const availableActions: Record<string, AutomodActionBlueprint<any>> = {
   start_thread: StartThreadAction,
   archive_thread: ArchiveThreadAction,
   change_perms: ChangePermsAction,
+  quarantine: QuarantineAction,
+  voice_disconnect: VoiceDisconnectAction,
+  voice_move: VoiceMoveAction,
+  lockdown: LockdownAction,
 };
 
 export const AvailableActions = t.type({
@@ -59,4 +67,8 @@ export const AvailableActions = t.type({
   start_thread: StartThreadAction.configType,
   archive_thread: ArchiveThreadAction.configType,
   change_perms: ChangePermsAction.configType,
+  quarantine: QuarantineAction.configType,
+  voice_disconnect: VoiceDisconnectAction.configType,
+  voice_move: VoiceMoveAction.configType,
+  lockdown: LockdownAction.configType,
 });
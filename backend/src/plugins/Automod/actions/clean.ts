@@ -9,6 +9,13 @@ export const CleanAction = automodAction({
   defaultConfig: false,
 
   async apply({ pluginData, contexts, ruleName }) {
+    // Reactions are removed individually since the message they're on is not the offending content
+    for (const context of contexts) {
+      if (context.reaction && context.user) {
+        await context.reaction.users.remove(context.user.id).catch(noop);
+      }
+    }
+
     const messageIdsToDeleteByChannelId: Map<string, string[]> = new Map();
     for (const context of contexts) {
       if (context.message) {
@@ -0,0 +1,34 @@
+import * as t from "io-ts";
+import { convertDelayStringToMS, tDelayString, tNullable } from "../../../utils";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { startLockdown } from "../functions/startLockdown";
+import { automodAction } from "../helpers";
+
+export const LockdownAction = automodAction({
+  configType: t.type({
+    duration: tNullable(tDelayString),
+    reason: tNullable(t.string),
+  }),
+
+  defaultConfig: {},
+
+  async apply({ pluginData, actionConfig, ruleName }) {
+    // A lockdown that's already active is left as is, e.g. when a raid keeps triggering the rule
+    if (await pluginData.state.lockdowns.get()) {
+      return;
+    }
+
+    const result = await startLockdown(pluginData, {
+      source: "automod",
+      description: `by automod rule **${ruleName}**`,
+      reason: actionConfig.reason ?? `Automod rule ${ruleName}`,
+      duration: actionConfig.duration ? convertDelayStringToMS(actionConfig.duration) : null,
+    });
+
+    if ("error" in result) {
+      pluginData.getPlugin(LogsPlugin).logBotAlert({
+        body: `Could not start a lockdown in Automod rule **${ruleName}**: ${result.error}`,
+      });
+    }
+  },
+});
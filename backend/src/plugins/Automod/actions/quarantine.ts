@@ -0,0 +1,69 @@
+import { PermissionFlagsBits, Snowflake } from "discord.js";
+import * as t from "io-ts";
+import { nonNullish, tNullable, unique } from "../../../utils";
+import { canAssignRole } from "../../../utils/canAssignRole";
+import { getMissingPermissions } from "../../../utils/getMissingPermissions";
+import { missingPermissionError } from "../../../utils/missingPermissionError";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { quarantineMember } from "../functions/quarantineMember";
+import { automodAction } from "../helpers";
+
+const p = PermissionFlagsBits;
+
+export const QuarantineAction = automodAction({
+  configType: t.type({
+    role: t.string,
+    reason: tNullable(t.string),
+    channel: tNullable(t.string),
+    staff_roles: t.array(t.string),
+  }),
+
+  defaultConfig: {
+    reason: null,
+    channel: null,
+    staff_roles: [],
+  },
+
+  async apply({ pluginData, contexts, actionConfig, ruleName, matchResult }) {
+    const members = unique(contexts.map((c) => c.member).filter(nonNullish));
+    const me = pluginData.guild.members.cache.get(pluginData.client.user!.id)!;
+    const logs = pluginData.getPlugin(LogsPlugin);
+
+    const missingPermissions = getMissingPermissions(me.permissions, p.ManageRoles);
+    if (missingPermissions) {
+      logs.logBotAlert({
+        body: `Cannot quarantine members in Automod rule **${ruleName}**. ${missingPermissionError(
+          missingPermissions,
+        )}`,
+      });
+      return;
+    }
+
+    if (!canAssignRole(pluginData.guild, me, actionConfig.role)) {
+      logs.logBotAlert({
+        body: `Unable to assign the quarantine role \`${actionConfig.role}\` in Automod rule **${ruleName}**`,
+      });
+      return;
+    }
+
+    const channel = actionConfig.channel
+      ? pluginData.guild.channels.cache.get(actionConfig.channel as Snowflake)
+      : null;
+    if (actionConfig.channel && !channel?.isTextBased()) {
+      logs.logBotAlert({
+        body: `Unknown or invalid quarantine channel \`${actionConfig.channel}\` in Automod rule **${ruleName}**`,
+      });
+    }
+
+    for (const member of members) {
+      await quarantineMember(pluginData, member, {
+        roleId: actionConfig.role,
+        channelId: channel?.isTextBased() ? channel.id : null,
+        staffRoleIds: actionConfig.staff_roles,
+        reason: actionConfig.reason || `Quarantined by automod rule ${ruleName}`,
+        ruleName,
+        summary: matchResult.fullSummary ?? null,
+      });
+    }
+  },
+});
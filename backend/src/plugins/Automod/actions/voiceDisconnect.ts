@@ -0,0 +1,41 @@
+import { PermissionFlagsBits } from "discord.js";
+import * as t from "io-ts";
+import { nonNullish, unique } from "../../../utils";
+import { disconnectMemberFromVoice } from "../../../utils/disconnectMemberFromVoice";
+import { getMissingPermissions } from "../../../utils/getMissingPermissions";
+import { missingPermissionError } from "../../../utils/missingPermissionError";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { automodAction } from "../helpers";
+
+const p = PermissionFlagsBits;
+
+export const VoiceDisconnectAction = automodAction({
+  configType: t.boolean,
+  defaultConfig: false,
+
+  async apply({ pluginData, contexts, ruleName }) {
+    const members = unique(contexts.map((c) => c.member).filter(nonNullish)).filter((m) => m.voice.channelId);
+    if (!members.length) {
+      return;
+    }
+
+    const me = pluginData.guild.members.cache.get(pluginData.client.user!.id)!;
+    const missingPermissions = getMissingPermissions(me.permissions, p.MoveMembers);
+    if (missingPermissions) {
+      pluginData.getPlugin(LogsPlugin).logBotAlert({
+        body: `Cannot disconnect members from voice in Automod rule **${ruleName}**. ${missingPermissionError(
+          missingPermissions,
+        )}`,
+      });
+      return;
+    }
+
+    for (const member of members) {
+      await disconnectMemberFromVoice(pluginData, member, pluginData.client.user!).catch(() => {
+        pluginData.getPlugin(LogsPlugin).logBotAlert({
+          body: `Failed to disconnect <@!${member.id}> from voice in Automod rule **${ruleName}**`,
+        });
+      });
+    }
+  },
+});
@@ -0,0 +1,55 @@
+import { PermissionFlagsBits, Snowflake } from "discord.js";
+import * as t from "io-ts";
+import { nonNullish, unique } from "../../../utils";
+import { getMissingPermissions } from "../../../utils/getMissingPermissions";
+import { missingPermissionError } from "../../../utils/missingPermissionError";
+import { moveMemberToVoiceChannel } from "../../../utils/moveMemberToVoiceChannel";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { automodAction } from "../helpers";
+
+const p = PermissionFlagsBits;
+
+export const VoiceMoveAction = automodAction({
+  configType: t.type({
+    channel: t.string,
+  }),
+
+  defaultConfig: {},
+
+  async apply({ pluginData, contexts, actionConfig, ruleName }) {
+    const members = unique(contexts.map((c) => c.member).filter(nonNullish)).filter(
+      (m) => m.voice.channelId && m.voice.channelId !== actionConfig.channel,
+    );
+    if (!members.length) {
+      return;
+    }
+
+    const logs = pluginData.getPlugin(LogsPlugin);
+    const channel = pluginData.guild.channels.cache.get(actionConfig.channel as Snowflake);
+    if (!channel?.isVoiceBased()) {
+      logs.logBotAlert({
+        body: `Unknown or non-voice channel \`${actionConfig.channel}\` in Automod rule **${ruleName}**`,
+      });
+      return;
+    }
+
+    const me = pluginData.guild.members.cache.get(pluginData.client.user!.id)!;
+    const missingPermissions = getMissingPermissions(channel.permissionsFor(me), p.MoveMembers | p.Connect);
+    if (missingPermissions) {
+      logs.logBotAlert({
+        body: `Cannot move members to ${channel.name} in Automod rule **${ruleName}**. ${missingPermissionError(
+          missingPermissions,
+        )}`,
+      });
+      return;
+    }
+
+    for (const member of members) {
+      await moveMemberToVoiceChannel(pluginData, member, channel, pluginData.client.user!).catch(() => {
+        logs.logBotAlert({
+          body: `Failed to move <@!${member.id}> to ${channel.name} in Automod rule **${ruleName}**`,
+        });
+      });
+    }
+  },
+});
@@ -0,0 +1,58 @@
+import humanizeDuration from "humanize-duration";
+import { guildPluginMessageCommand } from "knub";
+import moment from "moment-timezone";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { DAYS, DBDateFormat, chunkMessageLines } from "../../../utils";
+import { HIT_RETENTION_TIME } from "../constants";
+import { AutomodPluginType } from "../types";
+
+export const DryRunStatsCmd = guildPluginMessageCommand<AutomodPluginType>()({
+  trigger: ["automod dry_run", "automod dryrun"],
+  permission: "can_view_dry_run_stats",
+  description: "Show how many times rules in dry run mode have matched",
+
+  signature: {
+    period: ct.delay({ required: false }),
+  },
+
+  async run({ pluginData, message, args }) {
+    const period = args.period ?? 7 * DAYS;
+    if (period > HIT_RETENTION_TIME) {
+      sendErrorMessage(
+        pluginData,
+        message.channel,
+        `Dry run matches are only kept for ${humanizeDuration(HIT_RETENTION_TIME)}`,
+      );
+      return;
+    }
+
+    const since = moment.utc().subtract(period, "ms").format(DBDateFormat);
+    const hitCounts = await pluginData.state.hits.getCountsByRule(since, true);
+
+    // Rules currently in dry run mode are listed even if they haven't matched anything yet
+    const rules = pluginData.config.get().rules;
+    for (const [ruleName, rule] of Object.entries(rules)) {
+      if (rule.dry_run && !hitCounts.has(ruleName)) {
+        hitCounts.set(ruleName, 0);
+      }
+    }
+
+    if (hitCounts.size === 0) {
+      message.channel.send("No rules are in dry run mode");
+      return;
+    }
+
+    const lines = Array.from(hitCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([ruleName, count]) => {
+        const status = rules[ruleName]?.dry_run ? "" : " *(no longer in dry run mode)*";
+        return `**${ruleName}**: ${count} ${count === 1 ? "match" : "matches"}${status}`;
+      });
+
+    const header = `Dry run matches in the last ${humanizeDuration(period, { largest: 2, round: true })}:`;
+    for (const chunk of chunkMessageLines([header, ...lines].join("\n"))) {
+      await message.channel.send({ content: chunk, allowedMentions: {} });
+    }
+  },
+});
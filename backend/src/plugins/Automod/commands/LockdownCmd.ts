@@ -0,0 +1,49 @@
+import humanizeDuration from "humanize-duration";
+import { guildPluginMessageCommand } from "knub";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { verboseUserMention } from "../../../utils";
+import { startLockdown } from "../functions/startLockdown";
+import { AutomodPluginType } from "../types";
+
+export const LockdownCmd = guildPluginMessageCommand<AutomodPluginType>()({
+  trigger: "lockdown",
+  permission: "can_lockdown",
+  description: "Stop @everyone from sending messages, creating threads and adding reactions in the lockdown channels",
+  usage: "!lockdown 30m Raid in progress",
+
+  signature: [
+    {
+      duration: ct.delay(),
+      reason: ct.string({ required: false, catchAll: true }),
+    },
+    {
+      reason: ct.string({ required: false, catchAll: true }),
+    },
+  ],
+
+  async run({ pluginData, message, args }) {
+    const duration = args.duration ?? null;
+    const result = await startLockdown(pluginData, {
+      source: "manual",
+      description: `by ${verboseUserMention(message.author)}`,
+      mod: message.author,
+      reason: args.reason,
+      duration,
+    });
+
+    if ("error" in result) {
+      sendErrorMessage(pluginData, message.channel, result.error);
+      return;
+    }
+
+    const lockedCount = result.lockdown.channels.filter(
+      (snapshot) => !result.failedChannelIds.includes(snapshot.channel_id),
+    ).length;
+    const durationText = duration ? ` for ${humanizeDuration(duration)}` : "";
+    const failedText = result.failedChannelIds.length
+      ? ` Could not lock ${result.failedChannelIds.map((id) => `<#${id}>`).join(", ")}`
+      : "";
+    sendSuccessMessage(pluginData, message.channel, `Locked down ${lockedCount} channels${durationText}.${failedText}`);
+  },
+});
@@ -0,0 +1,112 @@
+import { escapeInlineCode } from "discord.js";
+import humanizeDuration from "humanize-duration";
+import { guildPluginMessageCommand } from "knub";
+import moment from "moment-timezone";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { DAYS, DBDateFormat, chunkMessageLines } from "../../../utils";
+import { HIT_RETENTION_TIME } from "../constants";
+import { AutomodPluginType } from "../types";
+
+const topValueCount = 5;
+
+const pluralizeHits = (count: number) => `${count} ${count === 1 ? "hit" : "hits"}`;
+
+export const StatsCmd = guildPluginMessageCommand<AutomodPluginType>()({
+  trigger: ["automod stats"],
+  permission: "can_view_stats",
+  description: "Show how many times each rule has matched, or the triggers, users and channels behind a rule's matches",
+  usage: "!automod stats my_filter 7d",
+
+  signature: [
+    {
+      period: ct.delay({ required: false }),
+    },
+    {
+      rule: ct.string(),
+      period: ct.delay({ required: false }),
+    },
+  ],
+
+  async run({ pluginData, message, args }) {
+    const period = args.period ?? 7 * DAYS;
+    if (period > HIT_RETENTION_TIME) {
+      sendErrorMessage(
+        pluginData,
+        message.channel,
+        `Automod hits are only kept for ${humanizeDuration(HIT_RETENTION_TIME)}`,
+      );
+      return;
+    }
+
+    const since = moment.utc().subtract(period, "ms").format(DBDateFormat);
+    const humanizedPeriod = humanizeDuration(period, { largest: 2, round: true });
+    const rules = pluginData.config.get().rules;
+
+    let lines: string[];
+    if (args.rule) {
+      const counts = await pluginData.state.hits.getCountsByRule(since);
+      const total = counts.get(args.rule) ?? 0;
+      if (total === 0 && !rules[args.rule]) {
+        sendErrorMessage(pluginData, message.channel, `Unknown rule \`${escapeInlineCode(args.rule)}\``);
+        return;
+      }
+
+      const [triggers, users, channels] = await Promise.all([
+        pluginData.state.hits.getTopValuesForRule(args.rule, "trigger_type", since, topValueCount),
+        pluginData.state.hits.getTopValuesForRule(args.rule, "user_id", since, topValueCount),
+        pluginData.state.hits.getTopValuesForRule(args.rule, "channel_id", since, topValueCount),
+      ]);
+
+      lines = [`Rule **${args.rule}** matched ${pluralizeHits(total)} in the last ${humanizedPeriod}`];
+      if (triggers.length) {
+        lines.push("", "**Triggers:**", ...triggers.map((t) => `\`${t.value}\`: ${pluralizeHits(t.count)}`));
+      }
+      if (users.length) {
+        lines.push(
+          "",
+          "**Top users:**",
+          ...users.map((u) => `<@!${u.value}> (\`${u.value}\`): ${pluralizeHits(u.count)}`),
+        );
+      }
+      if (channels.length) {
+        lines.push("", "**Top channels:**", ...channels.map((c) => `<#${c.value}>: ${pluralizeHits(c.count)}`));
+      }
+    } else {
+      const counts = await pluginData.state.hits.getCountsByRule(since);
+
+      // Current rules are listed even if they haven't matched anything, so unused rules are easy to spot
+      for (const ruleName of Object.keys(rules)) {
+        if (!counts.has(ruleName)) {
+          counts.set(ruleName, 0);
+        }
+      }
+
+      if (counts.size === 0) {
+        message.channel.send("No automod rules have been set up");
+        return;
+      }
+
+      lines = [
+        `Automod rule hits in the last ${humanizedPeriod}:`,
+        ...Array.from(counts.entries())
+          .sort((a, b) => b[1] - a[1])
+          .map(([ruleName, count]) => {
+            const rule = rules[ruleName];
+            const status = !rule
+              ? " *(no longer configured)*"
+              : rule.dry_run
+              ? " *(in dry run mode)*"
+              : rule.enabled === false
+              ? " *(disabled)*"
+              : "";
+            return `**${ruleName}**: ${pluralizeHits(count)}${status}`;
+          }),
+      ];
+    }
+
+    for (const chunk of chunkMessageLines(lines.join("\n"))) {
+      await message.channel.send({ content: chunk, allowedMentions: {} });
+    }
+  },
+});
@@ -0,0 +1,69 @@
+import { escapeInlineCode, Snowflake } from "discord.js";
+import { guildPluginMessageCommand } from "knub";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { chunkMessageLines, isGuildInvite, resolveInvite } from "../../../utils";
+import { PhishermanPlugin } from "../../Phisherman/PhishermanPlugin";
+import { testRuleOnText, TriggerTestResult } from "../functions/testRuleOnText";
+import { AutomodPluginType } from "../types";
+
+function formatTriggerTestResult(result: TriggerTestResult): string {
+  if (!result.testable) {
+    return `➖ \`${result.trigger}\`: can't be tested against text`;
+  }
+
+  if (!result.matched) {
+    return `❌ \`${result.trigger}\`: no match`;
+  }
+
+  const matchedText = result.matchedText ? ` \`${escapeInlineCode(result.matchedText)}\`` : "";
+  const details = result.details ? ` (${escapeInlineCode(result.details)})` : "";
+  return `✅ \`${result.trigger}\`: matched${matchedText}${details}`;
+}
+
+export const TestRuleCmd = guildPluginMessageCommand<AutomodPluginType>()({
+  trigger: ["automod test"],
+  permission: "can_test_rules",
+  description: "Test the text triggers of an automod rule against text, or the message you're replying to",
+  usage: "!automod test my_filter this is some text to test",
+
+  signature: {
+    rule: ct.string(),
+    text: ct.string({ required: false, catchAll: true }),
+  },
+
+  async run({ pluginData, message, args }) {
+    const rule = pluginData.config.get().rules[args.rule];
+    if (!rule) {
+      sendErrorMessage(pluginData, message.channel, `Unknown rule \`${escapeInlineCode(args.rule)}\``);
+      return;
+    }
+
+    let text: string | undefined = args.text;
+    if (!text && message.reference?.messageId) {
+      const referencedMessage = await pluginData.state.savedMessages.find(message.reference.messageId as Snowflake);
+      text = referencedMessage?.data.content;
+    }
+    if (!text) {
+      sendErrorMessage(pluginData, message.channel, "Specify the text to test or reply to a message");
+      return;
+    }
+
+    const results = await testRuleOnText(rule, text, {
+      regexRunner: pluginData.state.regexRunner,
+      resolveInviteGuild: async (code) => {
+        const invite = await resolveInvite(pluginData.client, code);
+        return invite && isGuildInvite(invite) ? { id: invite.guild.id, name: invite.guild.name } : null;
+      },
+      getPhishermanDomainInfo: (domain) => pluginData.getPlugin(PhishermanPlugin).getDomainInfo(domain),
+    });
+
+    const lines = [
+      `Test results for rule **${rule.name}** (no actions were taken):`,
+      ...results.map(formatTriggerTestResult),
+    ];
+    for (const chunk of chunkMessageLines(lines.join("\n"))) {
+      await message.channel.send({ content: chunk, allowedMentions: {} });
+    }
+  },
+});
@@ -0,0 +1,31 @@
+import { guildPluginMessageCommand } from "knub";
+import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { verboseUserMention } from "../../../utils";
+import { endLockdown } from "../functions/endLockdown";
+import { AutomodPluginType } from "../types";
+
+export const UnlockCmd = guildPluginMessageCommand<AutomodPluginType>()({
+  trigger: "unlock",
+  permission: "can_lockdown",
+  description: "Lift the lockdown and restore the lockdown channels' previous permissions",
+
+  async run({ pluginData, message }) {
+    const result = await endLockdown(pluginData, `by ${verboseUserMention(message.author)}`);
+    if ("error" in result) {
+      sendErrorMessage(pluginData, message.channel, result.error);
+      return;
+    }
+
+    if (result.failedChannelIds.length) {
+      const failedChannels = result.failedChannelIds.map((id) => `<#${id}>`).join(", ");
+      sendErrorMessage(
+        pluginData,
+        message.channel,
+        `Could not restore permissions in ${failedChannels}. Run this command again to retry them.`,
+      );
+      return;
+    }
+
+    sendSuccessMessage(pluginData, message.channel, "Lockdown lifted.");
+  },
+});
@@ -1,9 +1,11 @@
-import { MINUTES, SECONDS } from "../../utils";
+import { DAYS, MINUTES, SECONDS } from "../../utils";
 
 export const RECENT_SPAM_EXPIRY_TIME = 10 * SECONDS;
 export const RECENT_ACTION_EXPIRY_TIME = 5 * MINUTES;
 export const RECENT_NICKNAME_CHANGE_EXPIRY_TIME = 5 * MINUTES;
 
+export const HIT_RETENTION_TIME = 30 * DAYS;
+
 export enum RecentActionType {
   Message = 1,
   Mention,
@@ -17,4 +19,6 @@ export enum RecentActionType {
   Sticker,
   MemberLeave,
   ThreadCreate,
+  Reaction,
+  VoiceChannelJoin,
 }
@@ -0,0 +1,20 @@
+import { guildPluginEventListener } from "knub";
+import { parseCustomId } from "../../../utils/parseCustomId";
+import { handleQuarantineInteraction } from "../functions/handleQuarantineInteraction";
+import { AutomodPluginType } from "../types";
+
+export const QuarantineInteractionEvt = guildPluginEventListener<AutomodPluginType>()({
+  event: "interactionCreate",
+  async listener({ pluginData, args: { interaction } }) {
+    if (!interaction.isButton() || interaction.guildId !== pluginData.guild.id) {
+      return;
+    }
+
+    const { namespace, data } = parseCustomId(interaction.customId);
+    if (namespace !== "automodQuarantine") {
+      return;
+    }
+
+    await handleQuarantineInteraction(pluginData, interaction, data.userId, data.action);
+  },
+});
@@ -0,0 +1,20 @@
+import { guildPluginEventListener } from "knub";
+import { RoleManagerPlugin } from "../../RoleManager/RoleManagerPlugin";
+import { ignoreRoleChange } from "../functions/ignoredRoleChanges";
+import { AutomodPluginType } from "../types";
+
+/**
+ * Members who leave while quarantined get the quarantine role back when they rejoin
+ */
+export const ReapplyQuarantineEvt = guildPluginEventListener<AutomodPluginType>()({
+  event: "guildMemberAdd",
+  async listener({ pluginData, args: { member } }) {
+    const quarantine = await pluginData.state.quarantines.find(member.id);
+    if (!quarantine || !pluginData.guild.roles.cache.has(quarantine.role_id)) {
+      return;
+    }
+
+    ignoreRoleChange(pluginData, member.id, quarantine.role_id);
+    await pluginData.getPlugin(RoleManagerPlugin).addPriorityRole(member.id, quarantine.role_id);
+  },
+});
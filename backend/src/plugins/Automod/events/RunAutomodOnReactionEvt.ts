@@ -0,0 +1,35 @@
+import { GuildTextBasedChannel } from "discord.js";
+import { guildPluginEventListener } from "knub";
+import { resolveMember } from "../../../utils";
+import { RecentActionType } from "../constants";
+import { runAutomod } from "../functions/runAutomod";
+import { AutomodContext, AutomodPluginType } from "../types";
+
+export const RunAutomodOnReactionEvt = guildPluginEventListener<AutomodPluginType>()({
+  event: "messageReactionAdd",
+  async listener({ pluginData, args: { reaction, user } }) {
+    const member = await resolveMember(pluginData.client, pluginData.guild, user.id);
+    if (!member) {
+      return;
+    }
+
+    const context: AutomodContext = {
+      timestamp: Date.now(),
+      user: member.user,
+      member,
+      channel: reaction.message.channel as GuildTextBasedChannel,
+      reaction,
+    };
+
+    pluginData.state.queue.add(() => {
+      pluginData.state.recentActions.push({
+        type: RecentActionType.Reaction,
+        context,
+        count: 1,
+        identifier: member.id,
+      });
+
+      runAutomod(pluginData, context);
+    });
+  },
+});
@@ -0,0 +1,52 @@
+import { guildPluginEventListener } from "knub";
+import { RecentActionType } from "../constants";
+import { runAutomod } from "../functions/runAutomod";
+import { AutomodContext, AutomodPluginType } from "../types";
+
+export const RunAutomodOnVoiceStateUpdate = guildPluginEventListener<AutomodPluginType>()({
+  event: "voiceStateUpdate",
+  listener({ pluginData, args: { oldState, newState } }) {
+    const member = newState.member ?? oldState.member;
+    const oldChannel = oldState.channel;
+    const newChannel = newState.channel;
+    if (!member || oldChannel?.id === newChannel?.id) {
+      // Other voice state changes, e.g. muting or deafening
+      return;
+    }
+
+    const voiceChannel = newChannel ?? oldChannel;
+    const context: AutomodContext = {
+      timestamp: Date.now(),
+      user: member.user,
+      member,
+      voiceChange: {
+        joined: newChannel ?? undefined,
+        left: oldChannel ?? undefined,
+      },
+      channel: voiceChannel?.isTextBased() ? voiceChannel : undefined,
+    };
+
+    pluginData.state.queue.add(() => {
+      if (newChannel) {
+        // Joining a voice channel counts as a move as well, same as in the spam plugin
+        pluginData.state.recentActions.push({
+          type: RecentActionType.VoiceChannelMove,
+          context,
+          count: 1,
+          identifier: member.id,
+        });
+      }
+
+      if (newChannel && !oldChannel) {
+        pluginData.state.recentActions.push({
+          type: RecentActionType.VoiceChannelJoin,
+          context,
+          count: 1,
+          identifier: member.id,
+        });
+      }
+
+      runAutomod(pluginData, context);
+    });
+  },
+});
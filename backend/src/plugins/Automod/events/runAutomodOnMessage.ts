@@ -12,6 +12,7 @@ export async function runAutomodOnMessage(
   pluginData: GuildPluginData<AutomodPluginType>,
   message: SavedMessage,
   isEdit: boolean,
+  previousMessage?: SavedMessage,
 ) {
   const member = pluginData.guild.members.resolve(message.user_id) ?? undefined;
   const user = pluginData.client.users.resolve(message.user_id) ?? undefined;
@@ -19,6 +20,7 @@ export async function runAutomodOnMessage(
   const context: AutomodContext = {
     timestamp: moment.utc(message.posted_at).valueOf(),
     message,
+    previousMessage: isEdit ? previousMessage : undefined,
     user,
     member,
   };
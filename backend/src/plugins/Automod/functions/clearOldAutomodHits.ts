@@ -0,0 +1,10 @@
+import { GuildPluginData } from "knub";
+import moment from "moment-timezone";
+import { DBDateFormat } from "../../../utils";
+import { HIT_RETENTION_TIME } from "../constants";
+import { AutomodPluginType } from "../types";
+
+export async function clearOldAutomodHits(pluginData: GuildPluginData<AutomodPluginType>) {
+  const cutoff = moment.utc().subtract(HIT_RETENTION_TIME, "ms").format(DBDateFormat);
+  await pluginData.state.hits.deleteOlderThan(cutoff);
+}
@@ -0,0 +1,93 @@
+import { PermissionOverwriteOptions, PermissionsBitField, Snowflake } from "discord.js";
+import { GuildPluginData } from "knub";
+import { LockdownChannelSnapshot } from "../../../data/entities/Lockdown";
+import { clearExpiringLockdown } from "../../../data/loops/expiringLockdownsLoop";
+import { logger } from "../../../logger";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { AutomodPluginType } from "../types";
+import { LOCKDOWN_LOCK_TIMEOUT, LockdownResult } from "./startLockdown";
+
+function snapshotToOverwriteOptions(allow: string, deny: string): PermissionOverwriteOptions {
+  const options: PermissionOverwriteOptions = {};
+  for (const permission of new PermissionsBitField(BigInt(allow)).toArray()) {
+    options[permission] = true;
+  }
+  for (const permission of new PermissionsBitField(BigInt(deny)).toArray()) {
+    options[permission] = false;
+  }
+  return options;
+}
+
+/**
+ * Restores the @everyone overwrites saved when the lockdown started, and resumes invites if the lockdown paused them.
+ * If any of them fail, the lockdown is kept with only the failed channels so it can be ended again to retry them.
+ * @param description Who or what ended the lockdown for logs, e.g. "after expiring"
+ */
+export async function endLockdown(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  description: string,
+): Promise<LockdownResult> {
+  const lock = await pluginData.locks.acquire("automod-lockdown", LOCKDOWN_LOCK_TIMEOUT);
+
+  try {
+    const lockdown = await pluginData.state.lockdowns.get();
+    if (!lockdown) {
+      return { error: "The server is not locked down" };
+    }
+
+    clearExpiringLockdown(lockdown);
+
+    const failedChannelIds: string[] = [];
+    const failedSnapshots: LockdownChannelSnapshot[] = [];
+    for (const snapshot of lockdown.channels) {
+      const channel = pluginData.guild.channels.cache.get(snapshot.channel_id as Snowflake);
+      if (!channel || channel.isThread()) {
+        continue;
+      }
+
+      try {
+        if (snapshot.overwrite) {
+          await channel.permissionOverwrites.create(
+            pluginData.guild.id,
+            snapshotToOverwriteOptions(snapshot.overwrite.allow, snapshot.overwrite.deny),
+            { reason: "Lockdown lifted" },
+          );
+        } else {
+          await channel.permissionOverwrites.delete(pluginData.guild.id, "Lockdown lifted");
+        }
+      } catch (err) {
+        logger.warn(`Could not lift lockdown in channel ${pluginData.guild.id}/${channel.id}: ${err}`);
+        failedChannelIds.push(channel.id);
+        failedSnapshots.push(snapshot);
+      }
+    }
+
+    let invitesStillPaused = false;
+    if (lockdown.invites_paused) {
+      await pluginData.guild.disableInvites(false).catch((err) => {
+        logger.warn(`Could not resume invites in ${pluginData.guild.id}: ${err}`);
+        invitesStillPaused = true;
+      });
+    }
+
+    if (failedSnapshots.length || invitesStillPaused) {
+      // Keep the snapshots of the channels that couldn't be restored, so ending the lockdown again can retry them
+      await pluginData.state.lockdowns.update({
+        channels: failedSnapshots,
+        invites_paused: invitesStillPaused,
+        expires_at: null,
+      });
+    } else {
+      await pluginData.state.lockdowns.clear();
+    }
+
+    pluginData.getPlugin(LogsPlugin).logLockdownEnd({
+      source: description,
+      channelCount: lockdown.channels.length,
+    });
+
+    return { lockdown, failedChannelIds };
+  } finally {
+    lock.unlock();
+  }
+}
@@ -14,6 +14,12 @@ export function getTextMatchPartialSummary(
     const channel = pluginData.guild.channels.cache.get(message.channel_id as Snowflake);
     const channelMention = channel ? verboseChannelMention(channel) : `\`#${message.channel_id}\``;
 
+    if (context.previousMessage) {
+      return `edited message in ${channelMention}:\n**Before:**\n${messageSummary(
+        context.previousMessage,
+      )}\n**After:**\n${messageSummary(message)}`;
+    }
+
     return `message in ${channelMention}:\n${messageSummary(message)}`;
   } else if (type === "embed") {
     const message = context.message!;
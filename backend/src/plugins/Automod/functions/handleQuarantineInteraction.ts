@@ -0,0 +1,94 @@
+import { ButtonInteraction, Snowflake } from "discord.js";
+import { GuildPluginData } from "knub";
+import { noop, resolveMember } from "../../../utils";
+import { ModActionsPlugin } from "../../ModActions/ModActionsPlugin";
+import { BanResult, KickResult } from "../../ModActions/types";
+import { AutomodPluginType } from "../types";
+import { QuarantineInteractionAction } from "./quarantineMember";
+import { releaseFromQuarantine } from "./releaseFromQuarantine";
+
+export async function handleQuarantineInteraction(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  interaction: ButtonInteraction,
+  userId: string,
+  action: QuarantineInteractionAction,
+): Promise<void> {
+  if (!interaction.inCachedGuild()) {
+    return;
+  }
+
+  const config = await pluginData.config.getMatchingConfig({
+    member: interaction.member,
+    channelId: interaction.channelId,
+  });
+  if (!config.can_manage_quarantine) {
+    await interaction.reply({ ephemeral: true, content: "You don't have permission to manage quarantined members" });
+    return;
+  }
+
+  const lock = await pluginData.locks.acquire(`automod-quarantine-${userId}`);
+  try {
+    const quarantine = await pluginData.state.quarantines.find(userId);
+    if (!quarantine) {
+      await interaction.reply({ ephemeral: true, content: "This member is no longer quarantined" });
+      return;
+    }
+
+    await interaction.deferUpdate();
+
+    const member = await resolveMember(pluginData.client, pluginData.guild, userId);
+    const reason = quarantine.reason ?? `Quarantined by automod rule ${quarantine.rule_name}`;
+    const caseArgs = { modId: interaction.user.id };
+    let result: string;
+
+    if (action === "release") {
+      await releaseFromQuarantine(pluginData, quarantine, member);
+      result = member
+        ? `✅ Released by <@!${interaction.user.id}>`
+        : `✅ Released by <@!${interaction.user.id}> (member is no longer on the server)`;
+    } else if (action === "kick" && !member) {
+      await pluginData.state.quarantines.clear(userId);
+      result = `Member is no longer on the server, quarantine cleared by <@!${interaction.user.id}>`;
+    } else {
+      // The quarantine is only cleared once the kick/ban has gone through, so staff can retry if it fails
+      const modActions = pluginData.getPlugin(ModActionsPlugin);
+      let actionResult: KickResult | BanResult;
+      try {
+        actionResult =
+          action === "kick"
+            ? await modActions.kickMember(member!, reason, { caseArgs })
+            : await modActions.banUserId(userId, reason, { caseArgs, modId: interaction.user.id });
+      } catch (err) {
+        actionResult = { status: "failed", error: err.message ?? String(err) };
+      }
+
+      if (actionResult.status === "failed") {
+        await interaction.followUp({
+          ephemeral: true,
+          content: `Failed to ${action} the member: ${actionResult.error}`,
+        });
+        return;
+      }
+
+      await pluginData.state.quarantines.clear(userId);
+      result =
+        action === "kick" ? `👢 Kicked by <@!${interaction.user.id}>` : `🔨 Banned by <@!${interaction.user.id}>`;
+    }
+
+    await interaction.editReply({
+      content: `${interaction.message.content}\n\n${result}`,
+      components: [],
+      allowedMentions: { parse: [] },
+    });
+
+    if (quarantine.thread_id) {
+      const thread = pluginData.guild.channels.cache.get(quarantine.thread_id as Snowflake);
+      if (thread?.isThread()) {
+        await thread.setLocked(true).catch(noop);
+        await thread.setArchived(true).catch(noop);
+      }
+    }
+  } finally {
+    lock.unlock();
+  }
+}
@@ -2,6 +2,7 @@ import { ActivityType, Embed } from "discord.js";
 import { GuildPluginData } from "knub";
 import { SavedMessage } from "../../../data/entities/SavedMessage";
 import { renderUsername, resolveMember } from "../../../utils";
+import { getAddedLines } from "../../../utils/createUnifiedDiff";
 import { DeepMutable } from "../../../utils/typeUtils.js";
 import { AutomodPluginType } from "../types";
 
@@ -12,33 +13,62 @@ type TextTriggerWithMultipleMatchTypes = {
   match_usernames: boolean;
   match_nicknames: boolean;
   match_custom_status: boolean;
+  only_new_content: boolean;
 };
 
 export type MatchableTextType = "message" | "embed" | "visiblename" | "username" | "nickname" | "customstatus";
 
 type YieldedContent = [MatchableTextType, string];
 
+function getMatchableEmbed(msg: SavedMessage): string | null {
+  if (!msg.data.embeds?.length) {
+    return null;
+  }
+
+  const copiedEmbed: DeepMutable<Embed> = JSON.parse(JSON.stringify(msg.data.embeds[0]));
+  if (copiedEmbed.video) {
+    copiedEmbed.description = ""; // The description is not rendered, hence it doesn't need to be matched
+  }
+  return JSON.stringify(copiedEmbed);
+}
+
 /**
- * Generator function that allows iterating through matchable pieces of text of a SavedMessage
+ * Generator function that allows iterating through matchable pieces of text of a SavedMessage.
+ * If the trigger has only_new_content enabled and the message was edited, only content added by the edit is yielded.
  */
 export async function* matchMultipleTextTypesOnMessage(
   pluginData: GuildPluginData<AutomodPluginType>,
   trigger: TextTriggerWithMultipleMatchTypes,
   msg: SavedMessage,
+  previousMsg?: SavedMessage,
 ): AsyncIterableIterator<YieldedContent> {
   const member = await resolveMember(pluginData.client, pluginData.guild, msg.user_id);
   if (!member) return;
 
+  if (trigger.only_new_content && previousMsg) {
+    // Only lines that were added or changed by the edit are matched. Names and statuses aren't changed by edits.
+    if (trigger.match_messages && msg.data.content) {
+      const addedLines = getAddedLines(previousMsg.data.content ?? "", msg.data.content);
+      if (addedLines.length) {
+        yield ["message", addedLines.join("\n")];
+      }
+    }
+
+    const embed = trigger.match_embeds ? getMatchableEmbed(msg) : null;
+    if (embed && embed !== getMatchableEmbed(previousMsg)) {
+      yield ["embed", embed];
+    }
+
+    return;
+  }
+
   if (trigger.match_messages && msg.data.content) {
     yield ["message", msg.data.content];
   }
 
-  if (trigger.match_embeds && msg.data.embeds?.length) {
-    const copiedEmbed: DeepMutable<Embed> = JSON.parse(JSON.stringify(msg.data.embeds[0]));
-    if (copiedEmbed.video) {
-      copiedEmbed.description = ""; // The description is not rendered, hence it doesn't need to be matched
-    }
-    yield ["embed", JSON.stringify(copiedEmbed)];
+  const embed = trigger.match_embeds ? getMatchableEmbed(msg) : null;
+  if (embed) {
+    yield ["embed", embed];
   }
 
   if (trigger.match_visible_names) {
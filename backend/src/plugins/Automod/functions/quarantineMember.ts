@@ -0,0 +1,159 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  GuildMember,
+  MessageActionRowComponentBuilder,
+  Snowflake,
+} from "discord.js";
+import { GuildPluginData } from "knub";
+import { logger } from "../../../logger";
+import { renderUserUsername } from "../../../utils";
+import { buildCustomId } from "../../../utils/buildCustomId";
+import { canAssignRole } from "../../../utils/canAssignRole";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { RoleManagerPlugin } from "../../RoleManager/RoleManagerPlugin";
+import { AutomodPluginType } from "../types";
+import { ignoreRoleChange } from "./ignoredRoleChanges";
+
+export type QuarantineInteractionAction = "release" | "kick" | "ban";
+
+export interface QuarantineOptions {
+  roleId: string;
+  channelId: string | null;
+  staffRoleIds: string[];
+  reason: string;
+  ruleName: string;
+  summary: string | null;
+}
+
+function getQuarantineButtons(userId: string): ActionRowBuilder<MessageActionRowComponentBuilder> {
+  const button = (action: QuarantineInteractionAction, label: string, style: ButtonStyle) =>
+    new ButtonBuilder()
+      .setStyle(style)
+      .setLabel(label)
+      .setCustomId(buildCustomId("automodQuarantine", { userId, action }));
+
+  return new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+    button("release", "Release", ButtonStyle.Success),
+    button("kick", "Kick", ButtonStyle.Secondary),
+    button("ban", "Ban", ButtonStyle.Danger),
+  );
+}
+
+async function openQuarantineThread(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  member: GuildMember,
+  options: QuarantineOptions,
+): Promise<string | null> {
+  const channel = pluginData.guild.channels.cache.get(options.channelId as Snowflake);
+  if (channel?.type !== ChannelType.GuildText) {
+    pluginData.getPlugin(LogsPlugin).logBotAlert({
+      body: `Quarantine threads can only be opened in text channels, cannot use <#${options.channelId}> in Automod rule **${options.ruleName}**`,
+    });
+    return null;
+  }
+
+  const thread = await channel.threads
+    .create({
+      name: `Quarantine: ${renderUserUsername(member.user)}`.slice(0, 100),
+      type: ChannelType.PrivateThread,
+      invitable: false,
+    })
+    .catch((err) => {
+      logger.warn(`Could not open quarantine thread in ${pluginData.guild.id}/${channel.id}: ${err}`);
+      return null;
+    });
+  if (!thread) {
+    pluginData.getPlugin(LogsPlugin).logBotAlert({
+      body: `Could not open a quarantine thread in <#${channel.id}> for Automod rule **${options.ruleName}**`,
+    });
+    return null;
+  }
+
+  await thread.members.add(member.id).catch(() => null);
+
+  const lines = [
+    `🔒 <@!${member.id}> has been quarantined by Automod rule **${options.ruleName}**`,
+    `Reason: ${options.reason}`,
+  ];
+  if (options.summary) {
+    lines.push("", options.summary);
+  }
+  if (options.staffRoleIds.length) {
+    lines.push("", options.staffRoleIds.map((roleId) => `<@&${roleId}>`).join(" "));
+  }
+
+  await thread.send({
+    content: lines.join("\n"),
+    components: [getQuarantineButtons(member.id)],
+    allowedMentions: { users: [member.id], roles: options.staffRoleIds },
+  });
+
+  return thread.id;
+}
+
+/**
+ * Strips the member's roles, applies the quarantine role and opens a private thread with staff.
+ * The removed roles are stored so they can be restored when the member is released.
+ * @return - Whether the member was quarantined, i.e. false if they already were
+ */
+export async function quarantineMember(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  member: GuildMember,
+  options: QuarantineOptions,
+): Promise<boolean> {
+  const lock = await pluginData.locks.acquire(`automod-quarantine-${member.id}`);
+  try {
+    if (await pluginData.state.quarantines.find(member.id)) {
+      return false;
+    }
+
+    const me = pluginData.guild.members.cache.get(pluginData.client.user!.id)!;
+    const rolesToRemove: string[] = [];
+    const rolesWeCannotRemove: string[] = [];
+    for (const role of member.roles.cache.values()) {
+      if (role.id === pluginData.guild.id || role.id === options.roleId || role.managed) continue;
+      if (canAssignRole(pluginData.guild, me, role.id)) {
+        rolesToRemove.push(role.id);
+      } else {
+        rolesWeCannotRemove.push(role.name);
+      }
+    }
+
+    if (rolesWeCannotRemove.length) {
+      pluginData.getPlugin(LogsPlugin).logBotAlert({
+        body: `Unable to remove the following roles when quarantining <@!${member.id}> in Automod rule **${
+          options.ruleName
+        }**: **${rolesWeCannotRemove.join("**, **")}**`,
+      });
+    }
+
+    await pluginData.state.quarantines.add(member.id, {
+      role_id: options.roleId,
+      roles: rolesToRemove,
+      rule_name: options.ruleName,
+      reason: options.reason,
+    });
+
+    const roleManager = pluginData.getPlugin(RoleManagerPlugin);
+    ignoreRoleChange(pluginData, member.id, options.roleId);
+    await roleManager.addPriorityRole(member.id, options.roleId);
+    for (const roleId of rolesToRemove) {
+      ignoreRoleChange(pluginData, member.id, roleId);
+      await roleManager.removePriorityRole(member.id, roleId);
+    }
+
+    if (options.channelId) {
+      const threadId = await openQuarantineThread(pluginData, member, options);
+      if (threadId) {
+        await pluginData.state.quarantines.setThreadId(member.id, threadId);
+      }
+    }
+
+    return true;
+  } finally {
+    lock.unlock();
+  }
+}
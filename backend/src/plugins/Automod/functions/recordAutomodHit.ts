@@ -0,0 +1,28 @@
+import { GuildPluginData } from "knub";
+import { AutomodHitActionResult } from "../../../data/entities/AutomodHit";
+import { AutomodContext, AutomodPluginType } from "../types";
+
+/**
+ * Records a rule match for `!automod stats` and `!automod dry_run` once the rule's actions have finished
+ */
+export async function recordAutomodHit(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  ruleName: string,
+  triggerName: string,
+  contexts: AutomodContext[],
+  actionResults: Array<Promise<AutomodHitActionResult>>,
+  dryRun: boolean,
+) {
+  const context = contexts[0];
+  const userId = context.user?.id ?? context.member?.id ?? context.message?.user_id ?? null;
+  const channelId = context.message?.channel_id ?? context.channel?.id ?? null;
+
+  await pluginData.state.hits.add({
+    rule_name: ruleName,
+    trigger_type: triggerName,
+    user_id: userId,
+    channel_id: channelId,
+    actions: await Promise.all(actionResults),
+    dry_run: dryRun,
+  });
+}
@@ -0,0 +1,30 @@
+import { GuildMember } from "discord.js";
+import { GuildPluginData } from "knub";
+import { Quarantine } from "../../../data/entities/Quarantine";
+import { RoleManagerPlugin } from "../../RoleManager/RoleManagerPlugin";
+import { AutomodPluginType } from "../types";
+import { ignoreRoleChange } from "./ignoredRoleChanges";
+
+/**
+ * Removes the quarantine role from the member and restores the roles that were removed when they were quarantined
+ */
+export async function releaseFromQuarantine(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  quarantine: Quarantine,
+  member: GuildMember | null,
+): Promise<void> {
+  await pluginData.state.quarantines.clear(quarantine.user_id);
+  if (!member) {
+    return;
+  }
+
+  const roleManager = pluginData.getPlugin(RoleManagerPlugin);
+  ignoreRoleChange(pluginData, member.id, quarantine.role_id);
+  await roleManager.removePriorityRole(member.id, quarantine.role_id);
+
+  for (const roleId of quarantine.roles) {
+    if (!pluginData.guild.roles.cache.has(roleId)) continue;
+    ignoreRoleChange(pluginData, member.id, roleId);
+    await roleManager.addRole(member.id, roleId);
+  }
+}
@@ -0,0 +1,66 @@
+import { Snowflake, User } from "discord.js";
+import { GuildPluginData } from "knub";
+import { chunkMessageLines, verboseChannelMention, verboseUserMention } from "../../../utils";
+import { InternalPosterPlugin } from "../../InternalPoster/InternalPosterPlugin";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { AutomodTriggerMatchResult } from "../helpers";
+import { AutomodContext, AutomodPluginType, TRule } from "../types";
+
+/**
+ * Posts a match of a rule in dry run mode to the dry run channel, along with the actions that would have been taken
+ */
+export async function reportDryRunMatch(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  ruleName: string,
+  rule: TRule,
+  contexts: AutomodContext[],
+  matchResult: AutomodTriggerMatchResult,
+) {
+  const channelId = pluginData.config.get().dry_run_channel;
+  if (!channelId) {
+    return;
+  }
+
+  const logs = pluginData.getPlugin(LogsPlugin);
+  const channel = pluginData.guild.channels.cache.get(channelId as Snowflake);
+  if (!channel?.isTextBased()) {
+    logs.logBotAlert({
+      body: `Invalid automod dry run channel \`${channelId}\``,
+    });
+    return;
+  }
+
+  // Follow-up matches of spam triggers are only cleaned, without running the rule's actions again
+  const plannedActions = matchResult.silentClean
+    ? ["`clean`"]
+    : Object.entries(rule.actions)
+        .filter(([, actionConfig]) => actionConfig != null && actionConfig !== false)
+        .map(([actionName]) => `\`${actionName}\``);
+
+  const users = new Map<string, User>();
+  for (const context of contexts) {
+    const user = context.user ?? context.member?.user;
+    if (user) users.set(user.id, user);
+  }
+  const targets = Array.from(users.values()).map((user) => verboseUserMention(user));
+
+  const lines = [
+    `🧪 **Dry run:** ${matchResult.fullSummary ?? `Triggered automod rule **${ruleName}**`}`,
+    `Target: ${targets.length ? targets.join(", ") : "none"}`,
+    `Would have run: ${plannedActions.length ? plannedActions.join(", ") : "no actions"}`,
+  ];
+
+  try {
+    const poster = pluginData.getPlugin(InternalPosterPlugin);
+    for (const chunk of chunkMessageLines(lines.join("\n"))) {
+      await poster.sendMessage(channel, {
+        content: chunk,
+        allowedMentions: {},
+      });
+    }
+  } catch (err) {
+    logs.logBotAlert({
+      body: `Error ${err.code || "UNKNOWN"} when posting automod dry run result to ${verboseChannelMention(channel)}`,
+    });
+  }
+}
@@ -1,6 +1,8 @@
 import { GuildTextBasedChannel, Snowflake } from "discord.js";
 import { GuildPluginData } from "knub";
 import { performance } from "perf_hooks";
+import { AutomodHitActionResult } from "../../../data/entities/AutomodHit";
+import { logger } from "../../../logger";
 import { calculateBlocking, profilingEnabled } from "../../../utils/easyProfiler";
 import { availableActions } from "../actions/availableActions";
 import { CleanAction } from "../actions/clean";
@@ -8,6 +10,8 @@ import { AutomodTriggerMatchResult } from "../helpers";
 import { availableTriggers } from "../triggers/availableTriggers";
 import { AutomodContext, AutomodPluginType } from "../types";
 import { checkAndUpdateCooldown } from "./checkAndUpdateCooldown";
+import { recordAutomodHit } from "./recordAutomodHit";
+import { reportDryRunMatch } from "./reportDryRunMatch";
 
 export async function runAutomod(pluginData: GuildPluginData<AutomodPluginType>, context: AutomodContext) {
   const userId = context.user?.id || context.member?.id || context.message?.user_id;
@@ -53,6 +57,7 @@ export async function runAutomod(pluginData: GuildPluginData<AutomodPluginType>,
     const ruleStartTime = performance.now();
 
     let matchResult: AutomodTriggerMatchResult<any> | null | undefined;
+    let matchedTriggerName: string | null = null;
     let contexts: AutomodContext[] = [];
 
     triggerLoop: for (const triggerItem of rule.triggers) {
@@ -84,13 +89,17 @@ export async function runAutomod(pluginData: GuildPluginData<AutomodPluginType>,
         }
 
         if (matchResult) {
+          matchedTriggerName = triggerName;
           contexts = [context, ...(matchResult.extraContexts || [])];
 
-          for (const _context of contexts) {
-            _context.actioned = true;
+          // Rules in dry run mode don't take any actions, so the contexts are still fair game for other rules
+          if (!rule.dry_run) {
+            for (const _context of contexts) {
+              _context.actioned = true;
+            }
           }
 
-          if (matchResult.silentClean) {
+          if (matchResult.silentClean && !rule.dry_run) {
             await CleanAction.apply({
               ruleName,
               pluginData,
@@ -101,16 +110,21 @@ export async function runAutomod(pluginData: GuildPluginData<AutomodPluginType>,
             return;
           }
 
-          matchResult.summary =
-            (await trigger.renderMatchInformation({
-              ruleName,
-              pluginData,
-              contexts,
-              matchResult,
-              triggerConfig,
-            })) ?? "";
-
-          matchResult.fullSummary = `Triggered automod rule **${ruleName}**\n${matchResult.summary}`.trim();
+          if (matchResult.silentClean) {
+            // Dry run rules don't clean anything, but follow-up matches are still reported and counted
+            matchResult.fullSummary = `Triggered automod rule **${ruleName}** again shortly after an earlier match`;
+          } else {
+            matchResult.summary =
+              (await trigger.renderMatchInformation({
+                ruleName,
+                pluginData,
+                contexts,
+                matchResult,
+                triggerConfig,
+              })) ?? "";
+
+            matchResult.fullSummary = `Triggered automod rule **${ruleName}**\n${matchResult.summary}`.trim();
+          }
         }
 
         if (profilingEnabled()) {
@@ -128,7 +142,19 @@ export async function runAutomod(pluginData: GuildPluginData<AutomodPluginType>,
       }
     }
 
-    if (matchResult) {
+    if (matchResult && rule.dry_run) {
+      try {
+        await reportDryRunMatch(pluginData, ruleName, rule, contexts, matchResult);
+      } catch (err) {
+        logger.error(`Error while reporting automod dry run match for rule ${ruleName}: ${err}`);
+      }
+
+      recordAutomodHit(pluginData, ruleName, matchedTriggerName!, contexts, [], true).catch((err) => {
+        logger.error(`Error while recording automod dry run match for rule ${ruleName}: ${err}`);
+      });
+    } else if (matchResult) {
+      const actionResults: Array<Promise<AutomodHitActionResult>> = [];
+
       for (const [actionName, actionConfig] of Object.entries(rule.actions)) {
         if (actionConfig == null || actionConfig === false) {
           continue;
@@ -138,13 +164,22 @@ export async function runAutomod(pluginData: GuildPluginData<AutomodPluginType>,
 
         const action = availableActions[actionName];
 
-        action.apply({
-          ruleName,
-          pluginData,
-          contexts,
-          actionConfig,
-          matchResult,
-        });
+        const actionResult = Promise.resolve(
+          action.apply({
+            ruleName,
+            pluginData,
+            contexts,
+            actionConfig,
+            matchResult,
+          }),
+        ).then(
+          () => ({ action: actionName, success: true }),
+          (err) => {
+            logger.error(`Error while running automod action ${actionName} of rule ${ruleName}: ${err}`);
+            return { action: actionName, success: false };
+          },
+        );
+        actionResults.push(actionResult);
 
         if (profilingEnabled()) {
           pluginData
@@ -155,6 +190,11 @@ export async function runAutomod(pluginData: GuildPluginData<AutomodPluginType>,
             );
         }
       }
+
+      // Not awaited, since the hit is only recorded once all of the actions have finished
+      recordAutomodHit(pluginData, ruleName, matchedTriggerName!, contexts, actionResults, false).catch((err) => {
+        logger.error(`Error while recording automod hit for rule ${ruleName}: ${err}`);
+      });
     }
 
     if (profilingEnabled()) {
@@ -163,7 +203,7 @@ export async function runAutomod(pluginData: GuildPluginData<AutomodPluginType>,
         .profiler.addDataPoint(`automod:${pluginData.guild.id}:${ruleName}`, performance.now() - ruleStartTime);
     }
 
-    if (matchResult && !rule.allow_further_rules) {
+    if (matchResult && !rule.allow_further_rules && !rule.dry_run) {
       break;
     }
   }
@@ -1,8 +1,50 @@
 import { User } from "discord.js";
 import { GuildPluginData } from "knub";
+import { logger } from "../../../logger";
 import { LogsPlugin } from "../../Logs/LogsPlugin";
 import { runAutomodOnAntiraidLevel } from "../events/runAutomodOnAntiraidLevel";
 import { AutomodPluginType } from "../types";
+import { endLockdown } from "./endLockdown";
+import { LOCKDOWN_LOCK_TIMEOUT, LockdownResult, startLockdown } from "./startLockdown";
+
+/**
+ * Starts a lockdown when switching to one of the lockdown.antiraid_levels, and lifts lockdowns started that way when
+ * switching to any other level
+ */
+async function updateAntiraidLockdown(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  newLevel: string | null,
+  oldLevel: string | null,
+) {
+  // Updates are applied one at a time, so each one sees the lockdown the previous level change started or lifted
+  const lock = await pluginData.locks.acquire("automod-antiraid-lockdown", LOCKDOWN_LOCK_TIMEOUT);
+
+  try {
+    const lockdownLevels = pluginData.config.get().lockdown.antiraid_levels;
+    const lockdown = await pluginData.state.lockdowns.get();
+    const description = `by anti-raid level **${newLevel ?? "off"}**`;
+
+    let result: LockdownResult | null = null;
+    if (newLevel && lockdownLevels.includes(newLevel)) {
+      if (lockdown) return;
+      result = await startLockdown(pluginData, {
+        source: "antiraid",
+        description,
+        reason: `Anti-raid level set to ${newLevel}`,
+      });
+    } else if (oldLevel && lockdownLevels.includes(oldLevel) && lockdown?.source === "antiraid") {
+      result = await endLockdown(pluginData, description);
+    }
+
+    if (result && "error" in result) {
+      pluginData.getPlugin(LogsPlugin).logBotAlert({
+        body: `Could not update the lockdown for anti-raid level **${newLevel ?? "off"}**: ${result.error}`,
+      });
+    }
+  } finally {
+    lock.unlock();
+  }
+}
 
 export async function setAntiraidLevel(
   pluginData: GuildPluginData<AutomodPluginType>,
@@ -13,7 +55,12 @@ export async function setAntiraidLevel(
   pluginData.state.cachedAntiraidLevel = newLevel;
   await pluginData.state.antiraidLevels.set(newLevel);
 
+  // Not awaited so locking down many channels doesn't hold up the level's own automod rules
+  updateAntiraidLockdown(pluginData, newLevel, oldLevel).catch((err) => {
+    logger.error(`Error while updating the anti-raid lockdown in guild ${pluginData.guild.id}: ${err}`);
+  });
   runAutomodOnAntiraidLevel(pluginData, newLevel, oldLevel, user);
+  pluginData.state.events.emit("antiraidLevelChanged", newLevel, oldLevel, user);
 
   const logs = pluginData.getPlugin(LogsPlugin);
 
@@ -0,0 +1,168 @@
+import {
+  ChannelType,
+  GuildFeature,
+  NonThreadGuildBasedChannel,
+  OverwriteType,
+  PermissionFlagsBits,
+  Snowflake,
+  User,
+} from "discord.js";
+import humanizeDuration from "humanize-duration";
+import { GuildPluginData } from "knub";
+import { Lockdown, LockdownChannelSnapshot } from "../../../data/entities/Lockdown";
+import { registerExpiringLockdown } from "../../../data/loops/expiringLockdownsLoop";
+import { logger } from "../../../logger";
+import { MINUTES } from "../../../utils";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { AutomodPluginType } from "../types";
+
+export type LockdownSource = "manual" | "automod" | "antiraid";
+
+export interface StartLockdownOptions {
+  source: LockdownSource;
+  // Who or what started the lockdown for logs, e.g. "by automod rule **foo**"
+  description: string;
+  mod?: User;
+  reason?: string | null;
+  duration?: number | null;
+}
+
+/**
+ * Changing the permissions of many channels can take a while, so lockdown locks are held longer than knub's default 10 seconds
+ */
+export const LOCKDOWN_LOCK_TIMEOUT = 5 * MINUTES;
+
+export type LockdownResult = { lockdown: Lockdown; failedChannelIds: string[] } | { error: string };
+
+/**
+ * Permissions denied from @everyone during a lockdown
+ */
+const lockdownPermissions = {
+  SendMessages: false,
+  SendMessagesInThreads: false,
+  CreatePublicThreads: false,
+  CreatePrivateThreads: false,
+  AddReactions: false,
+};
+
+/**
+ * Resolves the configured lockdown channels. Categories are replaced with the channels in them.
+ */
+function getLockdownChannels(pluginData: GuildPluginData<AutomodPluginType>): NonThreadGuildBasedChannel[] {
+  const channels = new Map<string, NonThreadGuildBasedChannel>();
+  for (const channelId of pluginData.config.get().lockdown.channels) {
+    const channel = pluginData.guild.channels.cache.get(channelId as Snowflake);
+    if (!channel || channel.isThread()) {
+      continue;
+    }
+
+    if (channel.type === ChannelType.GuildCategory) {
+      for (const child of channel.children.cache.values()) {
+        channels.set(child.id, child);
+      }
+    } else {
+      channels.set(channel.id, channel);
+    }
+  }
+
+  return Array.from(channels.values());
+}
+
+/**
+ * Denies sending messages, creating threads and adding reactions for @everyone in the configured lockdown channels.
+ * The previous @everyone overwrites are saved so endLockdown() can restore them.
+ */
+export async function startLockdown(
+  pluginData: GuildPluginData<AutomodPluginType>,
+  options: StartLockdownOptions,
+): Promise<LockdownResult> {
+  const lock = await pluginData.locks.acquire("automod-lockdown", LOCKDOWN_LOCK_TIMEOUT);
+
+  try {
+    if (await pluginData.state.lockdowns.get()) {
+      return { error: "The server is already locked down" };
+    }
+
+    const channels = getLockdownChannels(pluginData);
+    if (channels.length === 0) {
+      return { error: "No lockdown channels are configured" };
+    }
+
+    const me = pluginData.guild.members.me!;
+    const failedChannelIds: string[] = [];
+    const lockableChannels: NonThreadGuildBasedChannel[] = [];
+    for (const channel of channels) {
+      if (channel.permissionsFor(me).has(PermissionFlagsBits.ManageRoles)) {
+        lockableChannels.push(channel);
+      } else {
+        failedChannelIds.push(channel.id);
+      }
+    }
+
+    if (lockableChannels.length === 0) {
+      return { error: "The bot can't manage permissions in any of the lockdown channels" };
+    }
+
+    // The snapshot is saved before anything is changed so the lockdown can be lifted even if it's interrupted
+    const snapshot: LockdownChannelSnapshot[] = lockableChannels.map((channel) => {
+      const overwrite = channel.permissionOverwrites.cache.get(pluginData.guild.id);
+      return {
+        channel_id: channel.id,
+        overwrite: overwrite
+          ? {
+              allow: overwrite.allow.bitfield.toString(),
+              deny: overwrite.deny.bitfield.toString(),
+            }
+          : null,
+      };
+    });
+
+    const pauseInvites =
+      pluginData.config.get().lockdown.pause_invites &&
+      !pluginData.guild.features.includes(GuildFeature.InvitesDisabled) &&
+      me.permissions.has(PermissionFlagsBits.ManageGuild);
+
+    const reason = options.reason || "No reason specified";
+    const lockdown = await pluginData.state.lockdowns.add(
+      {
+        channels: snapshot,
+        invites_paused: pauseInvites,
+        source: options.source,
+        mod_id: options.mod?.id ?? null,
+        reason: options.reason ?? null,
+      },
+      options.duration ?? null,
+    );
+
+    for (const channel of lockableChannels) {
+      try {
+        await channel.permissionOverwrites.edit(pluginData.guild.id, lockdownPermissions, {
+          type: OverwriteType.Role,
+          reason: `Lockdown: ${reason}`,
+        });
+      } catch (err) {
+        logger.warn(`Could not lock down channel ${pluginData.guild.id}/${channel.id}: ${err}`);
+        failedChannelIds.push(channel.id);
+      }
+    }
+
+    if (pauseInvites) {
+      await pluginData.guild.disableInvites(true).catch((err) => {
+        logger.warn(`Could not pause invites in ${pluginData.guild.id}: ${err}`);
+      });
+    }
+
+    registerExpiringLockdown(lockdown);
+
+    pluginData.getPlugin(LogsPlugin).logLockdownStart({
+      source: options.description,
+      channelCount: lockableChannels.length,
+      duration: options.duration ? humanizeDuration(options.duration) : "",
+      reason,
+    });
+
+    return { lockdown, failedChannelIds };
+  } finally {
+    lock.unlock();
+  }
+}
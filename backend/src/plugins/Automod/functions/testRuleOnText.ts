@@ -0,0 +1,88 @@
+import { RegExpRunner } from "../../../RegExpRunner";
+import { PhishermanDomainInfo } from "../../../data/types/phisherman";
+import { findMatchingInvite } from "../triggers/matchInvites";
+import { findMatchingLink } from "../triggers/matchLinks";
+import { findMatchingRegex } from "../triggers/matchRegex";
+import { findMatchingWord } from "../triggers/matchWords";
+import { TRule } from "../types";
+
+/**
+ * The bot and the API resolve invites and Phisherman domain info differently, so they're passed in
+ */
+export interface RuleTestEnvironment {
+  regexRunner: RegExpRunner;
+  resolveInviteGuild: (code: string) => Promise<{ id: string; name: string } | null>;
+  getPhishermanDomainInfo: (domain: string) => Promise<PhishermanDomainInfo | null>;
+}
+
+export interface TriggerTestResult {
+  trigger: string;
+  // False if the trigger doesn't match against text, e.g. spam triggers
+  testable: boolean;
+  matched: boolean;
+  matchedText: string | null;
+  details: string | null;
+}
+
+export const textTestableTriggers = ["match_words", "match_regex", "match_links", "match_invites"];
+
+/**
+ * Runs the text matching triggers of a rule against the given text without running any of the rule's actions.
+ * The triggers are matched as if the text was the content of a message.
+ */
+export async function testRuleOnText(
+  rule: TRule,
+  text: string,
+  env: RuleTestEnvironment,
+): Promise<TriggerTestResult[]> {
+  const results: TriggerTestResult[] = [];
+
+  for (const triggerItem of rule.triggers) {
+    for (const triggerName of Object.keys(triggerItem)) {
+      const result: TriggerTestResult = {
+        trigger: triggerName,
+        testable: textTestableTriggers.includes(triggerName),
+        matched: false,
+        matchedText: null,
+        details: null,
+      };
+      results.push(result);
+
+      if (triggerName === "match_words" && triggerItem.match_words) {
+        const word = findMatchingWord(triggerItem.match_words, text);
+        if (word != null) {
+          result.matched = true;
+          result.matchedText = word;
+        }
+      } else if (triggerName === "match_regex" && triggerItem.match_regex) {
+        const match = await findMatchingRegex(env.regexRunner, triggerItem.match_regex, text);
+        if (match) {
+          result.matched = true;
+          result.matchedText = match.matchedText;
+          result.details = `pattern: ${match.pattern}`;
+        }
+      } else if (triggerName === "match_links" && triggerItem.match_links) {
+        const match = await findMatchingLink(
+          env.regexRunner,
+          triggerItem.match_links,
+          text,
+          env.getPhishermanDomainInfo,
+        );
+        if (match) {
+          result.matched = true;
+          result.matchedText = match.link;
+          result.details = match.details ?? null;
+        }
+      } else if (triggerName === "match_invites" && triggerItem.match_invites) {
+        const match = await findMatchingInvite(triggerItem.match_invites, text, env.resolveInviteGuild);
+        if (match) {
+          result.matched = true;
+          result.matchedText = match.code;
+          result.details = match.guild ? `server: ${match.guild.name} (${match.guild.id})` : null;
+        }
+      }
+    }
+  }
+
+  return results;
+}
@@ -80,6 +80,25 @@ export const pluginInfo: ZeppelinGuildPluginBlueprint["info"] = {
                 enabled: false
       ~~~
       
+      ### Edited messages
+      Edited messages are checked again. With \`only_new_content: true\`, the \`match_words\`, \`match_regex\`,
+      \`match_links\` and \`match_invites\` triggers only check lines that the edit added or changed,
+      so content that was already checked isn't matched again.
+      When an edited message matches, the match summary in logs and alerts shows the message before and after the edit.
+
+      ~~~yml
+      automod:
+        config:
+          rules:
+            edited_in_words:
+              triggers:
+              - match_words:
+                  words: ['banana']
+                  only_new_content: true
+              actions:
+                clean: true
+      ~~~
+
       ### Custom status alerts
       This example sends an alert any time a user with a matching custom status sends a message.
       
@@ -99,6 +118,179 @@ export const pluginInfo: ZeppelinGuildPluginBlueprint["info"] = {
                     Bad custom status on user <@!{user.id}>:
                     {matchSummary}
       ~~~
+
+      ### Reaction filter
+      This example removes reactions with specific emojis, and any custom emoji with "nsfw" in its name.
+      It also removes the reactions and mutes the user when they add more than 10 reactions in 5 seconds.
+      The \`clean\` action removes the matched reactions instead of deleting the messages they're on.
+
+      ~~~yml
+      automod:
+        config:
+          rules:
+            bad_reactions:
+              triggers:
+              - match_reactions:
+                  emojis: ['🍆', '<:pepega:473086848831455234>']
+                  custom_emoji_patterns: ['nsfw']
+              actions:
+                clean: true
+            reaction_spam:
+              triggers:
+              - reaction_spam:
+                  amount: 10
+                  within: 5s
+              actions:
+                clean: true
+                mute:
+                  reason: 'Reaction spam'
+      ~~~
+
+      ### Voice channel hopping
+      This example disconnects members who switch voice channels more than 5 times in 30 seconds,
+      and moves members who join the voice channels too quickly into a separate channel.
+
+      ~~~yml
+      automod:
+        config:
+          rules:
+            voice_hopping:
+              triggers:
+              - voice_move_spam:
+                  amount: 5
+                  within: 30s
+              actions:
+                voice_disconnect: true
+            voice_join_spam:
+              triggers:
+              - voice_join_spam:
+                  amount: 3
+                  within: 1m
+                  per_user: true
+              actions:
+                voice_move:
+                  channel: "473087035574321152"
+      ~~~
+
+      ### Raid protection
+      This example raises the antiraid level when many users join in a short time.
+      While the antiraid level is \`high\`, new accounts with a default avatar that joined soon after being created are muted.
+      All conditions set on a \`member_join\` trigger have to match.
+
+      ~~~yml
+      automod:
+        config:
+          antiraid_levels: ["high"]
+          rules:
+            join_raid:
+              triggers:
+              - member_join_spam:
+                  amount: 10
+                  within: 30s
+              actions:
+                set_antiraid_level: "high"
+            fresh_accounts:
+              enabled: false
+              triggers:
+              - member_join:
+                  only_new: true
+                  new_threshold: 7d
+                  joined_within_creation: 1h
+                  default_avatar: true
+              actions:
+                mute:
+                  reason: "New account joined during a raid"
+        overrides:
+          - antiraid_level: "high"
+            config:
+              rules:
+                fresh_accounts:
+                  enabled: true
+      ~~~
+
+      ### Lockdowns
+      A lockdown stops @everyone from sending messages, creating threads and adding reactions in the \`lockdown.channels\`.
+      Categories in the list lock down every channel in them. With \`pause_invites: true\`, invites to the server are paused as well.
+      The channels' previous permissions are saved and restored exactly when the lockdown is lifted.
+      If some channels' permissions can't be restored, those channels stay in the lockdown so \`!unlock\` can be run again to retry them.
+
+      Lockdowns can be started with \`!lockdown [duration] [reason]\` and lifted with \`!unlock\`, which requires \`can_lockdown\`.
+      The \`lockdown\` action starts one from a rule, and lifts it after \`duration\` if one is set.
+      Switching to one of the \`lockdown.antiraid_levels\` starts a lockdown automatically, and switching to another level lifts it.
+
+      ~~~yml
+      automod:
+        config:
+          antiraid_levels: ["high"]
+          lockdown:
+            channels: ["473087035574321152", "473086848831455234"]
+            pause_invites: true
+            antiraid_levels: ["high"]
+          rules:
+            join_raid:
+              triggers:
+              - member_join_spam:
+                  amount: 20
+                  within: 30s
+              actions:
+                lockdown:
+                  duration: 15m
+                  reason: "Join raid"
+      ~~~
+
+      ### Quarantining suspected compromised accounts
+      The \`quarantine\` action removes the member's roles and gives them the quarantine \`role\` instead.
+      If a \`channel\` is set, a private thread is opened there with the member, and the \`staff_roles\` are pinged in it.
+      The thread has buttons to release the member (restoring their roles), kick them, or ban them.
+      Using the buttons requires \`can_manage_quarantine\`.
+      Members who leave while quarantined get the quarantine role back if they rejoin.
+
+      ~~~yml
+      automod:
+        config:
+          rules:
+            compromised_accounts:
+              triggers:
+              - match_links:
+                  include_domains: ['discord-nitro-gift.example']
+              actions:
+                clean: true
+                quarantine:
+                  role: "473085927053590538"
+                  channel: "473087035574321152"
+                  staff_roles: ["473085801069150209"]
+                  reason: "Posted a known scam link"
+      ~~~
+
+      ### Testing rules with dry runs
+      Rules with \`dry_run: true\` match normally but don't run any of their actions.
+      Instead, each match is posted to the \`dry_run_channel\` along with the actions that would have been taken.
+      Use \`!automod dry_run [period]\` to see how many times each rule has matched, then remove \`dry_run\` once the rule is tuned.
+
+      To check a rule's \`match_words\`, \`match_regex\`, \`match_links\` and \`match_invites\` triggers against specific text without posting it, use \`!automod test <rule> <text>\`, or reply to a message with \`!automod test <rule>\`.
+
+      ~~~yml
+      automod:
+        config:
+          dry_run_channel: "473087035574321152"
+          rules:
+            new_word_filter:
+              dry_run: true
+              triggers:
+              - match_regex:
+                  patterns: ['b[a4]n[a4]n[a4]']
+              actions:
+                clean: true
+                warn:
+                  reason: 'Do not talk about bananas!'
+      ~~~
+
+      ### Rule statistics
+      Each time a rule matches, the rule, the trigger that matched, the user, the channel, and whether each action succeeded are recorded for 30 days.
+      Use \`!automod stats [period]\` to see how often each rule has matched, including rules that haven't matched at all,
+      and \`!automod stats <rule> [period]\` to see the triggers, users and channels behind a rule's matches.
+      Matches of rules in dry run mode aren't included here, they're counted by \`!automod dry_run\` instead.
+      Viewing the statistics requires \`can_view_stats\`.
     `),
   configSchema: ConfigSchema,
 };
@@ -14,6 +14,7 @@ import { MatchAttachmentTypeTrigger } from "./matchAttachmentType";
 import { MatchInvitesTrigger } from "./matchInvites";
 import { MatchLinksTrigger } from "./matchLinks";
 import { MatchMimeTypeTrigger } from "./matchMimeType";
+import { MatchReactionsTrigger } from "./matchReactions";
 import { MatchRegexTrigger } from "./matchRegex";
 import { MatchWordsTrigger } from "./matchWords";
 import { MemberJoinTrigger } from "./memberJoin";
@@ -23,6 +24,7 @@ import { MentionSpamTrigger } from "./mentionSpam";
 import { MessageSpamTrigger } from "./messageSpam";
 import { MuteTrigger } from "./mute";
 import { NoteTrigger } from "./note";
+import { ReactionSpamTrigger } from "./reactionSpam";
 import { RoleAddedTrigger } from "./roleAdded";
 import { RoleRemovedTrigger } from "./roleRemoved";
 import { StickerSpamTrigger } from "./stickerSpam";
@@ -33,6 +35,10 @@ import { ThreadDeleteTrigger } from "./threadDelete";
 import { ThreadUnarchiveTrigger } from "./threadUnarchive";
 import { UnbanTrigger } from "./unban";
 import { UnmuteTrigger } from "./unmute";
+import { VoiceJoinTrigger } from "./voiceJoin";
+import { VoiceJoinSpamTrigger } from "./voiceJoinSpam";
+import { VoiceLeaveTrigger } from "./voiceLeave";
+import { VoiceMoveSpamTrigger } from "./voiceMoveSpam";
 import { WarnTrigger } from "./warn";
 
 export const availableTriggers: Record<string, AutomodTriggerBlueprint<any, any>> = {
@@ -44,6 +50,7 @@ export const availableTriggers: Record<string, AutomodTriggerBlueprint<any, any>
   match_links: MatchLinksTrigger,
   match_attachment_type: MatchAttachmentTypeTrigger,
   match_mime_type: MatchMimeTypeTrigger,
+  match_reactions: MatchReactionsTrigger,
   member_join: MemberJoinTrigger,
   role_added: RoleAddedTrigger,
   role_removed: RoleRemovedTrigger,
@@ -58,6 +65,9 @@ export const availableTriggers: Record<string, AutomodTriggerBlueprint<any, any>
   member_join_spam: MemberJoinSpamTrigger,
   sticker_spam: StickerSpamTrigger,
   thread_create_spam: ThreadCreateSpamTrigger,
+  reaction_spam: ReactionSpamTrigger,
+  voice_join_spam: VoiceJoinSpamTrigger,
+  voice_move_spam: VoiceMoveSpamTrigger,
 
   counter_trigger: CounterTrigger,
 
@@ -75,6 +85,9 @@ export const availableTriggers: Record<string, AutomodTriggerBlueprint<any, any>
   thread_delete: ThreadDeleteTrigger,
   thread_archive: ThreadArchiveTrigger,
   thread_unarchive: ThreadUnarchiveTrigger,
+
+  voice_join: VoiceJoinTrigger,
+  voice_leave: VoiceLeaveTrigger,
 };
 
 export const AvailableTriggers = t.type({
@@ -86,6 +99,7 @@ export const AvailableTriggers = t.type({
   match_links: MatchLinksTrigger.configType,
   match_attachment_type: MatchAttachmentTypeTrigger.configType,
   match_mime_type: MatchMimeTypeTrigger.configType,
+  match_reactions: MatchReactionsTrigger.configType,
   member_join: MemberJoinTrigger.configType,
   member_leave: MemberLeaveTrigger.configType,
   role_added: RoleAddedTrigger.configType,
@@ -101,6 +115,9 @@ export const AvailableTriggers = t.type({
   member_join_spam: MemberJoinSpamTrigger.configType,
   sticker_spam: StickerSpamTrigger.configType,
   thread_create_spam: ThreadCreateSpamTrigger.configType,
+  reaction_spam: ReactionSpamTrigger.configType,
+  voice_join_spam: VoiceJoinSpamTrigger.configType,
+  voice_move_spam: VoiceMoveSpamTrigger.configType,
 
   counter_trigger: CounterTrigger.configType,
 
@@ -118,4 +135,7 @@ export const AvailableTriggers = t.type({
   thread_delete: ThreadDeleteTrigger.configType,
   thread_archive: ThreadArchiveTrigger.configType,
   thread_unarchive: ThreadUnarchiveTrigger.configType,
+
+  voice_join: VoiceJoinTrigger.configType,
+  voice_leave: VoiceLeaveTrigger.configType,
 });
@@ -0,0 +1,47 @@
+import test from "ava";
+import { findMatchingInvite, MatchInvitesTrigger } from "./matchInvites";
+
+type TConfig = Parameters<typeof findMatchingInvite>[0];
+
+function makeConfig(config: Partial<TConfig>): TConfig {
+  return {
+    ...MatchInvitesTrigger.defaultConfig,
+    include_guilds: null,
+    exclude_guilds: null,
+    include_invite_codes: null,
+    exclude_invite_codes: null,
+    ...config,
+  } as TConfig;
+}
+
+const guilds = {
+  zeppelin: { id: "100", name: "Zeppelin" },
+  other: { id: "200", name: "Other" },
+};
+const resolveInviteGuild = async (code: string) => guilds[code] ?? null;
+
+test("findMatchingInvite() matches included invite codes without resolving them", async (t) => {
+  const config = makeConfig({ include_invite_codes: ["zeppelin"] });
+  const result = await findMatchingInvite(config, "join discord.gg/zeppelin", async () => {
+    throw new Error("Invite shouldn't be resolved");
+  });
+  t.deepEqual(result, { code: "zeppelin" });
+});
+
+test("findMatchingInvite() matches invites to servers that aren't excluded", async (t) => {
+  const config = makeConfig({ exclude_guilds: ["100"] });
+  t.is(await findMatchingInvite(config, "https://discord.gg/zeppelin", resolveInviteGuild), null);
+  t.deepEqual(await findMatchingInvite(config, "https://discord.gg/other", resolveInviteGuild), {
+    code: "other",
+    guild: guilds.other,
+  });
+});
+
+test("findMatchingInvite() matches invalid invites", async (t) => {
+  const config = makeConfig({ include_guilds: ["100"] });
+  t.deepEqual(await findMatchingInvite(config, "https://discord.gg/expired", resolveInviteGuild), { code: "expired" });
+});
+
+test("findMatchingInvite() returns null for text without invites", async (t) => {
+  t.is(await findMatchingInvite(makeConfig({ exclude_guilds: [] }), "no invites here", resolveInviteGuild), null);
+});
@@ -1,29 +1,76 @@
 import * as t from "io-ts";
-import { getInviteCodesInString, GuildInvite, isGuildInvite, resolveInvite, tNullable } from "../../../utils";
+import { getInviteCodesInString, isGuildInvite, resolveInvite, tNullable } from "../../../utils";
 import { getTextMatchPartialSummary } from "../functions/getTextMatchPartialSummary";
 import { MatchableTextType, matchMultipleTextTypesOnMessage } from "../functions/matchMultipleTextTypesOnMessage";
 import { automodTrigger } from "../helpers";
 
+interface InviteGuildInfo {
+  id: string;
+  name: string;
+}
+
 interface MatchResultType {
   type: MatchableTextType;
   code: string;
-  invite?: GuildInvite;
+  guild?: InviteGuildInfo;
+}
+
+const MatchInvitesTriggerConfig = t.type({
+  include_guilds: tNullable(t.array(t.string)),
+  exclude_guilds: tNullable(t.array(t.string)),
+  include_invite_codes: tNullable(t.array(t.string)),
+  exclude_invite_codes: tNullable(t.array(t.string)),
+  allow_group_dm_invites: t.boolean,
+  match_messages: t.boolean,
+  match_embeds: t.boolean,
+  match_visible_names: t.boolean,
+  match_usernames: t.boolean,
+  match_nicknames: t.boolean,
+  match_custom_status: t.boolean,
+  only_new_content: t.boolean,
+});
+type TMatchInvitesTriggerConfig = t.TypeOf<typeof MatchInvitesTriggerConfig>;
+
+/**
+ * @param resolveInviteGuild - Returns the server an invite code points to, or null if it's invalid or not a server invite
+ * @return - The first matching invite code, or null if none of the invites matched
+ */
+export async function findMatchingInvite(
+  trigger: TMatchInvitesTriggerConfig,
+  str: string,
+  resolveInviteGuild: (code: string) => Promise<InviteGuildInfo | null>,
+): Promise<{ code: string; guild?: InviteGuildInfo } | null> {
+  const inviteCodes = getInviteCodesInString(str);
+  if (inviteCodes.length === 0) return null;
+
+  const uniqueInviteCodes = Array.from(new Set(inviteCodes));
+
+  for (const code of uniqueInviteCodes) {
+    if (trigger.include_invite_codes && trigger.include_invite_codes.includes(code)) {
+      return { code };
+    }
+    if (trigger.exclude_invite_codes && !trigger.exclude_invite_codes.includes(code)) {
+      return { code };
+    }
+  }
+
+  for (const code of uniqueInviteCodes) {
+    const guild = await resolveInviteGuild(code);
+    if (!guild) return { code };
+
+    if (trigger.include_guilds && trigger.include_guilds.includes(guild.id)) {
+      return { code, guild };
+    }
+    if (trigger.exclude_guilds && !trigger.exclude_guilds.includes(guild.id)) {
+      return { code, guild };
+    }
+  }
+
+  return null;
 }
 
 export const MatchInvitesTrigger = automodTrigger<MatchResultType>()({
-  configType: t.type({
-    include_guilds: tNullable(t.array(t.string)),
-    exclude_guilds: tNullable(t.array(t.string)),
-    include_invite_codes: tNullable(t.array(t.string)),
-    exclude_invite_codes: tNullable(t.array(t.string)),
-    allow_group_dm_invites: t.boolean,
-    match_messages: t.boolean,
-    match_embeds: t.boolean,
-    match_visible_names: t.boolean,
-    match_usernames: t.boolean,
-    match_nicknames: t.boolean,
-    match_custom_status: t.boolean,
-  }),
+  configType: MatchInvitesTriggerConfig,
 
   defaultConfig: {
     allow_group_dm_invites: false,
@@ -33,6 +80,7 @@ export const MatchInvitesTrigger = automodTrigger<MatchResultType>()({
     match_usernames: false,
     match_nicknames: false,
     match_custom_status: false,
+    only_new_content: false,
   },
 
   async match({ pluginData, context, triggerConfig: trigger }) {
@@ -40,31 +88,20 @@ export const MatchInvitesTrigger = automodTrigger<MatchResultType>()({
       return;
     }
 
-    for await (const [type, str] of matchMultipleTextTypesOnMessage(pluginData, trigger, context.message)) {
-      const inviteCodes = getInviteCodesInString(str);
-      if (inviteCodes.length === 0) continue;
-
-      const uniqueInviteCodes = Array.from(new Set(inviteCodes));
-
-      for (const code of uniqueInviteCodes) {
-        if (trigger.include_invite_codes && trigger.include_invite_codes.includes(code)) {
-          return { extra: { type, code } };
-        }
-        if (trigger.exclude_invite_codes && !trigger.exclude_invite_codes.includes(code)) {
-          return { extra: { type, code } };
-        }
-      }
-
-      for (const code of uniqueInviteCodes) {
-        const invite = await resolveInvite(pluginData.client, code);
-        if (!invite || !isGuildInvite(invite)) return { extra: { type, code } };
+    const resolveInviteGuild = async (code: string) => {
+      const invite = await resolveInvite(pluginData.client, code);
+      return invite && isGuildInvite(invite) ? { id: invite.guild.id, name: invite.guild.name } : null;
+    };
 
-        if (trigger.include_guilds && trigger.include_guilds.includes(invite.guild.id)) {
-          return { extra: { type, code, invite } };
-        }
-        if (trigger.exclude_guilds && !trigger.exclude_guilds.includes(invite.guild.id)) {
-          return { extra: { type, code, invite } };
-        }
+    for await (const [type, str] of matchMultipleTextTypesOnMessage(
+      pluginData,
+      trigger,
+      context.message,
+      context.previousMessage,
+    )) {
+      const match = await findMatchingInvite(trigger, str, resolveInviteGuild);
+      if (match) {
+        return { extra: { type, ...match } };
       }
     }
 
@@ -74,9 +111,9 @@ export const MatchInvitesTrigger = automodTrigger<MatchResultType>()({
   renderMatchInformation({ pluginData, contexts, matchResult }) {
     let matchedText;
 
-    if (matchResult.extra.invite) {
-      const invite = matchResult.extra.invite as GuildInvite;
-      matchedText = `invite code \`${matchResult.extra.code}\` (**${invite.guild.name}**, \`${invite.guild.id}\`)`;
+    if (matchResult.extra.guild) {
+      const guild = matchResult.extra.guild;
+      matchedText = `invite code \`${matchResult.extra.code}\` (**${guild.name}**, \`${guild.id}\`)`;
     } else {
       matchedText = `invite code \`${matchResult.extra.code}\``;
     }
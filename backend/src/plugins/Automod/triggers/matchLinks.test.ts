@@ -0,0 +1,71 @@
+import test from "ava";
+import { PhishermanDomainInfo } from "../../../data/types/phisherman";
+import { RegExpRunner } from "../../../RegExpRunner";
+import { findMatchingLink, MatchLinksTrigger } from "./matchLinks";
+
+type TConfig = Parameters<typeof findMatchingLink>[1];
+
+function makeConfig(config: Partial<TConfig>): TConfig {
+  return {
+    ...MatchLinksTrigger.defaultConfig,
+    include_domains: null,
+    exclude_domains: null,
+    include_words: null,
+    exclude_words: null,
+    include_regex: null,
+    exclude_regex: null,
+    phisherman: null,
+    ...config,
+  } as TConfig;
+}
+
+const noPhisherman = async () => null;
+
+// Runs the regexes in-process instead of in worker threads
+const regexRunner = {
+  async exec(regex: RegExp, str: string) {
+    const match = regex.exec(str);
+    return match ? [match] : null;
+  },
+} as RegExpRunner;
+
+test("findMatchingLink() matches included domains and their subdomains", async (t) => {
+  const config = makeConfig({ include_domains: ["example.com"] });
+  t.is((await findMatchingLink(regexRunner, config, "see https://example.com/foo", noPhisherman))?.link, "example.com");
+  t.is((await findMatchingLink(regexRunner, config, "see https://a.example.com", noPhisherman))?.link, "example.com");
+  t.is(await findMatchingLink(regexRunner, config, "see https://example.org", noPhisherman), null);
+});
+
+test("findMatchingLink() doesn't match subdomains without include_subdomains", async (t) => {
+  const config = makeConfig({ include_domains: ["example.com"], include_subdomains: false });
+  t.is(await findMatchingLink(regexRunner, config, "see https://a.example.com", noPhisherman), null);
+});
+
+test("findMatchingLink() matches every domain except excluded ones", async (t) => {
+  const config = makeConfig({ exclude_domains: ["example.com"] });
+  t.is(await findMatchingLink(regexRunner, config, "see https://example.com", noPhisherman), null);
+  t.truthy(await findMatchingLink(regexRunner, config, "see https://example.org", noPhisherman));
+});
+
+test("findMatchingLink() ignores links Discord doesn't highlight with only_real_links", async (t) => {
+  const config = makeConfig({ include_domains: ["example.com"] });
+  t.is(await findMatchingLink(regexRunner, config, "see example.com", noPhisherman), null);
+  const looseConfig = makeConfig({ include_domains: ["example.com"], only_real_links: false });
+  t.truthy(await findMatchingLink(regexRunner, looseConfig, "see example.com", noPhisherman));
+});
+
+test("findMatchingLink() prefers exclude_regex over include_words", async (t) => {
+  const config = makeConfig({ include_words: ["free"], exclude_regex: [/safe-site\.com/] });
+  t.is(await findMatchingLink(regexRunner, config, "https://safe-site.com/free", noPhisherman), null);
+  t.is(
+    (await findMatchingLink(regexRunner, config, "https://bad-site.com/free", noPhisherman))?.link,
+    "https://bad-site.com/free",
+  );
+});
+
+test("findMatchingLink() matches phishing domains reported by Phisherman", async (t) => {
+  const config = makeConfig({ phisherman: { include_suspected: false, include_verified: true } });
+  const domainInfo = { classification: "malicious", verifiedPhish: true } as PhishermanDomainInfo;
+  const result = await findMatchingLink(regexRunner, config, "https://phish-site.com", async () => domainInfo);
+  t.is(result?.details, "using Phisherman (verified)");
+});
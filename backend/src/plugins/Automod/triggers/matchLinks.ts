@@ -1,7 +1,8 @@
 import { escapeInlineCode } from "discord.js";
 import * as t from "io-ts";
-import { allowTimeout } from "../../../RegExpRunner";
 import { phishermanDomainIsSafe } from "../../../data/Phisherman";
+import { PhishermanDomainInfo } from "../../../data/types/phisherman";
+import { allowTimeout, RegExpRunner } from "../../../RegExpRunner";
 import { getUrlsInString, tNullable } from "../../../utils";
 import { mergeRegexes } from "../../../utils/mergeRegexes";
 import { mergeWordsIntoRegex } from "../../../utils/mergeWordsIntoRegex";
@@ -21,164 +22,190 @@ const regexCache = new WeakMap<any, RegExp[]>();
 
 const quickLinkCheck = /^https?:\/\//i;
 
-export const MatchLinksTrigger = automodTrigger<MatchResultType>()({
-  configType: t.type({
-    include_domains: tNullable(t.array(t.string)),
-    exclude_domains: tNullable(t.array(t.string)),
-    include_subdomains: t.boolean,
-    include_words: tNullable(t.array(t.string)),
-    exclude_words: tNullable(t.array(t.string)),
-    include_regex: tNullable(t.array(TRegex)),
-    exclude_regex: tNullable(t.array(TRegex)),
-    phisherman: tNullable(
-      t.type({
-        include_suspected: tNullable(t.boolean),
-        include_verified: tNullable(t.boolean),
-      }),
-    ),
-    only_real_links: t.boolean,
-    match_messages: t.boolean,
-    match_embeds: t.boolean,
-    match_visible_names: t.boolean,
-    match_usernames: t.boolean,
-    match_nicknames: t.boolean,
-    match_custom_status: t.boolean,
-  }),
+const MatchLinksTriggerConfig = t.type({
+  include_domains: tNullable(t.array(t.string)),
+  exclude_domains: tNullable(t.array(t.string)),
+  include_subdomains: t.boolean,
+  include_words: tNullable(t.array(t.string)),
+  exclude_words: tNullable(t.array(t.string)),
+  include_regex: tNullable(t.array(TRegex)),
+  exclude_regex: tNullable(t.array(TRegex)),
+  phisherman: tNullable(
+    t.type({
+      include_suspected: tNullable(t.boolean),
+      include_verified: tNullable(t.boolean),
+    }),
+  ),
+  only_real_links: t.boolean,
+  match_messages: t.boolean,
+  match_embeds: t.boolean,
+  match_visible_names: t.boolean,
+  match_usernames: t.boolean,
+  match_nicknames: t.boolean,
+  match_custom_status: t.boolean,
+  only_new_content: t.boolean,
+});
+type TMatchLinksTriggerConfig = t.TypeOf<typeof MatchLinksTriggerConfig>;
+
+/**
+ * @return - The first matching link, or null if none of the links in the text matched
+ */
+export async function findMatchingLink(
+  regexRunner: RegExpRunner,
+  trigger: TMatchLinksTriggerConfig,
+  str: string,
+  getPhishermanDomainInfo: (domain: string) => Promise<PhishermanDomainInfo | null>,
+): Promise<{ link: string; details?: string } | null> {
+  const links = getUrlsInString(str, true);
+
+  for (const link of links) {
+    // "real link" = a link that Discord highlights
+    if (trigger.only_real_links && !quickLinkCheck.test(link.input)) {
+      continue;
+    }
 
-  defaultConfig: {
-    include_subdomains: true,
-    match_messages: true,
-    match_embeds: false,
-    match_visible_names: false,
-    match_usernames: false,
-    match_nicknames: false,
-    match_custom_status: false,
-    only_real_links: true,
-  },
+    const normalizedHostname = link.hostname.toLowerCase();
 
-  async match({ pluginData, context, triggerConfig: trigger }) {
-    if (!context.message) {
-      return;
-    }
+    // Exclude > Include
+    // In order of specificity, regex > word > domain
 
-    typeLoop: for await (const [type, str] of matchMultipleTextTypesOnMessage(pluginData, trigger, context.message)) {
-      const links = getUrlsInString(str, true);
+    if (trigger.exclude_regex) {
+      if (!regexCache.has(trigger.exclude_regex)) {
+        const toCache = mergeRegexes(trigger.exclude_regex, "i");
+        regexCache.set(trigger.exclude_regex, toCache);
+      }
+      const regexes = regexCache.get(trigger.exclude_regex)!;
 
-      for (const link of links) {
-        // "real link" = a link that Discord highlights
-        if (trigger.only_real_links && !quickLinkCheck.test(link.input)) {
-          continue;
+      for (const sourceRegex of regexes) {
+        const matches = await regexRunner.exec(sourceRegex, link.input).catch(allowTimeout);
+        if (matches) {
+          return null;
         }
+      }
+    }
 
-        const normalizedHostname = link.hostname.toLowerCase();
+    if (trigger.include_regex) {
+      if (!regexCache.has(trigger.include_regex)) {
+        const toCache = mergeRegexes(trigger.include_regex, "i");
+        regexCache.set(trigger.include_regex, toCache);
+      }
+      const regexes = regexCache.get(trigger.include_regex)!;
 
-        // Exclude > Include
-        // In order of specificity, regex > word > domain
+      for (const sourceRegex of regexes) {
+        const matches = await regexRunner.exec(sourceRegex, link.input).catch(allowTimeout);
+        if (matches) {
+          return { link: link.input };
+        }
+      }
+    }
 
-        if (trigger.exclude_regex) {
-          if (!regexCache.has(trigger.exclude_regex)) {
-            const toCache = mergeRegexes(trigger.exclude_regex, "i");
-            regexCache.set(trigger.exclude_regex, toCache);
-          }
-          const regexes = regexCache.get(trigger.exclude_regex)!;
+    if (trigger.exclude_words) {
+      if (!regexCache.has(trigger.exclude_words)) {
+        const toCache = mergeWordsIntoRegex(trigger.exclude_words, "i");
+        regexCache.set(trigger.exclude_words, [toCache]);
+      }
+      const regexes = regexCache.get(trigger.exclude_words)!;
 
-          for (const sourceRegex of regexes) {
-            const matches = await pluginData.state.regexRunner.exec(sourceRegex, link.input).catch(allowTimeout);
-            if (matches) {
-              continue typeLoop;
-            }
-          }
+      for (const regex of regexes) {
+        if (regex.test(link.input)) {
+          return null;
         }
+      }
+    }
 
-        if (trigger.include_regex) {
-          if (!regexCache.has(trigger.include_regex)) {
-            const toCache = mergeRegexes(trigger.include_regex, "i");
-            regexCache.set(trigger.include_regex, toCache);
-          }
-          const regexes = regexCache.get(trigger.include_regex)!;
-
-          for (const sourceRegex of regexes) {
-            const matches = await pluginData.state.regexRunner.exec(sourceRegex, link.input).catch(allowTimeout);
-            if (matches) {
-              return { extra: { type, link: link.input } };
-            }
-          }
-        }
+    if (trigger.include_words) {
+      if (!regexCache.has(trigger.include_words)) {
+        const toCache = mergeWordsIntoRegex(trigger.include_words, "i");
+        regexCache.set(trigger.include_words, [toCache]);
+      }
+      const regexes = regexCache.get(trigger.include_words)!;
 
-        if (trigger.exclude_words) {
-          if (!regexCache.has(trigger.exclude_words)) {
-            const toCache = mergeWordsIntoRegex(trigger.exclude_words, "i");
-            regexCache.set(trigger.exclude_words, [toCache]);
-          }
-          const regexes = regexCache.get(trigger.exclude_words)!;
-
-          for (const regex of regexes) {
-            if (regex.test(link.input)) {
-              continue typeLoop;
-            }
-          }
+      for (const regex of regexes) {
+        if (regex.test(link.input)) {
+          return { link: link.input };
         }
+      }
+    }
 
-        if (trigger.include_words) {
-          if (!regexCache.has(trigger.include_words)) {
-            const toCache = mergeWordsIntoRegex(trigger.include_words, "i");
-            regexCache.set(trigger.include_words, [toCache]);
-          }
-          const regexes = regexCache.get(trigger.include_words)!;
-
-          for (const regex of regexes) {
-            if (regex.test(link.input)) {
-              return { extra: { type, link: link.input } };
-            }
-          }
+    if (trigger.exclude_domains) {
+      for (const domain of trigger.exclude_domains) {
+        const normalizedDomain = domain.toLowerCase();
+        if (normalizedDomain === normalizedHostname) {
+          return null;
         }
-
-        if (trigger.exclude_domains) {
-          for (const domain of trigger.exclude_domains) {
-            const normalizedDomain = domain.toLowerCase();
-            if (normalizedDomain === normalizedHostname) {
-              continue typeLoop;
-            }
-            if (trigger.include_subdomains && normalizedHostname.endsWith(`.${domain}`)) {
-              continue typeLoop;
-            }
-          }
-
-          return { extra: { type, link: link.toString() } };
+        if (trigger.include_subdomains && normalizedHostname.endsWith(`.${domain}`)) {
+          return null;
         }
+      }
+
+      return { link: link.toString() };
+    }
 
-        if (trigger.include_domains) {
-          for (const domain of trigger.include_domains) {
-            const normalizedDomain = domain.toLowerCase();
-            if (normalizedDomain === normalizedHostname) {
-              return { extra: { type, link: domain } };
-            }
-            if (trigger.include_subdomains && normalizedHostname.endsWith(`.${domain}`)) {
-              return { extra: { type, link: domain } };
-            }
-          }
+    if (trigger.include_domains) {
+      for (const domain of trigger.include_domains) {
+        const normalizedDomain = domain.toLowerCase();
+        if (normalizedDomain === normalizedHostname) {
+          return { link: domain };
         }
+        if (trigger.include_subdomains && normalizedHostname.endsWith(`.${domain}`)) {
+          return { link: domain };
+        }
+      }
+    }
 
-        if (trigger.phisherman) {
-          const phishermanResult = await pluginData.getPlugin(PhishermanPlugin).getDomainInfo(normalizedHostname);
-          if (phishermanResult != null && !phishermanDomainIsSafe(phishermanResult)) {
-            if (
-              (trigger.phisherman.include_suspected && !phishermanResult.verifiedPhish) ||
-              (trigger.phisherman.include_verified && phishermanResult.verifiedPhish)
-            ) {
-              const suspectedVerified = phishermanResult.verifiedPhish ? "verified" : "suspected";
-              return {
-                extra: {
-                  type,
-                  link: link.input,
-                  details: `using Phisherman (${suspectedVerified})`,
-                },
-              };
-            }
-          }
+    if (trigger.phisherman) {
+      const phishermanResult = await getPhishermanDomainInfo(normalizedHostname);
+      if (phishermanResult != null && !phishermanDomainIsSafe(phishermanResult)) {
+        if (
+          (trigger.phisherman.include_suspected && !phishermanResult.verifiedPhish) ||
+          (trigger.phisherman.include_verified && phishermanResult.verifiedPhish)
+        ) {
+          const suspectedVerified = phishermanResult.verifiedPhish ? "verified" : "suspected";
+          return {
+            link: link.input,
+            details: `using Phisherman (${suspectedVerified})`,
+          };
         }
       }
     }
+  }
+
+  return null;
+}
+
+export const MatchLinksTrigger = automodTrigger<MatchResultType>()({
+  configType: MatchLinksTriggerConfig,
+
+  defaultConfig: {
+    include_subdomains: true,
+    match_messages: true,
+    match_embeds: false,
+    match_visible_names: false,
+    match_usernames: false,
+    match_nicknames: false,
+    match_custom_status: false,
+    only_new_content: false,
+    only_real_links: true,
+  },
+
+  async match({ pluginData, context, triggerConfig: trigger }) {
+    if (!context.message) {
+      return;
+    }
+
+    const getPhishermanDomainInfo = (domain: string) => pluginData.getPlugin(PhishermanPlugin).getDomainInfo(domain);
+
+    for await (const [type, str] of matchMultipleTextTypesOnMessage(
+      pluginData,
+      trigger,
+      context.message,
+      context.previousMessage,
+    )) {
+      const match = await findMatchingLink(pluginData.state.regexRunner, trigger, str, getPhishermanDomainInfo);
+      if (match) {
+        return { extra: { type, ...match } };
+      }
+    }
 
     return null;
   },
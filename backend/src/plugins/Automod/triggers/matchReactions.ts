@@ -0,0 +1,82 @@
+import * as t from "io-ts";
+import { allowTimeout } from "../../../RegExpRunner";
+import { tNullable } from "../../../utils";
+import { mergeRegexes } from "../../../utils/mergeRegexes";
+import { TRegex } from "../../../validatorUtils";
+import { automodTrigger } from "../helpers";
+
+interface MatchReactionsResult {
+  emoji: string;
+  messageUrl: string;
+}
+
+const customEmojiMentionRegex = /^<a?:\w+:(\d+)>$/;
+const regexCache = new WeakMap<any, RegExp[]>();
+
+function normalizeEmoji(emoji: string): string {
+  const customEmojiMatch = emoji.trim().match(customEmojiMentionRegex);
+  if (customEmojiMatch) {
+    return customEmojiMatch[1];
+  }
+
+  // Variation selectors are optional in unicode emojis, so users could use them to evade the filter
+  return emoji.trim().replace(/\uFE0F/g, "");
+}
+
+export const MatchReactionsTrigger = automodTrigger<MatchReactionsResult>()({
+  configType: t.type({
+    // Unicode emojis, custom emoji IDs or custom emojis in <:name:id> format
+    emojis: tNullable(t.array(t.string)),
+    // Matched against the names and IDs of custom emojis
+    custom_emoji_patterns: tNullable(t.array(TRegex)),
+  }),
+
+  defaultConfig: {
+    emojis: null,
+    custom_emoji_patterns: null,
+  },
+
+  async match({ pluginData, context, triggerConfig }) {
+    if (!context.reaction) {
+      return;
+    }
+
+    const emoji = context.reaction.emoji;
+    const result = {
+      extra: {
+        emoji: emoji.toString(),
+        messageUrl: context.reaction.message.url,
+      },
+    };
+
+    if (triggerConfig.emojis) {
+      const reactionEmoji = emoji.id ?? normalizeEmoji(emoji.name ?? "");
+      if (triggerConfig.emojis.some((configEmoji) => normalizeEmoji(configEmoji) === reactionEmoji)) {
+        return result;
+      }
+    }
+
+    if (triggerConfig.custom_emoji_patterns && emoji.id) {
+      if (!regexCache.has(triggerConfig.custom_emoji_patterns)) {
+        regexCache.set(triggerConfig.custom_emoji_patterns, mergeRegexes(triggerConfig.custom_emoji_patterns, "i"));
+      }
+      const regexes = regexCache.get(triggerConfig.custom_emoji_patterns)!;
+
+      for (const str of [emoji.name, emoji.id]) {
+        if (!str) continue;
+        for (const regex of regexes) {
+          const matches = await pluginData.state.regexRunner.exec(regex, str).catch(allowTimeout);
+          if (matches?.length) {
+            return result;
+          }
+        }
+      }
+    }
+
+    return null;
+  },
+
+  renderMatchInformation({ matchResult }) {
+    return `Matched reaction ${matchResult.extra.emoji} on message ${matchResult.extra.messageUrl}`;
+  },
+});
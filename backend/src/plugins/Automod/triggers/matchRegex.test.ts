@@ -0,0 +1,37 @@
+import test from "ava";
+import { RegExpRunner } from "../../../RegExpRunner";
+import { findMatchingRegex, MatchRegexTrigger } from "./matchRegex";
+
+type TConfig = Parameters<typeof findMatchingRegex>[1];
+
+function makeConfig(config: Partial<TConfig>): TConfig {
+  return { ...MatchRegexTrigger.defaultConfig, patterns: [], ...config } as TConfig;
+}
+
+// Runs the regexes in-process instead of in worker threads
+const regexRunner = {
+  async exec(regex: RegExp, str: string) {
+    const match = regex.exec(str);
+    return match ? [match] : null;
+  },
+} as RegExpRunner;
+
+test("findMatchingRegex() returns the matched part of the text", async (t) => {
+  const result = await findMatchingRegex(regexRunner, makeConfig({ patterns: [/b[a4]nana/] }), "I like B4NANA bread");
+  t.is(result?.matchedText, "B4NANA");
+});
+
+test("findMatchingRegex() returns null if no pattern matches", async (t) => {
+  t.is(await findMatchingRegex(regexRunner, makeConfig({ patterns: [/apple/, /pear/] }), "bananas"), null);
+});
+
+test("findMatchingRegex() respects case_sensitive", async (t) => {
+  const config = makeConfig({ patterns: [/Banana/], case_sensitive: true });
+  t.is(await findMatchingRegex(regexRunner, config, "banana"), null);
+  t.is((await findMatchingRegex(regexRunner, config, "Banana"))?.matchedText, "Banana");
+});
+
+test("findMatchingRegex() matches patterns with backreferences", async (t) => {
+  const result = await findMatchingRegex(regexRunner, makeConfig({ patterns: [/(\w)\1{3}/] }), "aaaah");
+  t.is(result?.matchedText, "aaaa");
+});
@@ -1,5 +1,5 @@
 import * as t from "io-ts";
-import { allowTimeout } from "../../../RegExpRunner";
+import { allowTimeout, RegExpRunner } from "../../../RegExpRunner";
 import { mergeRegexes } from "../../../utils/mergeRegexes";
 import { normalizeText } from "../../../utils/normalizeText";
 import { stripMarkdown } from "../../../utils/stripMarkdown";
@@ -15,19 +15,59 @@ interface MatchResultType {
 
 const regexCache = new WeakMap<any, RegExp[]>();
 
+const MatchRegexTriggerConfig = t.type({
+  patterns: t.array(TRegex),
+  case_sensitive: t.boolean,
+  normalize: t.boolean,
+  strip_markdown: t.boolean,
+  match_messages: t.boolean,
+  match_embeds: t.boolean,
+  match_visible_names: t.boolean,
+  match_usernames: t.boolean,
+  match_nicknames: t.boolean,
+  match_custom_status: t.boolean,
+  only_new_content: t.boolean,
+});
+type TMatchRegexTriggerConfig = t.TypeOf<typeof MatchRegexTriggerConfig>;
+
+/**
+ * @return - The first pattern that matched and the matched part of the text, or null if none of the patterns matched
+ */
+export async function findMatchingRegex(
+  regexRunner: RegExpRunner,
+  trigger: TMatchRegexTriggerConfig,
+  str: string,
+): Promise<{ pattern: string; matchedText: string } | null> {
+  if (!regexCache.has(trigger)) {
+    const flags = trigger.case_sensitive ? "" : "i";
+    const toCache = mergeRegexes(trigger.patterns, flags);
+    regexCache.set(trigger, toCache);
+  }
+  const regexes = regexCache.get(trigger)!;
+
+  if (trigger.strip_markdown) {
+    str = stripMarkdown(str);
+  }
+
+  if (trigger.normalize) {
+    str = normalizeText(str);
+  }
+
+  for (const regex of regexes) {
+    const matches = await regexRunner.exec(regex, str).catch(allowTimeout);
+    if (matches?.length) {
+      return {
+        pattern: regex.source,
+        matchedText: matches[0][0],
+      };
+    }
+  }
+
+  return null;
+}
+
 export const MatchRegexTrigger = automodTrigger<MatchResultType>()({
-  configType: t.type({
-    patterns: t.array(TRegex),
-    case_sensitive: t.boolean,
-    normalize: t.boolean,
-    strip_markdown: t.boolean,
-    match_messages: t.boolean,
-    match_embeds: t.boolean,
-    match_visible_names: t.boolean,
-    match_usernames: t.boolean,
-    match_nicknames: t.boolean,
-    match_custom_status: t.boolean,
-  }),
+  configType: MatchRegexTriggerConfig,
 
   defaultConfig: {
     case_sensitive: false,
@@ -39,6 +79,7 @@ export const MatchRegexTrigger = automodTrigger<MatchResultType>()({
     match_usernames: false,
     match_nicknames: false,
     match_custom_status: false,
+    only_new_content: false,
   },
 
   async match({ pluginData, context, triggerConfig: trigger }) {
@@ -46,32 +87,20 @@ export const MatchRegexTrigger = automodTrigger<MatchResultType>()({
       return;
     }
 
-    if (!regexCache.has(trigger)) {
-      const flags = trigger.case_sensitive ? "" : "i";
-      const toCache = mergeRegexes(trigger.patterns, flags);
-      regexCache.set(trigger, toCache);
-    }
-    const regexes = regexCache.get(trigger)!;
-
-    for await (let [type, str] of matchMultipleTextTypesOnMessage(pluginData, trigger, context.message)) {
-      if (trigger.strip_markdown) {
-        str = stripMarkdown(str);
-      }
-
-      if (trigger.normalize) {
-        str = normalizeText(str);
-      }
-
-      for (const regex of regexes) {
-        const matches = await pluginData.state.regexRunner.exec(regex, str).catch(allowTimeout);
-        if (matches?.length) {
-          return {
-            extra: {
-              pattern: regex.source,
-              type,
-            },
-          };
-        }
+    for await (const [type, str] of matchMultipleTextTypesOnMessage(
+      pluginData,
+      trigger,
+      context.message,
+      context.previousMessage,
+    )) {
+      const match = await findMatchingRegex(pluginData.state.regexRunner, trigger, str);
+      if (match) {
+        return {
+          extra: {
+            pattern: match.pattern,
+            type,
+          },
+        };
       }
     }
 
@@ -0,0 +1,34 @@
+import test from "ava";
+import { findMatchingWord, MatchWordsTrigger } from "./matchWords";
+
+type TConfig = Parameters<typeof findMatchingWord>[0];
+
+function makeConfig(config: Partial<TConfig>): TConfig {
+  return { ...MatchWordsTrigger.defaultConfig, words: [], ...config } as TConfig;
+}
+
+test("findMatchingWord() returns the matched part of the text", (t) => {
+  const config = makeConfig({ words: ["banana"] });
+  t.is(findMatchingWord(config, "I like BANANA bread"), "BANANA");
+  t.is(findMatchingWord(config, "I like apples"), null);
+});
+
+test("findMatchingWord() only matches full words with only_full_words", (t) => {
+  t.is(findMatchingWord(makeConfig({ words: ["ban"] }), "bandana"), null);
+  t.is(findMatchingWord(makeConfig({ words: ["ban"], only_full_words: false }), "bandana"), "ban");
+});
+
+test("findMatchingWord() respects case_sensitive", (t) => {
+  t.is(findMatchingWord(makeConfig({ words: ["Banana"], case_sensitive: true }), "banana"), null);
+  t.is(findMatchingWord(makeConfig({ words: ["Banana"], case_sensitive: true }), "Banana"), "Banana");
+});
+
+test("findMatchingWord() matches characters separated by other characters with loose_matching", (t) => {
+  const config = makeConfig({ words: ["bad"], loose_matching: true, loose_matching_threshold: 2 });
+  t.is(findMatchingWord(config, "b.a.d"), "b.a.d");
+  t.is(findMatchingWord(config, "b...a...d"), null);
+});
+
+test("findMatchingWord() matches normalized text with normalize", (t) => {
+  t.is(findMatchingWord(makeConfig({ words: ["cafe"], normalize: true }), "café"), "cafe");
+});
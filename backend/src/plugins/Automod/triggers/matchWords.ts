@@ -13,22 +13,67 @@ interface MatchResultType {
 
 const regexCache = new WeakMap<any, RegExp[]>();
 
+const MatchWordsTriggerConfig = t.type({
+  words: t.array(t.string),
+  case_sensitive: t.boolean,
+  only_full_words: t.boolean,
+  normalize: t.boolean,
+  loose_matching: t.boolean,
+  loose_matching_threshold: t.number,
+  strip_markdown: t.boolean,
+  match_messages: t.boolean,
+  match_embeds: t.boolean,
+  match_visible_names: t.boolean,
+  match_usernames: t.boolean,
+  match_nicknames: t.boolean,
+  match_custom_status: t.boolean,
+  only_new_content: t.boolean,
+});
+type TMatchWordsTriggerConfig = t.TypeOf<typeof MatchWordsTriggerConfig>;
+
+/**
+ * @return - The matched part of the text, or null if none of the words matched
+ */
+export function findMatchingWord(trigger: TMatchWordsTriggerConfig, str: string): string | null {
+  if (!regexCache.has(trigger)) {
+    const looseMatchingThreshold = Math.min(Math.max(trigger.loose_matching_threshold, 1), 64);
+    const patterns = trigger.words.map((word) => {
+      let pattern = trigger.loose_matching
+        ? [...word].map((c) => escapeStringRegexp(c)).join(`(?:\\s*|.{0,${looseMatchingThreshold}})`)
+        : escapeStringRegexp(word);
+
+      if (trigger.only_full_words) {
+        pattern = `\\b${pattern}\\b`;
+      }
+
+      return pattern;
+    });
+
+    const mergedRegex = new RegExp(patterns.map((p) => `(?:${p})`).join("|"), trigger.case_sensitive ? "" : "i");
+    regexCache.set(trigger, [mergedRegex]);
+  }
+  const regexes = regexCache.get(trigger)!;
+
+  if (trigger.strip_markdown) {
+    str = stripMarkdown(str);
+  }
+
+  if (trigger.normalize) {
+    str = normalizeText(str);
+  }
+
+  for (const regex of regexes) {
+    const match = regex.exec(str);
+    if (match) {
+      return match[0];
+    }
+  }
+
+  return null;
+}
+
 export const MatchWordsTrigger = automodTrigger<MatchResultType>()({
-  configType: t.type({
-    words: t.array(t.string),
-    case_sensitive: t.boolean,
-    only_full_words: t.boolean,
-    normalize: t.boolean,
-    loose_matching: t.boolean,
-    loose_matching_threshold: t.number,
-    strip_markdown: t.boolean,
-    match_messages: t.boolean,
-    match_embeds: t.boolean,
-    match_visible_names: t.boolean,
-    match_usernames: t.boolean,
-    match_nicknames: t.boolean,
-    match_custom_status: t.boolean,
-  }),
+  configType: MatchWordsTriggerConfig,
 
   defaultConfig: {
     case_sensitive: false,
@@ -43,6 +88,7 @@ export const MatchWordsTrigger = automodTrigger<MatchResultType>()({
     match_usernames: false,
     match_nicknames: false,
     match_custom_status: false,
+    only_new_content: false,
   },
 
   async match({ pluginData, context, triggerConfig: trigger }) {
@@ -50,43 +96,20 @@ export const MatchWordsTrigger = automodTrigger<MatchResultType>()({
       return;
     }
 
-    if (!regexCache.has(trigger)) {
-      const looseMatchingThreshold = Math.min(Math.max(trigger.loose_matching_threshold, 1), 64);
-      const patterns = trigger.words.map((word) => {
-        let pattern = trigger.loose_matching
-          ? [...word].map((c) => escapeStringRegexp(c)).join(`(?:\\s*|.{0,${looseMatchingThreshold}})`)
-          : escapeStringRegexp(word);
-
-        if (trigger.only_full_words) {
-          pattern = `\\b${pattern}\\b`;
-        }
-
-        return pattern;
-      });
-
-      const mergedRegex = new RegExp(patterns.map((p) => `(?:${p})`).join("|"), trigger.case_sensitive ? "" : "i");
-      regexCache.set(trigger, [mergedRegex]);
-    }
-    const regexes = regexCache.get(trigger)!;
-
-    for await (let [type, str] of matchMultipleTextTypesOnMessage(pluginData, trigger, context.message)) {
-      if (trigger.strip_markdown) {
-        str = stripMarkdown(str);
-      }
-
-      if (trigger.normalize) {
-        str = normalizeText(str);
-      }
-
-      for (const regex of regexes) {
-        if (regex.test(str)) {
-          return {
-            extra: {
-              type,
-              word: "",
-            },
-          };
-        }
+    for await (const [type, str] of matchMultipleTextTypesOnMessage(
+      pluginData,
+      trigger,
+      context.message,
+      context.previousMessage,
+    )) {
+      const word = findMatchingWord(trigger, str);
+      if (word != null) {
+        return {
+          extra: {
+            type,
+            word,
+          },
+        };
       }
     }
 
@@ -1,32 +1,115 @@
+import humanizeDuration from "humanize-duration";
 import * as t from "io-ts";
-import { convertDelayStringToMS, tDelayString } from "../../../utils";
+import { allowTimeout } from "../../../RegExpRunner";
+import { convertDelayStringToMS, tDelayString, tNullable } from "../../../utils";
+import { mergeRegexes } from "../../../utils/mergeRegexes";
+import { TRegex } from "../../../validatorUtils";
 import { automodTrigger } from "../helpers";
 
-export const MemberJoinTrigger = automodTrigger<unknown>()({
+interface MemberJoinMatchResult {
+  reasons: string[];
+}
+
+const regexCache = new WeakMap<any, RegExp[]>();
+
+export const MemberJoinTrigger = automodTrigger<MemberJoinMatchResult>()({
   configType: t.type({
     only_new: t.boolean,
     new_threshold: tDelayString,
+    // Only match accounts that are at least this old
+    min_account_age: tNullable(tDelayString),
+    // Only match accounts that joined within this time of being created
+    joined_within_creation: tNullable(tDelayString),
+    // true = only match users without an avatar, false = only match users with an avatar
+    default_avatar: tNullable(t.boolean),
+    // Only match users whose username matches one of these patterns
+    username_patterns: tNullable(t.array(TRegex)),
   }),
 
   defaultConfig: {
     only_new: false,
     new_threshold: "1h",
+    min_account_age: null,
+    joined_within_creation: null,
+    default_avatar: null,
+    username_patterns: null,
   },
 
-  async match({ context, triggerConfig }) {
+  async match({ pluginData, context, triggerConfig }) {
     if (!context.joined || !context.member) {
       return;
     }
 
+    // All of the configured conditions have to match
+    const user = context.member.user;
+    const accountAge = Date.now() - user.createdTimestamp;
+    const reasons: string[] = [];
+
     if (triggerConfig.only_new) {
-      const threshold = Date.now() - convertDelayStringToMS(triggerConfig.new_threshold)!;
-      return context.member.user.createdTimestamp >= threshold ? {} : null;
+      if (accountAge > convertDelayStringToMS(triggerConfig.new_threshold)!) {
+        return null;
+      }
+      reasons.push(`account is ${humanizeDuration(accountAge, { largest: 2, round: true })} old`);
+    }
+
+    if (triggerConfig.min_account_age) {
+      if (accountAge < convertDelayStringToMS(triggerConfig.min_account_age)!) {
+        return null;
+      }
+      if (!triggerConfig.only_new) {
+        reasons.push(`account is ${humanizeDuration(accountAge, { largest: 2, round: true })} old`);
+      }
+    }
+
+    if (triggerConfig.joined_within_creation) {
+      const joinDelay = (context.member.joinedTimestamp ?? Date.now()) - user.createdTimestamp;
+      if (joinDelay > convertDelayStringToMS(triggerConfig.joined_within_creation)!) {
+        return null;
+      }
+      reasons.push(`joined ${humanizeDuration(joinDelay, { largest: 2, round: true })} after the account was created`);
     }
 
-    return {};
+    if (triggerConfig.default_avatar != null) {
+      const hasDefaultAvatar = user.avatar == null;
+      if (hasDefaultAvatar !== triggerConfig.default_avatar) {
+        return null;
+      }
+      reasons.push(hasDefaultAvatar ? "default avatar" : "custom avatar");
+    }
+
+    if (triggerConfig.username_patterns) {
+      if (!regexCache.has(triggerConfig.username_patterns)) {
+        regexCache.set(triggerConfig.username_patterns, mergeRegexes(triggerConfig.username_patterns, "i"));
+      }
+      const regexes = regexCache.get(triggerConfig.username_patterns)!;
+
+      let matched = false;
+      for (const regex of regexes) {
+        const matches = await pluginData.state.regexRunner.exec(regex, user.username).catch(allowTimeout);
+        if (matches?.length) {
+          matched = true;
+          break;
+        }
+      }
+
+      if (!matched) {
+        return null;
+      }
+      reasons.push(`username \`${user.username}\` matched a pattern`);
+    }
+
+    return {
+      extra: {
+        reasons,
+      },
+    };
   },
 
-  renderMatchInformation() {
-    return "";
+  renderMatchInformation({ matchResult }) {
+    if (matchResult.extra.reasons.length === 0) {
+      return "";
+    }
+
+    return `Member joined: ${matchResult.extra.reasons.join(", ")}`;
   },
 });
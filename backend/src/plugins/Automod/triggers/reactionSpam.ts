@@ -0,0 +1,55 @@
+import * as t from "io-ts";
+import { humanizeDurationShort } from "../../../humanizeDurationShort";
+import { convertDelayStringToMS, tDelayString } from "../../../utils";
+import { RecentActionType } from "../constants";
+import { findRecentSpam } from "../functions/findRecentSpam";
+import { getMatchingRecentActions } from "../functions/getMatchingRecentActions";
+import { sumRecentActionCounts } from "../functions/sumRecentActionCounts";
+import { automodTrigger } from "../helpers";
+
+export const ReactionSpamTrigger = automodTrigger<unknown>()({
+  configType: t.type({
+    amount: t.number,
+    within: tDelayString,
+  }),
+
+  defaultConfig: {},
+
+  async match({ pluginData, context, triggerConfig }) {
+    if (!context.reaction || !context.user) {
+      return;
+    }
+
+    // Further reactions from a user whose reaction spam was just matched are removed silently
+    const recentSpam = findRecentSpam(pluginData, RecentActionType.Reaction, context.user.id);
+    if (recentSpam) {
+      return {
+        silentClean: true,
+      };
+    }
+
+    const since = Date.now() - convertDelayStringToMS(triggerConfig.within)!;
+    const matchingActions = getMatchingRecentActions(pluginData, RecentActionType.Reaction, context.user.id, since);
+    const totalCount = sumRecentActionCounts(matchingActions);
+
+    if (totalCount >= triggerConfig.amount) {
+      const extraContexts = matchingActions.map((a) => a.context).filter((c) => c !== context);
+
+      pluginData.state.recentSpam.push({
+        type: RecentActionType.Reaction,
+        timestamp: Date.now(),
+        archiveId: null,
+        identifiers: [context.user.id],
+      });
+
+      return {
+        extraContexts,
+      };
+    }
+  },
+
+  renderMatchInformation({ triggerConfig }) {
+    const withinStr = humanizeDurationShort(convertDelayStringToMS(triggerConfig.within));
+    return `Matched reaction spam (${triggerConfig.amount} in ${withinStr})`;
+  },
+});
@@ -0,0 +1,37 @@
+import * as t from "io-ts";
+import { tNullable, verboseChannelMention } from "../../../utils";
+import { automodTrigger } from "../helpers";
+
+export const VoiceJoinTrigger = automodTrigger<unknown>()({
+  configType: t.type({
+    channels: tNullable(t.array(t.string)),
+    include_moves: t.boolean,
+  }),
+
+  defaultConfig: {
+    channels: null,
+    include_moves: false,
+  },
+
+  async match({ context, triggerConfig }) {
+    const joined = context.voiceChange?.joined;
+    if (!joined) {
+      return;
+    }
+
+    if (context.voiceChange!.left && !triggerConfig.include_moves) {
+      return;
+    }
+
+    if (triggerConfig.channels && !triggerConfig.channels.includes(joined.id)) {
+      return;
+    }
+
+    return {};
+  },
+
+  renderMatchInformation({ contexts }) {
+    const joined = contexts[0].voiceChange!.joined!;
+    return `Joined voice channel ${verboseChannelMention(joined)}`;
+  },
+});
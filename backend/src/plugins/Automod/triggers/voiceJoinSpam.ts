@@ -0,0 +1,63 @@
+import * as t from "io-ts";
+import { humanizeDurationShort } from "../../../humanizeDurationShort";
+import { convertDelayStringToMS, tDelayString } from "../../../utils";
+import { RecentActionType } from "../constants";
+import { findRecentSpam } from "../functions/findRecentSpam";
+import { getMatchingRecentActions } from "../functions/getMatchingRecentActions";
+import { sumRecentActionCounts } from "../functions/sumRecentActionCounts";
+import { automodTrigger } from "../helpers";
+
+// Recent spam identifier for server-wide join spam, so it's kept apart from per-user join spam
+const GUILD_WIDE_SPAM_IDENTIFIER = "guild";
+
+export const VoiceJoinSpamTrigger = automodTrigger<unknown>()({
+  configType: t.type({
+    amount: t.number,
+    within: tDelayString,
+    // Count joins of each member separately instead of all joins on the server
+    per_user: t.boolean,
+  }),
+
+  defaultConfig: {
+    per_user: false,
+  },
+
+  async match({ pluginData, context, triggerConfig }) {
+    if (!context.voiceChange?.joined || context.voiceChange.left || !context.member) {
+      return;
+    }
+
+    const identifier = triggerConfig.per_user ? context.member.id : null;
+    const spamIdentifier = identifier ?? GUILD_WIDE_SPAM_IDENTIFIER;
+
+    const recentSpam = findRecentSpam(pluginData, RecentActionType.VoiceChannelJoin, spamIdentifier);
+    if (recentSpam) {
+      context.actioned = true;
+      return {};
+    }
+
+    const since = Date.now() - convertDelayStringToMS(triggerConfig.within)!;
+    const matchingActions = getMatchingRecentActions(pluginData, RecentActionType.VoiceChannelJoin, identifier, since);
+    const totalCount = sumRecentActionCounts(matchingActions);
+
+    if (totalCount >= triggerConfig.amount) {
+      const extraContexts = matchingActions.map((a) => a.context).filter((c) => c !== context);
+
+      pluginData.state.recentSpam.push({
+        type: RecentActionType.VoiceChannelJoin,
+        timestamp: Date.now(),
+        archiveId: null,
+        identifiers: [spamIdentifier],
+      });
+
+      return {
+        extraContexts,
+      };
+    }
+  },
+
+  renderMatchInformation({ triggerConfig }) {
+    const withinStr = humanizeDurationShort(convertDelayStringToMS(triggerConfig.within));
+    return `Matched voice channel join spam (${triggerConfig.amount} in ${withinStr})`;
+  },
+});
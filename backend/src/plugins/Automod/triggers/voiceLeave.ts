@@ -0,0 +1,37 @@
+import * as t from "io-ts";
+import { tNullable, verboseChannelMention } from "../../../utils";
+import { automodTrigger } from "../helpers";
+
+export const VoiceLeaveTrigger = automodTrigger<unknown>()({
+  configType: t.type({
+    channels: tNullable(t.array(t.string)),
+    include_moves: t.boolean,
+  }),
+
+  defaultConfig: {
+    channels: null,
+    include_moves: false,
+  },
+
+  async match({ context, triggerConfig }) {
+    const left = context.voiceChange?.left;
+    if (!left) {
+      return;
+    }
+
+    if (context.voiceChange!.joined && !triggerConfig.include_moves) {
+      return;
+    }
+
+    if (triggerConfig.channels && !triggerConfig.channels.includes(left.id)) {
+      return;
+    }
+
+    return {};
+  },
+
+  renderMatchInformation({ contexts }) {
+    const left = contexts[0].voiceChange!.left!;
+    return `Left voice channel ${verboseChannelMention(left)}`;
+  },
+});
@@ -0,0 +1,58 @@
+import * as t from "io-ts";
+import { humanizeDurationShort } from "../../../humanizeDurationShort";
+import { convertDelayStringToMS, tDelayString } from "../../../utils";
+import { RecentActionType } from "../constants";
+import { findRecentSpam } from "../functions/findRecentSpam";
+import { getMatchingRecentActions } from "../functions/getMatchingRecentActions";
+import { sumRecentActionCounts } from "../functions/sumRecentActionCounts";
+import { automodTrigger } from "../helpers";
+
+export const VoiceMoveSpamTrigger = automodTrigger<unknown>()({
+  configType: t.type({
+    amount: t.number,
+    within: tDelayString,
+  }),
+
+  defaultConfig: {},
+
+  async match({ pluginData, context, triggerConfig }) {
+    if (!context.voiceChange?.joined || !context.member) {
+      return;
+    }
+
+    const recentSpam = findRecentSpam(pluginData, RecentActionType.VoiceChannelMove, context.member.id);
+    if (recentSpam) {
+      context.actioned = true;
+      return {};
+    }
+
+    const since = Date.now() - convertDelayStringToMS(triggerConfig.within)!;
+    const matchingActions = getMatchingRecentActions(
+      pluginData,
+      RecentActionType.VoiceChannelMove,
+      context.member.id,
+      since,
+    );
+    const totalCount = sumRecentActionCounts(matchingActions);
+
+    if (totalCount >= triggerConfig.amount) {
+      const extraContexts = matchingActions.map((a) => a.context).filter((c) => c !== context);
+
+      pluginData.state.recentSpam.push({
+        type: RecentActionType.VoiceChannelMove,
+        timestamp: Date.now(),
+        archiveId: null,
+        identifiers: [context.member.id],
+      });
+
+      return {
+        extraContexts,
+      };
+    }
+  },
+
+  renderMatchInformation({ triggerConfig }) {
+    const withinStr = humanizeDurationShort(convertDelayStringToMS(triggerConfig.within));
+    return `Matched voice channel move spam (${triggerConfig.amount} in ${withinStr})`;
+  },
+});
@@ -1,11 +1,24 @@
-import { GuildMember, GuildTextBasedChannel, PartialGuildMember, ThreadChannel, User } from "discord.js";
+import {
+  GuildMember,
+  GuildTextBasedChannel,
+  MessageReaction,
+  PartialGuildMember,
+  PartialMessageReaction,
+  ThreadChannel,
+  User,
+  VoiceBasedChannel,
+} from "discord.js";
+import { EventEmitter } from "events";
 import * as t from "io-ts";
 import { BasePluginType, CooldownManager } from "knub";
 import { Queue } from "../../Queue";
 import { RegExpRunner } from "../../RegExpRunner";
 import { GuildAntiraidLevels } from "../../data/GuildAntiraidLevels";
 import { GuildArchives } from "../../data/GuildArchives";
+import { GuildAutomodHits } from "../../data/GuildAutomodHits";
+import { GuildLockdowns } from "../../data/GuildLockdowns";
 import { GuildLogs } from "../../data/GuildLogs";
+import { GuildQuarantines } from "../../data/GuildQuarantines";
 import { GuildSavedMessages } from "../../data/GuildSavedMessages";
 import { SavedMessage } from "../../data/entities/SavedMessage";
 import { tNullable } from "../../utils";
@@ -28,17 +41,40 @@ export const Rule = t.type({
   actions: t.partial(AvailableActions.props),
   cooldown: tNullable(t.string),
   allow_further_rules: t.boolean,
+  dry_run: t.boolean,
 });
 export type TRule = t.TypeOf<typeof Rule>;
 
+export const LockdownConfig = t.type({
+  channels: t.array(t.string),
+  pause_invites: t.boolean,
+  antiraid_levels: t.array(t.string),
+});
+
 export const ConfigSchema = t.type({
   rules: t.record(t.string, Rule),
   antiraid_levels: t.array(t.string),
   can_set_antiraid: t.boolean,
   can_view_antiraid: t.boolean,
+  dry_run_channel: tNullable(t.string),
+  can_view_dry_run_stats: t.boolean,
+  can_view_stats: t.boolean,
+  can_test_rules: t.boolean,
+  can_manage_quarantine: t.boolean,
+  lockdown: LockdownConfig,
+  can_lockdown: t.boolean,
 });
 export type TConfigSchema = t.TypeOf<typeof ConfigSchema>;
 
+export interface AutomodEvents {
+  antiraidLevelChanged: (newLevel: string | null, oldLevel: string | null, user?: User) => void;
+}
+
+export interface AutomodEventEmitter extends EventEmitter {
+  on<U extends keyof AutomodEvents>(event: U, listener: AutomodEvents[U]): this;
+  emit<U extends keyof AutomodEvents>(event: U, ...args: Parameters<AutomodEvents[U]>): boolean;
+}
+
 export interface AutomodPluginType extends BasePluginType {
   config: TConfigSchema;
 
@@ -75,6 +111,8 @@ export interface AutomodPluginType extends BasePluginType {
     recentNicknameChanges: Map<string, { timestamp: number }>;
     clearRecentNicknameChangesInterval: Timeout;
 
+    clearOldHitsInterval: Timeout;
+
     ignoredRoleChanges: Set<{
       memberId: string;
       roleId: string;
@@ -89,6 +127,9 @@ export interface AutomodPluginType extends BasePluginType {
     logs: GuildLogs;
     antiraidLevels: GuildAntiraidLevels;
     archives: GuildArchives;
+    hits: GuildAutomodHits;
+    quarantines: GuildQuarantines;
+    lockdowns: GuildLockdowns;
 
     onMessageCreateFn: any;
     onMessageUpdateFn: any;
@@ -98,6 +139,10 @@ export interface AutomodPluginType extends BasePluginType {
 
     modActionsListeners: Map<keyof ModActionsEvents, any>;
     mutesListeners: Map<keyof MutesEvents, any>;
+
+    events: AutomodEventEmitter;
+
+    unregisterGuildEventListener: () => void;
   };
 }
 
@@ -116,6 +161,10 @@ export interface AutomodContext {
   };
   user?: User;
   message?: SavedMessage;
+  /**
+   * The message as it was before the edit, if the context is for an edited message
+   */
+  previousMessage?: SavedMessage;
   member?: GuildMember;
   partialMember?: GuildMember | PartialGuildMember;
   joined?: boolean;
@@ -140,7 +189,12 @@ export interface AutomodContext {
     locked?: ThreadChannel;
     unlocked?: ThreadChannel;
   };
+  voiceChange?: {
+    joined?: VoiceBasedChannel;
+    left?: VoiceBasedChannel;
+  };
   channel?: GuildTextBasedChannel;
+  reaction?: MessageReaction | PartialMessageReaction;
 }
 
 export interface RecentAction {
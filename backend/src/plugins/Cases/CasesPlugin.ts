@@ -1,21 +1,31 @@
+import { EventEmitter } from "events";
 import { CaseTypes } from "../../data/CaseTypes";
-import { Case } from "../../data/entities/Case";
 import { GuildArchives } from "../../data/GuildArchives";
+import { GuildCaseAppeals } from "../../data/GuildCaseAppeals";
 import { GuildCases } from "../../data/GuildCases";
+import { onGuildEvent } from "../../data/GuildEvents";
 import { GuildLogs } from "../../data/GuildLogs";
+import { Case } from "../../data/entities/Case";
 import { makeIoTsConfigParser, mapToPublicFn } from "../../pluginUtils";
 import { trimPluginDescription } from "../../utils";
 import { InternalPosterPlugin } from "../InternalPoster/InternalPosterPlugin";
 import { TimeAndDatePlugin } from "../TimeAndDate/TimeAndDatePlugin";
 import { zeppelinGuildPlugin } from "../ZeppelinPluginBlueprint";
+import { AppealInteractionEvt } from "./events/AppealInteractionEvt";
+import { addAppealComponents } from "./functions/addAppealComponents";
 import { createCase } from "./functions/createCase";
 import { createCaseNote } from "./functions/createCaseNote";
+import { deleteCase } from "./functions/deleteCase";
 import { getCaseEmbed } from "./functions/getCaseEmbed";
 import { getCaseSummary } from "./functions/getCaseSummary";
 import { getCaseTypeAmountForUserId } from "./functions/getCaseTypeAmountForUserId";
 import { getRecentCasesByMod } from "./functions/getRecentCasesByMod";
 import { getTotalCasesByMod } from "./functions/getTotalCasesByMod";
+import { handleAppealInteraction } from "./functions/handleAppealInteraction";
+import { offCasesEvent } from "./functions/offCasesEvent";
+import { onCasesEvent } from "./functions/onCasesEvent";
 import { postCaseToCaseLogChannel } from "./functions/postToCaseLogChannel";
+import { setCaseHidden } from "./functions/setCaseHidden";
 import { CaseArgs, CaseNoteArgs, CasesPluginType, ConfigSchema } from "./types";
 
 // The `any` cast here is to prevent TypeScript from locking up from the circular dependency
@@ -31,7 +41,22 @@ const defaultOptions = {
     relative_time_cutoff: "7d",
     case_colors: null,
     case_icons: null,
+    appeals_enabled: false,
+    appeal_review_channel: null,
+    appeal_link: null,
+    appeal_button_label: "Appeal",
+    appeal_accepted_message: "Your appeal for case #{caseNumber} on the {guildName} server has been accepted",
+    appeal_denied_message: "Your appeal for case #{caseNumber} on the {guildName} server has been denied",
+    can_review_appeals: false,
   },
+  overrides: [
+    {
+      level: ">=50",
+      config: {
+        can_review_appeals: true,
+      },
+    },
+  ],
 };
 
 export const CasesPlugin = zeppelinGuildPlugin<CasesPluginType>()({
@@ -40,7 +65,8 @@ export const CasesPlugin = zeppelinGuildPlugin<CasesPluginType>()({
   info: {
     prettyName: "Cases",
     description: trimPluginDescription(`
-      This plugin contains basic configuration for cases created by other plugins
+      This plugin contains basic configuration for cases created by other plugins.
+      It also handles appeals for bans and mutes, if enabled.
     `),
     configSchema: ConfigSchema,
   },
@@ -49,6 +75,8 @@ export const CasesPlugin = zeppelinGuildPlugin<CasesPluginType>()({
   configParser: makeIoTsConfigParser(ConfigSchema),
   defaultOptions,
 
+  events: [AppealInteractionEvt],
+
   public: {
     createCase(pluginData) {
       return (args: CaseArgs) => {
@@ -74,11 +102,22 @@ export const CasesPlugin = zeppelinGuildPlugin<CasesPluginType>()({
       };
     },
 
+    setCaseHidden: mapToPublicFn(setCaseHidden),
+    deleteCase: mapToPublicFn(deleteCase),
+
     getTotalCasesByMod: mapToPublicFn(getTotalCasesByMod),
     getRecentCasesByMod: mapToPublicFn(getRecentCasesByMod),
 
     getCaseEmbed: mapToPublicFn(getCaseEmbed),
     getCaseSummary: mapToPublicFn(getCaseSummary),
+    addAppealComponents: mapToPublicFn(addAppealComponents),
+
+    on: mapToPublicFn(onCasesEvent),
+    off: mapToPublicFn(offCasesEvent),
+  },
+
+  beforeLoad(pluginData) {
+    pluginData.state.events = new EventEmitter();
   },
 
   afterLoad(pluginData) {
@@ -87,5 +126,16 @@ export const CasesPlugin = zeppelinGuildPlugin<CasesPluginType>()({
     state.logs = new GuildLogs(pluginData.guild.id);
     state.archives = GuildArchives.getGuildInstance(guild.id);
     state.cases = GuildCases.getGuildInstance(guild.id);
+    state.appeals = GuildCaseAppeals.getGuildInstance(guild.id);
+
+    // Appeal buttons and forms in DMs are routed here by the DM interactions global plugin
+    state.unregisterDmInteractionListener = onGuildEvent(guild.id, "dmInteraction", (interaction) =>
+      handleAppealInteraction(pluginData, interaction),
+    );
+  },
+
+  beforeUnload(pluginData) {
+    pluginData.state.unregisterDmInteractionListener?.();
+    pluginData.state.events.removeAllListeners();
   },
 });
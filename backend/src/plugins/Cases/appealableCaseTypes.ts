@@ -0,0 +1,3 @@
+import { CaseTypes } from "../../data/CaseTypes";
+
+export const appealableCaseTypes = [CaseTypes.Ban, CaseTypes.Mute];
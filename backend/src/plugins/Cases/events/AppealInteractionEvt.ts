@@ -0,0 +1,13 @@
+import { handleAppealInteraction } from "../functions/handleAppealInteraction";
+import { casesEvt } from "../types";
+
+export const AppealInteractionEvt = casesEvt({
+  event: "interactionCreate",
+  async listener({ pluginData, args: { interaction } }) {
+    if (!interaction.isMessageComponent() && !interaction.isModalSubmit()) {
+      return;
+    }
+
+    await handleAppealInteraction(pluginData, interaction);
+  },
+});
@@ -0,0 +1,29 @@
+import { GuildPluginData } from "knub";
+import { Case } from "../../../data/entities/Case";
+import { logger } from "../../../logger";
+import { UserNotificationResult } from "../../../utils";
+import { CasesPluginType } from "../types";
+import { getAppealComponents } from "./getAppealComponents";
+
+/**
+ * Adds the appeal button to a notification sent to the user about the case.
+ * Notifications are sent before the case is created, so the button is added afterwards.
+ */
+export async function addAppealComponents(
+  pluginData: GuildPluginData<CasesPluginType>,
+  notifyResult: UserNotificationResult,
+  theCase: Case,
+): Promise<void> {
+  if (!notifyResult.message) {
+    return;
+  }
+
+  const components = await getAppealComponents(pluginData, theCase);
+  if (components.length === 0) {
+    return;
+  }
+
+  await notifyResult.message.edit({ components }).catch((err) => {
+    logger.warn(`Could not add appeal button to the notification for case ${theCase.id}: ${err}`);
+  });
+}
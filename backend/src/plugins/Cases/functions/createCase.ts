@@ -42,25 +42,33 @@ export async function createCase(pluginData: GuildPluginData<CasesPluginType>, a
   });
 
   if (args.reason || args.noteDetails?.length) {
-    await createCaseNote(pluginData, {
-      caseId: createdCase.id,
-      modId: mod.id,
-      body: args.reason || "",
-      automatic: args.automatic,
-      postInCaseLogOverride: false,
-      noteDetails: args.noteDetails,
-    });
-  }
-
-  if (args.extraNotes) {
-    for (const extraNote of args.extraNotes) {
-      await createCaseNote(pluginData, {
+    await createCaseNote(
+      pluginData,
+      {
         caseId: createdCase.id,
         modId: mod.id,
-        body: extraNote,
+        body: args.reason || "",
         automatic: args.automatic,
         postInCaseLogOverride: false,
-      });
+        noteDetails: args.noteDetails,
+      },
+      false,
+    );
+  }
+
+  if (args.extraNotes) {
+    for (const extraNote of args.extraNotes) {
+      await createCaseNote(
+        pluginData,
+        {
+          caseId: createdCase.id,
+          modId: mod.id,
+          body: extraNote,
+          automatic: args.automatic,
+          postInCaseLogOverride: false,
+        },
+        false,
+      );
     }
   }
 
@@ -74,5 +82,11 @@ export async function createCase(pluginData: GuildPluginData<CasesPluginType>, a
     await postCaseToCaseLogChannel(pluginData, createdCase);
   }
 
+  // Reloaded so the event includes the notes added above
+  const caseWithNotes = await pluginData.state.cases.with("notes").find(createdCase.id);
+  if (caseWithNotes) {
+    pluginData.state.events.emit("caseCreated", caseWithNotes);
+  }
+
   return createdCase;
 }
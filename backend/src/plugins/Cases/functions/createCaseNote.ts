@@ -5,7 +5,14 @@ import { CaseNoteArgs, CasesPluginType } from "../types";
 import { postCaseToCaseLogChannel } from "./postToCaseLogChannel";
 import { resolveCaseId } from "./resolveCaseId";
 
-export async function createCaseNote(pluginData: GuildPluginData<CasesPluginType>, args: CaseNoteArgs): Promise<void> {
+/**
+ * @param emitUpdate - Whether to emit caseUpdated for the note. createCase() adds its notes without it and emits caseCreated instead.
+ */
+export async function createCaseNote(
+  pluginData: GuildPluginData<CasesPluginType>,
+  args: CaseNoteArgs,
+  emitUpdate = true,
+): Promise<void> {
   const theCase = await pluginData.state.cases.find(resolveCaseId(args.caseId));
   if (!theCase) {
     throw new RecoverablePluginError(ERRORS.UNKNOWN_NOTE_CASE);
@@ -53,4 +60,11 @@ export async function createCaseNote(pluginData: GuildPluginData<CasesPluginType
   ) {
     await postCaseToCaseLogChannel(pluginData, theCase.id);
   }
+
+  if (emitUpdate) {
+    const updatedCase = await pluginData.state.cases.with("notes").find(theCase.id);
+    if (updatedCase) {
+      pluginData.state.events.emit("caseUpdated", updatedCase);
+    }
+  }
 }
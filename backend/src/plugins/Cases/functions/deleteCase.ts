@@ -0,0 +1,18 @@
+import { GuildPluginData } from "knub";
+import { Case } from "../../../data/entities/Case";
+import { CasesPluginType } from "../types";
+
+export async function deleteCase(
+  pluginData: GuildPluginData<CasesPluginType>,
+  theCase: Case,
+  deletedById: string,
+  deletedByName: string,
+  deletedByText: string,
+): Promise<void> {
+  // Grab the notes before they're deleted so listeners get the full case
+  const caseBeforeDeletion = (await pluginData.state.cases.with("notes").find(theCase.id)) ?? theCase;
+
+  await pluginData.state.cases.softDelete(theCase.id, deletedById, deletedByName, deletedByText);
+
+  pluginData.state.events.emit("caseDeleted", caseBeforeDeletion);
+}
@@ -0,0 +1,43 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle, MessageActionRowComponentBuilder } from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseTypes } from "../../../data/CaseTypes";
+import { Case } from "../../../data/entities/Case";
+import { TemplateSafeValueContainer, renderTemplate } from "../../../templateFormatter";
+import { buildCustomId } from "../../../utils/buildCustomId";
+import { appealableCaseTypes } from "../appealableCaseTypes";
+import { CasesPluginType } from "../types";
+
+/**
+ * Returns the components to attach to the notification sent to a user about the specified case,
+ * i.e. an appeal button if appeals are enabled
+ */
+export async function getAppealComponents(
+  pluginData: GuildPluginData<CasesPluginType>,
+  theCase: Case,
+): Promise<Array<ActionRowBuilder<MessageActionRowComponentBuilder>>> {
+  const config = pluginData.config.get();
+  if (!config.appeals_enabled || !appealableCaseTypes.includes(theCase.type)) {
+    return [];
+  }
+
+  const button = new ButtonBuilder().setLabel(config.appeal_button_label);
+  if (config.appeal_link) {
+    // Appeals are handled outside of the bot, e.g. with a form
+    const url = await renderTemplate(
+      config.appeal_link,
+      new TemplateSafeValueContainer({
+        guildId: pluginData.guild.id,
+        userId: theCase.user_id,
+        caseType: CaseTypes[theCase.type].toLowerCase(),
+        caseNumber: theCase.case_number,
+      }),
+    );
+    button.setStyle(ButtonStyle.Link).setURL(url);
+  } else {
+    button
+      .setStyle(ButtonStyle.Secondary)
+      .setCustomId(buildCustomId("caseAppeal", { guildId: pluginData.guild.id, caseId: theCase.id }));
+  }
+
+  return [new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(button)];
+}
@@ -0,0 +1,48 @@
+import { APIEmbed, escapeCodeBlock } from "discord.js";
+import { GuildPluginData } from "knub";
+import moment from "moment-timezone";
+import { CaseAppealStatus } from "../../../data/CaseAppealStatus";
+import { CaseAppeal } from "../../../data/entities/CaseAppeal";
+import { emptyEmbedValue } from "../../../utils";
+import { TimeAndDatePlugin } from "../../TimeAndDate/TimeAndDatePlugin";
+import { CasesPluginType } from "../types";
+
+const appealColors: Record<CaseAppealStatus, number> = {
+  [CaseAppealStatus.Pending]: 0xf1c40f,
+  [CaseAppealStatus.Accepted]: 0x2ecc71,
+  [CaseAppealStatus.Denied]: 0xe74c3c,
+};
+
+export function getAppealEmbed(pluginData: GuildPluginData<CasesPluginType>, appeal: CaseAppeal): APIEmbed {
+  const timeAndDate = pluginData.getPlugin(TimeAndDatePlugin);
+  const createdAt = timeAndDate.inGuildTz(moment.utc(appeal.created_at));
+
+  const embed: APIEmbed = {
+    title: `Appeal #${appeal.id}`,
+    color: appealColors[appeal.status],
+    fields: [
+      {
+        name: "Appeal",
+        value: escapeCodeBlock(appeal.body.trim()) || emptyEmbedValue,
+      },
+      {
+        name: "Status",
+        value: CaseAppealStatus[appeal.status],
+        inline: true,
+      },
+    ],
+    footer: {
+      text: `Appeal submitted on ${createdAt.format(timeAndDate.getDateFormat("pretty_datetime"))}`,
+    },
+  };
+
+  if (appeal.reviewer_id) {
+    embed.fields!.push({
+      name: "Reviewed by",
+      value: `${appeal.reviewer_name}\n<@!${appeal.reviewer_id}>`,
+      inline: true,
+    });
+  }
+
+  return embed;
+}
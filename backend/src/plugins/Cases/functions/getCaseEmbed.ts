@@ -1,6 +1,7 @@
 import { escapeCodeBlock, MessageCreateOptions, MessageEditOptions } from "discord.js";
 import { GuildPluginData } from "knub";
 import moment from "moment-timezone";
+import { CaseAppealStatus } from "../../../data/CaseAppealStatus";
 import { CaseTypes } from "../../../data/CaseTypes";
 import { Case } from "../../../data/entities/Case";
 import { chunkMessageLines, emptyEmbedValue, messageLink } from "../../../utils";
@@ -15,7 +16,7 @@ export async function getCaseEmbed(
   requestMemberId?: string,
   noOriginalCaseLink?: boolean,
 ): Promise<MessageCreateOptions & MessageEditOptions> {
-  const theCase = await pluginData.state.cases.with("notes").find(resolveCaseId(caseOrCaseId));
+  const theCase = await pluginData.state.cases.with(["notes", "appeals"]).find(resolveCaseId(caseOrCaseId));
   if (!theCase) {
     throw new Error("Unknown case");
   }
@@ -99,6 +100,15 @@ export async function getCaseEmbed(
     });
   }
 
+  for (const appeal of theCase.appeals) {
+    let appealStatus = CaseAppealStatus[appeal.status];
+    if (appeal.reviewer_name) appealStatus += ` by ${appeal.reviewer_name}`;
+    embed.fields.push({
+      name: "Appeal",
+      value: appealStatus,
+    });
+  }
+
   if (theCase.log_message_id && noOriginalCaseLink !== false) {
     const [channelId, messageId] = theCase.log_message_id.split("-");
     const link = messageLink(pluginData.guild.id, channelId, messageId);
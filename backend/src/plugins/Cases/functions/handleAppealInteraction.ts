@@ -0,0 +1,28 @@
+import { MessageComponentInteraction, ModalSubmitInteraction } from "discord.js";
+import { GuildPluginData } from "knub";
+import { parseCustomId } from "../../../utils/parseCustomId";
+import { CasesPluginType } from "../types";
+import { openAppealForm } from "./openAppealForm";
+import { reviewAppeal } from "./reviewAppeal";
+import { submitAppeal } from "./submitAppeal";
+
+export async function handleAppealInteraction(
+  pluginData: GuildPluginData<CasesPluginType>,
+  interaction: MessageComponentInteraction | ModalSubmitInteraction,
+): Promise<void> {
+  const { namespace, data } = parseCustomId(interaction.customId);
+
+  if (namespace === "caseAppeal" && interaction.isButton() && data.guildId === pluginData.guild.id) {
+    await openAppealForm(pluginData, interaction, data.caseId);
+    return;
+  }
+
+  if (namespace === "caseAppealForm" && interaction.isModalSubmit() && data.guildId === pluginData.guild.id) {
+    await submitAppeal(pluginData, interaction, data.caseId);
+    return;
+  }
+
+  if (namespace === "caseAppealReview" && interaction.isButton() && interaction.guildId === pluginData.guild.id) {
+    await reviewAppeal(pluginData, interaction, data.appealId, data.accept);
+  }
+}
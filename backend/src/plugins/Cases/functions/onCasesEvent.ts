@@ -0,0 +1,10 @@
+import { GuildPluginData } from "knub";
+import { CasesEvents, CasesPluginType } from "../types";
+
+export function onCasesEvent<TEvent extends keyof CasesEvents>(
+  pluginData: GuildPluginData<CasesPluginType>,
+  event: TEvent,
+  listener: CasesEvents[TEvent],
+) {
+  return pluginData.state.events.on(event, listener);
+}
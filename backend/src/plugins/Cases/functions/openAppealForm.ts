@@ -0,0 +1,61 @@
+import {
+  ActionRowBuilder,
+  ButtonInteraction,
+  ModalActionRowComponentBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseAppealStatus } from "../../../data/CaseAppealStatus";
+import { CaseTypes } from "../../../data/CaseTypes";
+import { buildCustomId } from "../../../utils/buildCustomId";
+import { appealableCaseTypes } from "../appealableCaseTypes";
+import { CasesPluginType } from "../types";
+
+export const APPEAL_BODY_INPUT_ID = "body";
+const MAX_APPEAL_LENGTH = 1000;
+
+export async function openAppealForm(
+  pluginData: GuildPluginData<CasesPluginType>,
+  interaction: ButtonInteraction,
+  caseId: number,
+): Promise<void> {
+  const config = pluginData.config.get();
+  if (!config.appeals_enabled) {
+    await interaction.reply({ ephemeral: true, content: "Appeals are not currently being accepted" });
+    return;
+  }
+
+  const theCase = typeof caseId === "number" ? await pluginData.state.cases.find(caseId) : null;
+  if (!theCase || theCase.user_id !== interaction.user.id || !appealableCaseTypes.includes(theCase.type)) {
+    await interaction.reply({ ephemeral: true, content: "Could not find a case to appeal" });
+    return;
+  }
+
+  const existingAppeal = await pluginData.state.appeals.findByCaseId(theCase.id);
+  if (existingAppeal) {
+    const statusStr =
+      existingAppeal.status === CaseAppealStatus.Pending
+        ? "It will be reviewed by the staff soon."
+        : `The appeal was ${CaseAppealStatus[existingAppeal.status].toLowerCase()}.`;
+    await interaction.reply({ ephemeral: true, content: `You have already appealed this case. ${statusStr}` });
+    return;
+  }
+
+  const modal = new ModalBuilder()
+    .setCustomId(buildCustomId("caseAppealForm", { guildId: pluginData.guild.id, caseId: theCase.id }))
+    .setTitle(`Appeal ${CaseTypes[theCase.type].toLowerCase()} on ${pluginData.guild.name}`.slice(0, 45))
+    .addComponents(
+      new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId(APPEAL_BODY_INPUT_ID)
+          .setLabel("Why should this be reconsidered?")
+          .setStyle(TextInputStyle.Paragraph)
+          .setMaxLength(MAX_APPEAL_LENGTH)
+          .setRequired(true),
+      ),
+    );
+
+  await interaction.showModal(modal);
+}
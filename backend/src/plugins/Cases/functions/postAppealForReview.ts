@@ -0,0 +1,64 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  MessageActionRowComponentBuilder,
+  RESTJSONErrorCodes,
+  Snowflake,
+} from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseAppeal } from "../../../data/entities/CaseAppeal";
+import { isDiscordAPIError } from "../../../utils";
+import { buildCustomId } from "../../../utils/buildCustomId";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { CasesPluginType } from "../types";
+import { getAppealEmbed } from "./getAppealEmbed";
+import { getCaseEmbed } from "./getCaseEmbed";
+
+export async function postAppealForReview(
+  pluginData: GuildPluginData<CasesPluginType>,
+  appeal: CaseAppeal,
+): Promise<void> {
+  const reviewChannelId = pluginData.config.get().appeal_review_channel;
+  if (!reviewChannelId) return;
+
+  const reviewChannel = pluginData.guild.channels.cache.get(reviewChannelId as Snowflake);
+  if (!reviewChannel?.isTextBased()) {
+    pluginData.getPlugin(LogsPlugin).logBotAlert({
+      body: `Unknown or invalid appeal review channel: \`${reviewChannelId}\``,
+    });
+    return;
+  }
+
+  const caseEmbed = await getCaseEmbed(pluginData, appeal.case_id, undefined, true);
+  const buttons = new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+    new ButtonBuilder()
+      .setStyle(ButtonStyle.Success)
+      .setLabel("Accept")
+      .setCustomId(buildCustomId("caseAppealReview", { appealId: appeal.id, accept: true })),
+    new ButtonBuilder()
+      .setStyle(ButtonStyle.Danger)
+      .setLabel("Deny")
+      .setCustomId(buildCustomId("caseAppealReview", { appealId: appeal.id, accept: false })),
+  );
+
+  try {
+    const message = await reviewChannel.send({
+      embeds: [...(caseEmbed.embeds ?? []), getAppealEmbed(pluginData, appeal)],
+      components: [buttons],
+    });
+    await pluginData.state.appeals.setReviewMessageId(appeal.id, `${reviewChannel.id}-${message.id}`);
+  } catch (e) {
+    if (
+      isDiscordAPIError(e) &&
+      (e.code === RESTJSONErrorCodes.MissingPermissions || e.code === RESTJSONErrorCodes.MissingAccess)
+    ) {
+      pluginData.getPlugin(LogsPlugin).logBotAlert({
+        body: `Missing permissions to post case appeals in <#${reviewChannel.id}>`,
+      });
+      return;
+    }
+
+    throw e;
+  }
+}
@@ -0,0 +1,145 @@
+import { ButtonInteraction } from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseAppealStatus } from "../../../data/CaseAppealStatus";
+import { CaseTypes } from "../../../data/CaseTypes";
+import { CaseAppeal } from "../../../data/entities/CaseAppeal";
+import { logger } from "../../../logger";
+import { TemplateSafeValueContainer, renderTemplate } from "../../../templateFormatter";
+import { UnknownUser, resolveUser } from "../../../utils";
+import { sendDM } from "../../../utils/sendDM";
+import { userToTemplateSafeUser } from "../../../utils/templateSafeObjects";
+import { CasesPluginType } from "../types";
+import { createCaseNote } from "./createCaseNote";
+import { getAppealEmbed } from "./getAppealEmbed";
+import { getCaseEmbed } from "./getCaseEmbed";
+
+// The `any` casts here are to prevent TypeScript from locking up from the circular dependencies
+function getModActionsPlugin(): Promise<any> {
+  return import("../../ModActions/ModActionsPlugin.js") as Promise<any>;
+}
+
+function getMutesPlugin(): Promise<any> {
+  return import("../../Mutes/MutesPlugin.js") as Promise<any>;
+}
+
+/**
+ * Reverts the action of an accepted appeal's case, i.e. unbans or unmutes the user
+ * @return - A note detail describing the result
+ */
+async function revertAppealedAction(
+  pluginData: GuildPluginData<CasesPluginType>,
+  appeal: CaseAppeal,
+  reviewerId: string,
+): Promise<string> {
+  const caseArgs = {
+    modId: reviewerId,
+    reason: `Appeal for case #${appeal.case.case_number} accepted`,
+  };
+
+  if (appeal.case.type === CaseTypes.Ban) {
+    const { ModActionsPlugin } = await getModActionsPlugin();
+    if (!pluginData.hasPlugin(ModActionsPlugin)) {
+      return "Could not unban: mod actions plugin is not enabled";
+    }
+
+    const result = await pluginData.getPlugin(ModActionsPlugin)!.unbanUserId(appeal.user_id, caseArgs.reason, {
+      caseArgs,
+    });
+    return result.status === "success"
+      ? `Unbanned in case #${result.case.case_number}`
+      : "Could not unban: user is not banned";
+  }
+
+  if (appeal.case.type === CaseTypes.Mute) {
+    const { MutesPlugin } = await getMutesPlugin();
+    if (!pluginData.hasPlugin(MutesPlugin)) {
+      return "Could not unmute: mutes plugin is not enabled";
+    }
+
+    const result = await pluginData.getPlugin(MutesPlugin)!.unmuteUser(appeal.user_id, undefined, caseArgs);
+    return result ? `Unmuted in case #${result.case.case_number}` : "Could not unmute: user is not muted";
+  }
+
+  return "No action to revert";
+}
+
+export async function reviewAppeal(
+  pluginData: GuildPluginData<CasesPluginType>,
+  interaction: ButtonInteraction,
+  appealId: number,
+  accept: boolean,
+): Promise<void> {
+  if (!interaction.inCachedGuild()) {
+    return;
+  }
+
+  const config = await pluginData.config.getMatchingConfig({
+    member: interaction.member,
+    channelId: interaction.channelId,
+  });
+  if (!config.can_review_appeals) {
+    await interaction.reply({ ephemeral: true, content: "You don't have permission to review appeals" });
+    return;
+  }
+
+  const lock = await pluginData.locks.acquire(`case-appeal-review-${appealId}`);
+  try {
+    const appeal = await pluginData.state.appeals.with("case").find(appealId);
+    if (!appeal) {
+      await interaction.reply({ ephemeral: true, content: "Unknown appeal" });
+      return;
+    }
+
+    if (appeal.status !== CaseAppealStatus.Pending) {
+      await interaction.reply({
+        ephemeral: true,
+        content: `This appeal has already been ${CaseAppealStatus[appeal.status].toLowerCase()}`,
+      });
+      return;
+    }
+
+    await interaction.deferUpdate();
+
+    const status = accept ? CaseAppealStatus.Accepted : CaseAppealStatus.Denied;
+    await pluginData.state.appeals.setReviewed(appeal.id, status, interaction.user.id, interaction.user.tag);
+
+    const noteDetails: string[] = [];
+    if (accept) {
+      noteDetails.push(await revertAppealedAction(pluginData, appeal, interaction.user.id));
+    }
+
+    await createCaseNote(pluginData, {
+      caseId: appeal.case_id,
+      modId: interaction.user.id,
+      body: `Appeal ${accept ? "accepted" : "denied"}`,
+      noteDetails,
+    });
+
+    const reviewedAppeal = (await pluginData.state.appeals.find(appeal.id))!;
+    const caseEmbed = await getCaseEmbed(pluginData, appeal.case_id, undefined, true);
+    await interaction.editReply({
+      embeds: [...(caseEmbed.embeds ?? []), getAppealEmbed(pluginData, reviewedAppeal)],
+      components: [],
+    });
+
+    const template = accept ? config.appeal_accepted_message : config.appeal_denied_message;
+    if (template) {
+      const user = await resolveUser(pluginData.client, appeal.user_id);
+      if (!(user instanceof UnknownUser)) {
+        const message = await renderTemplate(
+          template,
+          new TemplateSafeValueContainer({
+            guildName: pluginData.guild.name,
+            caseNumber: appeal.case.case_number,
+            reviewer: userToTemplateSafeUser(interaction.user),
+          }),
+        );
+        sendDM(user, message, "case appeal result").catch((err) => {
+          logger.debug(`Could not send case appeal result to ${user.id}: ${err}`);
+        });
+      }
+    }
+  } finally {
+    lock.unlock();
+  }
+}
@@ -0,0 +1,16 @@
+import { GuildPluginData } from "knub";
+import { Case } from "../../../data/entities/Case";
+import { CasesPluginType } from "../types";
+
+export async function setCaseHidden(
+  pluginData: GuildPluginData<CasesPluginType>,
+  theCase: Case,
+  hidden: boolean,
+): Promise<void> {
+  await pluginData.state.cases.setHidden(theCase.id, hidden);
+
+  const updatedCase = await pluginData.state.cases.with("notes").find(theCase.id);
+  if (updatedCase) {
+    pluginData.state.events.emit("caseUpdated", updatedCase);
+  }
+}
@@ -0,0 +1,44 @@
+import { ModalSubmitInteraction } from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseAppeal } from "../../../data/entities/CaseAppeal";
+import { CasesPluginType } from "../types";
+import { APPEAL_BODY_INPUT_ID } from "./openAppealForm";
+import { postAppealForReview } from "./postAppealForReview";
+
+export async function submitAppeal(
+  pluginData: GuildPluginData<CasesPluginType>,
+  interaction: ModalSubmitInteraction,
+  caseId: number,
+): Promise<void> {
+  if (!pluginData.config.get().appeals_enabled) {
+    await interaction.reply({ ephemeral: true, content: "Appeals are not currently being accepted" });
+    return;
+  }
+
+  const theCase = await pluginData.state.cases.find(caseId);
+  if (!theCase || theCase.user_id !== interaction.user.id) {
+    await interaction.reply({ ephemeral: true, content: "Could not find a case to appeal" });
+    return;
+  }
+
+  const lock = await pluginData.locks.acquire(`case-appeal-${theCase.id}`);
+  let appeal: CaseAppeal;
+  try {
+    if (await pluginData.state.appeals.findByCaseId(theCase.id)) {
+      await interaction.reply({ ephemeral: true, content: "You have already appealed this case" });
+      return;
+    }
+
+    const body = interaction.fields.getTextInputValue(APPEAL_BODY_INPUT_ID);
+    appeal = await pluginData.state.appeals.create(theCase.id, interaction.user.id, body);
+  } finally {
+    lock.unlock();
+  }
+
+  await interaction.reply({
+    ephemeral: true,
+    content: "Your appeal has been submitted. You will be notified once it has been reviewed.",
+  });
+
+  await postAppealForReview(pluginData, appeal);
+}
@@ -1,9 +1,12 @@
+import { EventEmitter } from "events";
 import * as t from "io-ts";
-import { BasePluginType } from "knub";
+import { BasePluginType, guildPluginEventListener } from "knub";
 import { CaseNameToType, CaseTypes } from "../../data/CaseTypes";
 import { GuildArchives } from "../../data/GuildArchives";
+import { GuildCaseAppeals } from "../../data/GuildCaseAppeals";
 import { GuildCases } from "../../data/GuildCases";
 import { GuildLogs } from "../../data/GuildLogs";
+import { Case } from "../../data/entities/Case";
 import { tDelayString, tNullable, tPartialDictionary } from "../../utils";
 import { tColor } from "../../utils/tColor";
 
@@ -14,18 +17,44 @@ export const ConfigSchema = t.type({
   relative_time_cutoff: tDelayString,
   case_colors: tNullable(tPartialDictionary(t.keyof(CaseNameToType), tColor)),
   case_icons: tNullable(tPartialDictionary(t.keyof(CaseNameToType), t.string)),
+  appeals_enabled: t.boolean,
+  appeal_review_channel: tNullable(t.string),
+  appeal_link: tNullable(t.string),
+  appeal_button_label: t.string,
+  appeal_accepted_message: tNullable(t.string),
+  appeal_denied_message: tNullable(t.string),
+  can_review_appeals: t.boolean,
 });
 export type TConfigSchema = t.TypeOf<typeof ConfigSchema>;
 
+export interface CasesEvents {
+  caseCreated: (theCase: Case) => void;
+  caseUpdated: (theCase: Case) => void;
+  // The case as it was before it was deleted
+  caseDeleted: (theCase: Case) => void;
+}
+
+export interface CasesEventEmitter extends EventEmitter {
+  on<U extends keyof CasesEvents>(event: U, listener: CasesEvents[U]): this;
+  emit<U extends keyof CasesEvents>(event: U, ...args: Parameters<CasesEvents[U]>): boolean;
+}
+
 export interface CasesPluginType extends BasePluginType {
   config: TConfigSchema;
   state: {
     logs: GuildLogs;
     cases: GuildCases;
     archives: GuildArchives;
+    appeals: GuildCaseAppeals;
+
+    unregisterDmInteractionListener: () => void;
+
+    events: CasesEventEmitter;
   };
 }
 
+export const casesEvt = guildPluginEventListener<CasesPluginType>();
+
 /**
  * Can also be used as a config object for functions that create cases
  */
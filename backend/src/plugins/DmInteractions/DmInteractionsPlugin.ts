@@ -0,0 +1,40 @@
+import * as t from "io-ts";
+import { BasePluginType, globalPluginEventListener } from "knub";
+import { emitGuildEvent } from "../../data/GuildEvents";
+import { makeIoTsConfigParser } from "../../pluginUtils";
+import { parseCustomId } from "../../utils/parseCustomId";
+import { zeppelinGlobalPlugin } from "../ZeppelinPluginBlueprint";
+
+interface DmInteractionsPluginType extends BasePluginType {}
+
+/**
+ * Global plugin to pass component and modal interactions from DMs to the guild they belong to.
+ * Guild plugins only receive interactions from their own guild, so components sent in DMs
+ * (e.g. case appeal buttons) include the guild ID in their custom ID and are routed via guild events.
+ */
+export const DmInteractionsPlugin = zeppelinGlobalPlugin<DmInteractionsPluginType>()({
+  name: "dm_interactions",
+  configParser: makeIoTsConfigParser(t.type({})),
+
+  events: [
+    globalPluginEventListener<DmInteractionsPluginType>()({
+      event: "interactionCreate",
+      listener({ args: { interaction } }) {
+        if (interaction.inGuild()) {
+          return;
+        }
+
+        if (!interaction.isMessageComponent() && !interaction.isModalSubmit()) {
+          return;
+        }
+
+        const { data } = parseCustomId(interaction.customId);
+        if (typeof data?.guildId !== "string") {
+          return;
+        }
+
+        emitGuildEvent(data.guildId, "dmInteraction", [interaction]);
+      },
+    }),
+  ],
+});
@@ -1,4 +1,5 @@
 import * as t from "io-ts";
+import { ConfigLists } from "../../data/ConfigLists";
 import { Configs } from "../../data/Configs";
 import { makeIoTsConfigParser } from "../../pluginUtils";
 import { zeppelinGlobalPlugin } from "../ZeppelinPluginBlueprint";
@@ -16,6 +17,8 @@ export const GuildConfigReloaderPlugin = zeppelinGlobalPlugin<GuildConfigReloade
 
     state.guildConfigs = new Configs();
     state.highestConfigId = await state.guildConfigs.getHighestId();
+    state.configLists = new ConfigLists();
+    state.highestConfigListId = await state.configLists.getHighestId();
   },
 
   afterLoad(pluginData) {
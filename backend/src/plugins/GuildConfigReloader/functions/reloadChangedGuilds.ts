@@ -8,6 +8,8 @@ const CHECK_INTERVAL = 1 * SECONDS;
 export async function reloadChangedGuilds(pluginData: GlobalPluginData<GuildConfigReloaderPluginType>) {
   if (pluginData.state.unloaded) return;
 
+  const reloadedGuildIds = new Set<string>();
+
   const changedConfigs = await pluginData.state.guildConfigs.getActiveLargerThanId(pluginData.state.highestConfigId);
   for (const item of changedConfigs) {
     if (!item.key.startsWith("guild-")) continue;
@@ -16,11 +18,27 @@ export async function reloadChangedGuilds(pluginData: GlobalPluginData<GuildConf
     // tslint:disable-next-line:no-console
     console.log(`Config changed, reloading guild ${guildId}`);
     await pluginData.getKnubInstance().reloadGuild(guildId);
+    reloadedGuildIds.add(guildId);
 
     if (item.id > pluginData.state.highestConfigId) {
       pluginData.state.highestConfigId = item.id;
     }
   }
 
+  // Stored lists are expanded into the config when it's loaded, so changing one requires a reload as well
+  const changedLists = await pluginData.state.configLists.getLargerThanId(pluginData.state.highestConfigListId);
+  for (const item of changedLists) {
+    if (!reloadedGuildIds.has(item.guild_id)) {
+      // tslint:disable-next-line:no-console
+      console.log(`Config list ${item.name} changed, reloading guild ${item.guild_id}`);
+      await pluginData.getKnubInstance().reloadGuild(item.guild_id as Snowflake);
+      reloadedGuildIds.add(item.guild_id);
+    }
+
+    if (item.id > pluginData.state.highestConfigListId) {
+      pluginData.state.highestConfigListId = item.id;
+    }
+  }
+
   pluginData.state.nextCheckTimeout = setTimeout(() => reloadChangedGuilds(pluginData), CHECK_INTERVAL);
 }
@@ -1,4 +1,5 @@
 import { BasePluginType } from "knub";
+import { ConfigLists } from "../../data/ConfigLists";
 import { Configs } from "../../data/Configs";
 import Timeout = NodeJS.Timeout;
 
@@ -7,6 +8,8 @@ export interface GuildConfigReloaderPluginType extends BasePluginType {
     guildConfigs: Configs;
     unloaded: boolean;
     highestConfigId: number;
+    configLists: ConfigLists;
+    highestConfigListId: number;
     nextCheckTimeout: Timeout;
   };
 }
@@ -55,6 +55,8 @@ import { logDmFailed } from "./logFunctions/logDmFailed";
 import { logEmojiCreate } from "./logFunctions/logEmojiCreate";
 import { logEmojiDelete } from "./logFunctions/logEmojiDelete";
 import { logEmojiUpdate } from "./logFunctions/logEmojiUpdate";
+import { logLockdownEnd } from "./logFunctions/logLockdownEnd";
+import { logLockdownStart } from "./logFunctions/logLockdownStart";
 import { logMassBan } from "./logFunctions/logMassBan";
 import { logMassMute } from "./logFunctions/logMassMute";
 import { logMassUnban } from "./logFunctions/logMassUnban";
@@ -257,6 +259,8 @@ export const LogsPlugin = zeppelinGuildPlugin<LogsPluginType>()({
     logVoiceChannelLeave: mapToPublicFn(logVoiceChannelLeave),
     logVoiceChannelMove: mapToPublicFn(logVoiceChannelMove),
     logDmFailed: mapToPublicFn(logDmFailed),
+    logLockdownStart: mapToPublicFn(logLockdownStart),
+    logLockdownEnd: mapToPublicFn(logLockdownEnd),
   },
 
   beforeLoad(pluginData) {
@@ -0,0 +1,22 @@
+import { GuildPluginData } from "knub";
+import { LogType } from "../../../data/LogType";
+import { createTypedTemplateSafeValueContainer } from "../../../templateFormatter";
+import { LogsPluginType } from "../types";
+import { log } from "../util/log";
+
+interface LogLockdownEndData {
+  source: string;
+  channelCount: number;
+}
+
+export function logLockdownEnd(pluginData: GuildPluginData<LogsPluginType>, data: LogLockdownEndData) {
+  return log(
+    pluginData,
+    LogType.LOCKDOWN_END,
+    createTypedTemplateSafeValueContainer({
+      source: data.source,
+      channelCount: data.channelCount,
+    }),
+    {},
+  );
+}
@@ -0,0 +1,26 @@
+import { GuildPluginData } from "knub";
+import { LogType } from "../../../data/LogType";
+import { createTypedTemplateSafeValueContainer } from "../../../templateFormatter";
+import { LogsPluginType } from "../types";
+import { log } from "../util/log";
+
+interface LogLockdownStartData {
+  source: string;
+  channelCount: number;
+  duration: string;
+  reason: string;
+}
+
+export function logLockdownStart(pluginData: GuildPluginData<LogsPluginType>, data: LogLockdownStartData) {
+  return log(
+    pluginData,
+    LogType.LOCKDOWN_START,
+    createTypedTemplateSafeValueContainer({
+      source: data.source,
+      channelCount: data.channelCount,
+      duration: data.duration,
+      reason: data.reason,
+    }),
+    {},
+  );
+}
@@ -511,6 +511,18 @@ export const LogTypeData = z.object({
     source: z.string(),
     user: z.instanceof(TemplateSafeUser).or(z.instanceof(TemplateSafeUnknownUser)),
   }),
+
+  [LogType.LOCKDOWN_START]: z.object({
+    source: z.string(),
+    channelCount: z.number(),
+    duration: z.string(),
+    reason: z.string(),
+  }),
+
+  [LogType.LOCKDOWN_END]: z.object({
+    source: z.string(),
+    channelCount: z.number(),
+  }),
 });
 
 export type ILogTypeData = z.infer<typeof LogTypeData>;
@@ -45,11 +45,13 @@ export async function getLogMessage<TLogType extends keyof ILogTypeData>(
 
   const includeEmbedTimestamp = opts?.include_embed_timestamp ?? config.include_embed_timestamp;
 
-  const time = pluginData.getPlugin(TimeAndDatePlugin).inGuildTz();
+  const timeAndDate = pluginData.getPlugin(TimeAndDatePlugin);
+  const time = timeAndDate.inGuildTz();
   const isoTimestamp = time.toISOString();
   const timestamp = timestampFormat ? time.format(timestampFormat) : "";
 
   const values = new TemplateSafeValueContainer({
+    ...timeAndDate.getDateTemplateFunctions(),
     ...data,
     timestamp,
     userMention: async (inputUserOrMember: unknown) => {
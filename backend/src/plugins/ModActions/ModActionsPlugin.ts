@@ -6,6 +6,8 @@ import { onGuildEvent } from "../../data/GuildEvents";
 import { GuildLogs } from "../../data/GuildLogs";
 import { GuildMutes } from "../../data/GuildMutes";
 import { GuildTempbans } from "../../data/GuildTempbans";
+import { Case } from "../../data/entities/Case";
+import { logger } from "../../logger";
 import { makeIoTsConfigParser, mapToPublicFn } from "../../pluginUtils";
 import { MINUTES, trimPluginDescription } from "../../utils";
 import { CasesPlugin } from "../Cases/CasesPlugin";
@@ -15,8 +17,12 @@ import { TimeAndDatePlugin } from "../TimeAndDate/TimeAndDatePlugin";
 import { zeppelinGuildPlugin } from "../ZeppelinPluginBlueprint";
 import { AddCaseCmd } from "./commands/AddCaseCmd";
 import { BanCmd } from "./commands/BanCmd";
+import { BanSlashCmd } from "./commands/BanSlashCmd";
 import { CaseCmd } from "./commands/CaseCmd";
+import { CaseSlashCmd } from "./commands/CaseSlashCmd";
 import { CasesModCmd } from "./commands/CasesModCmd";
+import { CasesSearchCmd } from "./commands/CasesSearchCmd";
+import { CasesSlashCmd } from "./commands/CasesSlashCmd";
 import { CasesUserCmd } from "./commands/CasesUserCmd";
 import { DeleteCaseCmd } from "./commands/DeleteCaseCmd";
 import { ForcebanCmd } from "./commands/ForcebanCmd";
@@ -24,30 +30,36 @@ import { ForcemuteCmd } from "./commands/ForcemuteCmd";
 import { ForceUnmuteCmd } from "./commands/ForceunmuteCmd";
 import { HideCaseCmd } from "./commands/HideCaseCmd";
 import { KickCmd } from "./commands/KickCmd";
+import { KickSlashCmd } from "./commands/KickSlashCmd";
 import { MassbanCmd } from "./commands/MassBanCmd";
 import { MassunbanCmd } from "./commands/MassUnbanCmd";
 import { MassmuteCmd } from "./commands/MassmuteCmd";
 import { MuteCmd } from "./commands/MuteCmd";
+import { MuteSlashCmd } from "./commands/MuteSlashCmd";
 import { NoteCmd } from "./commands/NoteCmd";
+import { NoteSlashCmd } from "./commands/NoteSlashCmd";
 import { SoftbanCmd } from "./commands/SoftbanCommand";
 import { UnbanCmd } from "./commands/UnbanCmd";
 import { UnhideCaseCmd } from "./commands/UnhideCaseCmd";
 import { UnmuteCmd } from "./commands/UnmuteCmd";
 import { UpdateCmd } from "./commands/UpdateCmd";
 import { WarnCmd } from "./commands/WarnCmd";
+import { WarnSlashCmd } from "./commands/WarnSlashCmd";
 import { AuditLogEvents } from "./events/AuditLogEvents";
 import { CreateBanCaseOnManualBanEvt } from "./events/CreateBanCaseOnManualBanEvt";
 import { CreateUnbanCaseOnManualUnbanEvt } from "./events/CreateUnbanCaseOnManualUnbanEvt";
 import { PostAlertOnMemberJoinEvt } from "./events/PostAlertOnMemberJoinEvt";
+import { applyWarningPointEscalation } from "./functions/applyWarningPointEscalation";
 import { banUserId } from "./functions/banUserId";
 import { clearTempban } from "./functions/clearTempban";
 import { hasMutePermission } from "./functions/hasMutePerm";
 import { kickMember } from "./functions/kickMember";
 import { offModActionsEvent } from "./functions/offModActionsEvent";
 import { onModActionsEvent } from "./functions/onModActionsEvent";
+import { unbanUserId } from "./functions/unbanUserId";
 import { updateCase } from "./functions/updateCase";
 import { warnMember } from "./functions/warnMember";
-import { BanOptions, ConfigSchema, KickOptions, ModActionsPluginType, WarnOptions } from "./types";
+import { BanOptions, ConfigSchema, KickOptions, ModActionsPluginType, UnbanOptions, WarnOptions } from "./types";
 
 const defaultOptions = {
   config: {
@@ -85,6 +97,11 @@ const defaultOptions = {
     can_deletecase: false,
     can_act_as_other: false,
     create_cases_for_manual_actions: true,
+    warning_points: {
+      warn: 1,
+    },
+    warning_points_expire_after: "30d",
+    escalation_ladder: [],
   },
   overrides: [
     {
@@ -121,6 +138,31 @@ export const ModActionsPlugin = zeppelinGuildPlugin<ModActionsPluginType>()({
     description: trimPluginDescription(`
       This plugin contains the 'typical' mod actions such as warning, muting, kicking, banning, etc.
     `),
+    configurationGuide: trimPluginDescription(`
+      ### Warning points
+      Each case type can be assigned a number of warning points with \`warning_points\`.
+      Points from cases older than \`warning_points_expire_after\` no longer count.
+      When a new case pushes a user's points to or above a step on the \`escalation_ladder\`, that step's action is applied automatically.
+      The resulting case lists the cases that contributed to the points. Cases created by the escalation ladder don't count toward the points.
+      
+      ~~~yml
+      mod_actions:
+        config:
+          warning_points:
+            warn: 1
+            mute: 2
+          warning_points_expire_after: 30d
+          escalation_ladder:
+            - points: 3
+              action: mute
+              duration: 1h
+            - points: 6
+              action: mute
+              duration: 1d
+            - points: 10
+              action: ban
+      ~~~
+    `),
     configSchema: ConfigSchema,
   },
 
@@ -148,6 +190,8 @@ export const ModActionsPlugin = zeppelinGuildPlugin<ModActionsPluginType>()({
     MassunbanCmd,
     AddCaseCmd,
     CaseCmd,
+    // Registered before CasesUserCmd so "search" isn't matched as a user
+    CasesSearchCmd,
     CasesUserCmd,
     CasesModCmd,
     HideCaseCmd,
@@ -155,6 +199,8 @@ export const ModActionsPlugin = zeppelinGuildPlugin<ModActionsPluginType>()({
     DeleteCaseCmd,
   ],
 
+  slashCommands: [NoteSlashCmd, WarnSlashCmd, MuteSlashCmd, KickSlashCmd, BanSlashCmd, CaseSlashCmd, CasesSlashCmd],
+
   public: {
     warnMember(pluginData) {
       return (member: GuildMember, reason: string, warnOptions?: WarnOptions) => {
@@ -164,13 +210,19 @@ export const ModActionsPlugin = zeppelinGuildPlugin<ModActionsPluginType>()({
 
     kickMember(pluginData) {
       return (member: GuildMember, reason: string, kickOptions?: KickOptions) => {
-        kickMember(pluginData, member, reason, kickOptions);
+        return kickMember(pluginData, member, reason, kickOptions);
       };
     },
 
     banUserId(pluginData) {
       return (userId: string, reason?: string, banOptions?: BanOptions, banTime?: number) => {
-        banUserId(pluginData, userId, reason, banOptions, banTime);
+        return banUserId(pluginData, userId, reason, banOptions, banTime);
+      };
+    },
+
+    unbanUserId(pluginData) {
+      return (userId: string, reason?: string, unbanOptions?: UnbanOptions) => {
+        return unbanUserId(pluginData, userId, reason, unbanOptions);
       };
     },
 
@@ -216,6 +268,17 @@ export const ModActionsPlugin = zeppelinGuildPlugin<ModActionsPluginType>()({
     state.unregisterGuildEventListener = onGuildEvent(guild.id, "expiredTempban", (tempban) =>
       clearTempban(pluginData, tempban),
     );
+
+    const casesPlugin = pluginData.getPlugin(CasesPlugin);
+    const onCaseCreated = async (theCase: Case) => {
+      try {
+        await applyWarningPointEscalation(pluginData, theCase);
+      } catch (err) {
+        logger.error(`Error while applying warning point escalation for case ${theCase.id}: ${err}`);
+      }
+    };
+    casesPlugin.on("caseCreated", onCaseCreated);
+    state.unregisterCaseCreatedListener = () => casesPlugin.off("caseCreated", onCaseCreated);
   },
 
   beforeUnload(pluginData) {
@@ -223,6 +286,7 @@ export const ModActionsPlugin = zeppelinGuildPlugin<ModActionsPluginType>()({
 
     state.unloaded = true;
     state.unregisterGuildEventListener?.();
+    state.unregisterCaseCreatedListener?.();
     state.events.removeAllListeners();
   },
 });
@@ -0,0 +1,54 @@
+import { slashOptions } from "knub";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { convertDelayStringToMS, resolveMember } from "../../../utils";
+import { actualBanCmd } from "../functions/actualBanCmd";
+import { modActionsSlashCmd } from "../types";
+import { slashAttachmentOption, slashModOption, slashNotifyOptions, slashReasonOption } from "./slashCommandOptions";
+
+export const BanSlashCmd = modActionsSlashCmd({
+  name: "ban",
+  configPermission: "can_ban",
+  description: "Ban or Tempban the specified member",
+  allowDms: false,
+
+  signature: [
+    slashOptions.user({ name: "user", description: "The user to ban", required: true }),
+    slashOptions.string({ name: "time", description: "The duration of the ban, e.g. 1d12h", required: false }),
+    slashReasonOption("The reason for the ban"),
+    slashAttachmentOption,
+    slashModOption,
+    ...slashNotifyOptions,
+    slashOptions.integer({
+      name: "delete-days",
+      description: "The number of days of messages to delete",
+      required: false,
+      minValue: 0,
+      maxValue: 7,
+    }),
+  ],
+
+  async run({ interaction, options, pluginData }) {
+    if (!interaction.inCachedGuild()) return;
+    await interaction.deferReply({ ephemeral: true });
+
+    const time = options.time ? convertDelayStringToMS(options.time) : null;
+    if (options.time && !time) {
+      sendErrorMessage(pluginData, interaction, "Invalid time");
+      return;
+    }
+
+    const mod = options.mod ? await resolveMember(pluginData.client, pluginData.guild, options.mod.id) : null;
+    if (options.mod && !mod) {
+      sendErrorMessage(pluginData, interaction, "Mod not found on the server");
+      return;
+    }
+
+    actualBanCmd(pluginData, interaction, interaction.member, {
+      ...options,
+      user: options.user.id,
+      time,
+      mod,
+      attachments: options.attachment ? [options.attachment] : [],
+    });
+  },
+});
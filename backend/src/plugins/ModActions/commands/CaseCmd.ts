@@ -1,6 +1,5 @@
 import { commandTypeHelpers as ct } from "../../../commandTypes";
-import { CasesPlugin } from "../../../plugins/Cases/CasesPlugin";
-import { sendErrorMessage } from "../../../pluginUtils";
+import { actualCaseCmd } from "../functions/actualCaseCmd";
 import { modActionsCmd } from "../types";
 
 export const CaseCmd = modActionsCmd({
@@ -15,15 +14,6 @@ export const CaseCmd = modActionsCmd({
   ],
 
   async run({ pluginData, message: msg, args }) {
-    const theCase = await pluginData.state.cases.findByCaseNumber(args.caseNumber);
-
-    if (!theCase) {
-      sendErrorMessage(pluginData, msg.channel, "Case not found");
-      return;
-    }
-
-    const casesPlugin = pluginData.getPlugin(CasesPlugin);
-    const embed = await casesPlugin.getCaseEmbed(theCase.id, msg.author.id);
-    msg.channel.send(embed);
+    actualCaseCmd(pluginData, msg.channel, msg.member, args.caseNumber);
   },
 });
@@ -0,0 +1,21 @@
+import { slashOptions } from "knub";
+import { actualCaseCmd } from "../functions/actualCaseCmd";
+import { modActionsSlashCmd } from "../types";
+
+export const CaseSlashCmd = modActionsSlashCmd({
+  name: "case",
+  configPermission: "can_view",
+  description: "Show information about a specific case",
+  allowDms: false,
+
+  signature: [
+    slashOptions.integer({ name: "case-number", description: "The number of the case to show", required: true }),
+  ],
+
+  async run({ interaction, options, pluginData }) {
+    if (!interaction.inCachedGuild()) return;
+    await interaction.deferReply({ ephemeral: true });
+
+    actualCaseCmd(pluginData, interaction, interaction.member, options["case-number"]);
+  },
+});
@@ -0,0 +1,147 @@
+import { APIEmbed } from "discord.js";
+import moment, { Moment } from "moment-timezone";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { CaseNameToType, CaseTypes } from "../../../data/CaseTypes";
+import { CaseSearchFilters } from "../../../data/GuildCases";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { DBDateFormat, convertDelayStringToMS, emptyEmbedValue, trimLines } from "../../../utils";
+import { asyncMap } from "../../../utils/async";
+import { createPaginatedMessage } from "../../../utils/createPaginatedMessage";
+import { getChunkedEmbedFields } from "../../../utils/getChunkedEmbedFields";
+import { getGuildPrefix } from "../../../utils/getGuildPrefix";
+import { CasesPlugin } from "../../Cases/CasesPlugin";
+import { TimeAndDatePlugin } from "../../TimeAndDate/TimeAndDatePlugin";
+import { modActionsCmd } from "../types";
+
+const opts = {
+  type: ct.string({ option: true, shortcut: "t" }),
+  user: ct.userId({ option: true, shortcut: "u" }),
+  mod: ct.userId({ option: true }),
+  pp: ct.userId({ option: true }),
+  from: ct.string({ option: true, shortcut: "f" }),
+  to: ct.string({ option: true }),
+  hidden: ct.bool({ option: true, isSwitch: true, shortcut: "h" }),
+  onlyHidden: ct.switchOption({ def: false, shortcut: "oh" }),
+};
+
+const casesPerPage = 5;
+
+/**
+ * Dates can be specified either as YYYY-MM-DD (in the member's timezone) or as a delay string, e.g. "7d" for 7 days ago
+ */
+function parseSearchDate(value: string, tz: string, endOfDay: boolean): Moment | null {
+  if (value.match(/^\d{4}-\d{1,2}-\d{1,2}$/)) {
+    const date = moment.tz(value, "YYYY-M-D", tz);
+    if (!date.isValid()) return null;
+    return endOfDay ? date.endOf("day") : date.startOf("day");
+  }
+
+  const ms = convertDelayStringToMS(value);
+  if (ms == null) return null;
+  return moment.utc().subtract(ms, "ms");
+}
+
+export const CasesSearchCmd = modActionsCmd({
+  trigger: ["cases search", "modlogs search", "infractions search"],
+  permission: "can_view",
+  description: "Search cases by type, date range, moderator and reason",
+  usage: "!cases search -type mute -from 7d slur",
+
+  signature: [
+    {
+      reason: ct.string({ required: false, catchAll: true }),
+
+      ...opts,
+    },
+  ],
+
+  async run({ pluginData, message: msg, args }) {
+    const filters: CaseSearchFilters = {
+      userId: args.user,
+      modId: args.mod,
+      ppId: args.pp,
+      noteText: args.reason?.trim() || undefined,
+      hidden: args.onlyHidden ? true : args.hidden ? undefined : false,
+    };
+
+    if (args.type) {
+      const types: CaseTypes[] = [];
+      for (const typeName of args.type.toLowerCase().split(",")) {
+        const type: CaseTypes | undefined = CaseNameToType[typeName.trim()];
+        if (type == null) {
+          sendErrorMessage(
+            pluginData,
+            msg.channel,
+            `Unknown case type: ${typeName}. Valid types are: ${Object.keys(CaseNameToType).join(", ")}`,
+          );
+          return;
+        }
+        types.push(type);
+      }
+      filters.types = types;
+    }
+
+    const tz = await pluginData.getPlugin(TimeAndDatePlugin).getMemberTz(msg.author.id);
+    if (args.from) {
+      const from = parseSearchDate(args.from, tz, false);
+      if (!from) {
+        sendErrorMessage(pluginData, msg.channel, "Invalid -from date, use YYYY-MM-DD or a time like 7d");
+        return;
+      }
+      filters.createdAfter = from.clone().utc().format(DBDateFormat);
+    }
+
+    if (args.to) {
+      const to = parseSearchDate(args.to, tz, true);
+      if (!to) {
+        sendErrorMessage(pluginData, msg.channel, "Invalid -to date, use YYYY-MM-DD or a time like 7d");
+        return;
+      }
+      filters.createdBefore = to.clone().utc().format(DBDateFormat);
+    }
+
+    const totalCases = await pluginData.state.cases.countSearchResults(filters);
+    if (totalCases === 0) {
+      sendErrorMessage(pluginData, msg.channel, "No cases found matching the search");
+      return;
+    }
+
+    const casesPlugin = pluginData.getPlugin(CasesPlugin);
+    const totalPages = Math.max(Math.ceil(totalCases / casesPerPage), 1);
+    const prefix = getGuildPrefix(pluginData);
+
+    createPaginatedMessage(
+      pluginData.client,
+      msg.channel,
+      totalPages,
+      async (page) => {
+        const cases = await pluginData.state.cases.search(filters, casesPerPage, (page - 1) * casesPerPage);
+        const lines = await asyncMap(cases, (c) => casesPlugin.getCaseSummary(c, true, msg.author.id));
+
+        const firstCaseNum = (page - 1) * casesPerPage + 1;
+        const lastCaseNum = Math.min(page * casesPerPage, totalCases);
+        const title = `Search results ${firstCaseNum}-${lastCaseNum} of ${totalCases}`;
+
+        const embed = {
+          author: {
+            name: title,
+          },
+          fields: [
+            ...getChunkedEmbedFields(emptyEmbedValue, lines.join("\n")),
+            {
+              name: emptyEmbedValue,
+              value: trimLines(`
+                Use \`${prefix}case <num>\` to see more information about an individual case
+              `),
+            },
+          ],
+        } satisfies APIEmbed;
+
+        return { embeds: [embed] };
+      },
+      {
+        limitToUserId: msg.author.id,
+      },
+    );
+  },
+});
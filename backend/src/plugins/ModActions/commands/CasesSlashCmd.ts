@@ -0,0 +1,38 @@
+import { slashOptions } from "knub";
+import { actualCasesUserCmd } from "../functions/actualCasesUserCmd";
+import { modActionsSlashCmd } from "../types";
+
+export const CasesSlashCmd = modActionsSlashCmd({
+  name: "cases",
+  configPermission: "can_view",
+  description: "Show a list of cases the specified user has",
+  allowDms: false,
+
+  signature: [
+    slashOptions.user({ name: "user", description: "The user to show cases for", required: true }),
+    slashOptions.boolean({ name: "expand", description: "Show each case individually", required: false }),
+    slashOptions.boolean({ name: "hidden", description: "Include hidden cases", required: false }),
+    slashOptions.boolean({
+      name: "reverse-filters",
+      description: "Hide the selected case types instead of only showing them",
+      required: false,
+    }),
+    slashOptions.boolean({ name: "notes", description: "Filter by notes", required: false }),
+    slashOptions.boolean({ name: "warns", description: "Filter by warns", required: false }),
+    slashOptions.boolean({ name: "mutes", description: "Filter by mutes", required: false }),
+    slashOptions.boolean({ name: "unmutes", description: "Filter by unmutes", required: false }),
+    slashOptions.boolean({ name: "bans", description: "Filter by bans", required: false }),
+    slashOptions.boolean({ name: "unbans", description: "Filter by unbans", required: false }),
+  ],
+
+  async run({ interaction, options, pluginData }) {
+    if (!interaction.inCachedGuild()) return;
+    await interaction.deferReply({ ephemeral: true });
+
+    actualCasesUserCmd(pluginData, interaction, interaction.member, {
+      ...options,
+      user: options.user.id,
+      reverseFilters: options["reverse-filters"],
+    });
+  },
+});
@@ -65,12 +65,14 @@ export const DeleteCaseCmd = modActionsCmd({
       const timeAndDate = pluginData.getPlugin(TimeAndDatePlugin);
       const deletedAt = timeAndDate.inGuildTz().format(timeAndDate.getDateFormat("pretty_datetime"));
 
-      await pluginData.state.cases.softDelete(
-        theCase.id,
-        message.author.id,
-        deletedByName,
-        `Case deleted by **${deletedByName}** (\`${message.author.id}\`) on ${deletedAt}`,
-      );
+      await pluginData
+        .getPlugin(CasesPlugin)
+        .deleteCase(
+          theCase,
+          message.author.id,
+          deletedByName,
+          `Case deleted by **${deletedByName}** (\`${message.author.id}\`) on ${deletedAt}`,
+        );
 
       const logs = pluginData.getPlugin(LogsPlugin);
       logs.logCaseDelete({
@@ -46,6 +46,10 @@ export const ForcemuteCmd = modActionsCmd({
       return;
     }
 
-    actualMuteUserCmd(pluginData, user, msg, { ...args, notify: "none" });
+    actualMuteUserCmd(pluginData, user, msg.channel, msg.member, {
+      ...args,
+      notify: "none",
+      attachments: [...msg.attachments.values()],
+    });
   },
 });
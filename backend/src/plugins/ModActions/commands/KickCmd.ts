@@ -24,6 +24,9 @@ export const KickCmd = modActionsCmd({
   ],
 
   async run({ pluginData, message: msg, args }) {
-    actualKickMemberCmd(pluginData, msg, args);
+    actualKickMemberCmd(pluginData, msg.channel, msg.member, {
+      ...args,
+      attachments: [...msg.attachments.values()],
+    });
   },
 });
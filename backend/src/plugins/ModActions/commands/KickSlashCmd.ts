@@ -0,0 +1,44 @@
+import { slashOptions } from "knub";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { resolveMember } from "../../../utils";
+import { actualKickMemberCmd } from "../functions/actualKickMemberCmd";
+import { modActionsSlashCmd } from "../types";
+import { slashAttachmentOption, slashModOption, slashNotifyOptions, slashReasonOption } from "./slashCommandOptions";
+
+export const KickSlashCmd = modActionsSlashCmd({
+  name: "kick",
+  configPermission: "can_kick",
+  description: "Kick the specified member",
+  allowDms: false,
+
+  signature: [
+    slashOptions.user({ name: "user", description: "The user to kick", required: true }),
+    slashReasonOption("The reason for the kick"),
+    slashAttachmentOption,
+    slashModOption,
+    ...slashNotifyOptions,
+    slashOptions.boolean({
+      name: "clean",
+      description: "Whether to delete the member's messages from the past day",
+      required: false,
+    }),
+  ],
+
+  async run({ interaction, options, pluginData }) {
+    if (!interaction.inCachedGuild()) return;
+    await interaction.deferReply({ ephemeral: true });
+
+    const mod = options.mod ? await resolveMember(pluginData.client, pluginData.guild, options.mod.id) : null;
+    if (options.mod && !mod) {
+      sendErrorMessage(pluginData, interaction, "Mod not found on the server");
+      return;
+    }
+
+    actualKickMemberCmd(pluginData, interaction, interaction.member, {
+      ...options,
+      user: options.user.id,
+      mod,
+      attachments: options.attachment ? [options.attachment] : [],
+    });
+  },
+});
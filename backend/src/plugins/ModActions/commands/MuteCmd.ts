@@ -73,6 +73,9 @@ export const MuteCmd = modActionsCmd({
       return;
     }
 
-    actualMuteUserCmd(pluginData, user, msg, args);
+    actualMuteUserCmd(pluginData, user, msg.channel, msg.member, {
+      ...args,
+      attachments: [...msg.attachments.values()],
+    });
   },
 });
@@ -0,0 +1,61 @@
+import { slashOptions } from "knub";
+import { canActOn, sendErrorMessage } from "../../../pluginUtils";
+import { convertDelayStringToMS, resolveMember } from "../../../utils";
+import { actualMuteUserCmd } from "../functions/actualMuteUserCmd";
+import { isBanned } from "../functions/isBanned";
+import { modActionsSlashCmd } from "../types";
+import { slashAttachmentOption, slashModOption, slashNotifyOptions, slashReasonOption } from "./slashCommandOptions";
+
+export const MuteSlashCmd = modActionsSlashCmd({
+  name: "mute",
+  configPermission: "can_mute",
+  description: "Mute the specified member",
+  allowDms: false,
+
+  signature: [
+    slashOptions.user({ name: "user", description: "The user to mute", required: true }),
+    slashOptions.string({ name: "time", description: "The duration of the mute, e.g. 1d12h", required: false }),
+    slashReasonOption("The reason for the mute"),
+    slashAttachmentOption,
+    slashModOption,
+    ...slashNotifyOptions,
+  ],
+
+  async run({ interaction, options, pluginData }) {
+    if (!interaction.inCachedGuild()) return;
+    await interaction.deferReply({ ephemeral: true });
+
+    const time = options.time ? convertDelayStringToMS(options.time) : null;
+    if (options.time && !time) {
+      sendErrorMessage(pluginData, interaction, "Invalid time");
+      return;
+    }
+
+    const memberToMute = await resolveMember(pluginData.client, pluginData.guild, options.user.id);
+    if (!memberToMute) {
+      // Unlike !mute, we don't offer to forcemute here, as slash commands have no equivalent of !forcemute
+      const _isBanned = await isBanned(pluginData, options.user.id);
+      sendErrorMessage(pluginData, interaction, _isBanned ? "User is banned" : "User not found on the server");
+      return;
+    }
+
+    // Make sure we're allowed to mute this member
+    if (!canActOn(pluginData, interaction.member, memberToMute)) {
+      sendErrorMessage(pluginData, interaction, "Cannot mute: insufficient permissions");
+      return;
+    }
+
+    const mod = options.mod ? await resolveMember(pluginData.client, pluginData.guild, options.mod.id) : null;
+    if (options.mod && !mod) {
+      sendErrorMessage(pluginData, interaction, "Mod not found on the server");
+      return;
+    }
+
+    actualMuteUserCmd(pluginData, options.user, interaction, interaction.member, {
+      ...options,
+      time,
+      mod,
+      attachments: options.attachment ? [options.attachment] : [],
+    });
+  },
+});
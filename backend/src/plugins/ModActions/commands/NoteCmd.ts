@@ -1,10 +1,5 @@
 import { commandTypeHelpers as ct } from "../../../commandTypes";
-import { CaseTypes } from "../../../data/CaseTypes";
-import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
-import { renderUserUsername, resolveUser } from "../../../utils";
-import { CasesPlugin } from "../../Cases/CasesPlugin";
-import { LogsPlugin } from "../../Logs/LogsPlugin";
-import { formatReasonWithAttachments } from "../functions/formatReasonWithAttachments";
+import { actualNoteCmd } from "../functions/actualNoteCmd";
 import { modActionsCmd } from "../types";
 
 export const NoteCmd = modActionsCmd({
@@ -18,37 +13,9 @@ export const NoteCmd = modActionsCmd({
   },
 
   async run({ pluginData, message: msg, args }) {
-    const user = await resolveUser(pluginData.client, args.user);
-    if (!user.id) {
-      sendErrorMessage(pluginData, msg.channel, `User not found`);
-      return;
-    }
-
-    if (!args.note && msg.attachments.size === 0) {
-      sendErrorMessage(pluginData, msg.channel, "Text or attachment required");
-      return;
-    }
-
-    const userName = renderUserUsername(user);
-    const reason = formatReasonWithAttachments(args.note, [...msg.attachments.values()]);
-
-    const casesPlugin = pluginData.getPlugin(CasesPlugin);
-    const createdCase = await casesPlugin.createCase({
-      userId: user.id,
-      modId: msg.author.id,
-      type: CaseTypes.Note,
-      reason,
+    actualNoteCmd(pluginData, msg.channel, msg.member, {
+      ...args,
+      attachments: [...msg.attachments.values()],
     });
-
-    pluginData.getPlugin(LogsPlugin).logMemberNote({
-      mod: msg.author,
-      user,
-      caseNumber: createdCase.case_number,
-      reason,
-    });
-
-    sendSuccessMessage(pluginData, msg.channel, `Note added on **${userName}** (Case #${createdCase.case_number})`);
-
-    pluginData.state.events.emit("note", user.id, reason);
   },
 });
@@ -0,0 +1,28 @@
+import { slashOptions } from "knub";
+import { actualNoteCmd } from "../functions/actualNoteCmd";
+import { modActionsSlashCmd } from "../types";
+import { slashAttachmentOption } from "./slashCommandOptions";
+
+export const NoteSlashCmd = modActionsSlashCmd({
+  name: "note",
+  configPermission: "can_note",
+  description: "Add a note to the specified user",
+  allowDms: false,
+
+  signature: [
+    slashOptions.user({ name: "user", description: "The user to add a note to", required: true }),
+    slashOptions.string({ name: "note", description: "The note to add", required: false }),
+    slashAttachmentOption,
+  ],
+
+  async run({ interaction, options, pluginData }) {
+    if (!interaction.inCachedGuild()) return;
+    await interaction.deferReply({ ephemeral: true });
+
+    actualNoteCmd(pluginData, interaction, interaction.member, {
+      user: options.user.id,
+      note: options.note,
+      attachments: options.attachment ? [options.attachment] : [],
+    });
+  },
+});
@@ -27,7 +27,11 @@ export const SoftbanCmd = modActionsCmd({
   ],
 
   async run({ pluginData, message: msg, args }) {
-    await actualKickMemberCmd(pluginData, msg, { clean: true, ...args });
+    await actualKickMemberCmd(pluginData, msg.channel, msg.member, {
+      clean: true,
+      ...args,
+      attachments: [...msg.attachments.values()],
+    });
     await msg.channel.send(
       "Softban will be removed in the future - please use the kick command with the `-clean` argument instead!",
     );
@@ -1,5 +1,6 @@
 import { commandTypeHelpers as ct } from "../../../commandTypes";
 import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { CasesPlugin } from "../../Cases/CasesPlugin";
 import { modActionsCmd } from "../types";
 
 export const UnhideCaseCmd = modActionsCmd({
@@ -15,6 +16,7 @@ export const UnhideCaseCmd = modActionsCmd({
 
   async run({ pluginData, message: msg, args }) {
     const failed: number[] = [];
+    const casesPlugin = pluginData.getPlugin(CasesPlugin);
 
     for (const num of args.caseNum) {
       const theCase = await pluginData.state.cases.findByCaseNumber(num);
@@ -23,7 +25,7 @@ export const UnhideCaseCmd = modActionsCmd({
         continue;
       }
 
-      await pluginData.state.cases.setHidden(theCase.id, false);
+      await casesPlugin.setCaseHidden(theCase, false);
     }
 
     if (failed.length === args.caseNum.length) {
@@ -0,0 +1,39 @@
+import { slashOptions } from "knub";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { resolveMember } from "../../../utils";
+import { actualWarnCmd } from "../functions/actualWarnCmd";
+import { modActionsSlashCmd } from "../types";
+import { slashAttachmentOption, slashModOption, slashNotifyOptions } from "./slashCommandOptions";
+
+export const WarnSlashCmd = modActionsSlashCmd({
+  name: "warn",
+  configPermission: "can_warn",
+  description: "Send a warning to the specified user",
+  allowDms: false,
+
+  signature: [
+    slashOptions.user({ name: "user", description: "The user to warn", required: true }),
+    slashOptions.string({ name: "reason", description: "The reason for the warning", required: true }),
+    slashAttachmentOption,
+    slashModOption,
+    ...slashNotifyOptions,
+  ],
+
+  async run({ interaction, options, pluginData }) {
+    if (!interaction.inCachedGuild()) return;
+    await interaction.deferReply({ ephemeral: true });
+
+    const mod = options.mod ? await resolveMember(pluginData.client, pluginData.guild, options.mod.id) : null;
+    if (options.mod && !mod) {
+      sendErrorMessage(pluginData, interaction, "Mod not found on the server");
+      return;
+    }
+
+    actualWarnCmd(pluginData, interaction, interaction.member, {
+      ...options,
+      user: options.user.id,
+      mod,
+      attachments: options.attachment ? [options.attachment] : [],
+    });
+  },
+});
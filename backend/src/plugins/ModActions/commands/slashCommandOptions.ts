@@ -0,0 +1,42 @@
+import { ChannelType } from "discord.js";
+import { slashOptions } from "knub";
+
+export const slashReasonOption = (description: string) =>
+  slashOptions.string({ name: "reason", description, required: false });
+
+export const slashAttachmentOption = slashOptions.attachment({
+  name: "attachment",
+  description: "An attachment to add to the reason",
+  required: false,
+});
+
+export const slashModOption = slashOptions.user({
+  name: "mod",
+  description: "The moderator to attribute the action to (requires can_act_as_other)",
+  required: false,
+});
+
+export const slashNotifyOptions = [
+  slashOptions.string({
+    name: "notify",
+    description: "How to notify the user",
+    required: false,
+    choices: [
+      { name: "DM", value: "dm" },
+      { name: "Channel", value: "channel" },
+      { name: "Don't notify", value: "none" },
+    ],
+  }),
+  slashOptions.channel({
+    name: "notify-channel",
+    description: "The channel to notify the user in, when notify is set to Channel",
+    required: false,
+    channelTypes: [
+      ChannelType.GuildText,
+      ChannelType.GuildAnnouncement,
+      ChannelType.PublicThread,
+      ChannelType.PrivateThread,
+      ChannelType.AnnouncementThread,
+    ],
+  }),
+] as const;
@@ -0,0 +1,213 @@
+import { Attachment, ChatInputCommandInteraction, GuildMember, GuildTextBasedChannel } from "discord.js";
+import humanizeDuration from "humanize-duration";
+import { GuildPluginData } from "knub";
+import { getMemberLevel } from "knub/helpers";
+import { CaseTypes } from "../../../data/CaseTypes";
+import { clearExpiringTempban, registerExpiringTempban } from "../../../data/loops/expiringTempbansLoop";
+import { canActOn, hasPermission, sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { renderUserUsername, resolveMember, resolveUser } from "../../../utils";
+import { getResponseTargetChannelId } from "../../../utils/commandResponseTarget";
+import { banLock } from "../../../utils/lockNameHelpers";
+import { waitForButtonConfirm } from "../../../utils/waitForInteraction";
+import { CasesPlugin } from "../../Cases/CasesPlugin";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { ModActionsPluginType } from "../types";
+import { banUserId } from "./banUserId";
+import { formatReasonWithAttachments } from "./formatReasonWithAttachments";
+import { isBanned } from "./isBanned";
+import { readContactMethodsFromArgs } from "./readContactMethodsFromArgs";
+
+/**
+ * The actual function run by both !ban and /ban
+ */
+export async function actualBanCmd(
+  pluginData: GuildPluginData<ModActionsPluginType>,
+  context: GuildTextBasedChannel | ChatInputCommandInteraction,
+  author: GuildMember,
+  args: {
+    user: string;
+    time?: number | null;
+    reason?: string | null;
+    mod?: GuildMember | null;
+    notify?: string | null;
+    "notify-channel"?: GuildTextBasedChannel | null;
+    "delete-days"?: number | null;
+    attachments?: Attachment[];
+  },
+) {
+  const user = await resolveUser(pluginData.client, args.user);
+  if (!user.id) {
+    sendErrorMessage(pluginData, context, `User not found`);
+    return;
+  }
+  const time = args.time ? args.time : null;
+
+  const reason = formatReasonWithAttachments(args.reason ?? "", args.attachments ?? []);
+  const memberToBan = await resolveMember(pluginData.client, pluginData.guild, user.id);
+  // The moderator who did the action is the command author or, if used, the specified -mod
+  let mod = author;
+  if (args.mod) {
+    const channelId = getResponseTargetChannelId(context);
+    if (!(await hasPermission(pluginData, "can_act_as_other", { member: author, channelId }))) {
+      sendErrorMessage(pluginData, context, "You don't have permission to use -mod");
+      return;
+    }
+
+    mod = args.mod;
+  }
+
+  // acquire a lock because of the needed user-inputs below (if banned/not on server)
+  const lock = await pluginData.locks.acquire(banLock(user));
+  let forceban = false;
+  const existingTempban = await pluginData.state.tempbans.findExistingTempbanForUserId(user.id);
+  if (!memberToBan) {
+    const banned = await isBanned(pluginData, user.id);
+    if (banned) {
+      // Abort if trying to ban user indefinitely if they are already banned indefinitely
+      if (!existingTempban && !time) {
+        sendErrorMessage(pluginData, context, `User is already banned indefinitely.`);
+        lock.unlock();
+        return;
+      }
+
+      // Ask the mod if we should update the existing ban
+      const reply = await waitForButtonConfirm(
+        context,
+        { content: "Failed to message the user. Log the warning anyway?" },
+        { confirmText: "Yes", cancelText: "No", restrictToId: author.id },
+      );
+      if (!reply) {
+        sendErrorMessage(pluginData, context, "User already banned, update cancelled by moderator");
+        lock.unlock();
+        return;
+      } else {
+        // Update or add new tempban / remove old tempban
+        if (time && time > 0) {
+          if (existingTempban) {
+            await pluginData.state.tempbans.updateExpiryTime(user.id, time, mod.id);
+          } else {
+            await pluginData.state.tempbans.addTempban(user.id, time, mod.id);
+          }
+          const tempban = (await pluginData.state.tempbans.findExistingTempbanForUserId(user.id))!;
+          registerExpiringTempban(tempban);
+        } else if (existingTempban) {
+          clearExpiringTempban(existingTempban);
+          pluginData.state.tempbans.clear(user.id);
+        }
+
+        // Create a new case for the updated ban since we never stored the old case id and log the action
+        const casesPlugin = pluginData.getPlugin(CasesPlugin);
+        const createdCase = await casesPlugin.createCase({
+          modId: mod.id,
+          type: CaseTypes.Ban,
+          userId: user.id,
+          reason,
+          noteDetails: [`Ban updated to ${time ? humanizeDuration(time) : "indefinite"}`],
+        });
+        if (time) {
+          pluginData.getPlugin(LogsPlugin).logMemberTimedBan({
+            mod: mod.user,
+            user,
+            caseNumber: createdCase.case_number,
+            reason,
+            banTime: humanizeDuration(time),
+          });
+        } else {
+          pluginData.getPlugin(LogsPlugin).logMemberBan({
+            mod: mod.user,
+            user,
+            caseNumber: createdCase.case_number,
+            reason,
+          });
+        }
+
+        sendSuccessMessage(
+          pluginData,
+          context,
+          `Ban updated to ${time ? "expire in " + humanizeDuration(time) + " from now" : "indefinite"}`,
+        );
+        lock.unlock();
+        return;
+      }
+    } else {
+      // Ask the mod if we should upgrade to a forceban as the user is not on the server
+      const reply = await waitForButtonConfirm(
+        context,
+        { content: "User not on server, forceban instead?" },
+        { confirmText: "Yes", cancelText: "No", restrictToId: author.id },
+      );
+      if (!reply) {
+        sendErrorMessage(pluginData, context, "User not on server, ban cancelled by moderator");
+        lock.unlock();
+        return;
+      } else {
+        forceban = true;
+      }
+    }
+  }
+
+  // Make sure we're allowed to ban this member if they are on the server
+  if (!forceban && !canActOn(pluginData, author, memberToBan!)) {
+    const ourLevel = getMemberLevel(pluginData, author);
+    const targetLevel = getMemberLevel(pluginData, memberToBan!);
+    sendErrorMessage(
+      pluginData,
+      context,
+      `Cannot ban: target permission level is equal or higher to yours, ${targetLevel} >= ${ourLevel}`,
+    );
+    lock.unlock();
+    return;
+  }
+
+  let contactMethods;
+  try {
+    contactMethods = readContactMethodsFromArgs(args);
+  } catch (e) {
+    sendErrorMessage(pluginData, context, e.message);
+    lock.unlock();
+    return;
+  }
+
+  const channelId = getResponseTargetChannelId(context);
+  const deleteMessageDays =
+    args["delete-days"] ??
+    (await pluginData.config.getMatchingConfig({ member: author, channelId })).ban_delete_message_days;
+  const banResult = await banUserId(
+    pluginData,
+    user.id,
+    reason,
+    {
+      contactMethods,
+      caseArgs: {
+        modId: mod.id,
+        ppId: mod.id !== author.id ? author.id : undefined,
+      },
+      deleteMessageDays,
+      modId: mod.id,
+    },
+    time ?? undefined,
+  );
+
+  if (banResult.status === "failed") {
+    sendErrorMessage(pluginData, context, `Failed to ban member: ${banResult.error}`);
+    lock.unlock();
+    return;
+  }
+
+  let forTime = "";
+  if (time && time > 0) {
+    forTime = `for ${humanizeDuration(time)} `;
+  }
+
+  // Confirm the action to the moderator
+  let response = "";
+  if (!forceban) {
+    response = `Banned **${renderUserUsername(user)}** ${forTime}(Case #${banResult.case.case_number})`;
+    if (banResult.notifyResult.text) response += ` (${banResult.notifyResult.text})`;
+  } else {
+    response = `Member forcebanned ${forTime}(Case #${banResult.case.case_number})`;
+  }
+
+  lock.unlock();
+  sendSuccessMessage(pluginData, context, response);
+}
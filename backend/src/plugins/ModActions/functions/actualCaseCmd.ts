@@ -0,0 +1,27 @@
+import { ChatInputCommandInteraction, GuildMember, GuildTextBasedChannel } from "discord.js";
+import { GuildPluginData } from "knub";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { sendContextResponse } from "../../../utils/commandResponseTarget";
+import { CasesPlugin } from "../../Cases/CasesPlugin";
+import { ModActionsPluginType } from "../types";
+
+/**
+ * The actual function run by both !case and /case
+ */
+export async function actualCaseCmd(
+  pluginData: GuildPluginData<ModActionsPluginType>,
+  context: GuildTextBasedChannel | ChatInputCommandInteraction,
+  author: GuildMember,
+  caseNumber: number,
+) {
+  const theCase = await pluginData.state.cases.findByCaseNumber(caseNumber);
+
+  if (!theCase) {
+    sendErrorMessage(pluginData, context, "Case not found");
+    return;
+  }
+
+  const casesPlugin = pluginData.getPlugin(CasesPlugin);
+  const embed = await casesPlugin.getCaseEmbed(theCase.id, author.id);
+  sendContextResponse(context, embed);
+}
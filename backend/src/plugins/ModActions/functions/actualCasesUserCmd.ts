@@ -0,0 +1,134 @@
+import { APIEmbed, ChatInputCommandInteraction, GuildMember, GuildTextBasedChannel, User } from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseTypes } from "../../../data/CaseTypes";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { UnknownUser, chunkArray, emptyEmbedValue, renderUserUsername, resolveUser, trimLines } from "../../../utils";
+import { asyncMap } from "../../../utils/async";
+import { sendContextResponse } from "../../../utils/commandResponseTarget";
+import { getChunkedEmbedFields } from "../../../utils/getChunkedEmbedFields";
+import { getGuildPrefix } from "../../../utils/getGuildPrefix";
+import { CasesPlugin } from "../../Cases/CasesPlugin";
+import { ModActionsPluginType } from "../types";
+
+/**
+ * The actual function run by both !cases and /cases
+ */
+export async function actualCasesUserCmd(
+  pluginData: GuildPluginData<ModActionsPluginType>,
+  context: GuildTextBasedChannel | ChatInputCommandInteraction,
+  author: GuildMember,
+  args: {
+    user: string;
+    expand?: boolean | null;
+    hidden?: boolean | null;
+    reverseFilters?: boolean | null;
+    notes?: boolean | null;
+    warns?: boolean | null;
+    mutes?: boolean | null;
+    unmutes?: boolean | null;
+    bans?: boolean | null;
+    unbans?: boolean | null;
+  },
+) {
+  const user = await resolveUser(pluginData.client, args.user);
+  if (!user.id) {
+    sendErrorMessage(pluginData, context, `User not found`);
+    return;
+  }
+
+  let cases = await pluginData.state.cases.with("notes").getByUserId(user.id);
+
+  const typesToShow: CaseTypes[] = [];
+  if (args.notes) typesToShow.push(CaseTypes.Note);
+  if (args.warns) typesToShow.push(CaseTypes.Warn);
+  if (args.mutes) typesToShow.push(CaseTypes.Mute);
+  if (args.unmutes) typesToShow.push(CaseTypes.Unmute);
+  if (args.bans) typesToShow.push(CaseTypes.Ban);
+  if (args.unbans) typesToShow.push(CaseTypes.Unban);
+
+  if (typesToShow.length > 0) {
+    // Reversed: Hide specified types
+    if (args.reverseFilters) cases = cases.filter((c) => !typesToShow.includes(c.type));
+    // Normal: Show only specified types
+    else cases = cases.filter((c) => typesToShow.includes(c.type));
+  }
+
+  const normalCases = cases.filter((c) => !c.is_hidden);
+  const hiddenCases = cases.filter((c) => c.is_hidden);
+
+  const userName =
+    user instanceof UnknownUser && cases.length ? cases[cases.length - 1].user_name : renderUserUsername(user);
+
+  if (cases.length === 0) {
+    sendContextResponse(context, `No cases found for **${userName}**`);
+  } else {
+    const casesToDisplay = args.hidden ? cases : normalCases;
+    if (!casesToDisplay.length) {
+      sendContextResponse(
+        context,
+        `No normal cases found for **${userName}**. Use "-hidden" to show ${cases.length} hidden cases.`,
+      );
+      return;
+    }
+
+    if (args.expand) {
+      if (casesToDisplay.length > 8) {
+        sendContextResponse(context, "Too many cases for expanded view. Please use compact view instead.");
+        return;
+      }
+
+      // Expanded view (= individual case embeds)
+      const casesPlugin = pluginData.getPlugin(CasesPlugin);
+      for (const theCase of casesToDisplay) {
+        const embed = await casesPlugin.getCaseEmbed(theCase.id);
+        await sendContextResponse(context, embed);
+      }
+    } else {
+      // Compact view (= regular message with a preview of each case)
+      const casesPlugin = pluginData.getPlugin(CasesPlugin);
+      const lines = await asyncMap(casesToDisplay, (c) => casesPlugin.getCaseSummary(c, true, author.id));
+
+      const prefix = getGuildPrefix(pluginData);
+      const linesPerChunk = 10;
+      const lineChunks = chunkArray(lines, linesPerChunk);
+
+      const footerField = {
+        name: emptyEmbedValue,
+        value: trimLines(`
+          Use \`${prefix}case <num>\` to see more information about an individual case
+        `),
+      };
+
+      for (const [i, linesInChunk] of lineChunks.entries()) {
+        const isLastChunk = i === lineChunks.length - 1;
+
+        if (isLastChunk && !args.hidden && hiddenCases.length) {
+          if (hiddenCases.length === 1) {
+            linesInChunk.push(`*+${hiddenCases.length} hidden case, use "-hidden" to show it*`);
+          } else {
+            linesInChunk.push(`*+${hiddenCases.length} hidden cases, use "-hidden" to show them*`);
+          }
+        }
+
+        const chunkStart = i * linesPerChunk + 1;
+        const chunkEnd = Math.min((i + 1) * linesPerChunk, lines.length);
+
+        const embed = {
+          author: {
+            name:
+              lineChunks.length === 1
+                ? `Cases for ${userName} (${lines.length} total)`
+                : `Cases ${chunkStart}–${chunkEnd} of ${lines.length} for ${userName}`,
+            icon_url: user instanceof User ? user.displayAvatarURL() : undefined,
+          },
+          fields: [
+            ...getChunkedEmbedFields(emptyEmbedValue, linesInChunk.join("\n")),
+            ...(isLastChunk ? [footerField] : []),
+          ],
+        } satisfies APIEmbed;
+
+        await sendContextResponse(context, { embeds: [embed] });
+      }
+    }
+  }
+}
@@ -1,9 +1,9 @@
-import { GuildMember, GuildTextBasedChannel } from "discord.js";
+import { Attachment, ChatInputCommandInteraction, GuildMember, GuildTextBasedChannel } from "discord.js";
 import { GuildPluginData } from "knub";
-import { hasPermission } from "knub/helpers";
 import { LogType } from "../../../data/LogType";
-import { canActOn, sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
-import { DAYS, SECONDS, errorMessage, renderUserUsername, resolveMember, resolveUser } from "../../../utils";
+import { canActOn, hasPermission, sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { DAYS, SECONDS, renderUserUsername, resolveMember, resolveUser } from "../../../utils";
+import { getResponseTargetChannelId } from "../../../utils/commandResponseTarget";
 import { IgnoredEventType, ModActionsPluginType } from "../types";
 import { formatReasonWithAttachments } from "./formatReasonWithAttachments";
 import { ignoreEvent } from "./ignoreEvent";
@@ -11,21 +11,26 @@ import { isBanned } from "./isBanned";
 import { kickMember } from "./kickMember";
 import { readContactMethodsFromArgs } from "./readContactMethodsFromArgs";
 
+/**
+ * The actual function run by !kick, !softban and /kick
+ */
 export async function actualKickMemberCmd(
   pluginData: GuildPluginData<ModActionsPluginType>,
-  msg,
+  context: GuildTextBasedChannel | ChatInputCommandInteraction,
+  author: GuildMember,
   args: {
     user: string;
-    reason: string;
-    mod: GuildMember;
-    notify?: string;
-    "notify-channel"?: GuildTextBasedChannel;
-    clean?: boolean;
+    reason?: string | null;
+    mod?: GuildMember | null;
+    notify?: string | null;
+    "notify-channel"?: GuildTextBasedChannel | null;
+    clean?: boolean | null;
+    attachments?: Attachment[];
   },
 ) {
   const user = await resolveUser(pluginData.client, args.user);
   if (!user.id) {
-    sendErrorMessage(pluginData, msg.channel, `User not found`);
+    sendErrorMessage(pluginData, context, `User not found`);
     return;
   }
 
@@ -34,25 +39,26 @@ export async function actualKickMemberCmd(
   if (!memberToKick) {
     const banned = await isBanned(pluginData, user.id);
     if (banned) {
-      sendErrorMessage(pluginData, msg.channel, `User is banned`);
+      sendErrorMessage(pluginData, context, `User is banned`);
     } else {
-      sendErrorMessage(pluginData, msg.channel, `User not found on the server`);
+      sendErrorMessage(pluginData, context, `User not found on the server`);
     }
 
     return;
   }
 
   // Make sure we're allowed to kick this member
-  if (!canActOn(pluginData, msg.member, memberToKick)) {
-    sendErrorMessage(pluginData, msg.channel, "Cannot kick: insufficient permissions");
+  if (!canActOn(pluginData, author, memberToKick)) {
+    sendErrorMessage(pluginData, context, "Cannot kick: insufficient permissions");
     return;
   }
 
-  // The moderator who did the action is the message author or, if used, the specified -mod
-  let mod = msg.member;
+  // The moderator who did the action is the command author or, if used, the specified -mod
+  let mod = author;
   if (args.mod) {
-    if (!(await hasPermission(await pluginData.config.getForMessage(msg), "can_act_as_other"))) {
-      sendErrorMessage(pluginData, msg.channel, "You don't have permission to use -mod");
+    const channelId = getResponseTargetChannelId(context);
+    if (!(await hasPermission(pluginData, "can_act_as_other", { member: author, channelId }))) {
+      sendErrorMessage(pluginData, context, "You don't have permission to use -mod");
       return;
     }
 
@@ -63,17 +69,17 @@ export async function actualKickMemberCmd(
   try {
     contactMethods = readContactMethodsFromArgs(args);
   } catch (e) {
-    sendErrorMessage(pluginData, msg.channel, e.message);
+    sendErrorMessage(pluginData, context, e.message);
     return;
   }
 
-  const reason = formatReasonWithAttachments(args.reason, msg.attachments);
+  const reason = formatReasonWithAttachments(args.reason ?? "", args.attachments ?? []);
 
   const kickResult = await kickMember(pluginData, memberToKick, reason, {
     contactMethods,
     caseArgs: {
       modId: mod.id,
-      ppId: mod.id !== msg.author.id ? msg.author.id : null,
+      ppId: mod.id !== author.id ? author.id : undefined,
     },
   });
 
@@ -84,7 +90,7 @@ export async function actualKickMemberCmd(
     try {
       await memberToKick.ban({ deleteMessageSeconds: (1 * DAYS) / SECONDS, reason: "kick -clean" });
     } catch {
-      sendErrorMessage(pluginData, msg.channel, "Failed to ban the user to clean messages (-clean)");
+      sendErrorMessage(pluginData, context, "Failed to ban the user to clean messages (-clean)");
     }
 
     pluginData.state.serverLogs.ignoreLog(LogType.MEMBER_UNBAN, memberToKick.id);
@@ -93,12 +99,12 @@ export async function actualKickMemberCmd(
     try {
       await pluginData.guild.bans.remove(memberToKick.id, "kick -clean");
     } catch {
-      sendErrorMessage(pluginData, msg.channel, "Failed to unban the user after banning them (-clean)");
+      sendErrorMessage(pluginData, context, "Failed to unban the user after banning them (-clean)");
     }
   }
 
   if (kickResult.status === "failed") {
-    msg.channel.send(errorMessage(`Failed to kick user`));
+    sendErrorMessage(pluginData, context, `Failed to kick user`);
     return;
   }
 
@@ -106,5 +112,5 @@ export async function actualKickMemberCmd(
   let response = `Kicked **${renderUserUsername(memberToKick.user)}** (Case #${kickResult.case.case_number})`;
 
   if (kickResult.notifyResult.text) response += ` (${kickResult.notifyResult.text})`;
-  sendSuccessMessage(pluginData, msg.channel, response);
+  sendSuccessMessage(pluginData, context, response);
 }
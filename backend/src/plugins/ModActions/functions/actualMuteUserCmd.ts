@@ -1,10 +1,11 @@
-import { GuildMember, GuildTextBasedChannel, Message, User } from "discord.js";
+import { Attachment, ChatInputCommandInteraction, GuildMember, GuildTextBasedChannel, User } from "discord.js";
 import humanizeDuration from "humanize-duration";
 import { GuildPluginData } from "knub";
 import { ERRORS, RecoverablePluginError } from "../../../RecoverablePluginError";
 import { logger } from "../../../logger";
 import { hasPermission, sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
 import { UnknownUser, asSingleLine, isDiscordAPIError, renderUserUsername } from "../../../utils";
+import { getResponseTargetChannelId } from "../../../utils/commandResponseTarget";
 import { MutesPlugin } from "../../Mutes/MutesPlugin";
 import { MuteResult } from "../../Mutes/types";
 import { ModActionsPluginType } from "../types";
@@ -12,37 +13,40 @@ import { formatReasonWithAttachments } from "./formatReasonWithAttachments";
 import { readContactMethodsFromArgs } from "./readContactMethodsFromArgs";
 
 /**
- * The actual function run by both !mute and !forcemute.
- * The only difference between the two commands is in target member validation.
+ * The actual function run by !mute, !forcemute and /mute.
+ * The only difference between the commands is in target member validation.
  */
 export async function actualMuteUserCmd(
   pluginData: GuildPluginData<ModActionsPluginType>,
   user: User | UnknownUser,
-  msg: Message,
+  context: GuildTextBasedChannel | ChatInputCommandInteraction,
+  author: GuildMember,
   args: {
-    time?: number;
-    reason?: string;
-    mod: GuildMember;
-    notify?: string;
-    "notify-channel"?: GuildTextBasedChannel;
+    time?: number | null;
+    reason?: string | null;
+    mod?: GuildMember | null;
+    notify?: string | null;
+    "notify-channel"?: GuildTextBasedChannel | null;
+    attachments?: Attachment[];
   },
 ) {
-  // The moderator who did the action is the message author or, if used, the specified -mod
-  let mod: GuildMember = msg.member!;
+  // The moderator who did the action is the command author or, if used, the specified -mod
+  let mod: GuildMember = author;
   let pp: User | null = null;
 
   if (args.mod) {
-    if (!(await hasPermission(pluginData, "can_act_as_other", { message: msg }))) {
-      sendErrorMessage(pluginData, msg.channel, "You don't have permission to use -mod");
+    const channelId = getResponseTargetChannelId(context);
+    if (!(await hasPermission(pluginData, "can_act_as_other", { member: author, channelId }))) {
+      sendErrorMessage(pluginData, context, "You don't have permission to use -mod");
       return;
     }
 
     mod = args.mod;
-    pp = msg.author;
+    pp = author.user;
   }
 
   const timeUntilUnmute = args.time && humanizeDuration(args.time);
-  const reason = args.reason ? formatReasonWithAttachments(args.reason, [...msg.attachments.values()]) : undefined;
+  const reason = args.reason ? formatReasonWithAttachments(args.reason, args.attachments ?? []) : undefined;
 
   let muteResult: MuteResult;
   const mutesPlugin = pluginData.getPlugin(MutesPlugin);
@@ -51,12 +55,12 @@ export async function actualMuteUserCmd(
   try {
     contactMethods = readContactMethodsFromArgs(args);
   } catch (e) {
-    sendErrorMessage(pluginData, msg.channel, e.message);
+    sendErrorMessage(pluginData, context, e.message);
     return;
   }
 
   try {
-    muteResult = await mutesPlugin.muteUser(user.id, args.time, reason, {
+    muteResult = await mutesPlugin.muteUser(user.id, args.time ?? undefined, reason, {
       contactMethods,
       caseArgs: {
         modId: mod.id,
@@ -65,9 +69,9 @@ export async function actualMuteUserCmd(
     });
   } catch (e) {
     if (e instanceof RecoverablePluginError && e.code === ERRORS.NO_MUTE_ROLE_IN_CONFIG) {
-      sendErrorMessage(pluginData, msg.channel, "Could not mute the user: no mute role set in config");
+      sendErrorMessage(pluginData, context, "Could not mute the user: no mute role set in config");
     } else if (isDiscordAPIError(e) && e.code === 10007) {
-      sendErrorMessage(pluginData, msg.channel, "Could not mute the user: unknown member");
+      sendErrorMessage(pluginData, context, "Could not mute the user: unknown member");
     } else {
       logger.error(`Failed to mute user ${user.id}: ${e.stack}`);
       if (user.id == null) {
@@ -75,7 +79,7 @@ export async function actualMuteUserCmd(
         // tslint:disable-next-line:no-console
         console.trace("[DEBUG] Null user.id for mute");
       }
-      sendErrorMessage(pluginData, msg.channel, "Could not mute the user");
+      sendErrorMessage(pluginData, context, "Could not mute the user");
     }
 
     return;
@@ -110,5 +114,5 @@ export async function actualMuteUserCmd(
   }
 
   if (muteResult.notifyResult.text) response += ` (${muteResult.notifyResult.text})`;
-  sendSuccessMessage(pluginData, msg.channel, response);
+  sendSuccessMessage(pluginData, context, response);
 }
@@ -0,0 +1,56 @@
+import { Attachment, ChatInputCommandInteraction, GuildMember, GuildTextBasedChannel } from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseTypes } from "../../../data/CaseTypes";
+import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { renderUserUsername, resolveUser } from "../../../utils";
+import { CasesPlugin } from "../../Cases/CasesPlugin";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { ModActionsPluginType } from "../types";
+import { formatReasonWithAttachments } from "./formatReasonWithAttachments";
+
+/**
+ * The actual function run by both !note and /note
+ */
+export async function actualNoteCmd(
+  pluginData: GuildPluginData<ModActionsPluginType>,
+  context: GuildTextBasedChannel | ChatInputCommandInteraction,
+  author: GuildMember,
+  args: {
+    user: string;
+    note?: string | null;
+    attachments?: Attachment[];
+  },
+) {
+  const user = await resolveUser(pluginData.client, args.user);
+  if (!user.id) {
+    sendErrorMessage(pluginData, context, `User not found`);
+    return;
+  }
+
+  if (!args.note && !args.attachments?.length) {
+    sendErrorMessage(pluginData, context, "Text or attachment required");
+    return;
+  }
+
+  const userName = renderUserUsername(user);
+  const reason = formatReasonWithAttachments(args.note ?? "", args.attachments ?? []);
+
+  const casesPlugin = pluginData.getPlugin(CasesPlugin);
+  const createdCase = await casesPlugin.createCase({
+    userId: user.id,
+    modId: author.id,
+    type: CaseTypes.Note,
+    reason,
+  });
+
+  pluginData.getPlugin(LogsPlugin).logMemberNote({
+    mod: author.user,
+    user,
+    caseNumber: createdCase.case_number,
+    reason,
+  });
+
+  sendSuccessMessage(pluginData, context, `Note added on **${userName}** (Case #${createdCase.case_number})`);
+
+  pluginData.state.events.emit("note", user.id, reason);
+}
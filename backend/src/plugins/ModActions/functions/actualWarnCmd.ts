@@ -0,0 +1,115 @@
+import { Attachment, ChatInputCommandInteraction, GuildMember, GuildTextBasedChannel } from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseTypes } from "../../../data/CaseTypes";
+import { canActOn, hasPermission, sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { renderUserUsername, resolveMember, resolveUser } from "../../../utils";
+import { getResponseTargetChannelId } from "../../../utils/commandResponseTarget";
+import { waitForButtonConfirm } from "../../../utils/waitForInteraction";
+import { CasesPlugin } from "../../Cases/CasesPlugin";
+import { ModActionsPluginType } from "../types";
+import { formatReasonWithAttachments } from "./formatReasonWithAttachments";
+import { isBanned } from "./isBanned";
+import { readContactMethodsFromArgs } from "./readContactMethodsFromArgs";
+import { warnMember } from "./warnMember";
+
+/**
+ * The actual function run by both !warn and /warn
+ */
+export async function actualWarnCmd(
+  pluginData: GuildPluginData<ModActionsPluginType>,
+  context: GuildTextBasedChannel | ChatInputCommandInteraction,
+  author: GuildMember,
+  args: {
+    user: string;
+    reason: string;
+    mod?: GuildMember | null;
+    notify?: string | null;
+    "notify-channel"?: GuildTextBasedChannel | null;
+    attachments?: Attachment[];
+  },
+) {
+  const user = await resolveUser(pluginData.client, args.user);
+  if (!user.id) {
+    sendErrorMessage(pluginData, context, `User not found`);
+    return;
+  }
+
+  const memberToWarn = await resolveMember(pluginData.client, pluginData.guild, user.id);
+
+  if (!memberToWarn) {
+    const _isBanned = await isBanned(pluginData, user.id);
+    if (_isBanned) {
+      sendErrorMessage(pluginData, context, `User is banned`);
+    } else {
+      sendErrorMessage(pluginData, context, `User not found on the server`);
+    }
+
+    return;
+  }
+
+  // Make sure we're allowed to warn this member
+  if (!canActOn(pluginData, author, memberToWarn)) {
+    sendErrorMessage(pluginData, context, "Cannot warn: insufficient permissions");
+    return;
+  }
+
+  // The moderator who did the action is the command author or, if used, the specified -mod
+  let mod = author;
+  if (args.mod) {
+    const channelId = getResponseTargetChannelId(context);
+    if (!(await hasPermission(pluginData, "can_act_as_other", { member: author, channelId }))) {
+      sendErrorMessage(pluginData, context, "You don't have permission to use -mod");
+      return;
+    }
+
+    mod = args.mod;
+  }
+
+  const config = pluginData.config.get();
+  const reason = formatReasonWithAttachments(args.reason, args.attachments ?? []);
+
+  const casesPlugin = pluginData.getPlugin(CasesPlugin);
+  const priorWarnAmount = await casesPlugin.getCaseTypeAmountForUserId(memberToWarn.id, CaseTypes.Warn);
+  if (config.warn_notify_enabled && priorWarnAmount >= config.warn_notify_threshold) {
+    const reply = await waitForButtonConfirm(
+      context,
+      { content: config.warn_notify_message.replace("{priorWarnings}", `${priorWarnAmount}`) },
+      { confirmText: "Yes", cancelText: "No", restrictToId: author.id },
+    );
+    if (!reply) {
+      sendErrorMessage(pluginData, context, "Warn cancelled by moderator");
+      return;
+    }
+  }
+
+  let contactMethods;
+  try {
+    contactMethods = readContactMethodsFromArgs(args);
+  } catch (e) {
+    sendErrorMessage(pluginData, context, e.message);
+    return;
+  }
+
+  const warnResult = await warnMember(pluginData, memberToWarn, reason, {
+    contactMethods,
+    caseArgs: {
+      modId: mod.id,
+      ppId: mod.id !== author.id ? author.id : undefined,
+      reason,
+    },
+    retryPromptChannel: context,
+  });
+
+  if (warnResult.status === "failed") {
+    sendErrorMessage(pluginData, context, "Failed to warn user");
+    return;
+  }
+
+  const messageResultText = warnResult.notifyResult.text ? ` (${warnResult.notifyResult.text})` : "";
+
+  sendSuccessMessage(
+    pluginData,
+    context,
+    `Warned **${renderUserUsername(memberToWarn.user)}** (Case #${warnResult.case.case_number})${messageResultText}`,
+  );
+}
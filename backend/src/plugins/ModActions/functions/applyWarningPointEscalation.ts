@@ -0,0 +1,136 @@
+import humanizeDuration from "humanize-duration";
+import { GuildPluginData } from "knub";
+import moment from "moment-timezone";
+import { CaseTypeToName, CaseTypes } from "../../../data/CaseTypes";
+import { Case } from "../../../data/entities/Case";
+import { convertDelayStringToMS, resolveMember } from "../../../utils";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { MutesPlugin } from "../../Mutes/MutesPlugin";
+import { ModActionsPluginType, TConfigSchema, TEscalationStep } from "../types";
+import { banUserId } from "./banUserId";
+import { kickMember } from "./kickMember";
+
+// Cases created by the escalation ladder start their reference to the triggering cases with this
+const ESCALATION_NOTE_PREFIX = "Escalated from cases";
+
+function getCasePoints(config: TConfigSchema, type: CaseTypes): number {
+  return config.warning_points[CaseTypeToName[type]] ?? 0;
+}
+
+/**
+ * Cases created by the escalation ladder don't count toward warning points,
+ * so one step can't immediately trigger the next one
+ */
+function isEscalationCase(pluginData: GuildPluginData<ModActionsPluginType>, theCase: Case): boolean {
+  return (theCase.notes ?? []).some(
+    (note) => note.mod_id === pluginData.client.user!.id && note.body.startsWith(ESCALATION_NOTE_PREFIX),
+  );
+}
+
+/**
+ * Returns the user's current warning points, i.e. the sum of the points of their non-hidden, non-expired cases
+ */
+export async function getWarningPoints(
+  pluginData: GuildPluginData<ModActionsPluginType>,
+  userId: string,
+  config: TConfigSchema,
+  upToCaseId?: number,
+): Promise<{ points: number; cases: Case[] }> {
+  const expireAfterMs = config.warning_points_expire_after
+    ? convertDelayStringToMS(config.warning_points_expire_after)
+    : null;
+  const cutoff = expireAfterMs ? moment.utc().subtract(expireAfterMs, "ms") : null;
+
+  const cases = (await pluginData.state.cases.with("notes").getByUserId(userId)).filter(
+    (c) =>
+      !c.is_hidden &&
+      !isEscalationCase(pluginData, c) &&
+      getCasePoints(config, c.type) > 0 &&
+      (upToCaseId == null || c.id <= upToCaseId) &&
+      (cutoff == null || moment.utc(c.created_at).isAfter(cutoff)),
+  );
+  const points = cases.reduce((sum, c) => sum + getCasePoints(config, c.type), 0);
+
+  return { points, cases };
+}
+
+/**
+ * Checks whether the specified case pushed the user over a threshold on the escalation ladder,
+ * and if so, applies that step's action. The action creates its own case that references the triggering cases.
+ */
+export async function applyWarningPointEscalation(
+  pluginData: GuildPluginData<ModActionsPluginType>,
+  createdCase: Case,
+): Promise<void> {
+  // The case is loaded again since its notes are added after it's created
+  const theCase = await pluginData.state.cases.with("notes").find(createdCase.id);
+  if (!theCase || isEscalationCase(pluginData, theCase)) {
+    return;
+  }
+
+  const member = await resolveMember(pluginData.client, pluginData.guild, theCase.user_id);
+  const config = await pluginData.config.getMatchingConfig({ member, userId: theCase.user_id });
+  if (config.escalation_ladder.length === 0 || theCase.is_hidden) {
+    return;
+  }
+
+  const casePoints = getCasePoints(config, theCase.type);
+  if (casePoints <= 0) {
+    return;
+  }
+
+  // Only count cases up to and including this one so each case is evaluated against the state at the time it was created
+  const { points, cases } = await getWarningPoints(pluginData, theCase.user_id, config, theCase.id);
+  const previousPoints = points - casePoints;
+  const step: TEscalationStep | undefined = config.escalation_ladder
+    .filter((s) => previousPoints < s.points && points >= s.points)
+    .sort((a, b) => b.points - a.points)[0];
+  if (!step) {
+    return;
+  }
+
+  const duration = step.duration ? convertDelayStringToMS(step.duration) ?? undefined : undefined;
+  const reason = step.reason || `Reached ${points} warning points`;
+  const caseArgs = {
+    modId: pluginData.client.user!.id,
+    automatic: true,
+    extraNotes: [`${ESCALATION_NOTE_PREFIX} ${cases.map((c) => `#${c.case_number}`).join(", ")}`],
+  };
+
+  const logs = pluginData.getPlugin(LogsPlugin);
+  const durationStr = duration ? ` for ${humanizeDuration(duration)}` : "";
+
+  if (step.action === "mute") {
+    try {
+      await pluginData.getPlugin(MutesPlugin).muteUser(theCase.user_id, duration, reason, { caseArgs });
+    } catch (e) {
+      logs.logBotAlert({
+        body: `Failed to mute <@!${theCase.user_id}>${durationStr} after reaching ${points} warning points: ${e.message}`,
+      });
+    }
+    return;
+  }
+
+  if (step.action === "kick") {
+    if (!member) {
+      return;
+    }
+
+    const result = await kickMember(pluginData, member, reason, { caseArgs });
+    if (result.status === "failed") {
+      logs.logBotAlert({
+        body: `Failed to kick <@!${theCase.user_id}> after reaching ${points} warning points: ${result.error}`,
+      });
+    }
+    return;
+  }
+
+  if (step.action === "ban") {
+    const result = await banUserId(pluginData, theCase.user_id, reason, { caseArgs }, duration);
+    if (result.status === "failed") {
+      logs.logBotAlert({
+        body: `Failed to ban <@!${theCase.user_id}>${durationStr} after reaching ${points} warning points: ${result.error}`,
+      });
+    }
+  }
+}
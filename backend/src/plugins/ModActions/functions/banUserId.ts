@@ -42,6 +42,8 @@ export async function banUserId(
     };
   }
 
+  const casesPlugin = pluginData.getPlugin(CasesPlugin);
+
   // Attempt to message the user *before* banning them, as doing it after may not be possible
   const member = await resolveMember(pluginData.client, pluginData.guild, userId);
   let notifyResult: UserNotificationResult = { method: null, success: true };
@@ -124,7 +126,6 @@ export async function banUserId(
 
   // Create a case for this action
   const modId = banOptions.caseArgs?.modId || pluginData.client.user!.id;
-  const casesPlugin = pluginData.getPlugin(CasesPlugin);
 
   const noteDetails: string[] = [];
   const timeUntilUnban = banTime ? humanizeDuration(banTime) : "indefinite";
@@ -140,6 +141,7 @@ export async function banUserId(
     reason,
     noteDetails,
   });
+  await casesPlugin.addAppealComponents(notifyResult, createdCase);
 
   // Log the action
   const mod = await resolveUser(pluginData.client, modId);
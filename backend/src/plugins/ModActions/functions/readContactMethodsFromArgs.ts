@@ -2,8 +2,8 @@ import { GuildTextBasedChannel } from "discord.js";
 import { disableUserNotificationStrings, UserNotificationMethod } from "../../../utils";
 
 export function readContactMethodsFromArgs(args: {
-  notify?: string;
-  "notify-channel"?: GuildTextBasedChannel;
+  notify?: string | null;
+  "notify-channel"?: GuildTextBasedChannel | null;
 }): null | UserNotificationMethod[] {
   if (args.notify) {
     if (args.notify === "dm") {
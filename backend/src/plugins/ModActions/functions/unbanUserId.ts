@@ -0,0 +1,65 @@
+import { Snowflake } from "discord.js";
+import { GuildPluginData } from "knub";
+import { CaseTypes } from "../../../data/CaseTypes";
+import { LogType } from "../../../data/LogType";
+import { clearExpiringTempban } from "../../../data/loops/expiringTempbansLoop";
+import { resolveUser } from "../../../utils";
+import { CasesPlugin } from "../../Cases/CasesPlugin";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { IgnoredEventType, ModActionsPluginType, UnbanOptions, UnbanResult } from "../types";
+import { ignoreEvent } from "./ignoreEvent";
+
+/**
+ * Unban the specified user id. Generates a case.
+ */
+export async function unbanUserId(
+  pluginData: GuildPluginData<ModActionsPluginType>,
+  userId: string,
+  reason?: string,
+  unbanOptions: UnbanOptions = {},
+): Promise<UnbanResult> {
+  pluginData.state.serverLogs.ignoreLog(LogType.MEMBER_UNBAN, userId);
+
+  try {
+    ignoreEvent(pluginData, IgnoredEventType.Unban, userId);
+    await pluginData.guild.bans.remove(userId as Snowflake, reason ?? undefined);
+  } catch {
+    return {
+      status: "failed",
+      error: "Failed to unban member; are you sure they're banned?",
+    };
+  }
+
+  // Create a case
+  const modId = unbanOptions.caseArgs?.modId || pluginData.client.user!.id;
+  const casesPlugin = pluginData.getPlugin(CasesPlugin);
+  const createdCase = await casesPlugin.createCase({
+    ...(unbanOptions.caseArgs || {}),
+    userId,
+    modId,
+    type: CaseTypes.Unban,
+    reason,
+  });
+
+  // Delete the tempban, if one exists
+  const tempban = await pluginData.state.tempbans.findExistingTempbanForUserId(userId);
+  if (tempban) {
+    clearExpiringTempban(tempban);
+    await pluginData.state.tempbans.clear(userId);
+  }
+
+  // Log the action
+  pluginData.getPlugin(LogsPlugin).logMemberUnban({
+    mod: await resolveUser(pluginData.client, modId),
+    userId,
+    caseNumber: createdCase.case_number,
+    reason: reason ?? "",
+  });
+
+  pluginData.state.events.emit("unban", userId);
+
+  return {
+    status: "success",
+    case: createdCase,
+  };
+}
@@ -3,6 +3,7 @@ import { GuildPluginData } from "knub";
 import { CaseTypes } from "../../../data/CaseTypes";
 import { TemplateSafeValueContainer, renderTemplate } from "../../../templateFormatter";
 import { UserNotificationResult, createUserNotificationError, notifyUser, resolveUser, ucfirst } from "../../../utils";
+import { isInteractionResponseTarget } from "../../../utils/commandResponseTarget";
 import { userToTemplateSafeUser } from "../../../utils/templateSafeObjects";
 import { waitForButtonConfirm } from "../../../utils/waitForInteraction";
 import { CasesPlugin } from "../../Cases/CasesPlugin";
@@ -39,9 +40,13 @@ export async function warnMember(
   }
 
   if (!notifyResult.success) {
-    if (warnOptions.retryPromptChannel && pluginData.guild.channels.resolve(warnOptions.retryPromptChannel.id)) {
+    const retryPromptChannel = warnOptions.retryPromptChannel;
+    if (
+      retryPromptChannel &&
+      (isInteractionResponseTarget(retryPromptChannel) || pluginData.guild.channels.resolve(retryPromptChannel.id))
+    ) {
       const reply = await waitForButtonConfirm(
-        warnOptions.retryPromptChannel,
+        retryPromptChannel,
         { content: "Failed to message the user. Log the warning anyway?" },
         { confirmText: "Yes", cancelText: "No", restrictToId: warnOptions.caseArgs?.modId },
       );
@@ -1,16 +1,35 @@
-import { GuildTextBasedChannel } from "discord.js";
+import { ChatInputCommandInteraction, GuildTextBasedChannel } from "discord.js";
 import { EventEmitter } from "events";
 import * as t from "io-ts";
-import { BasePluginType, guildPluginEventListener, guildPluginMessageCommand } from "knub";
+import { BasePluginType, guildPluginEventListener, guildPluginMessageCommand, guildPluginSlashCommand } from "knub";
 import { Queue } from "../../Queue";
+import { CaseNameToType } from "../../data/CaseTypes";
 import { GuildCases } from "../../data/GuildCases";
 import { GuildLogs } from "../../data/GuildLogs";
 import { GuildMutes } from "../../data/GuildMutes";
 import { GuildTempbans } from "../../data/GuildTempbans";
 import { Case } from "../../data/entities/Case";
-import { UserNotificationMethod, UserNotificationResult, tNullable } from "../../utils";
+import {
+  UserNotificationMethod,
+  UserNotificationResult,
+  tDelayString,
+  tNullable,
+  tPartialDictionary,
+} from "../../utils";
 import { CaseArgs } from "../Cases/types";
 
+const EscalationStep = t.intersection([
+  t.type({
+    points: t.number,
+    action: t.keyof({ mute: null, kick: null, ban: null }),
+  }),
+  t.partial({
+    duration: tNullable(tDelayString),
+    reason: tNullable(t.string),
+  }),
+]);
+export type TEscalationStep = t.TypeOf<typeof EscalationStep>;
+
 export const ConfigSchema = t.type({
   dm_on_warn: t.boolean,
   dm_on_kick: t.boolean,
@@ -44,6 +63,9 @@ export const ConfigSchema = t.type({
   can_deletecase: t.boolean,
   can_act_as_other: t.boolean,
   create_cases_for_manual_actions: t.boolean,
+  warning_points: tPartialDictionary(t.keyof(CaseNameToType), t.number),
+  warning_points_expire_after: tNullable(tDelayString),
+  escalation_ladder: t.array(EscalationStep),
 });
 export type TConfigSchema = t.TypeOf<typeof ConfigSchema>;
 
@@ -73,6 +95,7 @@ export interface ModActionsPluginType extends BasePluginType {
     unregisterGuildEventListener: () => void;
     ignoredEvents: IIgnoredEvent[];
     massbanQueue: Queue;
+    unregisterCaseCreatedListener: () => void;
 
     events: ModActionsEventEmitter;
   };
@@ -122,12 +145,22 @@ export type BanResult =
       notifyResult: UserNotificationResult;
     };
 
+export type UnbanResult =
+  | {
+      status: "failed";
+      error: string;
+    }
+  | {
+      status: "success";
+      case: Case;
+    };
+
 export type WarnMemberNotifyRetryCallback = () => boolean | Promise<boolean>;
 
 export interface WarnOptions {
   caseArgs?: Partial<CaseArgs> | null;
   contactMethods?: UserNotificationMethod[] | null;
-  retryPromptChannel?: GuildTextBasedChannel | null;
+  retryPromptChannel?: GuildTextBasedChannel | ChatInputCommandInteraction | null;
   isAutomodAction?: boolean;
 }
 
@@ -145,7 +178,12 @@ export interface BanOptions {
   isAutomodAction?: boolean;
 }
 
+export interface UnbanOptions {
+  caseArgs?: Partial<CaseArgs>;
+}
+
 export type ModActionType = "note" | "warn" | "mute" | "unmute" | "kick" | "ban" | "unban";
 
 export const modActionsCmd = guildPluginMessageCommand<ModActionsPluginType>();
+export const modActionsSlashCmd = guildPluginSlashCommand<ModActionsPluginType>();
 export const modActionsEvt = guildPluginEventListener<ModActionsPluginType>();
@@ -262,6 +262,7 @@ export async function muteUser(
     });
     await pluginData.state.mutes.setCaseId(user.id, theCase.id);
   }
+  await casesPlugin.addAppealComponents(notifyResult, theCase);
 
   // Log the action
   const mod = await resolveUser(pluginData.client, muteOptions.caseArgs?.modId);
@@ -1,29 +1,47 @@
 import { Snowflake } from "discord.js";
 import humanizeDuration from "humanize-duration";
 import { PluginOptions } from "knub";
-import moment from "moment-timezone";
 import { parseIoTsSchema, StrictValidationError } from "src/validatorUtils";
+import { TAG_USE_RETENTION_PERIOD } from "../../data/cleanup/tagUses";
 import { GuildArchives } from "../../data/GuildArchives";
 import { GuildLogs } from "../../data/GuildLogs";
 import { GuildSavedMessages } from "../../data/GuildSavedMessages";
 import { GuildTags } from "../../data/GuildTags";
+import { GuildTagUses } from "../../data/GuildTagUses";
 import { mapToPublicFn } from "../../pluginUtils";
-import { convertDelayStringToMS, trimPluginDescription } from "../../utils";
+import { trimPluginDescription } from "../../utils";
 import { LogsPlugin } from "../Logs/LogsPlugin";
 import { TimeAndDatePlugin } from "../TimeAndDate/TimeAndDatePlugin";
 import { zeppelinGuildPlugin } from "../ZeppelinPluginBlueprint";
+import { TagAliasCmd } from "./commands/TagAliasCmd";
+import { TagAliasDeleteCmd } from "./commands/TagAliasDeleteCmd";
 import { TagCreateCmd } from "./commands/TagCreateCmd";
 import { TagDeleteCmd } from "./commands/TagDeleteCmd";
+import { TagDiffCmd } from "./commands/TagDiffCmd";
 import { TagEvalCmd } from "./commands/TagEvalCmd";
+import { TagHistoryCmd } from "./commands/TagHistoryCmd";
 import { TagListCmd } from "./commands/TagListCmd";
+import { TagParamsCmd } from "./commands/TagParamsCmd";
+import { TagRestoreCmd } from "./commands/TagRestoreCmd";
+import { TagSearchCmd } from "./commands/TagSearchCmd";
 import { TagSourceCmd } from "./commands/TagSourceCmd";
+import { TagStatsCmd } from "./commands/TagStatsCmd";
 import { generateTemplateMarkdown } from "./docs";
 import { TemplateFunctions } from "./templateFunctions";
 import { ConfigSchema, TagsPluginType } from "./types";
+import {
+  countTagComponentRows,
+  MAX_COMPONENT_ROWS,
+  MAX_COMPONENT_TAG_NAME_LENGTH,
+  MAX_SELECT_OPTIONS,
+} from "./util/createTagComponents";
+import { findComponentTargetTag } from "./util/findComponentTargetTag";
 import { findTagByName } from "./util/findTagByName";
 import { onMessageCreate } from "./util/onMessageCreate";
 import { onMessageDelete } from "./util/onMessageDelete";
+import { onTagComponentInteraction } from "./util/onTagComponentInteraction";
 import { renderTagBody } from "./util/renderTagBody";
+import { parseTagParameters, TagParameterError } from "./util/tagParameters";
 
 const defaultOptions: PluginOptions<TagsPluginType> = {
   config: {
@@ -36,6 +54,7 @@ const defaultOptions: PluginOptions<TagsPluginType> = {
     allow_mentions: false,
     global_cooldown: null,
     auto_delete_command: false,
+    suggest_similar_tags: true,
 
     categories: {},
 
@@ -62,6 +81,102 @@ export const TagsPlugin = zeppelinGuildPlugin<TagsPluginType>()({
     prettyName: "Tags",
     description: "Tags are a way to store and reuse information.",
     configurationGuide: trimPluginDescription(`
+      ### Tag history
+      Every time a tag is created or edited, its new body is saved as a numbered revision.
+      Use \`!tag history <tag>\` to list a tag's revisions, \`!tag diff <tag> <rev1> <rev2>\` to compare two of them,
+      and \`!tag restore <tag> <rev>\` to bring back an earlier version. These commands require \`can_create\`.
+      Revisions are kept when a tag is deleted, so deleted tags can be restored as well.
+
+      ### Aliases
+      Tags can be used by other names with aliases. Use \`!tag alias <tag> <alias>\` to add an alias to a tag,
+      and \`!tag alias delete <alias>\` to remove one. Aliases are removed when their tag is deleted.
+      Tags in categories get their aliases from the category's \`aliases\` option:
+
+      ~~~yml
+      tags:
+        config:
+          categories:
+            info:
+              prefix: "?"
+              tags:
+                rules: "Please read the rules in #rules"
+              aliases:
+                rules: ["rule", "r"]
+      ~~~
+
+      ### Finding tags
+      Use \`!tag search <query>\` to search tag names, aliases and bodies. Names don't have to match exactly.
+      When someone uses a tag that doesn't exist but is close to one that does, the bot suggests the similar tag.
+      This can be turned off with \`suggest_similar_tags: false\`.
+
+      ### Usage statistics
+      Each use of a tag is recorded for ${humanizeDuration(
+        TAG_USE_RETENTION_PERIOD,
+      )}. Use \`!tag stats\` to see the most used tags,
+      and \`!tag stats <tag>\` to see how many times a tag has been used, when it was last used, and who used it where.
+      Tags in categories are referred to as \`category.tag\`.
+
+      ### Parameters
+      Tags can declare named parameters in the same format as bot commands, e.g. \`<target:user> [amount:number=5]\`.
+      Parameters in \`<>\` are required and parameters in \`[]\` are optional, with an optional default value after \`=\`.
+      The available types are \`string\` (the default), \`number\`, \`user\`, \`channel\`, and \`rest\`, which captures the rest of the arguments.
+      The values are available in the tag as \`{params.target.mention}\`, \`{params.amount}\` and so on.
+      If a tag is used with arguments that don't match its parameters, the bot replies with the tag's usage instead.
+
+      Use \`!tag params <tag> <parameters>\` to set the parameters of a tag, and \`!tag params <tag>\` to remove them.
+      \`!tag <tag>\` shows a tag's parameters along with its source.
+      Tags in categories get their parameters from the category's \`parameters\` option:
+
+      ~~~yml
+      tags:
+        config:
+          categories:
+            mod:
+              tags:
+                warned: "{params.target.mention}, you have been warned for: {params.reason}"
+              parameters:
+                warned: "<target:user> [reason:rest=No reason]"
+      ~~~
+
+      ### Interactive tags
+      Tags in categories can have buttons and select menus, set in the category's \`components\` option.
+      Components point to another tag in the same category by its name, or to a tag in another category as \`category.tag\`.
+
+      - \`button\` replies to the user with the tag it points to, along with that tag's own components
+      - \`link\` opens the \`url\`
+      - \`select\` swaps the response to the chosen tag. Other users who choose a tag get it as a reply that only they can see.
+
+      Buttons are placed in rows of up to 5, and each select menu takes a row of its own. A message can have up to 5 rows.
+      The user has to be able to use both the tag with the component and the tag it points to.
+      Tags shown from components are rendered without arguments.
+
+      ~~~yml
+      tags:
+        config:
+          categories:
+            faq:
+              tags:
+                help: "What do you need help with?"
+                rules: "Please read the rules in #rules"
+                roles: "You can pick roles in #roles"
+                appeal: "You can appeal a ban with the appeal form"
+              components:
+                help:
+                  - type: select
+                    placeholder: "Choose a topic"
+                    options:
+                      - label: "Rules"
+                        tag: rules
+                      - label: "Roles"
+                        tag: roles
+                  - type: button
+                    label: "Ban appeals"
+                    tag: appeal
+                  - type: link
+                    label: "Website"
+                    url: "https://example.com"
+      ~~~
+
       ### Template Functions
       You can use template functions in your tags. These functions are called when the tag is rendered.
       You can use these functions to render dynamic content, or to access information from the message and/or user calling the tag.
@@ -82,6 +197,14 @@ export const TagsPlugin = zeppelinGuildPlugin<TagsPluginType>()({
     TagEvalCmd,
     TagDeleteCmd,
     TagListCmd,
+    TagHistoryCmd,
+    TagDiffCmd,
+    TagRestoreCmd,
+    TagAliasDeleteCmd,
+    TagAliasCmd,
+    TagSearchCmd,
+    TagStatsCmd,
+    TagParamsCmd,
     TagSourceCmd,
     TagCreateCmd,
   ],
@@ -89,6 +212,7 @@ export const TagsPlugin = zeppelinGuildPlugin<TagsPluginType>()({
   // prettier-ignore
   events: [
     onMessageDelete,
+    onTagComponentInteraction,
   ],
 
   public: {
@@ -113,132 +237,118 @@ export const TagsPlugin = zeppelinGuildPlugin<TagsPluginType>()({
             `Cannot have both (category specific) delete_with_command and category_delete_invoke enabled at <categories/${name}>`,
           ]);
         }
-      }
-    }
-
-    return parseIoTsSchema(ConfigSchema, input);
-  },
 
-  beforeLoad(pluginData) {
-    const { state, guild } = pluginData;
+        // Check that aliases point to tags in the category and don't shadow other tags
+        for (const [tagName, aliases] of Object.entries((cat as any).aliases ?? {})) {
+          if (!Object.hasOwn((cat as any).tags ?? {}, tagName)) {
+            throw new StrictValidationError([`Unknown tag at <categories/${name}/aliases/${tagName}>`]);
+          }
 
-    state.archives = GuildArchives.getGuildInstance(guild.id);
-    state.tags = GuildTags.getGuildInstance(guild.id);
-    state.savedMessages = GuildSavedMessages.getGuildInstance(guild.id);
-    state.logs = new GuildLogs(guild.id);
+          for (const alias of Array.isArray(aliases) ? aliases : []) {
+            if (Object.hasOwn((cat as any).tags, alias)) {
+              throw new StrictValidationError([
+                `Alias ${alias} is already the name of a tag at <categories/${name}/aliases/${tagName}>`,
+              ]);
+            }
+          }
+        }
 
-    state.tagFunctions = {};
-  },
+        for (const [tagName, parameters] of Object.entries((cat as any).parameters ?? {})) {
+          if (!Object.hasOwn((cat as any).tags ?? {}, tagName)) {
+            throw new StrictValidationError([`Unknown tag at <categories/${name}/parameters/${tagName}>`]);
+          }
 
-  afterLoad(pluginData) {
-    const { state } = pluginData;
+          try {
+            parseTagParameters(String(parameters));
+          } catch (e) {
+            if (e instanceof TagParameterError) {
+              throw new StrictValidationError([
+                `Invalid parameters at <categories/${name}/parameters/${tagName}>: ${e.message}`,
+              ]);
+            }
 
-    state.onMessageCreateFn = (msg) => onMessageCreate(pluginData, msg);
-    state.savedMessages.events.on("create", state.onMessageCreateFn);
+            throw e;
+          }
+        }
+      }
+    }
 
-    const timeAndDate = pluginData.getPlugin(TimeAndDatePlugin);
+    const config = parseIoTsSchema(ConfigSchema, input);
 
-    const tz = timeAndDate.getGuildTz();
-    state.tagFunctions = {
-      parseDateTime(str) {
-        if (typeof str === "number") {
-          return str; // Unix timestamp
+    // Components are checked after parsing, since they can point to tags in other categories
+    for (const [name, cat] of Object.entries(config.categories)) {
+      for (const [tagName, components] of Object.entries(cat.components ?? {})) {
+        const path = `<categories/${name}/components/${tagName}>`;
+        if (!Object.hasOwn(cat.tags, tagName)) {
+          throw new StrictValidationError([`Unknown tag at ${path}`]);
         }
 
-        if (typeof str !== "string") {
-          return Date.now();
+        if (name.length + tagName.length > MAX_COMPONENT_TAG_NAME_LENGTH) {
+          throw new StrictValidationError([
+            `The category and tag name of a tag with components can be at most ${MAX_COMPONENT_TAG_NAME_LENGTH} characters combined at ${path}`,
+          ]);
         }
 
-        if (!Number.isNaN(Number(str))) {
-          return Number(str); // Unix timestamp as a string
+        if (countTagComponentRows(components) > MAX_COMPONENT_ROWS) {
+          throw new StrictValidationError([
+            `Components don't fit in ${MAX_COMPONENT_ROWS} rows at ${path}. Buttons take up to 5 per row and select menus take a row each.`,
+          ]);
         }
 
-        return moment.tz(str, "YYYY-MM-DD HH:mm:ss", tz).valueOf();
-      },
-
-      countdown(toDate) {
-        const target = moment.utc(this.parseDateTime(toDate), "x");
-
-        const now = moment.utc();
-        if (!target.isValid()) return "";
-
-        const diff = target.diff(now);
-        const result = humanizeDuration(diff, { largest: 2, round: true });
-        return diff >= 0 ? result : `${result} ago`;
-      },
-
-      now() {
-        return Date.now();
-      },
-
-      timeAdd(...args) {
-        if (args.length === 0) return;
-        let reference;
-        let delay;
+        for (const component of components) {
+          if (component.type !== "select" && !component.label && !component.emoji) {
+            throw new StrictValidationError([`Buttons must have a label or an emoji at ${path}`]);
+          }
 
-        for (const [i, arg] of args.entries()) {
-          if (typeof arg === "number") {
-            args[i] = String(arg);
-          } else if (typeof arg !== "string") {
-            args[i] = "";
+          if (
+            component.type === "select" &&
+            (component.options.length === 0 || component.options.length > MAX_SELECT_OPTIONS)
+          ) {
+            throw new StrictValidationError([
+              `Select menus must have between 1 and ${MAX_SELECT_OPTIONS} options at ${path}`,
+            ]);
           }
-        }
 
-        if (args.length >= 2) {
-          // (time, delay)
-          reference = this.parseDateTime(args[0]);
-          delay = args[1];
-        } else {
-          // (delay), implicit "now" as time
-          reference = Date.now();
-          delay = args[0];
+          const targets =
+            component.type === "select"
+              ? component.options.map((option) => option.tag)
+              : component.type === "button"
+              ? [component.tag]
+              : [];
+          for (const target of targets) {
+            if (!findComponentTargetTag(config.categories, name, target)) {
+              throw new StrictValidationError([`Unknown tag ${target} at ${path}`]);
+            }
+          }
         }
+      }
+    }
 
-        const delayMS = convertDelayStringToMS(delay) ?? 0;
-        return moment.utc(reference, "x").add(delayMS).valueOf();
-      },
-
-      timeSub(...args) {
-        if (args.length === 0) return;
-        let reference;
-        let delay;
+    return config;
+  },
 
-        for (const [i, arg] of args.entries()) {
-          if (typeof arg === "number") {
-            args[i] = String(arg);
-          } else if (typeof arg !== "string") {
-            args[i] = "";
-          }
-        }
+  beforeLoad(pluginData) {
+    const { state, guild } = pluginData;
 
-        if (args.length >= 2) {
-          // (time, delay)
-          reference = this.parseDateTime(args[0]);
-          delay = args[1];
-        } else {
-          // (delay), implicit "now" as time
-          reference = Date.now();
-          delay = args[0];
-        }
+    state.archives = GuildArchives.getGuildInstance(guild.id);
+    state.tags = GuildTags.getGuildInstance(guild.id);
+    state.tagUses = GuildTagUses.getGuildInstance(guild.id);
+    state.savedMessages = GuildSavedMessages.getGuildInstance(guild.id);
+    state.logs = new GuildLogs(guild.id);
 
-        const delayMS = convertDelayStringToMS(delay) ?? 0;
-        return moment.utc(reference, "x").subtract(delayMS).valueOf();
-      },
+    state.tagFunctions = {};
+  },
 
-      timeAgo(delay) {
-        return this.timeSub(delay);
-      },
+  afterLoad(pluginData) {
+    const { state } = pluginData;
 
-      formatTime(time, format) {
-        const parsed = this.parseDateTime(time);
-        return timeAndDate.inGuildTz(parsed).format(format);
-      },
+    state.onMessageCreateFn = (msg) => onMessageCreate(pluginData, msg);
+    state.savedMessages.events.on("create", state.onMessageCreateFn);
 
-      discordDateFormat(time) {
-        const parsed = time ? this.parseDateTime(time) : Date.now();
+    const timeAndDate = pluginData.getPlugin(TimeAndDatePlugin);
 
-        return timeAndDate.inGuildTz(parsed).format("YYYY-MM-DD");
-      },
+    state.tagFunctions = {
+      ...timeAndDate.getDateTemplateFunctions(),
 
       mention: (input) => {
         if (typeof input !== "string") {
@@ -0,0 +1,46 @@
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { tagsCmd } from "../types";
+
+export const TagAliasCmd = tagsCmd({
+  trigger: "tag alias",
+  permission: "can_create",
+
+  signature: {
+    tag: ct.string(),
+    alias: ct.string(),
+  },
+
+  async run({ message: msg, args, pluginData }) {
+    const tag = await pluginData.state.tags.findByNameOrAlias(args.tag);
+    if (!tag) {
+      sendErrorMessage(pluginData, msg.channel, "No tag with that name");
+      return;
+    }
+
+    if (args.alias.length > 64) {
+      sendErrorMessage(pluginData, msg.channel, "Aliases can be at most 64 characters long");
+      return;
+    }
+
+    if (await pluginData.state.tags.find(args.alias)) {
+      sendErrorMessage(pluginData, msg.channel, `There is already a tag called **${args.alias}**`);
+      return;
+    }
+
+    const existingAlias = await pluginData.state.tags.findAlias(args.alias);
+    if (existingAlias) {
+      sendErrorMessage(pluginData, msg.channel, `**${args.alias}** is already an alias of **${existingAlias.tag}**`);
+      return;
+    }
+
+    await pluginData.state.tags.addAlias(args.alias, tag.tag, msg.author.id);
+
+    const prefix = pluginData.config.get().prefix;
+    sendSuccessMessage(
+      pluginData,
+      msg.channel,
+      `Alias added! \`${prefix}${args.alias}\` now shows the tag **${tag.tag}**`,
+    );
+  },
+});
@@ -0,0 +1,23 @@
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { tagsCmd } from "../types";
+
+export const TagAliasDeleteCmd = tagsCmd({
+  trigger: "tag alias delete",
+  permission: "can_create",
+
+  signature: {
+    alias: ct.string(),
+  },
+
+  async run({ message: msg, args, pluginData }) {
+    const alias = await pluginData.state.tags.findAlias(args.alias);
+    if (!alias) {
+      sendErrorMessage(pluginData, msg.channel, "No alias with that name");
+      return;
+    }
+
+    await pluginData.state.tags.deleteAlias(args.alias);
+    sendSuccessMessage(pluginData, msg.channel, `Alias deleted from **${alias.tag}**`);
+  },
+});
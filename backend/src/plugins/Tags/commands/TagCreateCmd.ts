@@ -24,6 +24,12 @@ export const TagCreateCmd = tagsCmd({
       }
     }
 
+    const alias = await pluginData.state.tags.findAlias(args.tag);
+    if (alias) {
+      sendErrorMessage(pluginData, msg.channel, `**${args.tag}** is an alias of **${alias.tag}**`);
+      return;
+    }
+
     await pluginData.state.tags.createOrUpdate(args.tag, args.body, msg.author.id);
 
     const prefix = pluginData.config.get().prefix;
@@ -0,0 +1,48 @@
+import moment from "moment-timezone";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { getBaseUrl, sendErrorMessage } from "../../../pluginUtils";
+import { createUnifiedDiff } from "../../../utils/createUnifiedDiff";
+import { tagsCmd } from "../types";
+
+// Longer diffs are posted as an archive instead
+const maxInlineDiffLength = 1900;
+
+export const TagDiffCmd = tagsCmd({
+  trigger: "tag diff",
+  permission: "can_create",
+
+  signature: {
+    tag: ct.string(),
+    from: ct.number(),
+    to: ct.number(),
+  },
+
+  async run({ message: msg, args, pluginData }) {
+    const fromRevision = await pluginData.state.tags.findRevision(args.tag, args.from);
+    const toRevision = await pluginData.state.tags.findRevision(args.tag, args.to);
+    if (!fromRevision || !toRevision) {
+      sendErrorMessage(pluginData, msg.channel, "Unknown tag revision");
+      return;
+    }
+
+    const diff = createUnifiedDiff(
+      fromRevision.body,
+      toRevision.body,
+      `revision ${fromRevision.revision}`,
+      `revision ${toRevision.revision}`,
+    );
+    if (diff === "") {
+      msg.channel.send("No differences between the revisions");
+      return;
+    }
+
+    if (diff.length <= maxInlineDiffLength && !diff.includes("```")) {
+      msg.channel.send({ content: `\`\`\`diff\n${diff}\`\`\``, allowedMentions: {} });
+      return;
+    }
+
+    const archiveId = await pluginData.state.archives.create(diff, moment.utc().add(10, "minutes"));
+    const url = pluginData.state.archives.getUrl(getBaseUrl(pluginData), archiveId);
+    msg.channel.send(`Tag diff:\n${url}`);
+  },
+});
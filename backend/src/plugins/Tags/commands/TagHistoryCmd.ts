@@ -0,0 +1,38 @@
+import moment from "moment-timezone";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { DBDateFormat, chunkMessageLines } from "../../../utils";
+import { tagsCmd } from "../types";
+
+const maxRevisionsShown = 25;
+
+export const TagHistoryCmd = tagsCmd({
+  trigger: "tag history",
+  permission: "can_create",
+
+  signature: {
+    tag: ct.string(),
+  },
+
+  async run({ message: msg, args, pluginData }) {
+    const revisions = await pluginData.state.tags.getRevisions(args.tag, maxRevisionsShown);
+    if (revisions.length === 0) {
+      sendErrorMessage(pluginData, msg.channel, "No tag with that name");
+      return;
+    }
+
+    const lines = revisions.map((revision) => {
+      const timestamp = Math.round(moment.utc(revision.created_at, DBDateFormat).valueOf() / 1000);
+      return `**#${revision.revision}** by <@!${revision.user_id}> <t:${timestamp}:R> (${revision.body.length} characters)`;
+    });
+
+    const header =
+      revisions[0].revision > revisions.length
+        ? `Latest ${revisions.length} revisions of **${args.tag}**:`
+        : `Revisions of **${args.tag}**:`;
+
+    for (const chunk of chunkMessageLines([header, ...lines].join("\n"))) {
+      await msg.channel.send({ content: chunk, allowedMentions: {} });
+    }
+  },
+});
@@ -0,0 +1,50 @@
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { tagsCmd } from "../types";
+import { TagParameterError, describeTagParameters } from "../util/tagParameters";
+
+export const TagParamsCmd = tagsCmd({
+  trigger: "tag params",
+  permission: "can_create",
+  description: "Set the parameters of a tag, or remove them by leaving the parameters out",
+  usage: "!tag params warn <target:user> [reason:rest]",
+
+  signature: {
+    tag: ct.string(),
+    parameters: ct.string({ catchAll: true, required: false }),
+  },
+
+  async run({ message: msg, args, pluginData }) {
+    const tag = await pluginData.state.tags.findByNameOrAlias(args.tag);
+    if (!tag) {
+      sendErrorMessage(pluginData, msg.channel, "No tag with that name");
+      return;
+    }
+
+    const parameters = args.parameters?.trim() || null;
+    if (!parameters) {
+      await pluginData.state.tags.setParameters(tag.tag, null);
+      sendSuccessMessage(pluginData, msg.channel, `Parameters removed from **${tag.tag}**`);
+      return;
+    }
+
+    let descriptions: string[];
+    try {
+      descriptions = describeTagParameters(parameters);
+    } catch (e) {
+      if (e instanceof TagParameterError) {
+        sendErrorMessage(pluginData, msg.channel, `Invalid parameters: ${e.message}`);
+        return;
+      }
+
+      throw e;
+    }
+
+    await pluginData.state.tags.setParameters(tag.tag, parameters);
+    sendSuccessMessage(
+      pluginData,
+      msg.channel,
+      `Parameters of **${tag.tag}** set:\n${descriptions.map((d) => `- ${d}`).join("\n")}`,
+    );
+  },
+});
@@ -0,0 +1,29 @@
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
+import { tagsCmd } from "../types";
+
+export const TagRestoreCmd = tagsCmd({
+  trigger: "tag restore",
+  permission: "can_create",
+
+  signature: {
+    tag: ct.string(),
+    revision: ct.number(),
+  },
+
+  async run({ message: msg, args, pluginData }) {
+    const revision = await pluginData.state.tags.findRevision(args.tag, args.revision);
+    if (!revision) {
+      sendErrorMessage(pluginData, msg.channel, "Unknown tag revision");
+      return;
+    }
+
+    // Restoring saves the old body as a new revision, so the restore itself can be undone
+    const newRevision = await pluginData.state.tags.createOrUpdate(args.tag, revision.body, msg.author.id);
+    sendSuccessMessage(
+      pluginData,
+      msg.channel,
+      `Tag **${args.tag}** restored to revision #${revision.revision} (saved as revision #${newRevision})`,
+    );
+  },
+});
@@ -0,0 +1,99 @@
+import { escapeInlineCode } from "discord.js";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { createChunkedMessage } from "../../../utils";
+import { getFuzzyMatchScore } from "../../../utils/fuzzyMatch";
+import { tagsCmd } from "../types";
+
+const maxResults = 15;
+
+// Body matches rank below name substring matches, but above loose name matches
+const bodyMatchScore = 0.5;
+
+// Alias matches rank slightly below equally good name matches
+const aliasScoreMultiplier = 0.95;
+
+interface SearchableTag {
+  invokeName: string;
+  name: string;
+  aliases: string[];
+  body: string;
+}
+
+export const TagSearchCmd = tagsCmd({
+  trigger: "tag search",
+  permission: "can_list",
+
+  signature: {
+    query: ct.string({ catchAll: true }),
+  },
+
+  async run({ message: msg, args, pluginData }) {
+    const config = await pluginData.config.getForMessage(msg);
+    const searchableTags: SearchableTag[] = [];
+
+    for (const category of Object.values(config.categories)) {
+      const canUse = category.can_use != null ? category.can_use : config.can_use;
+      if (canUse !== true) continue;
+
+      const prefix = category.prefix != null ? category.prefix : config.prefix;
+      for (const [tagName, tagBody] of Object.entries(category.tags)) {
+        searchableTags.push({
+          invokeName: `${prefix}${tagName}`,
+          name: tagName,
+          aliases: category.aliases?.[tagName] ?? [],
+          body: typeof tagBody === "string" ? tagBody : JSON.stringify(tagBody),
+        });
+      }
+    }
+
+    const [tags, aliases] = await Promise.all([pluginData.state.tags.all(), pluginData.state.tags.getAliases()]);
+    for (const tag of tags) {
+      searchableTags.push({
+        invokeName: `${config.prefix}${tag.tag}`,
+        name: tag.tag,
+        aliases: aliases.filter((alias) => alias.tag === tag.tag).map((alias) => alias.alias),
+        body: tag.body,
+      });
+    }
+
+    const query = args.query.trim();
+    const lowercaseQuery = query.toLowerCase();
+    const results = searchableTags
+      .map((tag) => {
+        const nameScore = getFuzzyMatchScore(query, tag.name);
+        let bestAlias: string | null = null;
+        let aliasScore = 0;
+        for (const alias of tag.aliases) {
+          const score = getFuzzyMatchScore(query, alias) * aliasScoreMultiplier;
+          if (score > aliasScore) {
+            bestAlias = alias;
+            aliasScore = score;
+          }
+        }
+        const matchesBody = tag.body.toLowerCase().includes(lowercaseQuery);
+
+        const score = Math.max(nameScore, aliasScore, matchesBody ? bodyMatchScore : 0);
+        const reason =
+          score === nameScore ? null : score === aliasScore ? `alias \`${escapeInlineCode(bestAlias!)}\`` : "body";
+        return { tag, score, reason };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.tag.invokeName.localeCompare(b.tag.invokeName));
+
+    if (results.length === 0) {
+      msg.channel.send("No tags matched the search");
+      return;
+    }
+
+    const lines = results.slice(0, maxResults).map((result) => {
+      const invokeName = `\`${escapeInlineCode(result.tag.invokeName)}\``;
+      return result.reason ? `${invokeName} (matched ${result.reason})` : invokeName;
+    });
+    const header =
+      results.length > maxResults
+        ? `Showing ${maxResults} of ${results.length} matching tags:`
+        : `${results.length} matching ${results.length === 1 ? "tag" : "tags"}:`;
+
+    createChunkedMessage(msg.channel, [header, ...lines].join("\n"), {});
+  },
+});
@@ -1,7 +1,9 @@
+import { escapeInlineCode } from "discord.js";
 import moment from "moment-timezone";
 import { commandTypeHelpers as ct } from "../../../commandTypes";
 import { getBaseUrl, sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
 import { tagsCmd } from "../types";
+import { TagParameterError, describeTagParameters } from "../util/tagParameters";
 
 export const TagSourceCmd = tagsCmd({
   trigger: "tag",
@@ -26,7 +28,7 @@ export const TagSourceCmd = tagsCmd({
       return;
     }
 
-    const tag = await pluginData.state.tags.find(args.tag);
+    const tag = await pluginData.state.tags.findByNameOrAlias(args.tag);
     if (!tag) {
       sendErrorMessage(pluginData, msg.channel, "No tag with that name");
       return;
@@ -35,6 +37,25 @@ export const TagSourceCmd = tagsCmd({
     const archiveId = await pluginData.state.archives.create(tag.body, moment.utc().add(10, "minutes"));
     const url = pluginData.state.archives.getUrl(getBaseUrl(pluginData), archiveId);
 
+    if (tag.parameters) {
+      // Parameters are validated when they're set, but the available types may have changed since
+      let parameterLines: string[];
+      try {
+        parameterLines = describeTagParameters(tag.parameters).map((description) => `- ${description}`);
+      } catch (e) {
+        if (!(e instanceof TagParameterError)) throw e;
+        parameterLines = [`Invalid parameters: ${e.message}`];
+      }
+
+      msg.channel.send({
+        content: `Tag source:\n${url}\n\nParameters: \`${escapeInlineCode(tag.parameters)}\`\n${parameterLines.join(
+          "\n",
+        )}`,
+        allowedMentions: {},
+      });
+      return;
+    }
+
     msg.channel.send(`Tag source:\n${url}`);
   },
 });
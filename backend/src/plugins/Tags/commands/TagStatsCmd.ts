@@ -0,0 +1,90 @@
+import humanizeDuration from "humanize-duration";
+import moment from "moment-timezone";
+import { commandTypeHelpers as ct } from "../../../commandTypes";
+import { TAG_USE_RETENTION_PERIOD } from "../../../data/cleanup/tagUses";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { DBDateFormat, chunkMessageLines } from "../../../utils";
+import { tagsCmd } from "../types";
+import { resolveCategoryTagName } from "../util/resolveCategoryTagName";
+
+const topTagCount = 10;
+const topValueCount = 5;
+
+const pluralizeUses = (count: number) => `${count} ${count === 1 ? "use" : "uses"}`;
+const retentionPeriod = humanizeDuration(TAG_USE_RETENTION_PERIOD);
+
+export const TagStatsCmd = tagsCmd({
+  trigger: "tag stats",
+  permission: "can_create",
+
+  signature: {
+    tag: ct.string({ required: false }),
+  },
+
+  async run({ message: msg, args, pluginData }) {
+    let lines: string[];
+    if (args.tag) {
+      // Tags from config categories are tracked as "category.tag"
+      let tagName: string | null = null;
+      const categorySeparatorIndex = args.tag.indexOf(".");
+      const config = await pluginData.config.getForMessage(msg);
+      if (categorySeparatorIndex > 0) {
+        const categoryName = args.tag.slice(0, categorySeparatorIndex);
+        const category = Object.hasOwn(config.categories, categoryName) ? config.categories[categoryName] : null;
+        const categoryTagName = category
+          ? resolveCategoryTagName(category, args.tag.slice(categorySeparatorIndex + 1))
+          : null;
+        tagName = categoryTagName != null ? `${categoryName}.${categoryTagName}` : null;
+      } else {
+        tagName = (await pluginData.state.tags.findByNameOrAlias(args.tag))?.tag ?? null;
+      }
+
+      if (tagName == null) {
+        sendErrorMessage(pluginData, msg.channel, "No tag with that name");
+        return;
+      }
+
+      const usage = await pluginData.state.tagUses.getUsageForTag(tagName);
+      if (usage.count === 0) {
+        msg.channel.send({
+          content: `Tag **${tagName}** hasn't been used in the last ${retentionPeriod}`,
+          allowedMentions: {},
+        });
+        return;
+      }
+
+      const [users, channels] = await Promise.all([
+        pluginData.state.tagUses.getTopValuesForTag(tagName, "user_id", topValueCount),
+        pluginData.state.tagUses.getTopValuesForTag(tagName, "channel_id", topValueCount),
+      ]);
+
+      const lastUsed = Math.round(moment.utc(usage.last_used_at, DBDateFormat).valueOf() / 1000);
+      lines = [
+        `Tag **${tagName}** has ${pluralizeUses(
+          usage.count,
+        )} in the last ${retentionPeriod}, last used <t:${lastUsed}:R>`,
+      ];
+      lines.push(
+        "",
+        "**Top users:**",
+        ...users.map((u) => `<@!${u.value}> (\`${u.value}\`): ${pluralizeUses(u.count)}`),
+      );
+      lines.push("", "**Top channels:**", ...channels.map((c) => `<#${c.value}>: ${pluralizeUses(c.count)}`));
+    } else {
+      const mostUsed = await pluginData.state.tagUses.getMostUsed(topTagCount);
+      if (mostUsed.length === 0) {
+        msg.channel.send(`No tags have been used in the last ${retentionPeriod}`);
+        return;
+      }
+
+      lines = [
+        `Most used tags in the last ${retentionPeriod}:`,
+        ...mostUsed.map((t) => `**${t.tag}**: ${pluralizeUses(t.count)}`),
+      ];
+    }
+
+    for (const chunk of chunkMessageLines(lines.join("\n"))) {
+      await msg.channel.send({ content: chunk, allowedMentions: {} });
+    }
+  },
+});
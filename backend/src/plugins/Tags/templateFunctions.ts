@@ -163,4 +163,147 @@ export const TemplateFunctions: TemplateFunction[] = [
     arguments: ["argument1", "argument2", "..."],
     examples: ['choose("Hello", "World", "!")'],
   },
+  {
+    name: "let",
+    description:
+      "Sets a variable that can be used in the rest of the template. Variables set inside each() only exist inside the loop.",
+    returnValue: "string",
+    arguments: ["name", "value"],
+    examples: ['let("name", upperFirst(user.username))'],
+  },
+  {
+    name: "each",
+    description:
+      "Renders the body once for each item in an array, with the item available as a variable. The separator is added between items.",
+    returnValue: "string",
+    arguments: ["array", "name", "body", "separator"],
+    examples: ['each(split("a,b,c", ","), "letter", upper(letter), ", ")'],
+  },
+  {
+    name: "replace",
+    description: "Replaces every occurrence of search in a string",
+    returnValue: "string",
+    arguments: ["string", "search", "replacement"],
+    examples: ['replace("Hello World", "o", "0")'],
+  },
+  {
+    name: "split",
+    description: "Splits a string into an array",
+    returnValue: "array",
+    arguments: ["string", "separator"],
+    examples: ['split("a,b,c", ",")'],
+  },
+  {
+    name: "trim",
+    description: "Removes whitespace from both ends of a string",
+    returnValue: "string",
+    arguments: ["string"],
+    examples: ['trim("  Hello  ")'],
+  },
+  {
+    name: "padStart",
+    description: "Pads the start of a string with fill until it's the given length",
+    returnValue: "string",
+    arguments: ["string", "length", "fill"],
+    examples: ['padStart(5, 3, "0")'],
+  },
+  {
+    name: "padEnd",
+    description: "Pads the end of a string with fill until it's the given length",
+    returnValue: "string",
+    arguments: ["string", "length", "fill"],
+    examples: ['padEnd("Name", 10, ".")'],
+  },
+  {
+    name: "formatNumber",
+    description: "Formats a number with thousands separators and an optional number of decimals",
+    returnValue: "string",
+    arguments: ["number", "decimals"],
+    examples: ["formatNumber(1234567.891, 2)"],
+  },
+  {
+    name: "count",
+    description: "Returns the number of items in an array or characters in a string",
+    returnValue: "number",
+    arguments: ["arrayOrString"],
+    examples: ['count(split("a,b,c", ","))'],
+  },
+  {
+    name: "range",
+    description: "Returns an array of the numbers from start to end. With one argument, the numbers from 1 to end.",
+    returnValue: "array",
+    arguments: ["start", "end"],
+    examples: ["range(1, 5)"],
+  },
+  {
+    name: "now",
+    description: "Returns the current time as a Unix timestamp in milliseconds",
+    returnValue: "number",
+    arguments: [],
+    examples: ["now()"],
+  },
+  {
+    name: "parseDateTime",
+    description: 'Parses a "YYYY-MM-DD HH:mm:ss" date in the server\'s timezone into a Unix timestamp in milliseconds',
+    returnValue: "number",
+    arguments: ["date"],
+    examples: ['parseDateTime("2024-01-01 12:00:00")'],
+  },
+  {
+    name: "formatTime",
+    description: "Formats a date in the server's timezone. See moment.js for the format tokens.",
+    returnValue: "string",
+    arguments: ["date", "format"],
+    examples: ['formatTime(now(), "YYYY-MM-DD HH:mm")'],
+  },
+  {
+    name: "discordDateFormat",
+    description: "Formats a date as YYYY-MM-DD in the server's timezone. Defaults to the current time.",
+    returnValue: "string",
+    arguments: ["date"],
+    examples: ["discordDateFormat(user.createdAt)"],
+  },
+  {
+    name: "timeAdd",
+    description: "Adds a duration to a date. Without a date, the duration is added to the current time.",
+    returnValue: "number",
+    arguments: ["date", "duration"],
+    examples: ['timeAdd(now(), "1d")', 'timeAdd("2h")'],
+  },
+  {
+    name: "timeSub",
+    description: "Subtracts a duration from a date. Without a date, the duration is subtracted from the current time.",
+    returnValue: "number",
+    arguments: ["date", "duration"],
+    examples: ['timeSub(now(), "1w")'],
+  },
+  {
+    name: "timeAgo",
+    description: "Returns the time the given duration ago",
+    returnValue: "number",
+    arguments: ["duration"],
+    examples: ['timeAgo("1h")'],
+  },
+  {
+    name: "timeDiff",
+    description:
+      "Returns the time from the first date to the second in milliseconds, seconds, minutes, hours, days, weeks, months or years",
+    returnValue: "number",
+    arguments: ["date1", "date2", "unit"],
+    examples: ['timeDiff(user.createdAt, now(), "days")'],
+  },
+  {
+    name: "countdown",
+    description: 'Returns the time until a date in words, e.g. "2 days, 3 hours"',
+    returnValue: "string",
+    arguments: ["date"],
+    examples: ['countdown("2030-01-01 00:00:00")'],
+  },
+  {
+    name: "formatDuration",
+    description: "Returns a duration in milliseconds, or a duration string like 1h30m, in words",
+    returnValue: "string",
+    arguments: ["duration"],
+    examples: ["formatDuration(timeDiff(user.createdAt, now()))", 'formatDuration("90m")'],
+  },
 ];
@@ -3,12 +3,52 @@ import { BasePluginType, guildPluginEventListener, guildPluginMessageCommand } f
 import { GuildArchives } from "../../data/GuildArchives";
 import { GuildLogs } from "../../data/GuildLogs";
 import { GuildSavedMessages } from "../../data/GuildSavedMessages";
+import { GuildTagUses } from "../../data/GuildTagUses";
 import { GuildTags } from "../../data/GuildTags";
 import { tEmbed, tNullable } from "../../utils";
 
 export const Tag = t.union([t.string, tEmbed]);
 export type TTag = t.TypeOf<typeof Tag>;
 
+const TagButtonStyle = t.union([
+  t.literal("primary"),
+  t.literal("secondary"),
+  t.literal("success"),
+  t.literal("danger"),
+]);
+
+// Components point to another tag in the same category by name, or in another category as "category.tag"
+export const TagComponent = t.union([
+  // Replies to the user with another tag
+  t.type({
+    type: t.literal("button"),
+    label: tNullable(t.string),
+    emoji: tNullable(t.string),
+    style: tNullable(TagButtonStyle),
+    tag: t.string,
+  }),
+  t.type({
+    type: t.literal("link"),
+    label: tNullable(t.string),
+    emoji: tNullable(t.string),
+    url: t.string,
+  }),
+  // Swaps the tag response to the chosen tag
+  t.type({
+    type: t.literal("select"),
+    placeholder: tNullable(t.string),
+    options: t.array(
+      t.type({
+        label: t.string,
+        description: tNullable(t.string),
+        emoji: tNullable(t.string),
+        tag: t.string,
+      }),
+    ),
+  }),
+]);
+export type TTagComponent = t.TypeOf<typeof TagComponent>;
+
 export const TagCategory = t.type({
   prefix: tNullable(t.string),
   delete_with_command: tNullable(t.boolean),
@@ -21,6 +61,9 @@ export const TagCategory = t.type({
   auto_delete_command: tNullable(t.boolean), // Any tag, per tag category
 
   tags: t.record(t.string, Tag),
+  aliases: tNullable(t.record(t.string, t.array(t.string))), // Tag name -> aliases
+  parameters: tNullable(t.record(t.string, t.string)), // Tag name -> parameters, e.g. "<target:user> [amount:number=5]"
+  components: tNullable(t.record(t.string, t.array(TagComponent))), // Tag name -> buttons and select menus
 
   can_use: tNullable(t.boolean),
 });
@@ -36,6 +79,7 @@ export const ConfigSchema = t.type({
   allow_mentions: t.boolean, // Per user
   global_cooldown: tNullable(t.union([t.string, t.number])), // Any tag use
   auto_delete_command: t.boolean, // Any tag
+  suggest_similar_tags: t.boolean, // Reply with a similar tag when a dynamic tag isn't found
 
   categories: t.record(t.string, TagCategory),
 
@@ -50,6 +94,7 @@ export interface TagsPluginType extends BasePluginType {
   state: {
     archives: GuildArchives;
     tags: GuildTags;
+    tagUses: GuildTagUses;
     savedMessages: GuildSavedMessages;
     logs: GuildLogs;
 
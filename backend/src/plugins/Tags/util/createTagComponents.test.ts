@@ -0,0 +1,29 @@
+import test from "ava";
+import { TTagComponent } from "../types";
+import { countTagComponentRows, createTagComponents } from "./createTagComponents";
+
+const button = { type: "button", tag: "other" } as TTagComponent;
+const link = { type: "link", url: "https://zeppelin.gg" } as TTagComponent;
+const select = { type: "select", options: [{ label: "Other", tag: "other" }] } as TTagComponent;
+
+test("countTagComponentRows() places up to 5 buttons in a row", (t) => {
+  t.is(countTagComponentRows([]), 0);
+  t.is(countTagComponentRows([button, link, button, button, button]), 1);
+  t.is(countTagComponentRows([button, link, button, button, button, button]), 2);
+});
+
+test("countTagComponentRows() gives each select menu its own row", (t) => {
+  t.is(countTagComponentRows([select, select]), 2);
+  t.is(countTagComponentRows([button, select, button]), 3);
+});
+
+test("countTagComponentRows() matches the rows createTagComponents() creates", (t) => {
+  const componentLists = [
+    [button, button, select, link],
+    [select, button, button, button, button, button, button],
+    [button, link, button, button, button, select, select],
+  ];
+  for (const components of componentLists) {
+    t.is(countTagComponentRows(components), createTagComponents("category", "tag", components, "1234").length);
+  }
+});
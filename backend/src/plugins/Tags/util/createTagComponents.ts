@@ -0,0 +1,99 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  MessageActionRowComponentBuilder,
+  StringSelectMenuBuilder,
+} from "discord.js";
+import { buildCustomId } from "../../../utils/buildCustomId";
+import { TTagComponent } from "../types";
+
+const buttonStyles = {
+  primary: ButtonStyle.Primary,
+  secondary: ButtonStyle.Secondary,
+  success: ButtonStyle.Success,
+  danger: ButtonStyle.Danger,
+};
+
+export const MAX_COMPONENT_ROWS = 5;
+export const MAX_BUTTONS_PER_ROW = 5;
+export const MAX_SELECT_OPTIONS = 25;
+
+// Custom IDs are limited to 100 characters, and also contain a timestamp, the component index and the user ID
+export const MAX_COMPONENT_TAG_NAME_LENGTH = 32;
+
+/**
+ * Returns the number of action rows the components take: buttons are placed in rows of up to 5, and each select menu takes a row
+ */
+export function countTagComponentRows(components: TTagComponent[]): number {
+  let rows = 0;
+  let buttonsInRow = MAX_BUTTONS_PER_ROW;
+  for (const component of components) {
+    if (component.type === "select") {
+      rows++;
+      buttonsInRow = MAX_BUTTONS_PER_ROW;
+    } else if (buttonsInRow === MAX_BUTTONS_PER_ROW) {
+      rows++;
+      buttonsInRow = 1;
+    } else {
+      buttonsInRow++;
+    }
+  }
+  return rows;
+}
+
+/**
+ * @param userId - The user the tag was rendered for. Only they can swap the response with the tag's select menus.
+ */
+export function createTagComponents(
+  categoryName: string,
+  tagName: string,
+  components: TTagComponent[],
+  userId: string,
+): Array<ActionRowBuilder<MessageActionRowComponentBuilder>> {
+  const rows: Array<ActionRowBuilder<MessageActionRowComponentBuilder>> = [];
+
+  let currentRow: ActionRowBuilder<MessageActionRowComponentBuilder> | null = null;
+  for (const [index, component] of components.entries()) {
+    const customId = buildCustomId("tags", { c: categoryName, t: tagName, i: index, u: userId });
+
+    if (component.type === "select") {
+      const menu = new StringSelectMenuBuilder().setCustomId(customId).addOptions(
+        component.options.map((option, optionIndex) => ({
+          label: option.label,
+          value: String(optionIndex),
+          ...(option.description ? { description: option.description } : {}),
+          ...(option.emoji ? { emoji: option.emoji } : {}),
+        })),
+      );
+      if (component.placeholder) {
+        menu.setPlaceholder(component.placeholder);
+      }
+
+      rows.push(new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(menu));
+      currentRow = null;
+      continue;
+    }
+
+    const button = new ButtonBuilder();
+    if (component.type === "link") {
+      button.setStyle(ButtonStyle.Link).setURL(component.url);
+    } else {
+      button.setStyle(buttonStyles[component.style ?? "secondary"]).setCustomId(customId);
+    }
+    if (component.label) {
+      button.setLabel(component.label);
+    }
+    if (component.emoji) {
+      button.setEmoji(component.emoji);
+    }
+
+    if (!currentRow || currentRow.components.length === MAX_BUTTONS_PER_ROW) {
+      currentRow = new ActionRowBuilder<MessageActionRowComponentBuilder>();
+      rows.push(currentRow);
+    }
+    currentRow.addComponents(button);
+  }
+
+  return rows;
+}
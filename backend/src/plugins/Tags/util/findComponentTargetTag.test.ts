@@ -0,0 +1,46 @@
+import test from "ava";
+import { TTagCategory } from "../types";
+import { findComponentTargetTag } from "./findComponentTargetTag";
+
+function makeCategory(tags: string[], aliases?: Record<string, string[]>): TTagCategory {
+  return {
+    tags: Object.fromEntries(tags.map((tag) => [tag, `Contents of ${tag}`])),
+    aliases,
+  } as TTagCategory;
+}
+
+const categories = {
+  rules: makeCategory(["rule1", "rule2"], { rule2: ["spam"] }),
+  faq: makeCategory(["appeal"]),
+};
+
+test("findComponentTargetTag() finds tags and aliases in the component's own category", (t) => {
+  t.deepEqual(findComponentTargetTag(categories, "rules", "rule1"), {
+    categoryName: "rules",
+    category: categories.rules,
+    tagName: "rule1",
+  });
+  t.is(findComponentTargetTag(categories, "rules", "spam")?.tagName, "rule2");
+});
+
+test("findComponentTargetTag() finds tags in other categories", (t) => {
+  t.deepEqual(findComponentTargetTag(categories, "rules", "faq.appeal"), {
+    categoryName: "faq",
+    category: categories.faq,
+    tagName: "appeal",
+  });
+  t.is(findComponentTargetTag(categories, "faq", "rules.spam")?.tagName, "rule2");
+});
+
+test("findComponentTargetTag() returns null for unknown tags and categories", (t) => {
+  t.is(findComponentTargetTag(categories, "rules", "rule3"), null);
+  t.is(findComponentTargetTag(categories, "rules", "faq.rule1"), null);
+  t.is(findComponentTargetTag(categories, "rules", "unknown.appeal"), null);
+  t.is(findComponentTargetTag(categories, "unknown", "appeal"), null);
+});
+
+test("findComponentTargetTag() doesn't resolve inherited object properties", (t) => {
+  t.is(findComponentTargetTag(categories, "rules", "constructor"), null);
+  t.is(findComponentTargetTag(categories, "constructor", "rule1"), null);
+  t.is(findComponentTargetTag(categories, "rules", "toString.rule1"), null);
+});
@@ -0,0 +1,42 @@
+import { TTagCategory } from "../types";
+import { resolveCategoryTagName } from "./resolveCategoryTagName";
+
+interface ComponentTargetTag {
+  categoryName: string;
+  category: TTagCategory;
+  tagName: string;
+}
+
+/**
+ * Finds the tag a component points to: a tag (or alias) in the component's own category,
+ * or "category.tag" for a tag in another category
+ */
+export function findComponentTargetTag(
+  categories: Record<string, TTagCategory>,
+  categoryName: string,
+  name: string,
+): ComponentTargetTag | null {
+  if (Object.hasOwn(categories, categoryName)) {
+    const category = categories[categoryName];
+    const tagName = resolveCategoryTagName(category, name);
+    if (tagName != null) {
+      return { categoryName, category, tagName };
+    }
+  }
+
+  const categorySeparatorIndex = name.indexOf(".");
+  if (categorySeparatorIndex > 0) {
+    const targetCategoryName = name.slice(0, categorySeparatorIndex);
+    if (!Object.hasOwn(categories, targetCategoryName)) {
+      return null;
+    }
+
+    const category = categories[targetCategoryName];
+    const tagName = resolveCategoryTagName(category, name.slice(categorySeparatorIndex + 1));
+    if (tagName != null) {
+      return { categoryName: targetCategoryName, category, tagName };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+import { GuildMember } from "discord.js";
+import { ExtendedMatchParams, GuildPluginData } from "knub";
+import { findClosestMatch } from "../../../utils/fuzzyMatch";
+import { TagsPluginType } from "../types";
+
+/**
+ * Finds a tag whose name or alias is close to the one invoked in the string, for "did you mean" replies.
+ * Returns null if nothing similar is found, or if the invoked name is an actual tag (e.g. one that failed to render).
+ * @return - The similar tag with its prefix, e.g. "!!rules"
+ */
+export async function findSimilarTag(
+  pluginData: GuildPluginData<TagsPluginType>,
+  str: string,
+  member: GuildMember,
+  extraMatchParams: ExtendedMatchParams = {},
+): Promise<string | null> {
+  const config = await pluginData.config.getMatchingConfig({
+    ...extraMatchParams,
+    member,
+  });
+
+  // Tags that can be invoked by the string, grouped by prefix. Empty prefixes would match any message, so they're skipped.
+  const candidateGroups: Array<{ prefix: string; names: string[] }> = [];
+  for (const category of Object.values(config.categories)) {
+    const canUse = category.can_use != null ? category.can_use : config.can_use;
+    const prefix = category.prefix != null ? category.prefix : config.prefix;
+    if (canUse !== true || prefix === "" || !str.startsWith(prefix)) continue;
+
+    candidateGroups.push({
+      prefix,
+      names: [...Object.keys(category.tags), ...Object.values(category.aliases ?? {}).flat()],
+    });
+  }
+
+  if (config.can_use === true && config.prefix !== "" && str.startsWith(config.prefix)) {
+    const [tags, aliases] = await Promise.all([pluginData.state.tags.all(), pluginData.state.tags.getAliases()]);
+    candidateGroups.push({
+      prefix: config.prefix,
+      names: [...tags.map((tag) => tag.tag), ...aliases.map((alias) => alias.alias)],
+    });
+  }
+
+  const matches: Array<{ invokedName: string; prefix: string; names: string[] }> = [];
+  for (const group of candidateGroups) {
+    const invokedName = str.slice(group.prefix.length).match(/^\S+/)?.[0];
+    if (!invokedName) continue;
+
+    if (group.names.some((name) => name.toLowerCase() === invokedName.toLowerCase())) {
+      return null;
+    }
+
+    matches.push({ invokedName, ...group });
+  }
+
+  for (const { invokedName, prefix, names } of matches) {
+    const closest = findClosestMatch(invokedName, names);
+    if (closest) {
+      return `${prefix}${closest}`;
+    }
+  }
+
+  return null;
+}
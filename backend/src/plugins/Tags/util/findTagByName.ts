@@ -1,6 +1,7 @@
 import * as t from "io-ts";
 import { ExtendedMatchParams, GuildPluginData } from "knub";
 import { Tag, TagsPluginType } from "../types";
+import { resolveCategoryTagName } from "./resolveCategoryTagName";
 
 export async function findTagByName(
   pluginData: GuildPluginData<TagsPluginType>,
@@ -19,8 +20,8 @@ export async function findTagByName(
     }
     const category = config.categories[categoryName];
 
-    const tagName = name.slice(categorySeparatorIndex + 1);
-    if (!Object.hasOwn(category.tags, tagName)) {
+    const tagName = resolveCategoryTagName(category, name.slice(categorySeparatorIndex + 1));
+    if (tagName == null) {
       return null;
     }
     return category.tags[tagName];
@@ -28,6 +29,6 @@ export async function findTagByName(
 
   // Dynamic tag
   // Format: "tag"
-  const dynamicTag = await pluginData.state.tags.find(name);
+  const dynamicTag = await pluginData.state.tags.findByNameOrAlias(name);
   return dynamicTag?.body ?? null;
 }
@@ -0,0 +1,152 @@
+import { ButtonInteraction, StringSelectMenuInteraction } from "discord.js";
+import { GuildPluginData } from "knub";
+import { TemplateParseError, TemplateSafeValueContainer } from "../../../templateFormatter";
+import { SECONDS, StrictMessageContent, validateAndParseMessageContent } from "../../../utils";
+import { erisAllowedMentionsToDjsMentionOptions } from "../../../utils/erisAllowedMentionsToDjsMentionOptions";
+import { messageIsEmpty } from "../../../utils/messageIsEmpty";
+import { memberToTemplateSafeMember, userToTemplateSafeUser } from "../../../utils/templateSafeObjects";
+import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { TagsPluginType } from "../types";
+import { createTagComponents } from "./createTagComponents";
+import { findComponentTargetTag } from "./findComponentTargetTag";
+import { renderTagBody } from "./renderTagBody";
+
+const COMPONENT_COOLDOWN = 2 * SECONDS;
+
+export interface TagComponentCustomIdData {
+  // Category and tag the component belongs to
+  c: string;
+  t: string;
+  // Index of the component in the tag's components
+  i: number;
+  // User the tag was rendered for
+  u: string;
+}
+
+/**
+ * Replies with the tag a button points to, or swaps the tag response to the tag chosen from a select menu.
+ * Users other than the one the tag was rendered for get the chosen tag as an ephemeral reply instead.
+ */
+export async function handleTagComponentInteraction(
+  pluginData: GuildPluginData<TagsPluginType>,
+  interaction: ButtonInteraction | StringSelectMenuInteraction,
+  data: TagComponentCustomIdData,
+): Promise<void> {
+  if (!interaction.inCachedGuild() || !interaction.channel) {
+    return;
+  }
+
+  const member = interaction.member;
+  const channel = interaction.channel;
+  const matchParams = {
+    member,
+    channelId: channel.id,
+    categoryId: channel.parentId,
+  };
+  const config = await pluginData.config.getMatchingConfig(matchParams);
+
+  const category = Object.hasOwn(config.categories, data.c) ? config.categories[data.c] : null;
+  const component = category?.components?.[data.t]?.[data.i];
+  // The components may have changed since the message was sent
+  const isSelect = interaction.isStringSelectMenu();
+  if (!category || !component || component.type === "link" || (component.type === "select") !== isSelect) {
+    await interaction.reply({ ephemeral: true, content: "This tag is no longer available" });
+    return;
+  }
+
+  let targetName: string | undefined;
+  if (component.type === "select") {
+    targetName = isSelect ? component.options[Number(interaction.values[0])]?.tag : undefined;
+  } else {
+    targetName = component.tag;
+  }
+  const target = targetName != null ? findComponentTargetTag(config.categories, data.c, targetName) : null;
+  if (!target) {
+    await interaction.reply({ ephemeral: true, content: "This tag is no longer available" });
+    return;
+  }
+
+  // Both the tag with the component and the tag it points to have to be usable
+  const canUse = (category.can_use ?? config.can_use) && (target.category.can_use ?? config.can_use);
+  if (canUse !== true) {
+    await interaction.reply({ ephemeral: true, content: "You don't have permission to use this tag" });
+    return;
+  }
+
+  const cooldownKey = `tags-component-user-${interaction.user.id}`;
+  if (pluginData.cooldowns.isOnCooldown(cooldownKey)) {
+    await interaction.reply({ ephemeral: true, content: "Please wait before using this again" });
+    return;
+  }
+  pluginData.cooldowns.setCooldown(cooldownKey, COMPONENT_COOLDOWN);
+
+  let renderedContent: StrictMessageContent;
+  try {
+    const rendered = await renderTagBody(
+      pluginData,
+      target.category.tags[target.tagName],
+      [],
+      {
+        member: memberToTemplateSafeMember(member),
+        user: userToTemplateSafeUser(member.user),
+        params: new TemplateSafeValueContainer(),
+      },
+      matchParams,
+    );
+    renderedContent = validateAndParseMessageContent(rendered);
+  } catch (e) {
+    if (e instanceof TemplateParseError) {
+      pluginData.getPlugin(LogsPlugin).logBotAlert({
+        body: `Failed to render tag \`${target.categoryName}.${target.tagName}\`: ${e.message}`,
+      });
+      await interaction.reply({ ephemeral: true, content: "This tag could not be shown" });
+      return;
+    }
+
+    throw e;
+  }
+
+  if (messageIsEmpty(renderedContent)) {
+    pluginData.getPlugin(LogsPlugin).logBotAlert({
+      body: `Tag \`${target.categoryName}.${target.tagName}\` resulted in an empty message, so it couldn't be sent`,
+    });
+    await interaction.reply({ ephemeral: true, content: "This tag could not be shown" });
+    return;
+  }
+
+  if (component.type === "select" && interaction.user.id === data.u) {
+    // The select menu stays on the message, so another tag can be chosen
+    const allowMentions = category.allow_mentions ?? config.allow_mentions;
+    await interaction.update({
+      content: renderedContent.content ?? "",
+      embeds: renderedContent.embeds ?? [],
+      allowedMentions: erisAllowedMentionsToDjsMentionOptions({ roles: allowMentions, users: allowMentions }),
+    });
+  } else {
+    // Select menus are copied to the ephemeral reply so other users can browse the tags as well.
+    // Buttons reply with the target tag's own components instead, so tags can link to further tags.
+    const components =
+      component.type === "select"
+        ? createTagComponents(data.c, data.t, category.components![data.t], interaction.user.id)
+        : createTagComponents(
+            target.categoryName,
+            target.tagName,
+            target.category.components?.[target.tagName] ?? [],
+            interaction.user.id,
+          );
+
+    await interaction.reply({
+      ...renderedContent,
+      components,
+      ephemeral: true,
+      allowedMentions: {},
+    });
+  }
+
+  // Recorded after responding, since interactions have to be responded to within 3 seconds
+  await pluginData.state.tagUses.add({
+    tag: `${target.categoryName}.${target.tagName}`,
+    user_id: interaction.user.id,
+    channel_id: channel.id,
+  });
+}
@@ -1,4 +1,4 @@
-import { GuildMember } from "discord.js";
+import { GuildMember, GuildTextBasedChannel } from "discord.js";
 import escapeStringRegexp from "escape-string-regexp";
 import { ExtendedMatchParams, GuildPluginData } from "knub";
 import { StrictMessageContent } from "../../../utils";
@@ -22,10 +22,14 @@ type ResultWithoutCategory = BaseResult & {
 
 type Result = ResultWithCategory | ResultWithoutCategory;
 
+/**
+ * @throws TagUsageError - If the matched tag has parameters and the arguments in the string don't match them
+ */
 export async function matchAndRenderTagFromString(
   pluginData: GuildPluginData<TagsPluginType>,
   str: string,
   member: GuildMember,
+  channel: GuildTextBasedChannel,
   extraMatchParams: ExtendedMatchParams = {},
 ): Promise<Result | null> {
   const config = await pluginData.config.getMatchingConfig({
@@ -43,10 +47,29 @@ export async function matchAndRenderTagFromString(
 
     const withoutPrefix = str.slice(prefix.length);
 
-    for (const [tagName, tagBody] of Object.entries(category.tags)) {
-      const regex = new RegExp(`^${escapeStringRegexp(tagName)}(?:\\s|$)`);
+    // [invoked name, tag name] pairs, so tags can also be invoked by their aliases
+    const invokableNames = [
+      ...Object.keys(category.tags).map((tagName) => [tagName, tagName]),
+      ...Object.entries(category.aliases ?? {}).flatMap(([tagName, aliases]) =>
+        aliases.map((alias) => [alias, tagName]),
+      ),
+    ];
+
+    for (const [invokedName, tagName] of invokableNames) {
+      if (!Object.hasOwn(category.tags, tagName)) continue;
+
+      const regex = new RegExp(`^${escapeStringRegexp(invokedName)}(?:\\s|$)`);
       if (regex.test(withoutPrefix)) {
-        const renderedContent = await renderTagFromString(pluginData, str, prefix, tagName, tagBody, member);
+        const renderedContent = await renderTagFromString(
+          pluginData,
+          str,
+          prefix,
+          invokedName,
+          category.tags[tagName],
+          member,
+          channel,
+          category.parameters?.[tagName] ?? null,
+        );
 
         if (renderedContent == null) {
           return null;
@@ -78,7 +101,7 @@ export async function matchAndRenderTagFromString(
   }
 
   const dynamicTagName = dynamicTagNameMatch[0];
-  const dynamicTag = await pluginData.state.tags.find(dynamicTagName);
+  const dynamicTag = await pluginData.state.tags.findByNameOrAlias(dynamicTagName);
   if (!dynamicTag) {
     return null;
   }
@@ -90,6 +113,8 @@ export async function matchAndRenderTagFromString(
     dynamicTagName,
     dynamicTag.body,
     member,
+    channel,
+    dynamicTag.parameters,
   );
 
   if (renderedDynamicTagContent == null) {
@@ -98,7 +123,7 @@ export async function matchAndRenderTagFromString(
 
   return {
     renderedContent: renderedDynamicTagContent,
-    tagName: dynamicTagName,
+    tagName: dynamicTag.tag,
     categoryName: null,
     category: null,
   };
@@ -1,13 +1,20 @@
-import { Snowflake, TextChannel } from "discord.js";
+import { Snowflake, TextChannel, escapeInlineCode } from "discord.js";
 import { GuildPluginData } from "knub";
 import { erisAllowedMentionsToDjsMentionOptions } from "src/utils/erisAllowedMentionsToDjsMentionOptions";
 import { SavedMessage } from "../../../data/entities/SavedMessage";
-import { convertDelayStringToMS, resolveMember, tStrictMessageContent } from "../../../utils";
+import { sendErrorMessage } from "../../../pluginUtils";
+import { SECONDS, convertDelayStringToMS, resolveMember, tStrictMessageContent } from "../../../utils";
 import { messageIsEmpty } from "../../../utils/messageIsEmpty";
 import { validate } from "../../../validatorUtils";
 import { LogsPlugin } from "../../Logs/LogsPlugin";
 import { TagsPluginType } from "../types";
+import { createTagComponents } from "./createTagComponents";
+import { findSimilarTag } from "./findSimilarTag";
 import { matchAndRenderTagFromString } from "./matchAndRenderTagFromString";
+import { TagUsageError } from "./tagParameters";
+
+const SUGGESTION_COOLDOWN = 10 * SECONDS;
+const USAGE_ERROR_COOLDOWN = 10 * SECONDS;
 
 export async function onMessageCreate(pluginData: GuildPluginData<TagsPluginType>, msg: SavedMessage) {
   if (msg.is_bot) return;
@@ -25,12 +32,41 @@ export async function onMessageCreate(pluginData: GuildPluginData<TagsPluginType
     categoryId: channel.parentId,
   });
 
-  const tagResult = await matchAndRenderTagFromString(pluginData, msg.data.content, member, {
-    channelId: msg.channel_id,
-    categoryId: channel.parentId,
-  });
+  let tagResult: Awaited<ReturnType<typeof matchAndRenderTagFromString>>;
+  try {
+    tagResult = await matchAndRenderTagFromString(pluginData, msg.data.content, member, channel, {
+      channelId: msg.channel_id,
+      categoryId: channel.parentId,
+    });
+  } catch (e) {
+    if (e instanceof TagUsageError) {
+      const usageErrorCooldownKey = `tags-usage-error-user-${msg.user_id}`;
+      if (!pluginData.cooldowns.isOnCooldown(usageErrorCooldownKey)) {
+        pluginData.cooldowns.setCooldown(usageErrorCooldownKey, USAGE_ERROR_COOLDOWN);
+        sendErrorMessage(pluginData, channel, `${e.message}\nUsage: \`${escapeInlineCode(e.usage)}\``);
+      }
+      return;
+    }
+
+    throw e;
+  }
 
   if (!tagResult) {
+    const suggestionCooldownKey = `tags-suggestion-user-${msg.user_id}`;
+    if (config.suggest_similar_tags && !pluginData.cooldowns.isOnCooldown(suggestionCooldownKey)) {
+      const similarTag = await findSimilarTag(pluginData, msg.data.content, member, {
+        channelId: msg.channel_id,
+        categoryId: channel.parentId,
+      });
+      if (similarTag) {
+        pluginData.cooldowns.setCooldown(suggestionCooldownKey, SUGGESTION_COOLDOWN);
+        channel.send({
+          content: `Tag not found. Did you mean \`${escapeInlineCode(similarTag)}\`?`,
+          allowedMentions: {},
+        });
+      }
+    }
+
     return;
   }
 
@@ -101,11 +137,27 @@ export async function onMessageCreate(pluginData: GuildPluginData<TagsPluginType
   }
 
   const allowMentions = tagResult.category?.allow_mentions ?? config.allow_mentions;
+  const components =
+    tagResult.categoryName != null
+      ? createTagComponents(
+          tagResult.categoryName,
+          tagResult.tagName,
+          tagResult.category.components?.[tagResult.tagName] ?? [],
+          msg.user_id,
+        )
+      : [];
   const responseMsg = await channel.send({
     ...tagResult.renderedContent,
+    components,
     allowedMentions: erisAllowedMentionsToDjsMentionOptions({ roles: allowMentions, users: allowMentions }),
   });
 
+  await pluginData.state.tagUses.add({
+    tag: tagResult.categoryName != null ? `${tagResult.categoryName}.${tagResult.tagName}` : tagResult.tagName,
+    user_id: msg.user_id,
+    channel_id: msg.channel_id,
+  });
+
   // Save the command-response message pair once the message is in our database
   const deleteWithCommand = tagResult.category?.delete_with_command ?? config.delete_with_command;
   if (deleteWithCommand) {
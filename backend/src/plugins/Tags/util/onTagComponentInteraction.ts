@@ -0,0 +1,20 @@
+import { guildPluginEventListener } from "knub";
+import { parseCustomId } from "../../../utils/parseCustomId";
+import { TagsPluginType } from "../types";
+import { handleTagComponentInteraction } from "./handleTagComponentInteraction";
+
+export const onTagComponentInteraction = guildPluginEventListener<TagsPluginType>()({
+  event: "interactionCreate",
+  async listener({ pluginData, args: { interaction } }) {
+    if ((!interaction.isButton() && !interaction.isStringSelectMenu()) || interaction.guildId !== pluginData.guild.id) {
+      return;
+    }
+
+    const { namespace, data } = parseCustomId(interaction.customId);
+    if (namespace !== "tags") {
+      return;
+    }
+
+    await handleTagComponentInteraction(pluginData, interaction, data);
+  },
+});
@@ -1,13 +1,17 @@
-import { GuildMember } from "discord.js";
+import { GuildMember, GuildTextBasedChannel } from "discord.js";
 import { GuildPluginData } from "knub";
 import { parseArguments } from "knub-command-manager";
-import { TemplateParseError } from "../../../templateFormatter";
+import { TemplateParseError, TemplateSafeValueContainer } from "../../../templateFormatter";
 import { StrictMessageContent, validateAndParseMessageContent } from "../../../utils";
 import { memberToTemplateSafeMember, userToTemplateSafeUser } from "../../../utils/templateSafeObjects";
 import { LogsPlugin } from "../../Logs/LogsPlugin";
 import { TTag, TagsPluginType } from "../types";
 import { renderTagBody } from "./renderTagBody";
+import { TagParameterError, matchTagArguments } from "./tagParameters";
 
+/**
+ * @throws TagUsageError - If the tag has parameters and the arguments in the string don't match them
+ */
 export async function renderTagFromString(
   pluginData: GuildPluginData<TagsPluginType>,
   str: string,
@@ -15,12 +19,18 @@ export async function renderTagFromString(
   tagName: string,
   tagBody: TTag,
   member: GuildMember,
+  channel: GuildTextBasedChannel,
+  parameters: string | null = null,
 ): Promise<StrictMessageContent | null> {
   const variableStr = str.slice(prefix.length + tagName.length).trim();
   const tagArgs = parseArguments(variableStr).map((v) => v.value);
 
   // Format the string
   try {
+    const params = parameters
+      ? await matchTagArguments(pluginData, parameters, variableStr, channel, `${prefix}${tagName} ${parameters}`)
+      : new TemplateSafeValueContainer();
+
     const rendered = await renderTagBody(
       pluginData,
       tagBody,
@@ -28,6 +38,7 @@ export async function renderTagFromString(
       {
         member: memberToTemplateSafeMember(member),
         user: userToTemplateSafeUser(member.user),
+        params,
       },
       { member },
     );
@@ -42,6 +53,14 @@ export async function renderTagFromString(
       return null;
     }
 
+    if (e instanceof TagParameterError) {
+      const logs = pluginData.getPlugin(LogsPlugin);
+      logs.logBotAlert({
+        body: `Invalid parameters for tag \`${prefix}${tagName}\`: ${e.message}`,
+      });
+      return null;
+    }
+
     throw e;
   }
 }
@@ -0,0 +1,18 @@
+import { TTagCategory } from "../types";
+
+/**
+ * @return - The name of the category's tag with the given name or alias, or null if there is no such tag
+ */
+export function resolveCategoryTagName(category: TTagCategory, name: string): string | null {
+  if (Object.hasOwn(category.tags, name)) {
+    return name;
+  }
+
+  for (const [tagName, aliases] of Object.entries(category.aliases ?? {})) {
+    if (aliases.includes(name) && Object.hasOwn(category.tags, tagName)) {
+      return tagName;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,48 @@
+import test from "ava";
+import { describeTagParameters, parseTagParameters, TagParameterError } from "./tagParameters";
+
+test("parseTagParameters() rejects a required parameter after an optional one", (t) => {
+  t.throws(() => parseTagParameters("[amount:number] <target:user>"), {
+    instanceOf: TagParameterError,
+    message: "Optional parameter must come last",
+  });
+});
+
+test("parseTagParameters() rejects options", (t) => {
+  t.throws(() => parseTagParameters("<target:user> -silent"), {
+    instanceOf: TagParameterError,
+    message: "Tags can't have options: -silent",
+  });
+  t.throws(() => parseTagParameters("<target:user> -reason:string"), {
+    instanceOf: TagParameterError,
+    message: "Tags can't have options: -reason",
+  });
+});
+
+test("parseTagParameters() rejects unknown types", (t) => {
+  t.throws(() => parseTagParameters("<target:banana>"), { instanceOf: TagParameterError });
+});
+
+test("parseTagParameters() makes rest parameters catch the remaining arguments", (t) => {
+  t.true(parseTagParameters("<name> <text:rest>").text.catchAll);
+  t.falsy(parseTagParameters("<name> <text:string>").text.catchAll);
+});
+
+test("describeTagParameters() describes each parameter's type and whether it's required", (t) => {
+  t.deepEqual(describeTagParameters("<target:user> <text:rest>"), [
+    "`target` (user, required)",
+    "`text` (rest, required)",
+  ]);
+});
+
+test("describeTagParameters() treats parameters without a type as strings", (t) => {
+  t.deepEqual(describeTagParameters("[name]"), ["`name` (string, optional)"]);
+});
+
+test("describeTagParameters() includes defaults", (t) => {
+  t.deepEqual(describeTagParameters("<target:user> [amount:number=5]"), [
+    "`target` (user, required)",
+    "`amount` (number, optional, defaults to 5)",
+  ]);
+  t.deepEqual(describeTagParameters("[amount:number]"), ["`amount` (number, optional)"]);
+});
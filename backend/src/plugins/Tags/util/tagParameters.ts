@@ -0,0 +1,124 @@
+import { GuildBasedChannel, GuildChannel, GuildTextBasedChannel, ThreadChannel, User } from "discord.js";
+import { CommandContext, GuildPluginData } from "knub";
+import { CommandManager, IParameter, TSignature, isError, parseSignature } from "knub-command-manager";
+import { commandTypes } from "../../../commandTypes";
+import { TemplateSafeValue, TemplateSafeValueContainer } from "../../../templateFormatter";
+import { channelToTemplateSafeChannel, userToTemplateSafeUser } from "../../../utils/templateSafeObjects";
+import { TagsPluginType } from "../types";
+
+/**
+ * Captures the rest of the arguments as a single string
+ */
+function rest(value: string) {
+  return String(value);
+}
+
+export const tagParameterTypes = {
+  string: commandTypes.string,
+  number: commandTypes.number,
+  user: commandTypes.resolvedUser,
+  channel: commandTypes.channel,
+  rest,
+};
+
+/**
+ * Thrown when a tag's parameter declaration is invalid
+ */
+export class TagParameterError extends Error {}
+
+/**
+ * Thrown when a tag is used with arguments that don't match its parameters
+ */
+export class TagUsageError extends Error {
+  constructor(message: string, public usage: string) {
+    super(message);
+  }
+}
+
+/**
+ * Parses tag parameters declared in the same format as command signatures, e.g. `<target:user> [amount:number=5]`.
+ * Parameters without a type are strings.
+ */
+export function parseTagParameters(str: string): Record<string, IParameter<CommandContext<any>>> {
+  let signature: TSignature<CommandContext<any>>;
+  try {
+    signature = parseSignature(str, tagParameterTypes);
+  } catch (e) {
+    throw new TagParameterError(e.message);
+  }
+
+  for (const [name, param] of Object.entries(signature)) {
+    if (param!.option) {
+      throw new TagParameterError(`Tags can't have options: -${name}`);
+    }
+
+    if (param!.type === rest) {
+      param!.catchAll = true;
+    }
+  }
+
+  // Check for invalid parameter orders, e.g. a required parameter after an optional one
+  try {
+    new CommandManager<CommandContext<any>>({}).add("tag", signature);
+  } catch (e) {
+    throw new TagParameterError(e.message);
+  }
+
+  return signature as Record<string, IParameter<CommandContext<any>>>;
+}
+
+/**
+ * @return - A line describing each parameter, e.g. "`amount` (number, optional, defaults to 5)"
+ */
+export function describeTagParameters(str: string): string[] {
+  return Object.entries(parseTagParameters(str)).map(([name, param]) => {
+    const typeName = Object.entries(tagParameterTypes).find(([, type]) => type === param.type)?.[0] ?? "string";
+    const details = [typeName, param.required ? "required" : "optional"];
+    if (param.def != null) {
+      details.push(`defaults to ${param.def}`);
+    }
+    return `\`${name}\` (${details.join(", ")})`;
+  });
+}
+
+function toTemplateSafeValue(value: unknown): TemplateSafeValue {
+  if (value instanceof User) {
+    return userToTemplateSafeUser(value);
+  }
+
+  if (value instanceof GuildChannel || value instanceof ThreadChannel) {
+    return channelToTemplateSafeChannel(value as GuildBasedChannel);
+  }
+
+  return value as TemplateSafeValue;
+}
+
+/**
+ * Matches the arguments a tag was used with to its parameters, converting them to their types
+ * @throws TagUsageError - If the arguments don't match the parameters
+ */
+export async function matchTagArguments(
+  pluginData: GuildPluginData<TagsPluginType>,
+  parameters: string,
+  argStr: string,
+  channel: GuildTextBasedChannel,
+  usage: string,
+): Promise<TemplateSafeValueContainer> {
+  // Options are disabled so arguments such as negative numbers aren't parsed as options
+  const manager = new CommandManager<CommandContext<any>>({ optionPrefixes: [] });
+  const definition = manager.add("tag", parseTagParameters(parameters));
+
+  // The type converters only use the channel of the message
+  const context = { pluginData, message: { channel } } as unknown as CommandContext<any>;
+  const match = await manager.tryMatchingCommand(definition, `tag ${argStr}`, context);
+  if (!match) {
+    throw new TagUsageError("Invalid arguments", usage);
+  }
+  if (isError(match)) {
+    throw new TagUsageError(match.error, usage);
+  }
+
+  return new TemplateSafeValueContainer(
+    Object.fromEntries(Object.entries(match.values).map(([name, arg]) => [name, toTemplateSafeValue(arg.value)])),
+  );
+}
@@ -8,6 +8,7 @@ import { SetTimezoneCmd } from "./commands/SetTimezoneCmd";
 import { ViewTimezoneCmd } from "./commands/ViewTimezoneCmd";
 import { defaultDateFormats } from "./defaultDateFormats";
 import { getDateFormat } from "./functions/getDateFormat";
+import { getDateTemplateFunctions } from "./functions/getDateTemplateFunctions";
 import { getGuildTz } from "./functions/getGuildTz";
 import { getMemberTz } from "./functions/getMemberTz";
 import { inGuildTz } from "./functions/inGuildTz";
@@ -58,6 +59,7 @@ export const TimeAndDatePlugin = zeppelinGuildPlugin<TimeAndDatePluginType>()({
     getMemberTz: mapToPublicFn(getMemberTz),
     inMemberTz: mapToPublicFn(inMemberTz),
     getDateFormat: mapToPublicFn(getDateFormat),
+    getDateTemplateFunctions: mapToPublicFn(getDateTemplateFunctions),
   },
 
   beforeLoad(pluginData) {
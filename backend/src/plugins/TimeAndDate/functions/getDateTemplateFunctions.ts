@@ -0,0 +1,109 @@
+import humanizeDuration from "humanize-duration";
+import { GuildPluginData } from "knub";
+import moment from "moment-timezone";
+import { convertDelayStringToMS } from "../../../utils";
+import { TimeAndDatePluginType } from "../types";
+import { getGuildTz } from "./getGuildTz";
+import { inGuildTz } from "./inGuildTz";
+
+const timeDiffUnits: moment.unitOfTime.Diff[] = [
+  "milliseconds",
+  "seconds",
+  "minutes",
+  "hours",
+  "days",
+  "weeks",
+  "months",
+  "years",
+];
+
+/**
+ * Date functions for templates. Dates are Unix timestamps in milliseconds, or "YYYY-MM-DD HH:mm:ss" strings in the guild's timezone.
+ */
+export function getDateTemplateFunctions(pluginData: GuildPluginData<TimeAndDatePluginType>) {
+  const parseDateTime = (str) => {
+    if (typeof str === "number") {
+      return str; // Unix timestamp
+    }
+
+    if (typeof str !== "string") {
+      return Date.now();
+    }
+
+    if (!Number.isNaN(Number(str))) {
+      return Number(str); // Unix timestamp as a string
+    }
+
+    return moment.tz(str, "YYYY-MM-DD HH:mm:ss", getGuildTz(pluginData)).valueOf();
+  };
+
+  // (time, delay) or (delay), with an implicit "now" as the time
+  const parseTimeAndDelay = (args: unknown[]): [number, number] | null => {
+    if (args.length === 0) return null;
+
+    const stringArgs = args.map((arg) => (typeof arg === "number" ? String(arg) : typeof arg === "string" ? arg : ""));
+    const reference = stringArgs.length >= 2 ? parseDateTime(stringArgs[0]) : Date.now();
+    const delay = stringArgs.length >= 2 ? stringArgs[1] : stringArgs[0];
+    return [reference, convertDelayStringToMS(delay) ?? 0];
+  };
+
+  const timeSub = (...args) => {
+    const parsed = parseTimeAndDelay(args);
+    if (!parsed) return;
+    return moment.utc(parsed[0], "x").subtract(parsed[1]).valueOf();
+  };
+
+  return {
+    parseDateTime,
+
+    countdown(toDate) {
+      const target = moment.utc(parseDateTime(toDate), "x");
+
+      const now = moment.utc();
+      if (!target.isValid()) return "";
+
+      const diff = target.diff(now);
+      const result = humanizeDuration(diff, { largest: 2, round: true });
+      return diff >= 0 ? result : `${result} ago`;
+    },
+
+    now() {
+      return Date.now();
+    },
+
+    timeAdd(...args) {
+      const parsed = parseTimeAndDelay(args);
+      if (!parsed) return;
+      return moment.utc(parsed[0], "x").add(parsed[1]).valueOf();
+    },
+
+    timeSub,
+
+    timeAgo(delay) {
+      return timeSub(delay);
+    },
+
+    timeDiff(time1, time2, unit: moment.unitOfTime.Diff = "milliseconds") {
+      if (!timeDiffUnits.includes(unit)) return "";
+      const diff = moment.utc(parseDateTime(time2), "x").diff(moment.utc(parseDateTime(time1), "x"), unit);
+      return Number.isNaN(diff) ? "" : diff;
+    },
+
+    formatDuration(duration) {
+      const ms = typeof duration === "number" ? duration : convertDelayStringToMS(String(duration ?? ""));
+      if (ms == null || Number.isNaN(ms)) return "";
+      return humanizeDuration(ms, { largest: 2, round: true });
+    },
+
+    formatTime(time, format) {
+      const parsed = parseDateTime(time);
+      return inGuildTz(pluginData, parsed).format(format);
+    },
+
+    discordDateFormat(time) {
+      const parsed = time ? parseDateTime(time) : Date.now();
+
+      return inGuildTz(pluginData, parsed).format("YYYY-MM-DD");
+    },
+  };
+}
@@ -2,7 +2,7 @@ import { VoiceChannel } from "discord.js";
 import { commandTypeHelpers as ct } from "../../../commandTypes";
 import { canActOn, sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
 import { renderUserUsername } from "../../../utils";
-import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { disconnectMemberFromVoice } from "../../../utils/disconnectMemberFromVoice";
 import { utilityCmd } from "../types";
 
 export const VcdisconnectCmd = utilityCmd({
@@ -28,18 +28,12 @@ export const VcdisconnectCmd = utilityCmd({
     const channel = pluginData.guild.channels.cache.get(args.member.voice.channelId) as VoiceChannel;
 
     try {
-      await args.member.voice.disconnect();
+      await disconnectMemberFromVoice(pluginData, args.member, msg.author);
     } catch {
       sendErrorMessage(pluginData, msg.channel, "Failed to disconnect member");
       return;
     }
 
-    pluginData.getPlugin(LogsPlugin).logVoiceChannelForceDisconnect({
-      mod: msg.author,
-      member: args.member,
-      oldChannel: channel,
-    });
-
     sendSuccessMessage(
       pluginData,
       msg.channel,
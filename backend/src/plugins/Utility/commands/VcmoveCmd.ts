@@ -2,7 +2,7 @@ import { ChannelType, Snowflake, VoiceChannel } from "discord.js";
 import { commandTypeHelpers as ct } from "../../../commandTypes";
 import { canActOn, sendErrorMessage, sendSuccessMessage } from "../../../pluginUtils";
 import { channelMentionRegex, isSnowflake, renderUserUsername, simpleClosestStringMatch } from "../../../utils";
-import { LogsPlugin } from "../../Logs/LogsPlugin";
+import { moveMemberToVoiceChannel } from "../../../utils/moveMemberToVoiceChannel";
 import { utilityCmd } from "../types";
 
 export const VcmoveCmd = utilityCmd({
@@ -62,24 +62,13 @@ export const VcmoveCmd = utilityCmd({
       return;
     }
 
-    const oldVoiceChannel = pluginData.guild.channels.cache.get(args.member.voice.channelId) as VoiceChannel;
-
     try {
-      await args.member.edit({
-        channel: channel.id,
-      });
+      await moveMemberToVoiceChannel(pluginData, args.member, channel, msg.author);
     } catch {
       sendErrorMessage(pluginData, msg.channel, "Failed to move member");
       return;
     }
 
-    pluginData.getPlugin(LogsPlugin).logVoiceChannelForceMove({
-      mod: msg.author,
-      member: args.member,
-      oldChannel: oldVoiceChannel,
-      newChannel: channel,
-    });
-
     sendSuccessMessage(
       pluginData,
       msg.channel,
@@ -164,9 +153,7 @@ export const VcmoveAllCmd = utilityCmd({
       }
 
       try {
-        currMember.edit({
-          channel: channel.id,
-        });
+        await moveMemberToVoiceChannel(pluginData, currMember, channel, msg.author);
       } catch {
         if (msg.member.id === currMember.id) {
           sendErrorMessage(pluginData, msg.channel, "Unknown error when trying to move members");
@@ -180,13 +167,6 @@ export const VcmoveAllCmd = utilityCmd({
         errAmt++;
         continue;
       }
-
-      pluginData.getPlugin(LogsPlugin).logVoiceChannelForceMove({
-        mod: msg.author,
-        member: currMember,
-        oldChannel: args.oldChannel,
-        newChannel: channel,
-      });
     }
 
     if (moveAmt !== errAmt) {
@@ -0,0 +1,247 @@
+import { PluginOptions } from "knub";
+import moment from "moment-timezone";
+import { GuildWebhookDeliveries } from "../../data/GuildWebhookDeliveries";
+import { Case } from "../../data/entities/Case";
+import { env } from "../../env";
+import { logger } from "../../logger";
+import { DBDateFormat, HOURS, SECONDS, trimPluginDescription } from "../../utils";
+import { isPrivateNetworkHostname } from "../../utils/privateNetworkAddresses";
+import { registerEventListenersFromMap } from "../../utils/registerEventListenersFromMap";
+import { serializeCase } from "../../utils/serializeCase";
+import { unregisterEventListenersFromMap } from "../../utils/unregisterEventListenersFromMap";
+import { StrictValidationError, parseIoTsSchema } from "../../validatorUtils";
+import { AutomodPlugin } from "../Automod/AutomodPlugin";
+import { CasesPlugin } from "../Cases/CasesPlugin";
+import { ModActionsPlugin } from "../ModActions/ModActionsPlugin";
+import { MutesPlugin } from "../Mutes/MutesPlugin";
+import { zeppelinGuildPlugin } from "../ZeppelinPluginBlueprint";
+import { processDueWebhookDeliveries } from "./functions/processDueWebhookDeliveries";
+import { sendWebhookEvent } from "./functions/sendWebhookEvent";
+import { ConfigSchema, TWebhookOpts, WebhookEventName, WebhooksPluginType, defaultWebhookOpts } from "./types";
+
+const PROCESS_DELIVERIES_INTERVAL = 15 * SECONDS;
+const CLEANUP_DELIVERIES_INTERVAL = 1 * HOURS;
+const DELIVERY_LOG_RETENTION_DAYS = 7;
+
+const defaultOptions: PluginOptions<WebhooksPluginType> = {
+  config: {
+    webhooks: {},
+  },
+};
+
+export const WebhooksPlugin = zeppelinGuildPlugin<WebhooksPluginType>()({
+  name: "webhooks",
+  showInDocs: true,
+
+  info: {
+    prettyName: "Webhooks",
+    description: trimPluginDescription(`
+      Sends moderation events, such as new cases, mutes, bans and antiraid level changes, to your own HTTP endpoints as signed JSON payloads.
+    `),
+    configurationGuide: trimPluginDescription(`
+      ### Setting up a webhook
+      Each webhook is POSTed a JSON payload for every event it's subscribed to.
+      If \`events\` is omitted, the webhook receives all events.
+      Webhook URLs can't point to localhost or private network addresses, unless the bot is run with \`WEBHOOKS_ALLOW_PRIVATE_NETWORKS=true\` (e.g. for testing webhooks locally).
+
+      ~~~yml
+      webhooks:
+        config:
+          webhooks:
+            mod_tools:
+              url: "https://example.com/zeppelin-webhook"
+              secret: "a-long-random-string"
+              events: ["case_created", "case_updated", "case_deleted"]
+      ~~~
+
+      ### Events
+      - \`case_created\`, \`case_updated\`, \`case_deleted\` - \`data.case\` contains the case, including its notes. For deleted cases, this is the case as it was before it was deleted.
+      - \`user_muted\`, \`user_unmuted\`, \`user_banned\`, \`user_unbanned\` - \`data\` contains \`user_id\`, \`reason\` and \`is_automod_action\`
+      - \`antiraid_level_changed\` - \`data\` contains \`level\`, \`previous_level\` and \`changed_by\` (null if changed by automod)
+
+      ### Payloads
+      ~~~json
+      {
+        "event": "user_muted",
+        "guild_id": "150391317045116929",
+        "created_at": "2023-11-03T15:20:51.632Z",
+        "data": { "user_id": "106391128718245888", "reason": "Spam", "is_automod_action": false }
+      }
+      ~~~
+
+      Each request has the following headers:
+      - \`X-Zeppelin-Event\` - The event name
+      - \`X-Zeppelin-Delivery\` - A unique ID for the delivery. Retries of the same delivery use the same ID.
+      - \`X-Zeppelin-Timestamp\` - The time the request was sent, as a Unix timestamp in seconds
+      - \`X-Zeppelin-Signature\` - \`sha256=\` followed by the hex HMAC-SHA256 of \`{timestamp}.{body}\`, using the webhook's secret as the key
+
+      To verify a request, compute the signature from the raw request body and compare it to the header.
+      You should also reject requests with old timestamps to prevent replays.
+
+      ### Retries
+      Any response other than 2xx, or no response within 10 seconds, counts as a failed attempt.
+      Failed deliveries are retried with an increasing delay, starting at 30 seconds, until \`max_attempts\` (default 5) attempts have been made.
+      Deliveries are logged for ${DELIVERY_LOG_RETENTION_DAYS} days and can be viewed from the dashboard API.
+    `),
+    configSchema: ConfigSchema,
+  },
+
+  dependencies: () => [CasesPlugin, ModActionsPlugin, MutesPlugin],
+
+  configParser(input) {
+    const rawConfig = input as { webhooks?: Record<string, Partial<TWebhookOpts>> };
+    const configWithDefaults = rawConfig.webhooks
+      ? {
+          ...rawConfig,
+          webhooks: Object.fromEntries(
+            Object.entries(rawConfig.webhooks).map(([name, opts]) => [name, { ...defaultWebhookOpts, ...opts }]),
+          ),
+        }
+      : rawConfig;
+
+    const parsed = parseIoTsSchema(ConfigSchema, configWithDefaults);
+    for (const [name, webhook] of Object.entries(parsed.webhooks)) {
+      let url: URL;
+      try {
+        url = new URL(webhook.url);
+      } catch {
+        throw new StrictValidationError([`Invalid webhook URL at <webhooks/${name}/url>`]);
+      }
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new StrictValidationError([`Webhook URL must start with http:// or https:// at <webhooks/${name}/url>`]);
+      }
+      if (!env.WEBHOOKS_ALLOW_PRIVATE_NETWORKS && isPrivateNetworkHostname(url.hostname)) {
+        throw new StrictValidationError([
+          `Webhook URL must not point to localhost or a private network address at <webhooks/${name}/url>`,
+        ]);
+      }
+      if (webhook.max_attempts < 1) {
+        throw new StrictValidationError([`max_attempts must be at least 1 at <webhooks/${name}/max_attempts>`]);
+      }
+    }
+
+    return parsed;
+  },
+  defaultOptions,
+
+  beforeLoad(pluginData) {
+    const { state, guild } = pluginData;
+
+    state.deliveries = GuildWebhookDeliveries.getGuildInstance(guild.id);
+    state.deliveriesInProgress = new Set();
+  },
+
+  afterLoad(pluginData) {
+    const { state } = pluginData;
+
+    // Listeners and intervals can't return their promises to anyone, so errors are logged here instead
+    const sendEvent = (event: WebhookEventName, data: unknown) => {
+      sendWebhookEvent(pluginData, event, data).catch((err) => {
+        logger.error(`Error while sending webhook event ${event} in guild ${pluginData.guild.id}: ${err}`);
+      });
+    };
+
+    const caseListener = (event: "case_created" | "case_updated" | "case_deleted") => (theCase: Case) =>
+      sendEvent(event, { case: serializeCase(theCase) });
+    state.casesListeners = new Map();
+    state.casesListeners.set("caseCreated", caseListener("case_created"));
+    state.casesListeners.set("caseUpdated", caseListener("case_updated"));
+    state.casesListeners.set("caseDeleted", caseListener("case_deleted"));
+    const casesPlugin = pluginData.getPlugin(CasesPlugin);
+    for (const [event, listener] of state.casesListeners) {
+      casesPlugin.on(event, listener);
+    }
+
+    const modActionsEvents = pluginData.getPlugin(ModActionsPlugin).getEventEmitter();
+    state.modActionsListeners = new Map();
+    state.modActionsListeners.set("ban", (userId: string, reason?: string, isAutomodAction?: boolean) =>
+      sendEvent("user_banned", {
+        user_id: userId,
+        reason: reason ?? null,
+        is_automod_action: isAutomodAction ?? false,
+      }),
+    );
+    state.modActionsListeners.set("unban", (userId: string, reason?: string) =>
+      sendEvent("user_unbanned", {
+        user_id: userId,
+        reason: reason ?? null,
+        is_automod_action: false,
+      }),
+    );
+    registerEventListenersFromMap(modActionsEvents, state.modActionsListeners);
+
+    const mutesEvents = pluginData.getPlugin(MutesPlugin).getEventEmitter();
+    state.mutesListeners = new Map();
+    state.mutesListeners.set("mute", (userId: string, reason?: string, isAutomodAction?: boolean) =>
+      sendEvent("user_muted", {
+        user_id: userId,
+        reason: reason ?? null,
+        is_automod_action: isAutomodAction ?? false,
+      }),
+    );
+    state.mutesListeners.set("unmute", (userId: string, reason?: string) =>
+      sendEvent("user_unmuted", {
+        user_id: userId,
+        reason: reason ?? null,
+        is_automod_action: false,
+      }),
+    );
+    registerEventListenersFromMap(mutesEvents, state.mutesListeners);
+
+    // Automod isn't a dependency so that it doesn't get loaded just for webhooks
+    state.automodListeners = new Map();
+    if (pluginData.hasPlugin(AutomodPlugin)) {
+      state.automodListeners.set("antiraidLevelChanged", (newLevel, oldLevel, user) =>
+        sendEvent("antiraid_level_changed", {
+          level: newLevel,
+          previous_level: oldLevel,
+          changed_by: user?.id ?? null,
+        }),
+      );
+      registerEventListenersFromMap(pluginData.getPlugin(AutomodPlugin).getEventEmitter(), state.automodListeners);
+    }
+
+    state.processDeliveriesInterval = setInterval(
+      () =>
+        processDueWebhookDeliveries(pluginData).catch((err) => {
+          logger.error(`Error while processing webhook deliveries in guild ${pluginData.guild.id}: ${err}`);
+        }),
+      PROCESS_DELIVERIES_INTERVAL,
+    );
+    state.cleanupDeliveriesInterval = setInterval(() => {
+      const cutoff = moment.utc().subtract(DELIVERY_LOG_RETENTION_DAYS, "days").format(DBDateFormat);
+      state.deliveries.deleteCreatedBefore(cutoff).catch((err) => {
+        logger.error(`Error while cleaning up webhook deliveries in guild ${pluginData.guild.id}: ${err}`);
+      });
+    }, CLEANUP_DELIVERIES_INTERVAL);
+  },
+
+  beforeUnload(pluginData) {
+    const { state } = pluginData;
+
+    clearInterval(state.processDeliveriesInterval);
+    clearInterval(state.cleanupDeliveriesInterval);
+
+    if (state.casesListeners) {
+      const casesPlugin = pluginData.getPlugin(CasesPlugin);
+      for (const [event, listener] of state.casesListeners) {
+        casesPlugin.off(event, listener);
+      }
+    }
+
+    if (state.modActionsListeners) {
+      unregisterEventListenersFromMap(
+        pluginData.getPlugin(ModActionsPlugin).getEventEmitter(),
+        state.modActionsListeners,
+      );
+    }
+
+    if (state.mutesListeners) {
+      unregisterEventListenersFromMap(pluginData.getPlugin(MutesPlugin).getEventEmitter(), state.mutesListeners);
+    }
+
+    if (state.automodListeners?.size && pluginData.hasPlugin(AutomodPlugin)) {
+      unregisterEventListenersFromMap(pluginData.getPlugin(AutomodPlugin).getEventEmitter(), state.automodListeners);
+    }
+  },
+});
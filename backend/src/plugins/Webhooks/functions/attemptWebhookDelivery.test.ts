@@ -0,0 +1,161 @@
+import test from "ava";
+import http from "http";
+import { GuildPluginData } from "knub";
+import moment from "moment-timezone";
+import { AddressInfo } from "net";
+import { WebhookDeliveryStatus } from "../../../data/WebhookDeliveryStatus";
+import { WebhookDelivery } from "../../../data/entities/WebhookDelivery";
+import { env } from "../../../env";
+import { DBDateFormat } from "../../../utils";
+import { signWebhookPayload } from "../../../utils/webhookSignatures";
+import { WebhooksPluginType } from "../types";
+import { attemptWebhookDelivery } from "./attemptWebhookDelivery";
+
+// The test listener runs on localhost
+env.WEBHOOKS_ALLOW_PRIVATE_NETWORKS = true;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+interface DeliveryUpdate {
+  attempts: number;
+  statusCode: number | null;
+  error?: string;
+  nextAttemptAt?: string | null;
+}
+
+/**
+ * Starts a local HTTP listener that responds to every request with the given status code
+ */
+async function startListener(statusCode: number) {
+  const requests: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.writeHead(statusCode).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+  const close = () => new Promise((resolve) => server.close(resolve));
+  return { url, requests, close };
+}
+
+function makePluginData(url: string, maxAttempts = 5) {
+  const delivered: DeliveryUpdate[] = [];
+  const failed: DeliveryUpdate[] = [];
+  const pluginData = {
+    config: {
+      get: () => ({
+        webhooks: {
+          test: { url, secret: "test-secret", events: [], enabled: true, max_attempts: maxAttempts },
+        },
+      }),
+    },
+    state: {
+      deliveriesInProgress: new Set(),
+      deliveries: {
+        async markDelivered(id: number, attempts: number, statusCode: number) {
+          delivered.push({ attempts, statusCode });
+        },
+        async markAttemptFailed(
+          id: number,
+          attempts: number,
+          statusCode: number | null,
+          error: string,
+          nextAttemptAt: string | null,
+        ) {
+          failed.push({ attempts, statusCode, error, nextAttemptAt });
+        },
+      },
+    },
+  } as unknown as GuildPluginData<WebhooksPluginType>;
+
+  return { pluginData, delivered, failed };
+}
+
+function makeDelivery(attempts = 0): WebhookDelivery {
+  return {
+    id: 1,
+    guild_id: "1234",
+    webhook_name: "test",
+    event: "user_muted",
+    payload: JSON.stringify({ event: "user_muted", data: { user_id: "5678" } }),
+    status: WebhookDeliveryStatus.Pending,
+    attempts,
+    last_status_code: null,
+    last_error: null,
+    created_at: moment.utc().format(DBDateFormat),
+    next_attempt_at: null,
+    delivered_at: null,
+  };
+}
+
+test("attemptWebhookDelivery() marks the delivery as delivered on a 2xx response", async (t) => {
+  const listener = await startListener(204);
+  const { pluginData, delivered, failed } = makePluginData(listener.url);
+
+  await attemptWebhookDelivery(pluginData, makeDelivery());
+  await listener.close();
+
+  t.is(listener.requests.length, 1);
+  t.deepEqual(delivered, [{ attempts: 1, statusCode: 204 }]);
+  t.deepEqual(failed, []);
+  t.is(pluginData.state.deliveriesInProgress.size, 0);
+});
+
+test("attemptWebhookDelivery() schedules a retry on a non-2xx response", async (t) => {
+  const listener = await startListener(500);
+  const { pluginData, delivered, failed } = makePluginData(listener.url);
+
+  await attemptWebhookDelivery(pluginData, makeDelivery());
+  await listener.close();
+
+  t.deepEqual(delivered, []);
+  t.is(failed.length, 1);
+  t.is(failed[0].attempts, 1);
+  t.is(failed[0].statusCode, 500);
+  t.is(failed[0].error, "Endpoint responded with HTTP 500");
+  t.truthy(failed[0].nextAttemptAt);
+});
+
+test("attemptWebhookDelivery() increases the retry delay with each attempt and stops at max_attempts", async (t) => {
+  const listener = await startListener(503);
+
+  const { pluginData, failed } = makePluginData(listener.url, 5);
+  await attemptWebhookDelivery(pluginData, makeDelivery(0));
+  await attemptWebhookDelivery(pluginData, makeDelivery(2));
+  await attemptWebhookDelivery(pluginData, makeDelivery(4));
+  await listener.close();
+
+  const retryDelays = failed.map((update) =>
+    update.nextAttemptAt ? moment.utc(update.nextAttemptAt).diff(moment.utc(), "seconds") : null,
+  );
+  // 30 seconds after the first attempt, 30 * 2^2 seconds after the third, and no retry after the fifth
+  t.true(retryDelays[0]! > 25 && retryDelays[0]! <= 30);
+  t.true(retryDelays[1]! > 115 && retryDelays[1]! <= 120);
+  t.is(retryDelays[2], null);
+});
+
+test("attemptWebhookDelivery() sends the event, delivery ID and HMAC signature headers", async (t) => {
+  const listener = await startListener(200);
+  const { pluginData } = makePluginData(listener.url);
+  const delivery = makeDelivery();
+
+  await attemptWebhookDelivery(pluginData, delivery);
+  await listener.close();
+
+  const { headers, body } = listener.requests[0];
+  t.is(body, delivery.payload);
+  t.is(headers["content-type"], "application/json");
+  t.is(headers["x-zeppelin-event"], "user_muted");
+  t.is(headers["x-zeppelin-delivery"], "1");
+  const timestamp = headers["x-zeppelin-timestamp"] as string;
+  t.regex(timestamp, /^\d+$/);
+  t.is(headers["x-zeppelin-signature"], signWebhookPayload("test-secret", timestamp, body));
+});
@@ -0,0 +1,96 @@
+import { GuildPluginData } from "knub";
+import moment from "moment-timezone";
+import { WebhookDelivery } from "../../../data/entities/WebhookDelivery";
+import { env } from "../../../env";
+import { DBDateFormat, HOURS, SECONDS } from "../../../utils";
+import { resolvesToPrivateNetworkAddress } from "../../../utils/privateNetworkAddresses";
+import { signWebhookPayload } from "../../../utils/webhookSignatures";
+import { WebhooksPluginType } from "../types";
+
+const REQUEST_TIMEOUT = 10 * SECONDS;
+const BASE_RETRY_DELAY = 30 * SECONDS;
+const MAX_RETRY_DELAY = 1 * HOURS;
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+}
+
+export async function attemptWebhookDelivery(
+  pluginData: GuildPluginData<WebhooksPluginType>,
+  delivery: WebhookDelivery,
+): Promise<void> {
+  const { state } = pluginData;
+  if (state.deliveriesInProgress.has(delivery.id)) {
+    return;
+  }
+
+  state.deliveriesInProgress.add(delivery.id);
+  try {
+    const attempts = delivery.attempts + 1;
+    const webhook = pluginData.config.get().webhooks[delivery.webhook_name];
+    if (!webhook || !webhook.enabled) {
+      await state.deliveries.markAttemptFailed(
+        delivery.id,
+        delivery.attempts,
+        null,
+        "Webhook was removed or disabled",
+        null,
+      );
+      return;
+    }
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let statusCode: number | null = null;
+    let error: string;
+    try {
+      // The config only rejects private hosts by name, so check what the hostname currently resolves to as well
+      if (
+        !env.WEBHOOKS_ALLOW_PRIVATE_NETWORKS &&
+        (await resolvesToPrivateNetworkAddress(new URL(webhook.url).hostname))
+      ) {
+        await state.deliveries.markAttemptFailed(
+          delivery.id,
+          attempts,
+          null,
+          "Webhook URL resolves to a private network address",
+          null,
+        );
+        return;
+      }
+
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: new Headers({
+          "Content-Type": "application/json",
+          "User-Agent": "Zeppelin-Webhooks",
+          "X-Zeppelin-Event": delivery.event,
+          "X-Zeppelin-Delivery": String(delivery.id),
+          "X-Zeppelin-Timestamp": timestamp,
+          "X-Zeppelin-Signature": signWebhookPayload(webhook.secret, timestamp, delivery.payload),
+        }),
+        body: delivery.payload,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+        redirect: "manual",
+      });
+
+      // We don't care about the response body, but it has to be consumed to free up the connection
+      await response.arrayBuffer().catch(() => null);
+
+      if (response.ok) {
+        await state.deliveries.markDelivered(delivery.id, attempts, response.status);
+        return;
+      }
+
+      statusCode = response.status;
+      error = `Endpoint responded with HTTP ${response.status}`;
+    } catch (e) {
+      error = e?.name === "TimeoutError" ? "Request timed out" : `Request failed: ${e?.message ?? e}`;
+    }
+
+    const nextAttemptAt =
+      attempts < webhook.max_attempts ? moment.utc().add(getRetryDelay(attempts), "ms").format(DBDateFormat) : null;
+    await state.deliveries.markAttemptFailed(delivery.id, attempts, statusCode, error, nextAttemptAt);
+  } finally {
+    state.deliveriesInProgress.delete(delivery.id);
+  }
+}
@@ -0,0 +1,10 @@
+import { GuildPluginData } from "knub";
+import { WebhooksPluginType } from "../types";
+import { attemptWebhookDelivery } from "./attemptWebhookDelivery";
+
+const MAX_DELIVERIES_PER_RUN = 50;
+
+export async function processDueWebhookDeliveries(pluginData: GuildPluginData<WebhooksPluginType>): Promise<void> {
+  const dueDeliveries = await pluginData.state.deliveries.getDue(MAX_DELIVERIES_PER_RUN);
+  await Promise.all(dueDeliveries.map((delivery) => attemptWebhookDelivery(pluginData, delivery)));
+}
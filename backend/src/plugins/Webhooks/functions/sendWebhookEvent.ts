@@ -0,0 +1,43 @@
+import { GuildPluginData } from "knub";
+import { WebhookDelivery } from "../../../data/entities/WebhookDelivery";
+import { logger } from "../../../logger";
+import { WebhookEventName, WebhookPayload, WebhooksPluginType } from "../types";
+import { attemptWebhookDelivery } from "./attemptWebhookDelivery";
+
+/**
+ * Logs a delivery of the event for each webhook subscribed to it and attempts to deliver them right away.
+ * Failed deliveries are retried by the retry loop started in the plugin's afterLoad().
+ */
+export async function sendWebhookEvent(
+  pluginData: GuildPluginData<WebhooksPluginType>,
+  event: WebhookEventName,
+  data: unknown,
+): Promise<void> {
+  const config = pluginData.config.get();
+  const payload: WebhookPayload = {
+    event,
+    guild_id: pluginData.guild.id,
+    created_at: new Date().toISOString(),
+    data,
+  };
+  const body = JSON.stringify(payload);
+
+  for (const [name, webhook] of Object.entries(config.webhooks)) {
+    if (!webhook.enabled || !webhook.events.includes(event)) {
+      continue;
+    }
+
+    // One webhook failing to be logged shouldn't prevent the event from reaching the others
+    let delivery: WebhookDelivery;
+    try {
+      delivery = await pluginData.state.deliveries.create(name, event, body);
+    } catch (err) {
+      logger.error(`Error while logging ${event} delivery for webhook ${name} in guild ${pluginData.guild.id}: ${err}`);
+      continue;
+    }
+
+    attemptWebhookDelivery(pluginData, delivery).catch((err) => {
+      logger.error(`Error while attempting webhook delivery ${delivery.id} in guild ${pluginData.guild.id}: ${err}`);
+    });
+  }
+}
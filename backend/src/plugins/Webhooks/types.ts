@@ -0,0 +1,63 @@
+import * as t from "io-ts";
+import { BasePluginType } from "knub";
+import { GuildWebhookDeliveries } from "../../data/GuildWebhookDeliveries";
+import { AutomodEvents } from "../Automod/types";
+import { CasesEvents } from "../Cases/types";
+import { ModActionsEvents } from "../ModActions/types";
+import { MutesEvents } from "../Mutes/types";
+
+export const webhookEventNames = {
+  case_created: true,
+  case_updated: true,
+  case_deleted: true,
+  user_muted: true,
+  user_unmuted: true,
+  user_banned: true,
+  user_unbanned: true,
+  antiraid_level_changed: true,
+};
+export type WebhookEventName = keyof typeof webhookEventNames;
+
+const WebhookOpts = t.type({
+  url: t.string,
+  secret: t.string,
+  events: t.array(t.keyof(webhookEventNames)),
+  enabled: t.boolean,
+  max_attempts: t.number,
+});
+export type TWebhookOpts = t.TypeOf<typeof WebhookOpts>;
+
+export const ConfigSchema = t.type({
+  webhooks: t.record(t.string, WebhookOpts),
+});
+export type TConfigSchema = t.TypeOf<typeof ConfigSchema>;
+
+export const defaultWebhookOpts: Partial<TWebhookOpts> = {
+  events: Object.keys(webhookEventNames) as WebhookEventName[],
+  enabled: true,
+  max_attempts: 5,
+};
+
+export interface WebhookPayload {
+  event: WebhookEventName;
+  guild_id: string;
+  created_at: string;
+  data: unknown;
+}
+
+export interface WebhooksPluginType extends BasePluginType {
+  config: TConfigSchema;
+  state: {
+    deliveries: GuildWebhookDeliveries;
+    // IDs of deliveries that are currently being attempted, so the retry loop doesn't send them twice
+    deliveriesInProgress: Set<number>;
+
+    processDeliveriesInterval: NodeJS.Timeout;
+    cleanupDeliveriesInterval: NodeJS.Timeout;
+
+    casesListeners: Map<keyof CasesEvents, CasesEvents[keyof CasesEvents]>;
+    modActionsListeners: Map<keyof ModActionsEvents, ModActionsEvents[keyof ModActionsEvents]>;
+    mutesListeners: Map<keyof MutesEvents, MutesEvents[keyof MutesEvents]>;
+    automodListeners: Map<keyof AutomodEvents, AutomodEvents[keyof AutomodEvents]>;
+  };
+}
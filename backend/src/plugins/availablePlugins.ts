@@ -9,6 +9,7 @@ import { CompanionChannelsPlugin } from "./CompanionChannels/CompanionChannelsPl
 import { ContextMenuPlugin } from "./ContextMenus/ContextMenuPlugin";
 import { CountersPlugin } from "./Counters/CountersPlugin";
 import { CustomEventsPlugin } from "./CustomEvents/CustomEventsPlugin";
+import { DmInteractionsPlugin } from "./DmInteractions/DmInteractionsPlugin";
 import { GuildAccessMonitorPlugin } from "./GuildAccessMonitor/GuildAccessMonitorPlugin";
 import { GuildConfigReloaderPlugin } from "./GuildConfigReloader/GuildConfigReloaderPlugin";
 import { GuildInfoSaverPlugin } from "./GuildInfoSaver/GuildInfoSaverPlugin";
@@ -37,6 +38,7 @@ import { TagsPlugin } from "./Tags/TagsPlugin";
 import { TimeAndDatePlugin } from "./TimeAndDate/TimeAndDatePlugin";
 import { UsernameSaverPlugin } from "./UsernameSaver/UsernameSaverPlugin";
 import { UtilityPlugin } from "./Utility/UtilityPlugin";
+import { WebhooksPlugin } from "./Webhooks/WebhooksPlugin";
 import { WelcomeMessagePlugin } from "./WelcomeMessage/WelcomeMessagePlugin";
 import { ZeppelinGlobalPluginBlueprint, ZeppelinGuildPluginBlueprint } from "./ZeppelinPluginBlueprint";
 
@@ -79,6 +81,7 @@ export const guildPlugins: Array<ZeppelinGuildPluginBlueprint<any>> = [
   InternalPosterPlugin,
   RoleManagerPlugin,
   RoleButtonsPlugin,
+  WebhooksPlugin,
 ];
 
 // prettier-ignore
@@ -86,6 +89,7 @@ export const globalPlugins: Array<ZeppelinGlobalPluginBlueprint<any>> = [
   GuildConfigReloaderPlugin,
   BotControlPlugin,
   GuildAccessMonitorPlugin,
+  DmInteractionsPlugin,
 ];
 
 // prettier-ignore
@@ -1,5 +1,12 @@
 import test from "ava";
-import { parseTemplate, renderParsedTemplate, renderTemplate, TemplateSafeValueContainer } from "./templateFormatter";
+import {
+  parseTemplate,
+  renderParsedTemplate,
+  renderTemplate,
+  TemplateLimitError,
+  TemplateParseError,
+  TemplateSafeValueContainer,
+} from "./templateFormatter";
 
 test("Parses plain string templates correctly", (t) => {
   const result = parseTemplate("foo bar baz");
@@ -112,3 +119,56 @@ test("Parses empty string args as empty strings", async (t) => {
     },
   ]);
 });
+
+test("Supports variables with let()", async (t) => {
+  const result = await renderTemplate(
+    '{let("greeting", concat("Hello ", name))}{greeting}!',
+    new TemplateSafeValueContainer({ name: "World" }),
+  );
+  t.is(result, "Hello World!");
+});
+
+test("Supports loops with each()", async (t) => {
+  const values = new TemplateSafeValueContainer({
+    roles: [new TemplateSafeValueContainer({ name: "Mod" }), new TemplateSafeValueContainer({ name: "Member" })],
+  });
+  const result = await renderTemplate('{each(roles, "role", upper(role.name), ", ")}', values);
+  t.is(result, "MOD, MEMBER");
+});
+
+test("Variables set inside each() don't leak out of the loop", async (t) => {
+  const result = await renderTemplate('{each(range(3), "i", let("last", i))}[{last}]');
+  t.is(result, "[]");
+});
+
+test("Validates let() and each() arguments", (t) => {
+  t.throws(() => parseTemplate('{let("foo")}'), { instanceOf: TemplateParseError });
+  t.throws(() => parseTemplate('{let("1foo", 5)}'), { instanceOf: TemplateParseError });
+  t.throws(() => parseTemplate("{each(range(3), i, i)}"), { instanceOf: TemplateParseError });
+});
+
+test("Variables can't shadow values or functions", async (t) => {
+  await t.throwsAsync(renderTemplate('{let("user", 5)}', new TemplateSafeValueContainer({ user: "foo" })), {
+    instanceOf: TemplateParseError,
+  });
+  await t.throwsAsync(renderTemplate('{let("concat", 5)}'), { instanceOf: TemplateParseError });
+});
+
+test("Limits loop iterations", async (t) => {
+  await t.throwsAsync(renderTemplate('{each(range(1000), "a", each(range(1000), "b", ""))}'), {
+    instanceOf: TemplateLimitError,
+  });
+});
+
+test("Limits output length", async (t) => {
+  await t.throwsAsync(renderTemplate('{each(range(1000), "i", padStart("", 1000, "x"))}'), {
+    instanceOf: TemplateLimitError,
+  });
+});
+
+test("Supports string and number helpers", async (t) => {
+  const result = await renderTemplate(
+    '{replace("a-b-c", "-", "+")} {count(split("a,b,c", ","))} [{trim("  x  ")}] {padStart(7, 3, "0")} {formatNumber(1234.5, 2)}',
+  );
+  t.is(result, "a+b+c 3 [x] 007 1,234.50");
+});
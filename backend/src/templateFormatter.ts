@@ -6,6 +6,23 @@ const templateCache: Map<string, ParsedTemplate> = new Map();
 
 export class TemplateParseError extends Error {}
 
+/**
+ * Thrown when rendering a template goes over one of the execution limits below.
+ * Extends TemplateParseError so it's handled everywhere template errors already are.
+ */
+export class TemplateLimitError extends TemplateParseError {}
+
+// Execution limits for a single render, so user-authored templates can't hang the bot
+const MAX_EVALUATIONS = 10_000;
+const MAX_LOOP_ITERATIONS = 1_000;
+const MAX_OUTPUT_LENGTH = 20_000;
+
+// Limits for values created by template functions
+const MAX_ARRAY_LENGTH = 1_000;
+const MAX_PAD_LENGTH = 2_000;
+
+const variableNameRegex = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
 interface ITemplateVar {
   identifier: string;
   args: Array<string | number | ITemplateVar>;
@@ -95,6 +112,35 @@ export function createTypedTemplateSafeValueContainer<T extends Record<string, T
   return new TemplateSafeValueContainer(data) as TypedTemplateSafeValueContainer<T>;
 }
 
+/**
+ * Checks the arguments of the built-in let() and each(), which are evaluated by the renderer itself
+ */
+function validateBuiltIns(arr: Array<string | number | ITemplateVar>) {
+  for (const item of arr) {
+    if (typeof item !== "object") continue;
+
+    if (item.identifier === "let") {
+      if (item.args.length !== 2) {
+        throw new TemplateParseError("let() takes a variable name and a value");
+      }
+      if (typeof item.args[0] !== "string" || !variableNameRegex.test(item.args[0])) {
+        throw new TemplateParseError(`Invalid variable name in let(): ${String(item.args[0])}`);
+      }
+    }
+
+    if (item.identifier === "each") {
+      if (item.args.length < 3 || item.args.length > 4) {
+        throw new TemplateParseError("each() takes an array, a variable name, a body and an optional separator");
+      }
+      if (typeof item.args[1] !== "string" || !variableNameRegex.test(item.args[1])) {
+        throw new TemplateParseError(`Invalid variable name in each(): ${String(item.args[1])}`);
+      }
+    }
+
+    validateBuiltIns(item.args);
+  }
+}
+
 function cleanUpParseResult(arr) {
   arr.forEach((item) => {
     if (typeof item === "object") {
@@ -276,17 +322,122 @@ export function parseTemplate(str: string): ParsedTemplate {
   // Clean-up
   cleanUpParseResult(result);
 
+  validateBuiltIns(result);
+
   return result;
 }
 
+interface RenderState {
+  evaluations: number;
+  loopIterations: number;
+  // Variables from let() and each(), innermost scope last
+  scopes: Array<Record<string, TemplateSafeValue>>;
+}
+
+function newRenderState(): RenderState {
+  return {
+    evaluations: 0,
+    loopIterations: 0,
+    scopes: [{}],
+  };
+}
+
+function checkOutputLength(output: string) {
+  if (output.length > MAX_OUTPUT_LENGTH) {
+    throw new TemplateLimitError(`Template output is longer than ${MAX_OUTPUT_LENGTH} characters`);
+  }
+}
+
+function findVariableScope(identifier: string, state: RenderState): Record<string, TemplateSafeValue> | null {
+  const name = identifier.split(".")[0].trim();
+  for (let i = state.scopes.length - 1; i >= 0; i--) {
+    if (Object.hasOwn(state.scopes[i], name)) {
+      return state.scopes[i];
+    }
+  }
+  return null;
+}
+
+function assertAssignable(name: string, values: TemplateSafeValueContainer) {
+  if (has(values, name) || Object.hasOwn(builtIns, name)) {
+    throw new TemplateParseError(`Can't use ${name} as a variable name`);
+  }
+}
+
+async function evaluateArg(
+  arg: string | number | ITemplateVar,
+  values: TemplateSafeValueContainer,
+  state: RenderState,
+): Promise<TemplateSafeValue> {
+  return typeof arg === "object" ? evaluateTemplateVariable(arg, values, state) : arg;
+}
+
+/**
+ * Functions that are evaluated by the renderer, since they need to control when and how often their arguments are evaluated
+ */
+const builtIns: Record<
+  string,
+  (args: ITemplateVar["args"], values: TemplateSafeValueContainer, state: RenderState) => Promise<TemplateSafeValue>
+> = {
+  // let("name", value) sets a variable for the rest of the current scope
+  async let([name, valueArg], values, state) {
+    assertAssignable(name as string, values);
+    state.scopes[state.scopes.length - 1][name as string] = await evaluateArg(valueArg, values, state);
+    return "";
+  },
+
+  // each(array, "name", body, separator) renders the body for each item in the array, with the item as a variable
+  async each([arrayArg, name, body, separatorArg = ""], values, state) {
+    assertAssignable(name as string, values);
+
+    const arr = await evaluateArg(arrayArg, values, state);
+    if (!Array.isArray(arr)) return "";
+    const separator = String(await evaluateArg(separatorArg, values, state));
+
+    let output = "";
+    for (const [i, item] of arr.entries()) {
+      if (++state.loopIterations > MAX_LOOP_ITERATIONS) {
+        throw new TemplateLimitError(`Template loops ran more than ${MAX_LOOP_ITERATIONS} times`);
+      }
+
+      state.scopes.push({ [name as string]: item });
+      try {
+        const rendered = await evaluateArg(body, values, state);
+        output += (i > 0 ? separator : "") + (rendered == null ? "" : String(rendered));
+      } finally {
+        state.scopes.pop();
+      }
+
+      checkOutputLength(output);
+    }
+
+    return output;
+  },
+};
+
 async function evaluateTemplateVariable(
   theVar: ITemplateVar,
   values: TemplateSafeValueContainer,
+  state: RenderState,
 ): Promise<TemplateSafeValue> {
   if (!(values instanceof TemplateSafeValueContainer)) {
     throw new Error("evaluateTemplateVariable() called with unsafe values");
   }
 
+  if (++state.evaluations > MAX_EVALUATIONS) {
+    throw new TemplateLimitError("Template is too complex to render");
+  }
+
+  const variableScope = findVariableScope(theVar.identifier, state);
+  if (variableScope) {
+    const variableValue = get(variableScope, theVar.identifier);
+    return variableValue == null ? "" : variableValue;
+  }
+
+  if (Object.hasOwn(builtIns, theVar.identifier) && !has(values, theVar.identifier)) {
+    return builtIns[theVar.identifier](theVar.args, values, state);
+  }
+
   const value = has(values, theVar.identifier) ? get(values, theVar.identifier) : undefined;
 
   if (typeof value === "function") {
@@ -297,12 +448,7 @@ async function evaluateTemplateVariable(
 
     const args: any[] = [];
     for (const arg of theVar.args) {
-      if (typeof arg === "object") {
-        const argValue = await evaluateTemplateVariable(arg as ITemplateVar, values);
-        args.push(argValue);
-      } else {
-        args.push(arg);
-      }
+      args.push(await evaluateArg(arg, values, state));
     }
 
     const result = await value(...args);
@@ -310,21 +456,32 @@ async function evaluateTemplateVariable(
       throw new Error(`Template function ${theVar.identifier} returned unsafe value`);
     }
 
+    // Intermediate values are limited too, so functions like concat() can't be chained to build huge strings
+    if (typeof result === "string") {
+      checkOutputLength(result);
+    }
+
     return result == null ? "" : result;
   }
 
   return value == null ? "" : value;
 }
 
-export async function renderParsedTemplate(parsedTemplate: ParsedTemplate, values: TemplateSafeValueContainer) {
+export async function renderParsedTemplate(
+  parsedTemplate: ParsedTemplate,
+  values: TemplateSafeValueContainer,
+  state: RenderState = newRenderState(),
+) {
   let result = "";
 
   for (const part of parsedTemplate) {
     if (typeof part === "object") {
-      result += await evaluateTemplateVariable(part, values);
+      result += await evaluateTemplateVariable(part, values, state);
     } else {
       result += part.toString();
     }
+
+    checkOutputLength(result);
   }
 
   return result;
@@ -459,6 +616,59 @@ const baseValues = {
     const mod = Math.floor(Math.random() * cases.length) + 1;
     return baseValues.cases(mod, ...cases);
   },
+  replace(str, search, replacement = "") {
+    if (typeof str !== "string") return "";
+    if (search == null || search === "") return str;
+    const parts = str.split(String(search));
+    const resultLength = str.length + (parts.length - 1) * (String(replacement).length - String(search).length);
+    if (resultLength > MAX_OUTPUT_LENGTH) {
+      throw new TemplateLimitError(`Template output is longer than ${MAX_OUTPUT_LENGTH} characters`);
+    }
+    return parts.join(String(replacement));
+  },
+  split(str, separator = "") {
+    if (typeof str !== "string") return [];
+    return str.split(String(separator)).slice(0, MAX_ARRAY_LENGTH);
+  },
+  trim(str) {
+    if (typeof str !== "string") return str;
+    return str.trim();
+  },
+  padStart(str, length, fill = " ") {
+    if (str == null || isNaN(length)) return "";
+    return String(str).padStart(Math.min(parseInt(length, 10), MAX_PAD_LENGTH), String(fill));
+  },
+  padEnd(str, length, fill = " ") {
+    if (str == null || isNaN(length)) return "";
+    return String(str).padEnd(Math.min(parseInt(length, 10), MAX_PAD_LENGTH), String(fill));
+  },
+  formatNumber(num, decimals = null) {
+    if (num === "" || num == null || isNaN(num)) return "";
+    const fractionDigits =
+      decimals != null && !isNaN(decimals) ? Math.min(Math.max(parseInt(decimals, 10), 0), 20) : null;
+    const options =
+      fractionDigits != null ? { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits } : {};
+    return parseFloat(num).toLocaleString("en-US", options);
+  },
+  count(arg) {
+    if (Array.isArray(arg)) return arg.length;
+    if (typeof arg === "string") return [...arg].length;
+    return 0;
+  },
+  range(from, to) {
+    if (isNaN(from)) return [];
+    if (to == null) {
+      to = from;
+      from = 1;
+    }
+    if (isNaN(to)) return [];
+
+    const result: number[] = [];
+    for (let i = parseInt(from, 10); i <= parseInt(to, 10) && result.length < MAX_ARRAY_LENGTH; i++) {
+      result.push(i);
+    }
+    return result;
+  },
 };
 
 export async function renderTemplate(
@@ -1,9 +1,11 @@
 import * as t from "io-ts";
 import { BaseConfig, Knub } from "knub";
+import { ConfigListSchema, TConfigList } from "./utils/configLists";
 
 export interface ZeppelinGuildConfig extends BaseConfig {
   success_emoji?: string;
   error_emoji?: string;
+  lists?: Record<string, TConfigList>;
 
   // Deprecated
   timezone?: string;
@@ -19,6 +21,7 @@ export const ZeppelinGuildConfigSchema = t.type({
   // From ZeppelinGuildConfig
   success_emoji: t.string,
   error_emoji: t.string,
+  lists: t.record(t.string, ConfigListSchema),
 
   // Deprecated
   timezone: t.string,
@@ -945,11 +945,20 @@ export async function createChunkedMessage(
   channel: TextBasedChannel | User,
   messageText: string,
   allowedMentions?: MessageMentionOptions,
-) {
+  components?: MessageCreateOptions["components"],
+): Promise<Message | null> {
   const chunks = chunkMessageLines(messageText);
-  for (const chunk of chunks) {
-    await channel.send({ content: chunk, allowedMentions });
+  let lastMessage: Message | null = null;
+  for (const [i, chunk] of chunks.entries()) {
+    // Components, if any, are attached to the last chunk
+    const isLastChunk = i === chunks.length - 1;
+    lastMessage = await channel.send({
+      content: chunk,
+      allowedMentions,
+      components: isLastChunk ? components : undefined,
+    });
   }
+  return lastMessage;
 }
 
 /**
@@ -1084,6 +1093,8 @@ export interface UserNotificationResult {
   method: UserNotificationMethod | null;
   success: boolean;
   text?: string;
+  // The notification message, or its last chunk
+  message?: Message | null;
 }
 
 export function createUserNotificationError(text: string): UserNotificationResult {
@@ -1102,6 +1113,7 @@ export async function notifyUser(
   user: User,
   body: string,
   methods: UserNotificationMethod[],
+  components?: MessageCreateOptions["components"],
 ): Promise<UserNotificationResult> {
   if (methods.length === 0) {
     return { method: null, success: true };
@@ -1112,10 +1124,11 @@ export async function notifyUser(
   for (const method of methods) {
     if (method.type === "dm") {
       try {
-        await sendDM(user, body, "mod action notification");
+        const message = await sendDM(user, body, "mod action notification", components);
         return {
           method,
           success: true,
+          message,
           text: "user notified with a direct message",
         };
       } catch (e) {
@@ -1123,13 +1136,15 @@ export async function notifyUser(
       }
     } else if (method.type === "channel") {
       try {
-        await method.channel.send({
+        const message = await method.channel.send({
           content: `<@!${user.id}> ${body}`,
           allowedMentions: { users: [user.id] },
+          components,
         });
         return {
           method,
           success: true,
+          message,
           text: `user notified in <#${method.channel.id}>`,
         };
       } catch (e) {
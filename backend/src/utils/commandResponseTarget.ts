@@ -0,0 +1,39 @@
+import { ChatInputCommandInteraction, Message, MessageCreateOptions, TextBasedChannel } from "discord.js";
+
+/**
+ * A place a command's responses can be sent to: either a regular text channel or a slash command interaction
+ */
+export type CommandResponseTarget = TextBasedChannel | ChatInputCommandInteraction;
+
+export function isInteractionResponseTarget(target: CommandResponseTarget): target is ChatInputCommandInteraction {
+  return target instanceof ChatInputCommandInteraction;
+}
+
+export function getResponseTargetChannelId(target: CommandResponseTarget): string {
+  return isInteractionResponseTarget(target) ? target.channelId : target.id;
+}
+
+/**
+ * Sends a response to a channel or an interaction.
+ * Interaction responses are always ephemeral, and follow up on the interaction if it has already been replied to.
+ */
+export async function sendContextResponse(
+  target: CommandResponseTarget,
+  response: string | Omit<MessageCreateOptions, "flags">,
+): Promise<Message> {
+  const options = typeof response === "string" ? { content: response } : response;
+
+  if (isInteractionResponseTarget(target)) {
+    if (target.replied) {
+      return target.followUp({ ...options, ephemeral: true, fetchReply: true });
+    }
+
+    if (target.deferred) {
+      return target.editReply(options);
+    }
+
+    return target.reply({ ...options, ephemeral: true, fetchReply: true });
+  }
+
+  return target.send(options);
+}
@@ -0,0 +1,72 @@
+import test from "ava";
+import { ConfigListError, expandConfigLists, normalizeConfigListItem, parseStoredConfigListItems } from "./configLists";
+
+test("expandConfigLists() replaces list references with the list items", (t) => {
+  const config = {
+    lists: {
+      fruits: { type: "words", items: ["banana", "apple"] },
+    },
+    plugins: {
+      censor: {
+        config: { blocked_words: [{ list: "fruits" }, "pear"] },
+        overrides: [{ level: ">=50", config: { blocked_words: [{ list: "fruits" }] } }],
+      },
+    },
+  };
+
+  const expanded = expandConfigLists(config);
+  t.deepEqual(expanded.plugins.censor.config.blocked_words, ["banana", "apple", "pear"]);
+  t.deepEqual(expanded.plugins.censor.overrides[0].config.blocked_words, ["banana", "apple"]);
+  t.deepEqual(config.plugins.censor.config.blocked_words, [{ list: "fruits" }, "pear"]);
+});
+
+test("expandConfigLists() includes stored items only for stored lists", (t) => {
+  const config = {
+    lists: {
+      stored_domains: { type: "domains", items: ["example.com"], stored: true },
+      inline_domains: { type: "domains", items: ["example.org"] },
+    },
+    plugins: {
+      censor: {
+        config: { domain_blacklist: [{ list: "stored_domains" }, { list: "inline_domains" }] },
+      },
+    },
+  };
+
+  const expanded = expandConfigLists(config, {
+    stored_domains: ["https://Scam.example/login", "example.com"],
+    inline_domains: ["ignored.example"],
+  });
+  t.deepEqual(expanded.plugins.censor.config.domain_blacklist, ["example.com", "scam.example", "example.org"]);
+});
+
+test("expandConfigLists() throws on unknown lists", (t) => {
+  const config = {
+    plugins: {
+      automod: { config: { rules: { foo: { triggers: [{ match_words: { words: [{ list: "missing" }] } }] } } } },
+    },
+  };
+
+  const err = t.throws(() => expandConfigLists(config), { instanceOf: ConfigListError });
+  t.deepEqual(err?.path, ["plugins", "automod", "config", "rules", "foo", "triggers", 0, "match_words", "words", 0]);
+});
+
+test("expandConfigLists() throws on invalid regexes", (t) => {
+  const config = {
+    lists: { patterns: { type: "regex", items: ["b(an"] } },
+    plugins: {},
+  };
+
+  const err = t.throws(() => expandConfigLists(config), { instanceOf: ConfigListError });
+  t.deepEqual(err?.path, ["lists", "patterns"]);
+});
+
+test("normalizeConfigListItem() strips invite link prefixes", (t) => {
+  t.is(normalizeConfigListItem("invites", "https://discord.gg/zeppelin"), "zeppelin");
+  t.is(normalizeConfigListItem("invites", "discord.com/invite/zeppelin"), "zeppelin");
+  t.is(normalizeConfigListItem("invites", "zeppelin"), "zeppelin");
+});
+
+test("parseStoredConfigListItems() skips empty lines and comments", (t) => {
+  t.deepEqual(parseStoredConfigListItems("# Fruits\nbanana\n\n  apple \r\n#pear"), ["banana", "apple"]);
+});
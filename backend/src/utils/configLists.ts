@@ -0,0 +1,141 @@
+import * as t from "io-ts";
+import { tNullable } from "../utils";
+import { InvalidRegexError, inputPatternToRegExp } from "../validatorUtils";
+
+export const ConfigListSchema = t.type({
+  type: t.keyof({
+    words: null,
+    regex: null,
+    domains: null,
+    invites: null,
+  }),
+  items: tNullable(t.array(t.string)),
+  // Whether the list also includes the items uploaded for it through the API
+  stored: tNullable(t.boolean),
+});
+export type TConfigList = t.TypeOf<typeof ConfigListSchema>;
+export type ConfigListType = TConfigList["type"];
+
+export const configListNameRegex = /^[a-z0-9_-]{1,64}$/i;
+
+export class ConfigListError extends Error {
+  constructor(
+    message: string,
+    // Path of the invalid list or list reference within the config
+    public path: Array<string | number> = [],
+  ) {
+    super(message);
+  }
+}
+
+const domainProtocolRegex = /^[a-z][a-z0-9+.-]*:\/\//i;
+const invitePrefixRegex = /^(?:https?:\/\/)?(?:www\.)?(?:discord\.gg|discord(?:app)?\.com\/invite)\//i;
+
+/**
+ * Normalizes a list item to the format its consumers expect, e.g. "https://Example.com/foo" -> "example.com"
+ * for domains. Returns null for items that end up empty.
+ */
+export function normalizeConfigListItem(type: ConfigListType, item: string): string | null {
+  let normalized = item.trim();
+
+  if (type === "domains") {
+    normalized = normalized.replace(domainProtocolRegex, "").split(/[/?#]/)[0].toLowerCase();
+  } else if (type === "invites") {
+    normalized = normalized.replace(invitePrefixRegex, "").split(/[/?#]/)[0];
+  } else if (type === "regex" && normalized !== "") {
+    try {
+      inputPatternToRegExp(normalized);
+    } catch (err) {
+      if (err instanceof InvalidRegexError) {
+        throw new ConfigListError(`Invalid regex ${normalized}: ${err.message}`);
+      }
+
+      throw err;
+    }
+  }
+
+  return normalized === "" ? null : normalized;
+}
+
+/**
+ * Parses the text of a stored list: one item per line, with empty lines and lines starting with # ignored
+ */
+export function parseStoredConfigListItems(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "" && !line.startsWith("#"));
+}
+
+function isListReference(value: unknown): value is { list: string } {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value).length === 1 &&
+    typeof value["list"] === "string"
+  );
+}
+
+function expandListReferences(value: unknown, listItems: Map<string, string[]>, path: Array<string | number>): unknown {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => {
+      if (isListReference(item)) {
+        const items = listItems.get(item.list);
+        if (!items) {
+          throw new ConfigListError(`Unknown list: ${item.list}`, [...path, i]);
+        }
+        return items;
+      }
+
+      return [expandListReferences(item, listItems, [...path, i])];
+    });
+  }
+
+  if (value != null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, expandListReferences(item, listItems, [...path, key])]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Replaces list references, i.e. `{ list: "name" }` items in arrays within plugin options, with the items of the
+ * referenced list from the `lists` section of the config.
+ * @param storedItems Items of the guild's stored lists, by list name
+ */
+export function expandConfigLists(config: any, storedItems: Record<string, string[]> = {}): any {
+  if (config?.plugins == null || typeof config.plugins !== "object") {
+    return config;
+  }
+
+  const listItems = new Map<string, string[]>();
+  for (const [name, list] of Object.entries<TConfigList>(config.lists ?? {})) {
+    const items = [...(list.items ?? []), ...(list.stored ? storedItems[name] ?? [] : [])];
+    const normalizedItems = new Set<string>();
+    for (const item of items) {
+      let normalizedItem: string | null;
+      try {
+        normalizedItem = normalizeConfigListItem(list.type, item);
+      } catch (err) {
+        if (err instanceof ConfigListError) {
+          throw new ConfigListError(`List ${name}: ${err.message}`, ["lists", name]);
+        }
+
+        throw err;
+      }
+
+      if (normalizedItem != null) {
+        normalizedItems.add(normalizedItem);
+      }
+    }
+    listItems.set(name, Array.from(normalizedItems));
+  }
+
+  return {
+    ...config,
+    plugins: expandListReferences(config.plugins, listItems, ["plugins"]),
+  };
+}
@@ -0,0 +1,38 @@
+import test from "ava";
+import { createUnifiedDiff, getAddedLines } from "./createUnifiedDiff";
+
+test("createUnifiedDiff() returns an empty string for identical texts", (t) => {
+  t.is(createUnifiedDiff("foo\nbar\n", "foo\nbar\n"), "");
+});
+
+test("createUnifiedDiff() includes context lines around changes", (t) => {
+  const oldText = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n");
+  const newText = ["a", "b", "c", "d", "E", "f", "g", "h"].join("\n");
+
+  t.is(
+    createUnifiedDiff(oldText, newText, "old", "new"),
+    ["--- old", "+++ new", "@@ -2,7 +2,7 @@", " b", " c", " d", "-e", "+E", " f", " g", " h", ""].join("\n"),
+  );
+});
+
+test("createUnifiedDiff() splits distant changes into separate hunks", (t) => {
+  const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+  const newLines = [...oldLines];
+  newLines[1] = "changed 2";
+  newLines.splice(17, 1);
+
+  const diff = createUnifiedDiff(oldLines.join("\n"), newLines.join("\n"));
+  const hunkHeaders = diff.split("\n").filter((line) => line.startsWith("@@"));
+
+  t.deepEqual(hunkHeaders, ["@@ -1,5 +1,5 @@", "@@ -15,6 +15,5 @@"]);
+});
+
+test("createUnifiedDiff() handles additions to an empty text", (t) => {
+  t.is(createUnifiedDiff("", "foo\n"), ["--- a", "+++ b", "@@ -0,0 +1,1 @@", "+foo", ""].join("\n"));
+});
+
+test("getAddedLines() returns only added and changed lines", (t) => {
+  t.deepEqual(getAddedLines("hello\nworld", "hello\nworld"), []);
+  t.deepEqual(getAddedLines("hello\nworld", "hello there\nworld\nnew line"), ["hello there", "new line"]);
+  t.deepEqual(getAddedLines("", "foo"), ["foo"]);
+});
@@ -0,0 +1,139 @@
+type DiffOp = {
+  type: " " | "-" | "+";
+  line: string;
+};
+
+// Maximum size of the LCS table for the changed section before falling back to replacing the whole section
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [...a.map((line) => ({ type: "-" as const, line })), ...b.map((line) => ({ type: "+" as const, line }))];
+  }
+
+  // lcs[i * width + j] = length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: "-", line: a[i++] });
+    } else {
+      ops.push({ type: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: "-", line: a[i++] });
+  while (j < b.length) ops.push({ type: "+", line: b[j++] });
+
+  return ops;
+}
+
+function diffTexts(oldText: string, newText: string): DiffOp[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Only diff the section between the common prefix and suffix
+  let prefixLength = 0;
+  while (
+    prefixLength < oldLines.length &&
+    prefixLength < newLines.length &&
+    oldLines[prefixLength] === newLines[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < oldLines.length - prefixLength &&
+    suffixLength < newLines.length - prefixLength &&
+    oldLines[oldLines.length - 1 - suffixLength] === newLines[newLines.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  return [
+    ...oldLines.slice(0, prefixLength).map((line) => ({ type: " " as const, line })),
+    ...diffLines(
+      oldLines.slice(prefixLength, oldLines.length - suffixLength),
+      newLines.slice(prefixLength, newLines.length - suffixLength),
+    ),
+    ...oldLines.slice(oldLines.length - suffixLength).map((line) => ({ type: " " as const, line })),
+  ];
+}
+
+/**
+ * Returns the lines of the new text that were added or changed compared to the old text
+ */
+export function getAddedLines(oldText: string, newText: string): string[] {
+  return diffTexts(oldText, newText)
+    .filter((op) => op.type === "+")
+    .map((op) => op.line);
+}
+
+/**
+ * Creates a line-based diff between two texts in the unified diff format.
+ * Returns an empty string if the texts are identical.
+ */
+export function createUnifiedDiff(oldText: string, newText: string, oldLabel = "a", newLabel = "b", context = 3) {
+  const ops = diffTexts(oldText, newText);
+  const changeIndices = ops.flatMap((op, index) => (op.type === " " ? [] : [index]));
+  if (changeIndices.length === 0) {
+    return "";
+  }
+
+  // Group changes that are close enough to each other to share context lines into hunks
+  const hunkRanges: Array<[number, number]> = [];
+  for (const index of changeIndices) {
+    const lastRange = hunkRanges[hunkRanges.length - 1];
+    if (lastRange && index - lastRange[1] <= context * 2 + 1) {
+      lastRange[1] = index;
+    } else {
+      hunkRanges.push([index, index]);
+    }
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let opIndex = 0;
+  let oldLineNum = 0;
+  let newLineNum = 0;
+  for (const [firstChange, lastChange] of hunkRanges) {
+    const start = Math.max(0, firstChange - context);
+    const end = Math.min(ops.length, lastChange + context + 1);
+
+    for (; opIndex < start; opIndex++) {
+      if (ops[opIndex].type !== "+") oldLineNum++;
+      if (ops[opIndex].type !== "-") newLineNum++;
+    }
+
+    const hunkOps = ops.slice(start, end);
+    const oldCount = hunkOps.filter((op) => op.type !== "+").length;
+    const newCount = hunkOps.filter((op) => op.type !== "-").length;
+    const oldStart = oldCount === 0 ? oldLineNum : oldLineNum + 1;
+    const newStart = newCount === 0 ? newLineNum : newLineNum + 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunkOps.map((op) => `${op.type}${op.line}`));
+  }
+
+  return output.join("\n") + "\n";
+}
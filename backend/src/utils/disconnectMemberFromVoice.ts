@@ -0,0 +1,26 @@
+import { GuildMember, User } from "discord.js";
+import { GuildPluginData } from "knub";
+import { LogsPlugin } from "../plugins/Logs/LogsPlugin";
+
+/**
+ * Disconnects the member from their current voice channel and logs it as a forced disconnect by `mod`
+ * @throws - If the member could not be disconnected
+ */
+export async function disconnectMemberFromVoice(
+  pluginData: GuildPluginData<any>,
+  member: GuildMember,
+  mod: User,
+): Promise<void> {
+  const oldChannel = member.voice.channel;
+  if (!oldChannel) {
+    return;
+  }
+
+  await member.voice.disconnect();
+
+  pluginData.getPlugin(LogsPlugin).logVoiceChannelForceDisconnect({
+    mod,
+    member,
+    oldChannel,
+  });
+}
@@ -0,0 +1,39 @@
+import test from "ava";
+import { findYamlPathPosition } from "./findYamlPathPosition";
+
+const yaml = `
+prefix: "!"
+plugins:
+  # Comment
+  mod_actions:
+    config:
+      dm_on_warn: true
+    overrides:
+      - level: ">=50"
+        config:
+          can_warn: false
+      - channel: "123"
+        config:
+          "can_ban": true
+`;
+
+test("findYamlPathPosition() finds nested keys", (t) => {
+  t.deepEqual(findYamlPathPosition(yaml, ["plugins", "mod_actions", "config", "dm_on_warn"]), { line: 7, column: 7 });
+});
+
+test("findYamlPathPosition() finds list items and keys within them", (t) => {
+  t.deepEqual(findYamlPathPosition(yaml, ["plugins", "mod_actions", "overrides", 1]), { line: 12, column: 7 });
+  t.deepEqual(findYamlPathPosition(yaml, ["plugins", "mod_actions", "overrides", "0", "level"]), {
+    line: 9,
+    column: 9,
+  });
+  t.deepEqual(findYamlPathPosition(yaml, ["plugins", "mod_actions", "overrides", 1, "config", "can_ban"]), {
+    line: 14,
+    column: 11,
+  });
+});
+
+test("findYamlPathPosition() falls back to the deepest found parent", (t) => {
+  t.deepEqual(findYamlPathPosition(yaml, ["plugins", "mod_actions", "config", "can_kick"]), { line: 6, column: 5 });
+  t.is(findYamlPathPosition(yaml, ["levels"]), null);
+});
@@ -0,0 +1,192 @@
+export interface YamlPosition {
+  // 1-based
+  line: number;
+  // 1-based
+  column: number;
+}
+
+interface YamlLine {
+  indent: number;
+  isListItem: boolean;
+  // Column where the content after a list item's dash starts, or null if the dash is alone on the line
+  listItemContentColumn: number | null;
+}
+
+interface YamlNode {
+  lineIndex: number;
+  column: number;
+  isListItem: boolean;
+  listItemContentColumn: number | null;
+}
+
+interface YamlEntry {
+  lineIndex: number;
+  column: number;
+  isListItem: boolean;
+  listItemContentColumn: number | null;
+  text: string;
+}
+
+const keyRegex = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s"'#][^#]*?))\s*:(?:\s|$)/;
+
+function parseLine(text: string): YamlLine | null {
+  const trimmed = text.trimStart();
+  if (trimmed === "" || trimmed.startsWith("#")) {
+    return null;
+  }
+
+  const indent = text.length - trimmed.length;
+  const listItemMatch = trimmed.match(/^-(\s+|$)/);
+  if (!listItemMatch) {
+    return { indent, isListItem: false, listItemContentColumn: null };
+  }
+
+  const contentColumn = indent + listItemMatch[0].length;
+  const hasContent = contentColumn < text.length && !text.slice(contentColumn).startsWith("#");
+  return { indent, isListItem: true, listItemContentColumn: hasContent ? contentColumn : null };
+}
+
+function isOutsideNode(node: YamlNode, line: YamlLine): boolean {
+  return node.isListItem
+    ? line.indent <= node.column
+    : line.indent < node.column || (line.indent === node.column && !line.isListItem);
+}
+
+function getChildEntries(rawLines: string[], lines: Array<YamlLine | null>, node: YamlNode): YamlEntry[] {
+  const candidates: YamlEntry[] = [];
+
+  // Content on the same line as a list item's dash, e.g. the "foo: bar" in "- foo: bar"
+  if (node.isListItem && node.listItemContentColumn != null) {
+    const inline = parseLine(rawLines[node.lineIndex].slice(node.listItemContentColumn));
+    candidates.push({
+      lineIndex: node.lineIndex,
+      column: node.listItemContentColumn,
+      isListItem: inline?.isListItem ?? false,
+      listItemContentColumn:
+        inline?.listItemContentColumn != null ? node.listItemContentColumn + inline.listItemContentColumn : null,
+      text: rawLines[node.lineIndex].slice(node.listItemContentColumn),
+    });
+  }
+
+  for (let i = node.lineIndex + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line) continue;
+
+    if (isOutsideNode(node, line)) break;
+
+    candidates.push({
+      lineIndex: i,
+      column: line.indent,
+      isListItem: line.isListItem,
+      listItemContentColumn: line.listItemContentColumn,
+      text: rawLines[i].slice(line.indent),
+    });
+  }
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  // Only entries on the same indentation level as the first entry are direct children
+  const childColumn = candidates[0].column;
+  return candidates.filter((entry) => entry.column === childColumn);
+}
+
+function findChild(entries: YamlEntry[], segment: string | number): YamlEntry | null {
+  const isSequence = entries.length > 0 && entries[0].isListItem;
+  if (isSequence) {
+    const index = typeof segment === "number" ? segment : /^\d+$/.test(segment) ? parseInt(segment, 10) : null;
+    if (index == null) return null;
+    return entries.filter((entry) => entry.isListItem)[index] ?? null;
+  }
+
+  const key = String(segment);
+  for (const entry of entries) {
+    if (entry.isListItem) continue;
+    const match = entry.text.match(keyRegex);
+    if (!match) continue;
+
+    const entryKey = match[1] ?? (match[2] != null ? match[2].replace(/''/g, "'") : match[3]);
+    if (entryKey === key) {
+      return entry;
+    }
+  }
+
+  return null;
+}
+
+function findYamlPathNodes(
+  rawLines: string[],
+  lines: Array<YamlLine | null>,
+  path: Array<string | number>,
+): YamlNode[] {
+  const nodes: YamlNode[] = [];
+  let node: YamlNode = { lineIndex: -1, column: -1, isListItem: false, listItemContentColumn: null };
+
+  for (const segment of path) {
+    const entry = findChild(getChildEntries(rawLines, lines, node), segment);
+    if (!entry) break;
+
+    node = {
+      lineIndex: entry.lineIndex,
+      column: entry.column,
+      isListItem: entry.isListItem,
+      listItemContentColumn: entry.listItemContentColumn,
+    };
+    nodes.push(node);
+  }
+
+  return nodes;
+}
+
+/**
+ * Finds the position of the value at the given path in a block-style YAML document without fully parsing it.
+ * If the full path can't be found (e.g. because the value comes from defaults or uses flow style),
+ * the position of the deepest parent that could be found is returned instead.
+ *
+ * @return - The position of the key or list item, or null if not even the first path segment was found
+ */
+export function findYamlPathPosition(yamlText: string, path: Array<string | number>): YamlPosition | null {
+  const rawLines = yamlText.split(/\r?\n/);
+  const nodes = findYamlPathNodes(rawLines, rawLines.map(parseLine), path);
+  if (nodes.length === 0) {
+    return null;
+  }
+
+  const deepestNode = nodes[nodes.length - 1];
+  return { line: deepestNode.lineIndex + 1, column: deepestNode.column + 1 };
+}
+
+export interface YamlBlock {
+  // 0-based, inclusive
+  startLine: number;
+  // 0-based, exclusive. Trailing blank lines and comments are not included.
+  endLine: number;
+  // 0-based column of the key or list item
+  column: number;
+}
+
+/**
+ * Finds the lines taken up by the value at the given path, including its key and any nested values
+ *
+ * @return - The line range of the value, or null if the full path was not found
+ */
+export function findYamlPathBlock(yamlText: string, path: Array<string | number>): YamlBlock | null {
+  const rawLines = yamlText.split(/\r?\n/);
+  const lines = rawLines.map(parseLine);
+  const nodes = findYamlPathNodes(rawLines, lines, path);
+  if (path.length === 0 || nodes.length !== path.length) {
+    return null;
+  }
+
+  const node = nodes[nodes.length - 1];
+  let lastLineIndex = node.lineIndex;
+  for (let i = node.lineIndex + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line) continue;
+    if (isOutsideNode(node, line)) break;
+    lastLineIndex = i;
+  }
+
+  return { startLine: node.lineIndex, endLine: lastLineIndex + 1, column: node.column };
+}
@@ -0,0 +1,34 @@
+import test from "ava";
+import { findClosestMatch, getFuzzyMatchScore, levenshteinDistance } from "./fuzzyMatch";
+
+test("levenshteinDistance() counts insertions, deletions and substitutions", (t) => {
+  t.is(levenshteinDistance("rules", "rules"), 0);
+  t.is(levenshteinDistance("rules", "rule"), 1);
+  t.is(levenshteinDistance("rules", "rulez"), 1);
+  t.is(levenshteinDistance("kitten", "sitting"), 3);
+  t.is(levenshteinDistance("", "abc"), 3);
+});
+
+test("getFuzzyMatchScore() ranks exact, prefix, substring, typo and subsequence matches", (t) => {
+  const exact = getFuzzyMatchScore("faq", "FAQ");
+  const prefix = getFuzzyMatchScore("faq", "faq-old");
+  const substring = getFuzzyMatchScore("faq", "server-faq");
+  const typo = getFuzzyMatchScore("rulez", "rules");
+  const subsequence = getFuzzyMatchScore("rls", "server-rules");
+
+  t.is(exact, 1);
+  t.true(exact > prefix);
+  t.true(prefix > substring);
+  t.true(substring > typo);
+  t.true(typo > subsequence);
+  t.true(subsequence > 0);
+  t.is(getFuzzyMatchScore("banana", "rules"), 0);
+  t.is(getFuzzyMatchScore("", "rules"), 0);
+});
+
+test("findClosestMatch() suggests the closest candidate within a few typos", (t) => {
+  t.is(findClosestMatch("rulez", ["faq", "rules", "roles"]), "rules");
+  t.is(findClosestMatch("ruls", ["rules", "rule"]), "rules");
+  t.is(findClosestMatch("banana", ["faq", "rules"]), null);
+  t.is(findClosestMatch("Rules", ["rules"]), null);
+});
@@ -0,0 +1,83 @@
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(previousRow[j] + 1, currentRow[j - 1] + 1, previousRow[j - 1] + substitutionCost);
+    }
+    previousRow = currentRow;
+  }
+
+  return previousRow[b.length];
+}
+
+/**
+ * How many typos are tolerated in a query of the given length
+ */
+function getMaxTypos(queryLength: number): number {
+  return Math.max(1, Math.floor(queryLength / 4));
+}
+
+function isSubsequence(query: string, candidate: string): boolean {
+  let queryIndex = 0;
+  for (const char of candidate) {
+    if (char === query[queryIndex]) queryIndex++;
+    if (queryIndex === query.length) return true;
+  }
+  return queryIndex === query.length;
+}
+
+/**
+ * Scores how well the query matches the candidate, case-insensitively.
+ * Exact matches score 1, then prefix matches, substring matches, matches with a few typos,
+ * and finally matches where the query's characters appear in order in the candidate. Non-matches score 0.
+ */
+export function getFuzzyMatchScore(query: string, candidate: string): number {
+  const q = query.toLowerCase();
+  const c = candidate.toLowerCase();
+  if (q === "") return 0;
+
+  if (c === q) return 1;
+  if (c.startsWith(q)) return 0.9;
+  if (c.includes(q)) return 0.8;
+
+  const distance = levenshteinDistance(q, c);
+  if (distance <= getMaxTypos(q.length)) {
+    return 0.7 - distance * 0.05;
+  }
+
+  if (isSubsequence(q, c)) {
+    return 0.4 * (q.length / c.length);
+  }
+
+  return 0;
+}
+
+/**
+ * Finds the candidate that is closest to the query, if any is within a few typos of it.
+ * Exact (case-insensitive) matches are not considered, since they aren't a suggestion.
+ */
+export function findClosestMatch(query: string, candidates: Iterable<string>): string | null {
+  const q = query.toLowerCase();
+  const maxTypos = getMaxTypos(q.length);
+
+  let closest: string | null = null;
+  let closestDistance = Infinity;
+  for (const candidate of candidates) {
+    const c = candidate.toLowerCase();
+    if (c === q || Math.abs(c.length - q.length) > maxTypos) continue;
+
+    const distance = levenshteinDistance(q, c);
+    if (distance <= maxTypos && distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
@@ -0,0 +1,30 @@
+import { GuildMember, User, VoiceBasedChannel } from "discord.js";
+import { GuildPluginData } from "knub";
+import { LogsPlugin } from "../plugins/Logs/LogsPlugin";
+
+/**
+ * Moves the member from their current voice channel to another one and logs it as a forced move by `mod`
+ * @throws - If the member could not be moved
+ */
+export async function moveMemberToVoiceChannel(
+  pluginData: GuildPluginData<any>,
+  member: GuildMember,
+  channel: VoiceBasedChannel,
+  mod: User,
+): Promise<void> {
+  const oldChannel = member.voice.channel;
+  if (!oldChannel || oldChannel.id === channel.id) {
+    return;
+  }
+
+  await member.edit({
+    channel: channel.id,
+  });
+
+  pluginData.getPlugin(LogsPlugin).logVoiceChannelForceMove({
+    mod,
+    member,
+    oldChannel,
+    newChannel: channel,
+  });
+}
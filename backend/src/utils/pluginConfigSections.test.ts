@@ -0,0 +1,56 @@
+import test from "ava";
+import { getPluginConfigSection, PluginConfigSectionError, replacePluginConfigSection } from "./pluginConfigSections";
+
+const config = `prefix: "!"
+plugins:
+  # Tags
+  tags:
+    config:
+      prefix: "?"
+    overrides:
+      - level: ">=50"
+        config:
+          can_create: true
+
+  utility: {}
+`;
+
+test("getPluginConfigSection() returns the dedented plugin options", (t) => {
+  t.is(
+    getPluginConfigSection(config, "tags"),
+    ["config:", '  prefix: "?"', "overrides:", '  - level: ">=50"', "    config:", "      can_create: true", ""].join(
+      "\n",
+    ),
+  );
+  t.is(getPluginConfigSection(config, "utility"), "{}\n");
+  t.is(getPluginConfigSection(config, "censor"), null);
+});
+
+test("replacePluginConfigSection() only replaces the given plugin's options", (t) => {
+  const result = replacePluginConfigSection(config, "tags", "config:\n  prefix: '!!'\n");
+  t.is(
+    result,
+    [
+      'prefix: "!"',
+      "plugins:",
+      "  # Tags",
+      "  tags:",
+      "    config:",
+      "      prefix: '!!'",
+      "",
+      "  utility: {}",
+      "",
+    ].join("\n"),
+  );
+});
+
+test("replacePluginConfigSection() adds missing plugins", (t) => {
+  t.is(replacePluginConfigSection(config, "censor", "config: {}"), config + "  censor:\n    config: {}\n");
+  t.is(replacePluginConfigSection('prefix: "!"\n', "tags", ""), 'prefix: "!"\n\nplugins:\n  tags: {}\n');
+});
+
+test("replacePluginConfigSection() refuses to edit flow style plugins", (t) => {
+  t.throws(() => replacePluginConfigSection("plugins: { tags: {} }\n", "tags", "config: {}"), {
+    instanceOf: PluginConfigSectionError,
+  });
+});
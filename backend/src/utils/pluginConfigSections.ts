@@ -0,0 +1,108 @@
+import { findYamlPathBlock } from "./findYamlPathPosition";
+
+export class PluginConfigSectionError extends Error {}
+
+const pluginIndentSize = 2;
+
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isMeaningfulLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed !== "" && !trimmed.startsWith("#");
+}
+
+/**
+ * Returns the inline value after the key on the given line, e.g. "{}" for "tags: {} # comment"
+ */
+function getInlineValue(keyLine: string): string {
+  const afterKey = keyLine.replace(/^\s*(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#][^#]*?)\s*:/, "");
+  return afterKey.replace(/(^|\s)#.*$/, "").trim();
+}
+
+/**
+ * Returns the options of a single plugin from the guild config as a standalone YAML document, preserving comments
+ *
+ * @return - The plugin's options, or null if the plugin is not in the config
+ */
+export function getPluginConfigSection(configText: string, pluginName: string): string | null {
+  const block = findYamlPathBlock(configText, ["plugins", pluginName]);
+  if (!block) {
+    return null;
+  }
+
+  const lines = configText.split(/\r?\n/);
+  const inlineValue = getInlineValue(lines[block.startLine]);
+  const childLines = lines.slice(block.startLine + 1, block.endLine);
+  const meaningfulChildLines = childLines.filter(isMeaningfulLine);
+  if (meaningfulChildLines.length === 0) {
+    return inlineValue === "" ? "" : inlineValue + "\n";
+  }
+
+  const childIndent = Math.min(...meaningfulChildLines.map(getIndent));
+  const dedentedLines = childLines.map((line) =>
+    getIndent(line) >= childIndent ? line.slice(childIndent) : line.trim(),
+  );
+  return dedentedLines.join("\n") + "\n";
+}
+
+/**
+ * Replaces (or adds) the options of a single plugin in the guild config, leaving the rest of the config text untouched
+ *
+ * @throws PluginConfigSectionError - If the plugins in the config are not in a format we can safely edit
+ */
+export function replacePluginConfigSection(configText: string, pluginName: string, sectionText: string): string {
+  const lines = configText.replace(/\s+$/, "").split(/\r?\n/);
+  const sectionLines = sectionText.replace(/\s+$/, "").split(/\r?\n/);
+  const isEmptySection = !sectionLines.some(isMeaningfulLine);
+
+  const buildPluginLines = (indent: number) => {
+    const indentStr = " ".repeat(indent);
+    const childIndentStr = " ".repeat(indent + pluginIndentSize);
+    if (isEmptySection) {
+      return [`${indentStr}${pluginName}: {}`];
+    }
+
+    return [
+      `${indentStr}${pluginName}:`,
+      ...sectionLines.map((line) => (line.trim() === "" ? "" : childIndentStr + line)),
+    ];
+  };
+
+  const pluginBlock = findYamlPathBlock(configText, ["plugins", pluginName]);
+  if (pluginBlock) {
+    lines.splice(
+      pluginBlock.startLine,
+      pluginBlock.endLine - pluginBlock.startLine,
+      ...buildPluginLines(pluginBlock.column),
+    );
+    return lines.join("\n") + "\n";
+  }
+
+  const pluginsBlock = findYamlPathBlock(configText, ["plugins"]);
+  if (!pluginsBlock) {
+    if (lines.some((line) => /^["']?plugins["']?\s*:/.test(line))) {
+      throw new PluginConfigSectionError("Could not find the plugins section in the config");
+    }
+
+    const newLines = configText.trim() === "" ? [] : [...lines, ""];
+    newLines.push("plugins:", ...buildPluginLines(pluginIndentSize));
+    return newLines.join("\n") + "\n";
+  }
+
+  const pluginsInlineValue = getInlineValue(lines[pluginsBlock.startLine]);
+  if (pluginsInlineValue !== "" && pluginsInlineValue !== "{}") {
+    throw new PluginConfigSectionError("Plugins written in flow style can't be edited separately");
+  }
+  if (pluginsInlineValue === "{}") {
+    lines[pluginsBlock.startLine] = `${" ".repeat(pluginsBlock.column)}plugins:`;
+  }
+
+  const existingPluginLine = lines
+    .slice(pluginsBlock.startLine + 1, pluginsBlock.endLine)
+    .find((line) => isMeaningfulLine(line));
+  const pluginIndent = existingPluginLine ? getIndent(existingPluginLine) : pluginsBlock.column + pluginIndentSize;
+  lines.splice(pluginsBlock.endLine, 0, ...buildPluginLines(pluginIndent));
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,29 @@
+import test from "ava";
+import { isPrivateNetworkAddress, isPrivateNetworkHostname } from "./privateNetworkAddresses";
+
+test("isPrivateNetworkAddress() matches loopback, private and link-local addresses", (t) => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0"]) {
+    t.true(isPrivateNetworkAddress(address), address);
+  }
+  for (const address of ["::1", "::", "fd00::1", "fe80::1"]) {
+    t.true(isPrivateNetworkAddress(address), address);
+  }
+});
+
+test("isPrivateNetworkAddress() checks IPv4-mapped IPv6 addresses as IPv4", (t) => {
+  t.true(isPrivateNetworkAddress("::ffff:127.0.0.1"));
+  t.false(isPrivateNetworkAddress("::ffff:8.8.8.8"));
+});
+
+test("isPrivateNetworkAddress() doesn't match public addresses", (t) => {
+  for (const address of ["8.8.8.8", "172.32.0.1", "1.1.1.1", "2606:4700:4700::1111"]) {
+    t.false(isPrivateNetworkAddress(address), address);
+  }
+});
+
+test("isPrivateNetworkHostname() matches localhost and bracketed IPv6 hosts", (t) => {
+  t.true(isPrivateNetworkHostname("localhost"));
+  t.true(isPrivateNetworkHostname("api.LOCALHOST."));
+  t.true(isPrivateNetworkHostname("[::1]"));
+  t.false(isPrivateNetworkHostname("example.com"));
+});
@@ -0,0 +1,69 @@
+import dns from "dns";
+import net from "net";
+
+const privateNetworks = new net.BlockList();
+// IPv4: "this" network, private, CGNAT, loopback, link-local, IETF protocol assignments, benchmarking, multicast, reserved
+privateNetworks.addSubnet("0.0.0.0", 8, "ipv4");
+privateNetworks.addSubnet("10.0.0.0", 8, "ipv4");
+privateNetworks.addSubnet("100.64.0.0", 10, "ipv4");
+privateNetworks.addSubnet("127.0.0.0", 8, "ipv4");
+privateNetworks.addSubnet("169.254.0.0", 16, "ipv4");
+privateNetworks.addSubnet("172.16.0.0", 12, "ipv4");
+privateNetworks.addSubnet("192.0.0.0", 24, "ipv4");
+privateNetworks.addSubnet("192.168.0.0", 16, "ipv4");
+privateNetworks.addSubnet("198.18.0.0", 15, "ipv4");
+privateNetworks.addSubnet("224.0.0.0", 3, "ipv4");
+// IPv6: unspecified, loopback, unique local, link-local, multicast
+privateNetworks.addAddress("::", "ipv6");
+privateNetworks.addAddress("::1", "ipv6");
+privateNetworks.addSubnet("fc00::", 7, "ipv6");
+privateNetworks.addSubnet("fe80::", 10, "ipv6");
+privateNetworks.addSubnet("ff00::", 8, "ipv6");
+
+const ipv4MappedRegex = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+/**
+ * Checks whether the IP address belongs to a loopback, private, link-local or otherwise non-public network.
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as the IPv4 address they map to.
+ */
+export function isPrivateNetworkAddress(address: string): boolean {
+  const mappedIpv4 = address.match(ipv4MappedRegex);
+  if (mappedIpv4) {
+    address = mappedIpv4[1];
+  }
+
+  const family = net.isIP(address);
+  if (family === 4) return privateNetworks.check(address, "ipv4");
+  if (family === 6) return privateNetworks.check(address, "ipv6");
+  return false;
+}
+
+/**
+ * Checks whether the hostname is "localhost" or a private network IP address, without resolving it.
+ * Used to reject obviously internal URLs early. Use resolvesToPrivateNetworkAddress() before connecting.
+ */
+export function isPrivateNetworkHostname(hostname: string): boolean {
+  // URL.hostname keeps the brackets around IPv6 addresses
+  const host = hostname
+    .replace(/^\[(.*)\]$/, "$1")
+    .replace(/\.$/, "")
+    .toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return true;
+  }
+
+  return isPrivateNetworkAddress(host);
+}
+
+/**
+ * Resolves the hostname and checks whether any of its addresses are private network addresses
+ */
+export async function resolvesToPrivateNetworkAddress(hostname: string): Promise<boolean> {
+  if (isPrivateNetworkHostname(hostname)) {
+    return true;
+  }
+
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  return addresses.some((entry) => isPrivateNetworkAddress(entry.address));
+}
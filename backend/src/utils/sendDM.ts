@@ -1,4 +1,4 @@
-import { MessagePayload, User } from "discord.js";
+import { Message, MessageCreateOptions, MessagePayload, User } from "discord.js";
 import { logger } from "../logger";
 import { HOURS, createChunkedMessage, isDiscordAPIError } from "../utils";
 import Timeout = NodeJS.Timeout;
@@ -16,7 +16,12 @@ export class DMError extends Error {}
 
 const error20026 = "The bot cannot currently send DMs";
 
-export async function sendDM(user: User, content: string | MessagePayload, source: string) {
+export async function sendDM(
+  user: User,
+  content: string | MessagePayload,
+  source: string,
+  components?: MessageCreateOptions["components"],
+): Promise<Message | null> {
   if (dmsDisabled) {
     throw new DMError(error20026);
   }
@@ -25,9 +30,9 @@ export async function sendDM(user: User, content: string | MessagePayload, sourc
 
   try {
     if (typeof content === "string") {
-      await createChunkedMessage(user, content);
+      return await createChunkedMessage(user, content, undefined, components);
     } else {
-      await user.send(content);
+      return await user.send(content);
     }
   } catch (e) {
     if (isDiscordAPIError(e) && e.code === 20026) {
@@ -0,0 +1,28 @@
+import { CaseTypeToName } from "../data/CaseTypes";
+import { Case } from "../data/entities/Case";
+
+/**
+ * Converts a case to a plain object for API responses and outbound webhooks
+ */
+export function serializeCase(theCase: Case) {
+  return {
+    case_number: theCase.case_number,
+    type: CaseTypeToName[theCase.type] ?? null,
+    user_id: theCase.user_id,
+    user_name: theCase.user_name,
+    mod_id: theCase.mod_id,
+    mod_name: theCase.mod_name,
+    pp_id: theCase.pp_id,
+    pp_name: theCase.pp_name,
+    is_hidden: theCase.is_hidden,
+    created_at: theCase.created_at,
+    notes: [...(theCase.notes ?? [])]
+      .sort((a, b) => a.id - b.id)
+      .map((note) => ({
+        mod_id: note.mod_id,
+        mod_name: note.mod_name,
+        body: note.body,
+        created_at: note.created_at,
+      })),
+  };
+}
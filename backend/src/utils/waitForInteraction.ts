@@ -2,6 +2,7 @@ import {
   ActionRowBuilder,
   ButtonBuilder,
   ButtonStyle,
+  ChatInputCommandInteraction,
   GuildTextBasedChannel,
   MessageActionRowComponentBuilder,
   MessageComponentInteraction,
@@ -10,14 +11,16 @@ import {
 import moment from "moment";
 import { v4 as uuidv4 } from "uuid";
 import { noop } from "../utils";
+import { isInteractionResponseTarget, sendContextResponse } from "./commandResponseTarget";
 
 export async function waitForButtonConfirm(
-  channel: GuildTextBasedChannel,
-  toPost: MessageCreateOptions,
+  context: GuildTextBasedChannel | ChatInputCommandInteraction,
+  toPost: Omit<MessageCreateOptions, "flags">,
   options?: WaitForOptions,
 ): Promise<boolean> {
   return new Promise(async (resolve) => {
-    const idMod = `${channel.guild.id}-${moment.utc().valueOf()}`;
+    const guildId = isInteractionResponseTarget(context) ? context.guildId : context.guild.id;
+    const idMod = `${guildId}-${moment.utc().valueOf()}`;
     const row = new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents([
       new ButtonBuilder()
         .setStyle(ButtonStyle.Success)
@@ -29,7 +32,10 @@ export async function waitForButtonConfirm(
         .setLabel(options?.cancelText || "Cancel")
         .setCustomId(`cancelButton:${idMod}:${uuidv4()}`),
     ]);
-    const message = await channel.send({ ...toPost, components: [row] });
+    const message = await sendContextResponse(context, { ...toPost, components: [row] });
+    // Ephemeral interaction responses can't be deleted like regular messages
+    const deletePrompt = (): Promise<unknown> =>
+      isInteractionResponseTarget(context) ? context.deleteReply(message) : message.delete();
 
     const collector = message.createMessageComponentCollector({ time: 10000 });
 
@@ -41,16 +47,16 @@ export async function waitForButtonConfirm(
           .catch((err) => console.trace(err.message));
       } else {
         if (interaction.customId.startsWith(`confirmButton:${idMod}:`)) {
-          message.delete();
+          deletePrompt().catch(noop);
           resolve(true);
         } else if (interaction.customId.startsWith(`cancelButton:${idMod}:`)) {
-          message.delete();
+          deletePrompt().catch(noop);
           resolve(false);
         }
       }
     });
     collector.on("end", () => {
-      if (message.deletable) message.delete().catch(noop);
+      if (isInteractionResponseTarget(context) || message.deletable) deletePrompt().catch(noop);
       resolve(false);
     });
   });
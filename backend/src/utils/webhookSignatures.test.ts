@@ -0,0 +1,14 @@
+import test from "ava";
+import { signWebhookPayload } from "./webhookSignatures";
+
+test("signWebhookPayload() signs the timestamp and body with HMAC-SHA256", (t) => {
+  // Computed with: printf '1700000000.{"foo":"bar"}' | openssl dgst -sha256 -hmac secret
+  t.is(
+    signWebhookPayload("secret", "1700000000", '{"foo":"bar"}'),
+    "sha256=c0b6691746876caf89e997456abac7eb26dac2084e09a044660217fbae107cf4",
+  );
+});
+
+test("signWebhookPayload() signatures depend on the timestamp", (t) => {
+  t.not(signWebhookPayload("secret", "1700000000", "{}"), signWebhookPayload("secret", "1700000001", "{}"));
+});
@@ -0,0 +1,12 @@
+import crypto from "crypto";
+
+/**
+ * Signs an outbound webhook body. The signed message is `${timestamp}.${body}` so receivers can reject replayed
+ * requests by checking the timestamp header.
+ *
+ * @return - The signature in the format "sha256=<hex digest>"
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
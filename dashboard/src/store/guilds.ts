@@ -10,6 +10,8 @@ export const GuildStore: Module<GuildState, RootState> = {
     availableGuildsLoadStatus: LoadStatus.None,
     available: new Map(),
     configs: {},
+    activeConfigRevisionIds: {},
+    configRevisions: {},
     guildPermissionAssignments: {},
   },
 
@@ -39,11 +41,43 @@ export const GuildStore: Module<GuildState, RootState> = {
 
     async loadConfig({ commit }, guildId) {
       const result = await get(`guilds/${guildId}/config`);
-      commit("setConfig", { guildId, config: result.config });
+      commit("setConfig", { guildId, config: result.config, revisionId: result.revision_id });
     },
 
-    async saveConfig({ commit }, { guildId, config }) {
-      await post(`guilds/${guildId}/config`, { config });
+    async saveConfig({ commit }, { guildId, config, revisionId }) {
+      const result = await post(`guilds/${guildId}/config`, { config, revision_id: revisionId });
+      commit("setConfig", { guildId, config, revisionId: result.revision_id });
+    },
+
+    async loadPluginConfigList({ commit }, guildId) {
+      return get(`guilds/${guildId}/config/plugins`);
+    },
+
+    async loadPluginConfig({ commit }, { guildId, plugin }) {
+      return get(`guilds/${guildId}/config/plugins/${plugin}`);
+    },
+
+    async savePluginConfig({ commit }, { guildId, plugin, config, revisionId }) {
+      return post(`guilds/${guildId}/config/plugins/${plugin}`, { config, revision_id: revisionId });
+    },
+
+    async validateConfig({ commit }, { guildId, config }) {
+      return post(`guilds/${guildId}/config/validate`, { config });
+    },
+
+    async loadConfigRevisions({ commit }, guildId) {
+      const result = await get(`guilds/${guildId}/config/revisions`);
+      commit("setConfigRevisions", { guildId, revisions: result.revisions });
+    },
+
+    async loadConfigDiff({ commit }, { guildId, from, to }) {
+      const params = to != null ? { from, to } : { from };
+      return get(`guilds/${guildId}/config/diff`, params);
+    },
+
+    async rollbackConfig({ dispatch }, { guildId, revisionId }) {
+      await post(`guilds/${guildId}/config/revisions/${revisionId}/rollback`);
+      await Promise.all([dispatch("loadConfig", guildId), dispatch("loadConfigRevisions", guildId)]);
     },
 
     async loadMyPermissionAssignments({ commit }) {
@@ -88,8 +122,13 @@ export const GuildStore: Module<GuildState, RootState> = {
       state.available = state.available;
     },
 
-    setConfig(state: GuildState, { guildId, config }) {
+    setConfig(state: GuildState, { guildId, config, revisionId }) {
       Vue.set(state.configs, guildId, config);
+      Vue.set(state.activeConfigRevisionIds, guildId, revisionId);
+    },
+
+    setConfigRevisions(state: GuildState, { guildId, revisions }) {
+      Vue.set(state.configRevisions, guildId, revisions);
     },
 
     setGuildPermissionAssignments(state: GuildState, { guildId, permissionAssignments }) {
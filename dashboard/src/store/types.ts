@@ -23,6 +23,37 @@ export interface GuildPermissionAssignment {
   expires_at: string | null;
 }
 
+export interface ConfigValidationIssue {
+  plugin: string | null;
+  path: Array<string | number>;
+  line: number | null;
+  column: number | null;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  errors: ConfigValidationIssue[];
+  warnings: ConfigValidationIssue[];
+}
+
+export interface PluginConfigList {
+  full_config_access: boolean;
+  plugins: string[];
+}
+
+export interface ConfigRevision {
+  id: number;
+  is_active: boolean;
+  edited_by: string;
+  edited_at: string;
+  editor: {
+    username: string;
+    discriminator: string;
+    avatar: string;
+  } | null;
+}
+
 export interface GuildState {
   availableGuildsLoadStatus: LoadStatus;
   available: Map<
@@ -36,6 +67,12 @@ export interface GuildState {
   configs: {
     [key: string]: string;
   };
+  activeConfigRevisionIds: {
+    [guildId: string]: number | null;
+  };
+  configRevisions: {
+    [guildId: string]: ConfigRevision[];
+  };
   guildPermissionAssignments: {
     [guildId: string]: GuildPermissionAssignment[];
   };
@@ -11,3 +11,18 @@ test("Implicitly granted permissions by hierarchy match", (t) => {
   t.is(hasPermission(new Set([ApiPermissions.ManageAccess]), ApiPermissions.ReadConfig), true);
   t.is(hasPermission(new Set([ApiPermissions.EditConfig]), ApiPermissions.ManageAccess), false);
 });
+
+test("Scoped permissions only grant the permissions nested under them", (t) => {
+  t.is(hasPermission(new Set([ApiPermissions.EditTagsConfig]), ApiPermissions.ViewGuild), true);
+  t.is(hasPermission(new Set([ApiPermissions.EditTagsConfig]), ApiPermissions.ReadConfig), false);
+  t.is(hasPermission(new Set([ApiPermissions.ImportExportCases]), ApiPermissions.ViewCases), true);
+  t.is(hasPermission(new Set([ApiPermissions.ViewCases]), ApiPermissions.ImportExportCases), false);
+  t.is(hasPermission(new Set([ApiPermissions.ViewArchives]), ApiPermissions.ViewCases), false);
+});
+
+test("Scoped permissions are implicitly granted by higher permissions", (t) => {
+  t.is(hasPermission(new Set([ApiPermissions.EditConfig]), ApiPermissions.EditTagsConfig), true);
+  t.is(hasPermission(new Set([ApiPermissions.EditConfig]), ApiPermissions.ViewCases), false);
+  t.is(hasPermission(new Set([ApiPermissions.ManageAccess]), ApiPermissions.ImportExportCases), true);
+  t.is(hasPermission(new Set([ApiPermissions.ManageAccess]), ApiPermissions.ViewArchives), true);
+});
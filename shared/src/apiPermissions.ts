@@ -4,6 +4,12 @@ export enum ApiPermissions {
   EditConfig = "EDIT_CONFIG",
   ReadConfig = "READ_CONFIG",
   ViewGuild = "VIEW_GUILD",
+
+  // Scoped permissions that grant access to a specific part of the dashboard without a full config role
+  EditTagsConfig = "EDIT_TAGS_CONFIG",
+  ImportExportCases = "IMPORT_EXPORT_CASES",
+  ViewCases = "VIEW_CASES",
+  ViewArchives = "VIEW_ARCHIVES",
 }
 
 const reverseApiPermissions = Object.entries(ApiPermissions).reduce((map, [key, value]) => {
@@ -17,10 +23,23 @@ export const permissionNames = {
   [ApiPermissions.EditConfig]: "Bot operator",
   [ApiPermissions.ReadConfig]: "Read config",
   [ApiPermissions.ViewGuild]: "View server",
+  [ApiPermissions.EditTagsConfig]: "Edit tags config",
+  [ApiPermissions.ImportExportCases]: "Import/export cases",
+  [ApiPermissions.ViewCases]: "View cases",
+  [ApiPermissions.ViewArchives]: "View archives",
+};
+
+/**
+ * Plugins whose config can be read and edited with a scoped permission, without needing ReadConfig/EditConfig
+ */
+export const pluginConfigPermissions: Partial<Record<string, ApiPermissions>> = {
+  tags: ApiPermissions.EditTagsConfig,
 };
 
 export type TPermissionHierarchy = Array<ApiPermissions | [ApiPermissions, TPermissionHierarchy]>;
 
+// Scoped permissions are not part of a single chain: the same permission can be nested under several others,
+// and granting one only implies the permissions nested under it
 // prettier-ignore
 export const permissionHierarchy: TPermissionHierarchy = [
   [ApiPermissions.Owner, [
@@ -29,6 +48,17 @@ export const permissionHierarchy: TPermissionHierarchy = [
         [ApiPermissions.ReadConfig, [
           ApiPermissions.ViewGuild,
         ]],
+        [ApiPermissions.EditTagsConfig, [
+          ApiPermissions.ViewGuild,
+        ]],
+      ]],
+      [ApiPermissions.ImportExportCases, [
+        [ApiPermissions.ViewCases, [
+          ApiPermissions.ViewGuild,
+        ]],
+      ]],
+      [ApiPermissions.ViewArchives, [
+        ApiPermissions.ViewGuild,
       ]],
     ]],
   ]],